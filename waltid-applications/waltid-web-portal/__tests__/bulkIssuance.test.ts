@@ -0,0 +1,187 @@
+import {AvailableCredential} from '../types/credentials';
+import {
+  buildBulkRowOffer,
+  getBulkClaimTargets,
+  parseBulkFile,
+  parseClaimValue,
+  parseCsv,
+  PIN_TARGET,
+  RECIPIENT_TARGET,
+  suggestBulkMapping,
+} from '../utils/bulkIssuance';
+import {buildMbox, buildOfferEmail, buildOfferSheetCsv} from '../utils/offerSheets';
+
+const OPEN_BADGE: AvailableCredential = {
+  id: 'OpenBadgeCredential',
+  title: 'Open Badge',
+  offer: {
+    type: ['VerifiableCredential', 'OpenBadgeCredential'],
+    credentialSubject: {
+      name: 'Jane Doe',
+      achievement: { name: 'Course', hours: 10 },
+      verified: false,
+    },
+  },
+};
+
+const MDL: AvailableCredential = {
+  id: 'Iso18013DriversLicenseCredential',
+  title: 'mDL',
+  offer: {
+    'org.iso.18013.5.1': { family_name: 'Doe', age_over_18: true },
+  },
+};
+
+describe('Bulk file parsing', () => {
+  it('should parse quoted CSV cells with delimiters, quotes and line breaks', () => {
+    expect(parseCsv('\uFEFFname,note\r\n"Doe, Jane","says ""hi""\nthere"\r\n\r\nRoe,\r\n')).toEqual([
+      ['name', 'note'],
+      ['Doe, Jane', 'says "hi"\nthere'],
+      ['Roe', ''],
+    ]);
+  });
+
+  it('should detect semicolon delimited CSV', () => {
+    expect(parseBulkFile('people.csv', 'name;email\nJane;jane@example.com\n')).toEqual({
+      columns: ['name', 'email'],
+      rows: [{ name: 'Jane', email: 'jane@example.com' }],
+    });
+  });
+
+  it('should reject duplicate CSV columns and unterminated quotes', () => {
+    expect(() => parseBulkFile('people.csv', 'name,name\nJane,Doe')).toThrow('"name" appears more than once');
+    expect(() => parseCsv('name\n"Jane')).toThrow('quoted value');
+  });
+
+  it('should flatten JSON objects into dotted columns', () => {
+    const sheet = parseBulkFile('people.json', JSON.stringify([
+      { name: 'Jane', achievement: { hours: 12 }, tags: ['a', 'b'] },
+      { name: 'John', email: 'john@example.com' },
+    ]));
+
+    expect(sheet.columns).toEqual(['name', 'achievement.hours', 'tags', 'email']);
+    expect(sheet.rows[0]).toEqual({ name: 'Jane', 'achievement.hours': '12', tags: '["a","b"]' });
+  });
+
+  it('should reject files without rows', () => {
+    expect(() => parseBulkFile('people.csv', 'name\n')).toThrow('contains no rows');
+    expect(() => parseBulkFile('people.json', '{"name":"Jane"}')).toThrow('array of objects');
+  });
+});
+
+describe('Bulk column mapping', () => {
+  it('should suggest columns named like claim paths or claims', () => {
+    const targets = getBulkClaimTargets([OPEN_BADGE]);
+    const mapping = suggestBulkMapping(['Name', 'achievement.hours', 'E-Mail', 'PIN'], targets);
+
+    expect(mapping).toEqual({
+      '0:name': 'Name',
+      '0:achievement.name': 'Name',
+      '0:achievement.hours': 'achievement.hours',
+      [RECIPIENT_TARGET]: 'E-Mail',
+      [PIN_TARGET]: 'PIN',
+    });
+  });
+
+  it('should parse cells with the type of the example value', () => {
+    expect(parseClaimValue(' yes ', false)).toBe(true);
+    expect(parseClaimValue('12.5', 10)).toBe(12.5);
+    expect(parseClaimValue('a; b;', [])).toEqual(['a', 'b']);
+    expect(parseClaimValue('["a"]', [])).toEqual(['a']);
+    expect(() => parseClaimValue('ten', 10)).toThrow('not a number');
+  });
+});
+
+describe('Bulk row offers', () => {
+  it('should set mapped claims and keep the others', () => {
+    const targets = getBulkClaimTargets([OPEN_BADGE]);
+    const offer = buildBulkRowOffer([OPEN_BADGE], targets, { '0:name': 'name', '0:achievement.hours': 'hours' }, {
+      name: 'John Roe',
+      hours: '20',
+    });
+
+    expect(offer.credentials[0].offer.credentialSubject).toEqual({
+      name: 'John Roe',
+      achievement: { name: 'Course', hours: 20 },
+      verified: false,
+    });
+    expect(offer.credentials[0].offer.type).toEqual(OPEN_BADGE.offer.type);
+    expect(OPEN_BADGE.offer.credentialSubject.name).toBe('Jane Doe');
+  });
+
+  it('should keep mDoc namespaces intact', () => {
+    const targets = getBulkClaimTargets([OPEN_BADGE, MDL]);
+    const offer = buildBulkRowOffer([OPEN_BADGE, MDL], targets, {
+      '1:org.iso.18013.5.1.family_name': 'family_name',
+      '1:org.iso.18013.5.1.age_over_18': 'adult',
+    }, { family_name: 'Roe', adult: 'no' });
+
+    expect(targets.find((target) => target.id === '1:org.iso.18013.5.1.family_name')?.label)
+      .toBe('mDL › org.iso.18013.5.1.family_name');
+    expect(offer.credentials[1].offer).toEqual({
+      'org.iso.18013.5.1': { family_name: 'Roe', age_over_18: false },
+    });
+  });
+
+  it('should report every problem of a row', () => {
+    const targets = getBulkClaimTargets([OPEN_BADGE]);
+    const mapping = {
+      '0:name': 'name',
+      '0:achievement.hours': 'hours',
+      [RECIPIENT_TARGET]: 'email',
+      [PIN_TARGET]: 'pin',
+    };
+
+    expect(() => buildBulkRowOffer([OPEN_BADGE], targets, mapping, { name: ' ', hours: 'ten', email: 'jane', pin: '' }))
+      .toThrow('name is empty; achievement.hours: "ten" is not a number; "jane" is not an email address; PIN is empty');
+  });
+
+  it('should return recipient and PIN of a row', () => {
+    const offer = buildBulkRowOffer([OPEN_BADGE], [], { [RECIPIENT_TARGET]: 'email', [PIN_TARGET]: 'pin' }, {
+      email: ' jane@example.com ',
+      pin: '1234',
+    });
+
+    expect(offer.recipient).toBe('jane@example.com');
+    expect(offer.pin).toBe('1234');
+  });
+});
+
+describe('Offer sheets', () => {
+  const OFFER_URL = 'openid-credential-offer://?credential_offer_uri=http%3A%2F%2Flocalhost%3A7002%2Foffer';
+
+  it('should list the offer of every row in the CSV sheet', () => {
+    const csv = buildOfferSheetCsv([
+      { row: 1, data: { name: 'Doe, Jane' }, recipient: 'jane@example.com', pin: '1234', offerUrl: OFFER_URL },
+      { row: 2, data: { name: 'John' }, error: 'name is empty' },
+    ], ['name']);
+
+    expect(csv).toBe(
+      'row,name,recipient,pin,offer_url,error\r\n' +
+      `1,"Doe, Jane",jane@example.com,1234,${OFFER_URL},\r\n` +
+      '2,John,,,,name is empty\r\n'
+    );
+  });
+
+  it('should render an unsent email with the offer link and QR code', () => {
+    const email = buildOfferEmail({
+      to: 'jane@example.com',
+      subject: 'Ihr Nachweis',
+      credentialTitles: ['Open Badge'],
+      offerUrl: OFFER_URL,
+      qrSvg: '<svg xmlns="http://www.w3.org/2000/svg"></svg>',
+    });
+
+    expect(email).toContain('To: jane@example.com\r\n');
+    expect(email).toContain('X-Unsent: 1\r\n');
+    expect(email).toContain('filename="credential-offer.svg"');
+    const text = email.split('Content-Type: text/plain; charset=utf-8\r\nContent-Transfer-Encoding: base64\r\n\r\n')[1].split('\r\n--')[0];
+    expect(Buffer.from(text.replace(/\r\n/g, ''), 'base64').toString()).toContain(OFFER_URL);
+  });
+
+  it('should escape From lines in the mbox', () => {
+    const mbox = buildMbox(['To: a@example.com\r\n\r\nFrom here on\r\n'], new Date('2026-01-01T00:00:00Z'));
+
+    expect(mbox).toBe('From bulk-issuance Thu, 01 Jan 2026 00:00:00 GMT\nTo: a@example.com\n\n>From here on\n\n');
+  });
+});
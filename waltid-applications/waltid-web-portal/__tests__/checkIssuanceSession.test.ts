@@ -0,0 +1,153 @@
+import axios from 'axios';
+import {
+  checkIssuanceSession,
+  getIssuanceSessionIdFromOffer,
+  getIssuanceSteps,
+  IssuanceSessionInfo,
+  PRE_AUTHORIZED_CODE_GRANT,
+} from '../utils/checkIssuanceSession';
+
+jest.mock('axios');
+const mockedAxios = axios as jest.Mocked<typeof axios>;
+
+const SESSION: IssuanceSessionInfo = {
+  id: '501414a4-c461-43f0-84b2-c628730c7c02',
+  grantType: 'authorization_code',
+  status: 'ACTIVE',
+  closed: false,
+  credentialConfigurationIds: ['UniversityDegree_jwt_vc_json'],
+  expiresAt: '2026-01-01T00:00:00Z',
+};
+
+describe('Issuance session id', () => {
+  it('should read the session id from a credential_offer_uri', () => {
+    const offerUri = encodeURIComponent(`http://localhost:7002/draft13/credentialOffer?id=${SESSION.id}`);
+
+    expect(getIssuanceSessionIdFromOffer(`openid-credential-offer://?credential_offer_uri=${offerUri}`)).toBe(SESSION.id);
+  });
+
+  it('should read the issuer_state of an offer passed by value', () => {
+    const offer = encodeURIComponent(JSON.stringify({
+      credential_issuer: 'http://localhost:7002',
+      grants: { authorization_code: { issuer_state: SESSION.id } },
+    }));
+
+    expect(getIssuanceSessionIdFromOffer(`openid-credential-offer://localhost/?credential_offer=${offer}`)).toBe(SESSION.id);
+  });
+
+  it('should return null for offers without a session reference', () => {
+    expect(getIssuanceSessionIdFromOffer('not an offer')).toBeNull();
+  });
+});
+
+describe('Issuance steps', () => {
+  it('should include the authorization step for authorization code offers', () => {
+    expect(getIssuanceSteps({ ...SESSION, authorizedAt: '2025-01-01T00:00:00Z' })).toEqual([
+      { label: 'Wallet authorized', done: true },
+      { label: 'Token redeemed', done: false },
+      { label: 'Credential received', done: false },
+    ]);
+  });
+
+  it('should skip the authorization step for pre-authorized offers', () => {
+    const steps = getIssuanceSteps({
+      ...SESSION,
+      grantType: PRE_AUTHORIZED_CODE_GRANT,
+      tokenIssuedAt: '2025-01-01T00:00:00Z',
+      status: 'SUCCESSFUL',
+    });
+
+    expect(steps.map((step) => step.done)).toEqual([true, true]);
+  });
+});
+
+describe('checkIssuanceSession', () => {
+  const ISSUER = 'http://localhost:7002';
+  const finished = { ...SESSION, status: 'SUCCESSFUL', closed: true, tokenIssuedAt: '2025-01-01T00:00:00Z' };
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    mockedAxios.get.mockReset();
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should poll with backoff until the session has finished', async () => {
+    mockedAxios.get
+      .mockResolvedValueOnce({ data: SESSION })
+      .mockResolvedValueOnce({ data: SESSION })
+      .mockResolvedValueOnce({ data: finished });
+    const onUpdate = jest.fn();
+
+    const result = checkIssuanceSession(ISSUER, SESSION.id, { onUpdate });
+    await jest.advanceTimersByTimeAsync(2999);
+    // The unchanged second poll doubled the interval
+    expect(mockedAxios.get).toHaveBeenCalledTimes(2);
+    await jest.advanceTimersByTimeAsync(1);
+
+    expect(await result).toEqual(finished);
+    expect(mockedAxios.get).toHaveBeenCalledWith(
+      `${ISSUER}/openid4vc/session/${SESSION.id}`,
+      expect.anything()
+    );
+    // Unchanged responses are reported once
+    expect(onUpdate).toHaveBeenCalledTimes(2);
+  });
+
+  it('should keep polling after transient errors', async () => {
+    mockedAxios.get
+      .mockRejectedValueOnce(new Error('Network Error'))
+      .mockRejectedValueOnce(new Error('Request failed with status code 502'))
+      .mockResolvedValueOnce({ data: finished });
+
+    const result = checkIssuanceSession(ISSUER, SESSION.id);
+    await jest.advanceTimersByTimeAsync(6000);
+
+    expect(await result).toEqual(finished);
+  });
+
+  it('should give up after maxErrors failed requests in a row', async () => {
+    mockedAxios.get.mockRejectedValue(new Error('Network Error'));
+
+    const result = checkIssuanceSession(ISSUER, SESSION.id, { maxErrors: 3 });
+    await jest.advanceTimersByTimeAsync(6000);
+
+    expect(await result).toBeNull();
+    expect(mockedAxios.get).toHaveBeenCalledTimes(3);
+  });
+
+  it('should resolve with null for unknown sessions', async () => {
+    mockedAxios.get.mockRejectedValueOnce(Object.assign(new Error('Request failed with status code 404'), { response: { status: 404 } }));
+
+    expect(await checkIssuanceSession(ISSUER, 'unknown')).toBeNull();
+    expect(mockedAxios.get).toHaveBeenCalledTimes(1);
+  });
+
+  it('should stop polling when the session does not finish in time', async () => {
+    mockedAxios.get.mockResolvedValue({ data: SESSION });
+
+    const result = checkIssuanceSession(ISSUER, SESSION.id, { timeoutMs: 10000 });
+    await jest.advanceTimersByTimeAsync(10000);
+
+    expect(await result).toBeNull();
+    const calls = mockedAxios.get.mock.calls.length;
+    await jest.advanceTimersByTimeAsync(10000);
+    expect(mockedAxios.get).toHaveBeenCalledTimes(calls);
+  });
+
+  it('should stop when the signal aborts', async () => {
+    mockedAxios.get.mockResolvedValue({ data: SESSION });
+    const controller = new AbortController();
+
+    const result = checkIssuanceSession(ISSUER, SESSION.id, { signal: controller.signal });
+    await jest.advanceTimersByTimeAsync(0);
+    controller.abort();
+
+    expect(await result).toBeNull();
+    await jest.advanceTimersByTimeAsync(10000);
+    expect(mockedAxios.get).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,132 @@
+import {EudiCredentials} from '../types/credentials';
+import {
+  CredentialSchema,
+  getClaimErrors,
+  getCredentialSchemaUrls,
+  getOtherErrors,
+  getTypeMetadataUrl,
+  validateCredentialSubject,
+} from '../utils/credentialSchema';
+import {getMdocSchema, MDL_NAMESPACE, PID_NAMESPACE} from '../utils/mdocDataElements';
+
+function mdocSchema(namespace: string): CredentialSchema {
+  return { kind: 'mdoc', source: 'ISO/IEC 18013-5', schema: getMdocSchema([namespace]) };
+}
+
+const MDL = EudiCredentials.find((credential) => credential.id === 'org.iso.18013.5.1.mDL')!.offer;
+const PID = EudiCredentials.find((credential) => credential.id === 'eu.europa.ec.eudi.pid.1')!.offer;
+
+describe('mDoc data element validation', () => {
+  it('should accept the example mDL and PID', () => {
+    expect(validateCredentialSubject(MDL, mdocSchema(MDL_NAMESPACE))).toEqual([]);
+    expect(validateCredentialSubject(PID, mdocSchema(PID_NAMESPACE))).toEqual([]);
+  });
+
+  it('should report elements of the wrong type', () => {
+    const errors = validateCredentialSubject({
+      [MDL_NAMESPACE]: {
+        ...MDL[MDL_NAMESPACE],
+        birth_date: '15.01.1990',
+        issuing_country: 'Australia',
+        age_over_18: 'yes',
+        expiry_date: 'never',
+      },
+    }, mdocSchema(MDL_NAMESPACE));
+
+    expect(errors).toEqual([
+      { path: [MDL_NAMESPACE, 'birth_date'], message: 'must be a date (YYYY-MM-DD)' },
+      { path: [MDL_NAMESPACE, 'expiry_date'], message: 'must be a date (YYYY-MM-DD) or must be a date and time (ISO 8601)' },
+      { path: [MDL_NAMESPACE, 'issuing_country'], message: 'must match pattern "^[A-Z]{2}$"' },
+      { path: [MDL_NAMESPACE, 'age_over_18'], message: 'must be boolean' },
+    ]);
+  });
+
+  it('should report errors inside array values on the claim', () => {
+    const errors = validateCredentialSubject({
+      [MDL_NAMESPACE]: { driving_privileges: [{ issue_date: '2024-01-01' }] },
+    }, mdocSchema(MDL_NAMESPACE));
+
+    expect(getClaimErrors(errors, [MDL_NAMESPACE, 'driving_privileges']))
+      .toEqual(["0: must have required property 'vehicle_category_code'"]);
+  });
+
+  it('should not validate unknown namespaces', () => {
+    expect(getMdocSchema(['org.example.loyalty.1'])).toBeNull();
+  });
+});
+
+describe('W3C credentialSchema validation', () => {
+  const schema: CredentialSchema = {
+    kind: 'credentialSchema',
+    source: 'https://example.com/schema.json',
+    schema: {
+      $schema: 'https://json-schema.org/draft/2020-12/schema',
+      type: 'object',
+      required: ['issuer', 'credentialSubject'],
+      properties: {
+        credentialSubject: {
+          type: 'object',
+          required: ['name', 'email'],
+          additionalProperties: false,
+          properties: {
+            name: { type: 'string', minLength: 1 },
+            email: { type: 'string', format: 'email' },
+          },
+        },
+      },
+    },
+  };
+
+  it('should only report errors of the credential subject', () => {
+    const errors = validateCredentialSubject({ name: '', email: 'jane', nickname: 'J' }, schema);
+
+    expect(errors).toEqual([
+      { path: ['nickname'], message: 'must NOT have additional properties' },
+      { path: ['name'], message: 'must NOT have fewer than 1 characters' },
+      { path: ['email'], message: 'must be an email address' },
+    ]);
+  });
+
+  it('should keep errors without a claim apart', () => {
+    const errors = validateCredentialSubject({ name: 'Jane' }, schema);
+
+    expect(getOtherErrors(errors, [['name']])).toEqual([
+      { path: [], message: "must have required property 'email'" },
+    ]);
+  });
+
+  it('should find JSON Schema references of a credential', () => {
+    expect(getCredentialSchemaUrls({
+      credentialSchema: [
+        { id: 'https://example.com/schema.json', type: '1EdTechJsonSchemaValidator2019' },
+        { id: 'https://example.com/shacl.ttl', type: 'ShaclValidator2017' },
+      ],
+    })).toEqual(['https://example.com/schema.json']);
+    expect(getCredentialSchemaUrls({})).toEqual([]);
+  });
+});
+
+describe('SD-JWT VC type metadata validation', () => {
+  const schema: CredentialSchema = {
+    kind: 'typeMetadata',
+    source: 'https://issuer.example/.well-known/vct/draft13/identity_credential',
+    schema: {
+      type: 'object',
+      required: ['iss', 'vct', 'given_name'],
+      properties: { birthdate: { type: 'string', format: 'date' } },
+    },
+  };
+
+  it('should ignore claims the issuer adds', () => {
+    expect(validateCredentialSubject({ birthdate: '1990' }, schema)).toEqual([
+      { path: [], message: "must have required property 'given_name'" },
+      { path: ['birthdate'], message: 'must be a date (YYYY-MM-DD)' },
+    ]);
+  });
+
+  it('should locate the type metadata of a vct URL', () => {
+    expect(getTypeMetadataUrl('https://issuer.example/draft13/identity_credential'))
+      .toBe('https://issuer.example/.well-known/vct/draft13/identity_credential');
+    expect(getTypeMetadataUrl('urn:eudi:pid:1')).toBeUndefined();
+  });
+});
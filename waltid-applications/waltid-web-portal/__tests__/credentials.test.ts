@@ -1,4 +1,10 @@
-import { EudiCredentials, mapFormat, AvailableCredential, isEudiFormat, buildDcqlQuery, buildVerificationSessionRequest, VerificationSigningConfig } from '../types/credentials';
+import { createHash } from 'crypto';
+import { EudiCredentials, mapFormat, AvailableCredential, isEudiFormat, buildDcqlQuery, buildCredentialSets, getCredentialFormats, getSupportedFormats, getAvailableFormatsForCredential, applyCredentialConfigurations, isEudiCredential, CredentialConfiguration, getClaimCatalog, getClaimCatalogFromConfiguration, findCatalogEntry, buildVerificationSessionRequest, buildSameDeviceSessionRequest, buildSigningConfig, getAvailableClientIdSchemes, VerifierClientSettings, buildPaymentTransactionData, buildQesTransactionData, encodeTransactionData, getDocumentDigest, VerificationSigningConfig, buildTxCode, buildStatusVcPolicies, parseClaimValues, formatClaimValues } from '../types/credentials';
+
+// Request the same format for every credential
+function formatsFor(credentials: AvailableCredential[], format: string): Record<string, string> {
+  return Object.fromEntries(credentials.map((c) => [c.id, format]));
+}
 
 describe('Environment Configuration', () => {
   it('should recognize NEXT_PUBLIC_VERIFIER2 as a valid env variable', () => {
@@ -46,6 +52,70 @@ describe('EudiCredentials', () => {
   });
 });
 
+describe('Credential format registry', () => {
+  const configurations: Record<string, CredentialConfiguration> = {
+    'eu.europa.ec.eudi.pid.1': { format: 'mso_mdoc', doctype: 'eu.europa.ec.eudi.pid.1' },
+    'urn:eudi:pid:1': { format: 'dc+sd-jwt', vct: 'urn:eudi:pid:1' },
+    'UniversityDegree_jwt_vc_json': {
+      format: 'jwt_vc_json',
+      credential_definition: { type: ['VerifiableCredential', 'UniversityDegree'] },
+    },
+    'UniversityDegree_vc+sd-jwt': { format: 'vc+sd-jwt', vct: 'http://localhost:7002/UniversityDegree' },
+    'UniversityDegree_dc+sd-jwt': { format: 'dc+sd-jwt', vct: 'http://localhost:7002/UniversityDegree' },
+  };
+
+  it('should match mDoc configurations by doctype', () => {
+    expect(getSupportedFormats({ id: 'eu.europa.ec.eudi.pid.1', offer: {} }, configurations))
+      .toEqual(['mDoc (ISO 18013-5)']);
+  });
+
+  it('should match SD-JWT configurations by vct', () => {
+    expect(getSupportedFormats({ id: 'some-pid', offer: { vct: 'urn:eudi:pid:1' } }, configurations))
+      .toEqual(['DC+SD-JWT (EUDI)']);
+  });
+
+  it('should collect all formats the issuer offers for a credential type', () => {
+    expect(getSupportedFormats({ id: 'UniversityDegree', offer: {} }, configurations)).toEqual([
+      'JWT + W3C VC',
+      'SD-JWT + W3C VC',
+      'SD-JWT + IETF SD-JWT VC',
+      'DC+SD-JWT (EUDI)',
+    ]);
+  });
+
+  it('should return no formats for unknown credentials', () => {
+    expect(getSupportedFormats({ id: 'Unknown', offer: {} }, configurations)).toEqual([]);
+  });
+
+  it('should keep previous formats when the issuer does not advertise a credential', () => {
+    const credential: AvailableCredential = { id: 'Unknown', title: 'Unknown', formats: ['JWT + W3C VC'], offer: {} };
+
+    expect(applyCredentialConfigurations(credential, configurations)).toBe(credential);
+  });
+
+  it('should fall back to legacy formats without issuer information', () => {
+    expect(getAvailableFormatsForCredential({ id: 'Unknown', title: 'Unknown', offer: {} }))
+      .toEqual(['JWT + W3C VC', 'SD-JWT + W3C VC', 'SD-JWT + IETF SD-JWT VC']);
+  });
+
+  it('should keep the vct of each SD-JWT format', () => {
+    const degree = applyCredentialConfigurations({ id: 'UniversityDegree', title: 'Degree', offer: {} }, configurations);
+
+    expect(degree.vcts).toEqual({
+      'vc+sd-jwt': 'http://localhost:7002/UniversityDegree',
+      'dc+sd-jwt': 'http://localhost:7002/UniversityDegree',
+    });
+  });
+
+  it('should detect EUDI-only credentials', () => {
+    const pid = applyCredentialConfigurations({ id: 'eu.europa.ec.eudi.pid.1', title: 'PID', offer: {} }, configurations);
+    const degree = applyCredentialConfigurations({ id: 'UniversityDegree', title: 'Degree', offer: {} }, configurations);
+
+    expect(isEudiCredential(pid)).toBe(true);
+    expect(isEudiCredential(degree)).toBe(false);
+  });
+});
+
 describe('isEudiFormat', () => {
   it('should return true for dc+sd-jwt format', () => {
     expect(isEudiFormat('dc+sd-jwt')).toBe(true);
@@ -72,7 +142,7 @@ describe('buildDcqlQuery', () => {
       offer: { doctype: 'eu.europa.ec.eudi.pid.1' }
     }];
 
-    const result = buildDcqlQuery(credentials, 'mso_mdoc');
+    const result = buildDcqlQuery(credentials, formatsFor(credentials, 'mso_mdoc'));
 
     // ID should be sanitized (dots replaced with underscores)
     expect(result.credentials[0].id).toBe('eu_europa_ec_eudi_pid_1');
@@ -89,7 +159,7 @@ describe('buildDcqlQuery', () => {
       offer: { vct: 'urn:eudi:pid:1' }
     }];
 
-    const result = buildDcqlQuery(credentials, 'dc+sd-jwt');
+    const result = buildDcqlQuery(credentials, formatsFor(credentials, 'dc+sd-jwt'));
 
     // ID should be sanitized (colons replaced with underscores)
     expect(result.credentials[0].id).toBe('urn_eudi_pid_1');
@@ -106,11 +176,24 @@ describe('buildDcqlQuery', () => {
       offer: {}
     }];
 
-    const result = buildDcqlQuery(credentials, 'mso_mdoc');
+    const result = buildDcqlQuery(credentials, formatsFor(credentials, 'mso_mdoc'));
 
     expect(result.credentials[0].meta.doctype_value).toBe('org.iso.18013.5.1.mDL');
   });
 
+  it('should use the vct from the issuer metadata', () => {
+    const credentials: AvailableCredential[] = [{
+      id: 'UniversityDegree',
+      title: 'Degree',
+      offer: { vct: 'http://localhost:7002/OfferVct' },
+      vcts: { 'vc+sd-jwt': 'http://localhost:7002/LegacyDegree', 'dc+sd-jwt': 'http://localhost:7002/UniversityDegree' },
+    }];
+
+    const result = buildDcqlQuery(credentials, formatsFor(credentials, 'dc+sd-jwt'));
+
+    expect(result.credentials[0].meta.vct_values).toEqual(['http://localhost:7002/UniversityDegree']);
+  });
+
   it('should use default vct if not provided', () => {
     const credentials: AvailableCredential[] = [{
       id: 'some-pid',
@@ -118,7 +201,7 @@ describe('buildDcqlQuery', () => {
       offer: {}
     }];
 
-    const result = buildDcqlQuery(credentials, 'dc+sd-jwt');
+    const result = buildDcqlQuery(credentials, formatsFor(credentials, 'dc+sd-jwt'));
 
     expect(result.credentials[0].meta.vct_values).toEqual(['urn:eudi:pid:1']);
   });
@@ -129,7 +212,7 @@ describe('buildDcqlQuery', () => {
       { id: 'org.iso.18013.5.1.mDL', title: 'mDL', offer: { doctype: 'org.iso.18013.5.1.mDL' } }
     ];
 
-    const result = buildDcqlQuery(credentials, 'mso_mdoc');
+    const result = buildDcqlQuery(credentials, formatsFor(credentials, 'mso_mdoc'));
 
     expect(result.credentials).toHaveLength(2);
   });
@@ -143,7 +226,7 @@ describe('DCQL ID sanitization', () => {
       offer: { vct: 'urn:eudi:pid:1' }
     }];
 
-    const result = buildDcqlQuery(credentials, 'dc+sd-jwt');
+    const result = buildDcqlQuery(credentials, formatsFor(credentials, 'dc+sd-jwt'));
 
     // ID should have colons replaced with underscores
     expect(result.credentials[0].id).toBe('urn_eudi_pid_1');
@@ -156,7 +239,7 @@ describe('DCQL ID sanitization', () => {
       offer: { doctype: 'eu.europa.ec.eudi.pid.1' }
     }];
 
-    const result = buildDcqlQuery(credentials, 'mso_mdoc');
+    const result = buildDcqlQuery(credentials, formatsFor(credentials, 'mso_mdoc'));
 
     // ID should have dots replaced with underscores
     expect(result.credentials[0].id).toBe('eu_europa_ec_eudi_pid_1');
@@ -169,7 +252,7 @@ describe('DCQL ID sanitization', () => {
       offer: { doctype: 'test' }
     }];
 
-    const result = buildDcqlQuery(credentials, 'mso_mdoc');
+    const result = buildDcqlQuery(credentials, formatsFor(credentials, 'mso_mdoc'));
 
     // Valid characters should be preserved
     expect(result.credentials[0].id).toBe('my-credential_id');
@@ -182,13 +265,350 @@ describe('DCQL ID sanitization', () => {
       offer: { doctype: 'org.iso.18013.5.1.mDL' }
     }];
 
-    const result = buildDcqlQuery(credentials, 'mso_mdoc');
+    const result = buildDcqlQuery(credentials, formatsFor(credentials, 'mso_mdoc'));
 
     // mDL ID has dots that should be replaced
     expect(result.credentials[0].id).toBe('org_iso_18013_5_1_mDL');
   });
 });
 
+describe('Claim catalog', () => {
+  const mdocConfiguration: CredentialConfiguration = {
+    format: 'mso_mdoc',
+    doctype: 'eu.europa.ec.eudi.pid.1',
+    claims: {
+      'eu.europa.ec.eudi.pid.1': {
+        family_name: { mandatory: true, display: [{ name: 'Nom', locale: 'fr' }, { name: 'Family name', locale: 'en' }] },
+        age_over_18: { value_type: 'bool' },
+      },
+    },
+  };
+
+  it('should read namespaced mDoc claims with display names', () => {
+    expect(getClaimCatalogFromConfiguration(mdocConfiguration)).toEqual([
+      { path: ['eu.europa.ec.eudi.pid.1', 'family_name'], displayName: 'Family name', mandatory: true },
+      { path: ['eu.europa.ec.eudi.pid.1', 'age_over_18'], displayName: undefined, mandatory: undefined },
+    ]);
+  });
+
+  it('should read nested SD-JWT claims', () => {
+    const catalog = getClaimCatalogFromConfiguration({
+      format: 'dc+sd-jwt',
+      vct: 'urn:eudi:pid:1',
+      claims: {
+        address: { display: [{ name: 'Address' }], country: { display: [{ name: 'Country' }] } },
+      },
+    });
+
+    expect(catalog.map((entry) => entry.path)).toEqual([['address'], ['address', 'country']]);
+    expect(findCatalogEntry(['address', 'country'], catalog)?.displayName).toBe('Country');
+  });
+
+  it('should read claim description lists', () => {
+    const catalog = getClaimCatalogFromConfiguration({
+      format: 'dc+sd-jwt',
+      claims: [{ path: ['given_name'], display: [{ name: 'Given name', locale: 'en-US' }] }],
+    });
+
+    expect(catalog).toEqual([{ path: ['given_name'], displayName: 'Given name', mandatory: undefined }]);
+  });
+
+  it('should store issuer catalogs per format when applying configurations', () => {
+    const credential = applyCredentialConfigurations(
+      { id: 'eu.europa.ec.eudi.pid.1', title: 'PID', offer: {} },
+      { 'eu.europa.ec.eudi.pid.1': mdocConfiguration }
+    );
+
+    expect(getClaimCatalog(credential, 'mso_mdoc')).toHaveLength(2);
+  });
+
+  it('should fall back to mDoc namespaces of the offer', () => {
+    const pidMdoc = EudiCredentials.find(c => c.id === 'eu.europa.ec.eudi.pid.1')!;
+    const catalog = getClaimCatalog(pidMdoc, 'mso_mdoc');
+
+    expect(findCatalogEntry(['eu.europa.ec.eudi.pid.1', 'family_name'], catalog)).toBeDefined();
+    expect(catalog.every((entry) => entry.path.length === 2)).toBe(true);
+  });
+
+  it('should fall back to SD-JWT offer claims without W3C members', () => {
+    const catalog = getClaimCatalog(
+      { id: 'pid', title: 'PID', offer: { vct: 'urn:eudi:pid:1', given_name: 'Erika', address: { country: 'DE' } } },
+      'dc+sd-jwt'
+    );
+
+    expect(catalog.map((entry) => entry.path)).toEqual([['given_name'], ['address'], ['address', 'country']]);
+  });
+});
+
+describe('Mixed-format DCQL queries', () => {
+  it('should map each credential to its selected format', () => {
+    const credentials: AvailableCredential[] = [
+      { id: 'org.iso.18013.5.1.mDL', title: 'mDL', selectedFormat: 'mDoc (ISO 18013-5)', offer: {} },
+      { id: 'urn:eudi:pid:1', title: 'PID', selectedFormat: 'DC+SD-JWT (EUDI)', offer: {} },
+    ];
+
+    expect(getCredentialFormats(credentials)).toEqual({
+      'org.iso.18013.5.1.mDL': 'mso_mdoc',
+      'urn:eudi:pid:1': 'dc+sd-jwt',
+    });
+  });
+
+  it('should fall back to the default format of the credential', () => {
+    const credentials: AvailableCredential[] = [
+      { id: 'eu.europa.ec.eudi.pid.1', title: 'PID', formats: ['mDoc (ISO 18013-5)'], offer: {} },
+    ];
+
+    expect(getCredentialFormats(credentials)).toEqual({
+      'eu.europa.ec.eudi.pid.1': 'mso_mdoc',
+    });
+  });
+
+  it('should request an mDL and a PID SD-JWT in one query', () => {
+    const credentials: AvailableCredential[] = [
+      { id: 'org.iso.18013.5.1.mDL', title: 'mDL', offer: { doctype: 'org.iso.18013.5.1.mDL' } },
+      { id: 'urn:eudi:pid:1', title: 'PID', offer: { vct: 'urn:eudi:pid:1' } },
+    ];
+
+    const result = buildDcqlQuery(credentials, {
+      'org.iso.18013.5.1.mDL': 'mso_mdoc',
+      'urn:eudi:pid:1': 'dc+sd-jwt',
+    });
+
+    expect(result.credentials[0].format).toBe('mso_mdoc');
+    expect(result.credentials[0].meta.doctype_value).toBe('org.iso.18013.5.1.mDL');
+    expect(result.credentials[1].format).toBe('dc+sd-jwt');
+    expect(result.credentials[1].meta.vct_values).toEqual(['urn:eudi:pid:1']);
+  });
+
+  it('should throw when a credential has no format', () => {
+    const credentials: AvailableCredential[] = [
+      { id: 'urn:eudi:pid:1', title: 'PID', offer: {} },
+    ];
+
+    expect(() => buildDcqlQuery(credentials, {})).toThrow('Missing format for credential: urn:eudi:pid:1');
+  });
+});
+
+describe('DCQL credential_sets', () => {
+  const pidMdoc: AvailableCredential = {
+    id: 'eu.europa.ec.eudi.pid.1',
+    title: 'EU Personal ID (mDoc)',
+    selectedFormat: 'mDoc (ISO 18013-5)',
+    offer: { doctype: 'eu.europa.ec.eudi.pid.1' }
+  };
+  const pidSdJwt: AvailableCredential = {
+    id: 'urn:eudi:pid:1',
+    title: 'EU Personal ID (SD-JWT)',
+    selectedFormat: 'DC+SD-JWT (EUDI)',
+    offer: { vct: 'urn:eudi:pid:1' }
+  };
+
+  it('should not build credential sets when all credentials are required', () => {
+    expect(buildCredentialSets(['a', 'b'], 'all')).toBeUndefined();
+  });
+
+  it('should build one option per credential for "any" mode', () => {
+    expect(buildCredentialSets(['a', 'b'], 'any')).toEqual([
+      { options: [['a'], ['b']] },
+    ]);
+  });
+
+  it('should request optional credentials as non-required sets', () => {
+    expect(buildCredentialSets(['a', 'b', 'c'], 'all', ['c'])).toEqual([
+      { options: [['a', 'b']] },
+      { options: [['c']], required: false },
+    ]);
+  });
+
+  it('should reject a selection of optional credentials only', () => {
+    expect(() => buildCredentialSets(['a', 'b'], 'all', ['a', 'b'])).toThrow('At least one credential must be required');
+    expect(() => buildCredentialSets(['a'], 'any', ['a'])).toThrow('At least one credential must be required');
+  });
+
+  it('should express "PID mDoc OR PID SD-JWT" with per-credential formats', () => {
+    const credentialSets = buildCredentialSets([pidMdoc.id, pidSdJwt.id], 'any');
+    const result = buildDcqlQuery([pidMdoc, pidSdJwt], getCredentialFormats([pidMdoc, pidSdJwt]), credentialSets);
+
+    expect(result.credentials[0].format).toBe('mso_mdoc');
+    expect(result.credentials[1].format).toBe('dc+sd-jwt');
+    expect(result.credential_sets).toEqual([
+      { options: [['eu_europa_ec_eudi_pid_1'], ['urn_eudi_pid_1']] },
+    ]);
+  });
+
+  it('should omit credential_sets when none are given', () => {
+    const result = buildDcqlQuery([pidMdoc], getCredentialFormats([pidMdoc]));
+
+    expect(result.credential_sets).toBeUndefined();
+  });
+});
+
+describe('DCQL claim_sets', () => {
+  it('should add claim ids and claim_sets when claim sets are defined', () => {
+    const credentials: AvailableCredential[] = [{
+      id: 'urn:eudi:pid:1',
+      title: 'EU Personal ID (SD-JWT)',
+      offer: { vct: 'urn:eudi:pid:1' },
+      editedClaims: [
+        { path: ['birth_date'] },
+        { id: 'over_18', path: ['age_over_18'] },
+      ],
+      claimSets: [['over_18'], ['birth_date']],
+    }];
+
+    const result = buildDcqlQuery(credentials, formatsFor(credentials, 'dc+sd-jwt'));
+
+    expect(result.credentials[0].claims).toEqual([
+      { id: 'birth_date', path: ['birth_date'] },
+      { id: 'over_18', path: ['age_over_18'] },
+    ]);
+    expect(result.credentials[0].claim_sets).toEqual([['over_18'], ['birth_date']]);
+  });
+
+  it('should derive claim ids from namespaced mDoc paths', () => {
+    const credentials: AvailableCredential[] = [{
+      id: 'org.iso.18013.5.1.mDL',
+      title: 'Mobile Driving License',
+      offer: { doctype: 'org.iso.18013.5.1.mDL' },
+      editedClaims: [{ path: ['org.iso.18013.5.1', 'family_name'] }],
+      claimSets: [['org_iso_18013_5_1_family_name']],
+    }];
+
+    const result = buildDcqlQuery(credentials, formatsFor(credentials, 'mso_mdoc'));
+
+    expect(result.credentials[0].claims?.[0].id).toBe('org_iso_18013_5_1_family_name');
+  });
+
+  it('should keep derived claim ids unique when joined paths clash', () => {
+    const credentials: AvailableCredential[] = [{
+      id: 'urn:eudi:pid:1',
+      title: 'EU Personal ID (SD-JWT)',
+      offer: { vct: 'urn:eudi:pid:1' },
+      editedClaims: [{ path: ['a', 'b_c'] }, { path: ['a_b', 'c'] }, { id: 'a_b_c_2', path: ['d'] }],
+      claimSets: [['a_b_c'], ['a_b_c_3']],
+    }];
+
+    const result = buildDcqlQuery(credentials, formatsFor(credentials, 'dc+sd-jwt'));
+
+    expect(result.credentials[0].claims?.map((claim) => claim.id)).toEqual(['a_b_c', 'a_b_c_3', 'a_b_c_2']);
+  });
+
+  it('should ignore empty claim sets', () => {
+    const credentials: AvailableCredential[] = [{
+      id: 'urn:eudi:pid:1',
+      title: 'EU Personal ID (SD-JWT)',
+      offer: { vct: 'urn:eudi:pid:1' },
+      editedClaims: [{ path: ['family_name'] }],
+      claimSets: [[]],
+    }];
+
+    const result = buildDcqlQuery(credentials, formatsFor(credentials, 'dc+sd-jwt'));
+
+    expect(result.credentials[0].claim_sets).toBeUndefined();
+    expect(result.credentials[0].claims).toEqual([{ path: ['family_name'] }]);
+  });
+});
+
+describe('DCQL claim values and intent_to_retain', () => {
+  it('should parse entered values as booleans, numbers and strings', () => {
+    expect(parseClaimValues('true, 18, AT')).toEqual([true, 18, 'AT']);
+    expect(parseClaimValues(' , ')).toBeUndefined();
+  });
+
+  it('should keep numeric-looking values strings when quoted or not plain numbers', () => {
+    expect(parseClaimValues('"123456789", 01234, 1e3')).toEqual(['123456789', '01234', '1e3']);
+    expect(formatClaimValues(['123456789', 123456789])).toBe('"123456789", 123456789');
+  });
+
+  it('should accept quoted values containing commas', () => {
+    expect(parseClaimValues('"Vienna, Austria", DE')).toEqual(['Vienna, Austria', 'DE']);
+    expect(parseClaimValues('"say \\"hi\\", please"')).toEqual(['say "hi", please']);
+    // Still typing the closing quote
+    expect(parseClaimValues('"Vienna, Aus')).toEqual(['Vienna, Aus']);
+  });
+
+  it('should format values so that they parse back unchanged', () => {
+    const values = [true, 'true', 42, '42', '01234', 'Vienna, Austria', ' padded', 'AT'];
+
+    expect(parseClaimValues(formatClaimValues(values))).toEqual(values);
+  });
+
+  it('should include values constraints', () => {
+    const credentials: AvailableCredential[] = [{
+      id: 'urn:eudi:pid:1',
+      title: 'EU Personal ID (SD-JWT)',
+      offer: { vct: 'urn:eudi:pid:1' },
+      editedClaims: [
+        { path: ['age_over_18'], values: [true] },
+        { path: ['issuing_country'], values: ['AT', 'DE'] },
+      ],
+    }];
+
+    const result = buildDcqlQuery(credentials, formatsFor(credentials, 'dc+sd-jwt'));
+
+    expect(result.credentials[0].claims).toEqual([
+      { path: ['age_over_18'], values: [true] },
+      { path: ['issuing_country'], values: ['AT', 'DE'] },
+    ]);
+  });
+
+  it('should omit empty values', () => {
+    const credentials: AvailableCredential[] = [{
+      id: 'urn:eudi:pid:1',
+      title: 'EU Personal ID (SD-JWT)',
+      offer: { vct: 'urn:eudi:pid:1' },
+      editedClaims: [{ path: ['family_name'], values: [] }],
+    }];
+
+    const result = buildDcqlQuery(credentials, formatsFor(credentials, 'dc+sd-jwt'));
+
+    expect(result.credentials[0].claims).toEqual([{ path: ['family_name'] }]);
+  });
+
+  it('should include explicit claim ids without claim sets', () => {
+    const credentials: AvailableCredential[] = [{
+      id: 'urn:eudi:pid:1',
+      title: 'EU Personal ID (SD-JWT)',
+      offer: { vct: 'urn:eudi:pid:1' },
+      editedClaims: [{ id: 'adult', path: ['age_over_18'], values: [true] }],
+    }];
+
+    const result = buildDcqlQuery(credentials, formatsFor(credentials, 'dc+sd-jwt'));
+
+    expect(result.credentials[0].claims).toEqual([
+      { id: 'adult', path: ['age_over_18'], values: [true] },
+    ]);
+  });
+
+  it('should include intent_to_retain for mso_mdoc claims', () => {
+    const credentials: AvailableCredential[] = [{
+      id: 'org.iso.18013.5.1.mDL',
+      title: 'Mobile Driving License',
+      offer: { doctype: 'org.iso.18013.5.1.mDL' },
+      editedClaims: [{ path: ['org.iso.18013.5.1', 'portrait'], intentToRetain: true }],
+    }];
+
+    const result = buildDcqlQuery(credentials, formatsFor(credentials, 'mso_mdoc'));
+
+    expect(result.credentials[0].claims).toEqual([
+      { path: ['org.iso.18013.5.1', 'portrait'], intent_to_retain: true },
+    ]);
+  });
+
+  it('should drop intent_to_retain for dc+sd-jwt claims', () => {
+    const credentials: AvailableCredential[] = [{
+      id: 'urn:eudi:pid:1',
+      title: 'EU Personal ID (SD-JWT)',
+      offer: { vct: 'urn:eudi:pid:1' },
+      editedClaims: [{ path: ['family_name'], intentToRetain: true }],
+    }];
+
+    const result = buildDcqlQuery(credentials, formatsFor(credentials, 'dc+sd-jwt'));
+
+    expect(result.credentials[0].claims?.[0].intent_to_retain).toBeUndefined();
+  });
+});
+
 describe('mapFormat', () => {
   it('should map "DC+SD-JWT (EUDI)" to "dc+sd-jwt"', () => {
     expect(mapFormat('DC+SD-JWT (EUDI)')).toBe('dc+sd-jwt');
@@ -710,6 +1130,194 @@ describe('buildVerificationSessionRequest', () => {
       }
     });
   });
+
+  it('should add final redirects in snake case', () => {
+    const result = buildVerificationSessionRequest({ credentials: [] }, undefined, {
+      redirects: { successRedirectUri: 'https://rp.example/ok', errorRedirectUri: 'https://rp.example/error' },
+    });
+
+    expect(result.redirects).toEqual({
+      success_redirect_uri: 'https://rp.example/ok',
+      error_redirect_uri: 'https://rp.example/error',
+    });
+  });
+
+  it('should only send credential policies when checking credential status', () => {
+    expect(buildStatusVcPolicies(['signature', 'expired'])).toBeUndefined();
+    expect(buildVerificationSessionRequest({ credentials: [] }).core_flow.policies).toBeUndefined();
+
+    const vcPolicies = buildStatusVcPolicies(['signature', 'revoked-status-list']);
+    expect(vcPolicies).toEqual([
+      'signature',
+      'revoked-status-list',
+      { policy: 'credential-status', argument: { discriminator: 'ietf', value: 0 } },
+    ]);
+    expect(buildVerificationSessionRequest({ credentials: [] }, undefined, { vcPolicies }).core_flow.policies)
+      .toEqual({ vc_policies: vcPolicies });
+  });
+});
+
+describe('buildSameDeviceSessionRequest', () => {
+  const dcqlQuery = buildDcqlQuery(
+    [{ id: 'urn:eudi:pid:1', title: 'EU Personal ID (SD-JWT)', offer: { vct: 'urn:eudi:pid:1' } }],
+    { 'urn:eudi:pid:1': 'dc+sd-jwt' }
+  );
+  const redirects = {
+    successRedirectUri: 'https://portal.example.com/verify/callback?session=abc',
+    errorRedirectUri: 'https://portal.example.com/verify/callback?session=abc&error=true',
+  };
+
+  it('should build a same_device setup with the verifier field names', () => {
+    const result = buildSameDeviceSessionRequest(dcqlQuery, 'abc', redirects);
+
+    expect(result.flow_type).toBe('same_device');
+    expect(result.core.dcql_query).toBe(dcqlQuery);
+    expect(result.urlConfig).toEqual({});
+    expect(result).not.toHaveProperty('core_flow');
+  });
+
+  it('should fix the session id so redirects can reference it', () => {
+    const result = buildSameDeviceSessionRequest(dcqlQuery, 'abc', redirects);
+
+    expect(result.core.sessionId).toBe('abc');
+  });
+
+  it('should serialize redirects in snake case', () => {
+    const result = buildSameDeviceSessionRequest(dcqlQuery, 'abc', redirects);
+
+    expect(result.redirects).toEqual({
+      success_redirect_uri: 'https://portal.example.com/verify/callback?session=abc',
+      error_redirect_uri: 'https://portal.example.com/verify/callback?session=abc&error=true',
+    });
+  });
+
+  it('should include signing config when provided', () => {
+    const signingConfig: VerificationSigningConfig = {
+      clientId: 'x509_san_dns:verifier.example.com',
+      key: { type: 'jwk', jwk: { kty: 'EC', crv: 'P-256', x: 'x', y: 'y', d: 'd' } },
+      x5c: ['MIIB...'],
+    };
+    const result = buildSameDeviceSessionRequest(dcqlQuery, 'abc', redirects, signingConfig);
+
+    expect(result.core.clientId).toBe('x509_san_dns:verifier.example.com');
+    expect(result.core.x5c).toEqual(['MIIB...']);
+    expect(result.core.signed_request).toBe(true);
+  });
+});
+
+describe('Client identifier schemes', () => {
+  const key: VerifierClientSettings['key'] = { type: 'jwk', jwk: { kty: 'EC', crv: 'P-256', x: 'x', y: 'y', d: 'd' } };
+  // Base64 DER stand-in - only the hash of the bytes matters
+  const leafCertificate = Buffer.from('leaf certificate').toString('base64');
+  const attestation = [
+    Buffer.from(JSON.stringify({ alg: 'ES256', typ: 'verifier-attestation+jwt' })).toString('base64url'),
+    Buffer.from(JSON.stringify({ sub: 'verifier.example.com' })).toString('base64url'),
+    'signature',
+  ].join('.');
+  const settings: VerifierClientSettings = {
+    x509SanDnsClientId: 'x509_san_dns:verifier.example.com',
+    key,
+    x5c: [leafCertificate],
+    verifierAttestation: attestation,
+  };
+  const responseUri = 'https://verifier.example.com/verification-session/abc/response';
+
+  it('should always offer unsigned redirect_uri requests', () => {
+    expect(getAvailableClientIdSchemes({})).toEqual(['redirect_uri']);
+  });
+
+  it('should offer the schemes the configured credentials allow', () => {
+    expect(getAvailableClientIdSchemes(settings)).toEqual(['x509_san_dns', 'x509_hash', 'verifier_attestation', 'redirect_uri']);
+    expect(getAvailableClientIdSchemes({ key, x5c: [leafCertificate] })).toEqual(['x509_hash', 'redirect_uri']);
+  });
+
+  it('should build x509_san_dns signing config', async () => {
+    const config = await buildSigningConfig('x509_san_dns', settings, responseUri);
+
+    expect(config).toEqual({ clientId: 'x509_san_dns:verifier.example.com', key, x5c: [leafCertificate] });
+  });
+
+  it('should derive the x509_hash client id from the leaf certificate', async () => {
+    const expectedHash = createHash('sha256').update(Buffer.from(leafCertificate, 'base64')).digest('base64url');
+    const config = await buildSigningConfig('x509_hash', settings, responseUri);
+
+    expect(config.clientId).toBe(`x509_hash:${expectedHash}`);
+    expect(config.x5c).toEqual([leafCertificate]);
+  });
+
+  it('should derive the verifier_attestation client id from the attestation subject', async () => {
+    const config = await buildSigningConfig('verifier_attestation', settings, responseUri);
+    const request = buildVerificationSessionRequest({ credentials: [] }, config);
+
+    expect(config.clientId).toBe('verifier_attestation:verifier.example.com');
+    expect(request.core_flow.verifier_attestation).toBe(attestation);
+    expect(request.core_flow.x5c).toBeUndefined();
+  });
+
+  it('should build unsigned redirect_uri requests', async () => {
+    const config = await buildSigningConfig('redirect_uri', {}, responseUri);
+    const request = buildVerificationSessionRequest({ credentials: [] }, config, {
+      sessionId: 'abc',
+      urlConfig: { url_prefix: 'https://verifier.example.com/verification-session' },
+    });
+
+    expect(request.core_flow.signed_request).toBe(false);
+    expect(request.core_flow.clientId).toBe(`redirect_uri:${responseUri}`);
+    expect(request.core_flow.key).toBeUndefined();
+    expect(request.core_flow.sessionId).toBe('abc');
+    expect(request.url_config).toEqual({ url_prefix: 'https://verifier.example.com/verification-session' });
+  });
+
+  it('should reject schemes that are not configured', async () => {
+    await expect(buildSigningConfig('x509_hash', {}, responseUri))
+      .rejects.toThrow('Client identifier scheme not configured: x509_hash');
+  });
+});
+
+describe('Transaction data', () => {
+  const payment = { amount: 42.5, currency: 'EUR', payee: 'Coffee Shop' };
+
+  it('should build payment confirmations bound to credential query ids', () => {
+    expect(buildPaymentTransactionData(payment, ['PaymentWalletAttestation'])).toEqual({
+      type: 'payment_data',
+      credential_ids: ['PaymentWalletAttestation'],
+      transaction_data_hashes_alg: ['sha-256'],
+      payee: { name: 'Coffee Shop' },
+      currency_amount: { currency: 'EUR', value: 42.5 },
+    });
+  });
+
+  it('should reject incomplete payments', () => {
+    expect(() => buildPaymentTransactionData({ ...payment, amount: 0 }, ['pwa'])).toThrow('Payment amount must be greater than zero');
+    expect(() => buildPaymentTransactionData({ ...payment, currency: 'euro' }, ['pwa'])).toThrow('Invalid currency code: euro');
+    expect(() => buildPaymentTransactionData({ ...payment, payee: ' ' }, ['pwa'])).toThrow('Payment payee is required');
+    expect(() => buildPaymentTransactionData(payment, [])).toThrow('Transaction data must be bound to at least one credential');
+  });
+
+  it('should build QES authorisations from a document digest', async () => {
+    const documentHash = await getDocumentDigest(new TextEncoder().encode('contract').buffer as ArrayBuffer);
+    const item = buildQesTransactionData({ documentLabel: 'contract.pdf', documentHash }, ['urn_eudi_pid_1']);
+
+    expect(documentHash).toBe(createHash('sha256').update('contract').digest('base64'));
+    expect(item.type).toBe('qes_authorization');
+    expect(item.documentDigests).toEqual([
+      { label: 'contract.pdf', hash: documentHash, hashAlgorithmOID: '2.16.840.1.101.3.4.2.1' },
+    ]);
+  });
+
+  it('should add encoded transaction data to the session request', () => {
+    const item = buildPaymentTransactionData(payment, ['PaymentWalletAttestation']);
+    const request = buildVerificationSessionRequest({ credentials: [] }, undefined, { transactionData: [item] });
+
+    expect(request.core_flow.transaction_data).toEqual([encodeTransactionData(item)]);
+    expect(JSON.parse(Buffer.from(request.core_flow.transaction_data![0], 'base64url').toString())).toEqual(item);
+  });
+
+  it('should omit transaction data when there is none', () => {
+    const request = buildVerificationSessionRequest({ credentials: [] }, undefined, { transactionData: [] });
+
+    expect(request.core_flow).not.toHaveProperty('transaction_data');
+  });
 });
 
 describe('checkVerificationResult endpoint selection', () => {
@@ -822,3 +1430,22 @@ describe('buildVerificationSessionRequest with signing config', () => {
     expect(result.core_flow.x5c?.length).toBeGreaterThan(0);
   });
 });
+
+describe('User PIN (tx_code)', () => {
+  it('should advertise input mode, length and description', () => {
+    expect(buildTxCode({ pin: ' 0235 ', inputMode: 'numeric', showLength: true, description: 'Sent by email' })).toEqual({
+      txCode: { input_mode: 'numeric', length: 4, description: 'Sent by email' },
+      txCodeValue: '0235',
+    });
+  });
+
+  it('should omit the length when it is not shown', () => {
+    expect(buildTxCode({ pin: 'abc12', inputMode: 'text', showLength: false }).txCode).toEqual({ input_mode: 'text' });
+  });
+
+  it('should reject missing and non-numeric PINs', () => {
+    expect(() => buildTxCode({ pin: ' ', inputMode: 'text', showLength: true })).toThrow('Please enter a user PIN');
+    expect(() => buildTxCode({ pin: '12a4', inputMode: 'numeric', showLength: true })).toThrow('only contain digits');
+    expect(() => buildTxCode({ pin: '1234', inputMode: 'numeric', showLength: true, description: 'x'.repeat(301) })).toThrow('300 characters');
+  });
+});
@@ -0,0 +1,20 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+// Point a file store's environment variable to a new temporary directory for every test, returns the file path
+export function useTemporaryStoreFile(fileVariable: string, fileName: string): () => string {
+  let directory: string;
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'portal-store-'));
+    process.env[fileVariable] = path.join(directory, fileName);
+  });
+
+  afterEach(() => {
+    delete process.env[fileVariable];
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  return () => path.join(directory, fileName);
+}
@@ -0,0 +1,29 @@
+import {AvailableCredential} from '../types/credentials';
+import {getIssueEndpoint} from '../utils/getOfferUrl';
+
+function credential(id: string, selectedFormat?: string): AvailableCredential {
+  return { id, title: id, offer: {}, selectedFormat };
+}
+
+describe('getIssueEndpoint', () => {
+  it('should keep the format family endpoint for single-format offers', () => {
+    expect(getIssueEndpoint([credential('UniversityDegree')])).toBe('jwt');
+    expect(getIssueEndpoint([credential('a', 'SD-JWT + W3C VC'), credential('b', 'SD-JWT + IETF SD-JWT VC')])).toBe('sdjwt');
+    expect(getIssueEndpoint([credential('org.iso.18013.5.1.mDL', 'mDoc (ISO 18013-5)')])).toBe('mdoc');
+  });
+
+  it('should combine credentials of different formats into one mixed offer', () => {
+    expect(getIssueEndpoint([
+      credential('org.iso.18013.5.1.mDL', 'mDoc (ISO 18013-5)'),
+      credential('urn:eudi:pid:1', 'DC+SD-JWT (EUDI)'),
+      credential('UniversityDegree', 'JWT + W3C VC'),
+    ])).toBe('mixed');
+  });
+
+  it('should use the mixed endpoint for several mDocs', () => {
+    expect(getIssueEndpoint([
+      credential('org.iso.18013.5.1.mDL', 'mDoc (ISO 18013-5)'),
+      credential('eu.europa.ec.eudi.pid.1', 'mDoc (ISO 18013-5)'),
+    ])).toBe('mixed');
+  });
+});
@@ -0,0 +1,105 @@
+import {AvailableCredential} from '../types/credentials';
+import {applyIssuanceSession, IssuanceRecord, validateNewIssuanceRecord} from '../types/issuanceHistory';
+import {
+  createIssuanceRecord,
+  getIssuanceRecord,
+  listIssuanceRecords,
+  updateIssuanceRecord,
+} from '../lib/server/issuanceHistory';
+import {buildIssuanceRecord} from '../utils/issuanceHistory';
+import {IssuanceSessionInfo} from '../utils/checkIssuanceSession';
+import {useTemporaryStoreFile} from './fixtures/storeFile';
+
+const SESSION_ID = '501414a4-c461-43f0-84b2-c628730c7c02';
+const OFFER_URL = `openid-credential-offer://?credential_offer_uri=${encodeURIComponent(
+  `http://localhost:7002/draft13/credentialOffer?id=${SESSION_ID}`
+)}`;
+
+const SESSION: IssuanceSessionInfo = {
+  id: SESSION_ID,
+  grantType: 'authorization_code',
+  status: 'ACTIVE',
+  closed: false,
+  credentialConfigurationIds: ['UniversityDegree_jwt_vc_json'],
+  authorizedAt: '2026-01-01T00:00:10Z',
+  expiresAt: '2026-01-01T00:05:00Z',
+};
+
+const RECORD: IssuanceRecord = {
+  id: SESSION_ID,
+  sessionId: SESSION_ID,
+  issuerUrl: 'http://localhost:7002',
+  offerUrl: OFFER_URL,
+  credentials: [{ id: 'UniversityDegree', title: 'University Degree', format: 'JWT + W3C VC' }],
+  status: 'OFFERED',
+  createdAt: '2026-01-01T00:00:00Z',
+};
+
+describe('Issuance records', () => {
+  it('should record the session, credentials and formats of an offer', () => {
+    const credentials = [
+      { id: 'UniversityDegree', title: 'University Degree', offer: {}, selectedFormat: 'JWT + W3C VC' },
+    ] as AvailableCredential[];
+
+    expect(buildIssuanceRecord(credentials, 'http://localhost:7002', OFFER_URL, { txCode: true })).toEqual({
+      sessionId: SESSION_ID,
+      issuerUrl: 'http://localhost:7002',
+      offerUrl: OFFER_URL,
+      credentials: RECORD.credentials,
+      txCode: true,
+    });
+  });
+
+  it('should report invalid records', () => {
+    expect(validateNewIssuanceRecord(RECORD)).toEqual([]);
+    expect(validateNewIssuanceRecord({ ...RECORD, offerUrl: '', credentials: [{ title: 'No id' }] })).toHaveLength(2);
+    expect(validateNewIssuanceRecord([])).toEqual(['Issuance record must be a JSON object']);
+  });
+
+  it('should follow the issuance session', () => {
+    const authorized = applyIssuanceSession(RECORD, SESSION, '2026-01-01T00:00:11Z');
+    expect(authorized).toMatchObject({ status: 'OFFERED', authorizedAt: SESSION.authorizedAt });
+    expect(authorized.redeemedAt).toBeUndefined();
+
+    const redeemed = applyIssuanceSession(authorized, { ...SESSION, status: 'SUCCESSFUL', closed: true }, '2026-01-01T00:00:20Z');
+    expect(redeemed).toMatchObject({ status: 'REDEEMED', redeemedAt: '2026-01-01T00:00:20Z' });
+
+    // Later updates keep the first redemption time
+    expect(applyIssuanceSession(redeemed, { ...SESSION, status: 'SUCCESSFUL' }, '2026-01-01T00:01:00Z').redeemedAt)
+      .toBe('2026-01-01T00:00:20Z');
+  });
+
+  it('should map failed sessions', () => {
+    const rejected = applyIssuanceSession(RECORD, { ...SESSION, status: 'REJECTED_BY_USER', statusReason: 'Declined' });
+
+    expect(rejected).toMatchObject({ status: 'REJECTED', statusReason: 'Declined' });
+    expect(applyIssuanceSession(RECORD, { ...SESSION, status: 'EXPIRED' }).status).toBe('EXPIRED');
+  });
+});
+
+describe('Issuance history store', () => {
+  useTemporaryStoreFile('ISSUANCE_HISTORY_FILE', 'history.json');
+
+  it('should start empty', () => {
+    expect(listIssuanceRecords()).toEqual([]);
+  });
+
+  it('should record offers newest first', () => {
+    const first = createIssuanceRecord({ ...RECORD, sessionId: undefined });
+    const second = createIssuanceRecord(RECORD);
+
+    expect(second.id).toBe(SESSION_ID);
+    expect(second.status).toBe('OFFERED');
+    expect(first.id).not.toBe(SESSION_ID);
+    expect(listIssuanceRecords().map((r) => r.id)).toEqual([second.id, first.id]);
+    expect(() => createIssuanceRecord(RECORD)).toThrow();
+  });
+
+  it('should update the redemption status', () => {
+    createIssuanceRecord(RECORD);
+
+    expect(updateIssuanceRecord(SESSION_ID, { ...SESSION, status: 'SUCCESSFUL' })?.status).toBe('REDEEMED');
+    expect(getIssuanceRecord(SESSION_ID)?.redeemedAt).toBeDefined();
+    expect(updateIssuanceRecord('unknown', SESSION)).toBeUndefined();
+  });
+});
@@ -0,0 +1,198 @@
+import {AvailableCredential} from '../types/credentials';
+import {
+  findConfigurationId,
+  getIssuancePayloadBuilder,
+  IssuancePayloadContext,
+} from '../utils/issuancePayloads';
+
+const CONFIGURATIONS = {
+  'UniversityDegree_jwt_vc_json': { format: 'jwt_vc_json' },
+  'UniversityDegree_vc+sd-jwt': { format: 'vc+sd-jwt' },
+  'urn:eudi:pid:1': { format: 'dc+sd-jwt' },
+  'identity_credential_dc+sd-jwt': { format: 'dc+sd-jwt' },
+  'org.iso.18013.5.1.mDL': { format: 'mso_mdoc', docType: 'org.iso.18013.5.1.mDL' },
+  'eu.europa.ec.eudi.pid.1': { format: 'mso_mdoc', docType: 'eu.europa.ec.eudi.pid.1' },
+};
+
+const MAPPING = { id: '<uuid>', issuer: { id: '<issuerDid>' } };
+
+function createContext(): IssuancePayloadContext {
+  return {
+    configurations: CONFIGURATIONS,
+    fetchMapping: jest.fn().mockResolvedValue(MAPPING),
+  };
+}
+
+const W3C_OFFER = {
+  '@context': ['https://www.w3.org/2018/credentials/v1'],
+  type: ['VerifiableCredential', 'UniversityDegree'],
+  id: 'urn:uuid:1',
+  issuer: { id: 'did:key:issuer' },
+  issuanceDate: '2024-01-01T00:00:00Z',
+  credentialSubject: {
+    name: 'Jane Doe',
+    graduated: true,
+    gpa: 3.9,
+    degree: { type: 'BachelorDegree' },
+  },
+};
+
+function credential(id: string, selectedFormat: string): AvailableCredential {
+  return { id, title: id, offer: {}, selectedFormat };
+}
+
+describe('Issuance payload builders', () => {
+  it('should fall back to the W3C JWT builder for unknown formats', () => {
+    expect(getIssuancePayloadBuilder('jwt_vc_json-ld')).toBe(getIssuancePayloadBuilder('JWT + W3C VC'));
+    expect(getIssuancePayloadBuilder(undefined).endpoint).toBe('jwt');
+  });
+
+  describe('JWT + W3C VC', () => {
+    it('should issue the offer with the VC repository mapping', async () => {
+      const context = createContext();
+      const payload = await getIssuancePayloadBuilder('JWT + W3C VC')
+        .build(credential('UniversityDegree', 'JWT + W3C VC'), W3C_OFFER, context);
+
+      expect(payload).toEqual({
+        credentialConfigurationId: 'UniversityDegree_jwt_vc_json',
+        credentialData: W3C_OFFER,
+        mapping: MAPPING,
+      });
+      expect(context.fetchMapping).toHaveBeenCalledWith('UniversityDegree');
+    });
+  });
+
+  describe('SD-JWT + W3C VC', () => {
+    it('should make string and boolean subject claims disclosable', async () => {
+      const payload = await getIssuancePayloadBuilder('SD-JWT + W3C VC')
+        .build(credential('UniversityDegree', 'SD-JWT + W3C VC'), W3C_OFFER, createContext());
+
+      expect(payload.credentialConfigurationId).toBe('UniversityDegree_jwt_vc_json');
+      expect(payload.selectiveDisclosure).toEqual({
+        fields: {
+          credentialSubject: {
+            sd: false,
+            children: { fields: { name: { sd: true }, graduated: { sd: true } } },
+          },
+        },
+      });
+    });
+  });
+
+  describe('SD-JWT + IETF SD-JWT VC', () => {
+    it('should drop W3C members and flatten the subject', async () => {
+      const payload = await getIssuancePayloadBuilder('SD-JWT + IETF SD-JWT VC')
+        .build(credential('UniversityDegree', 'SD-JWT + IETF SD-JWT VC'), W3C_OFFER, createContext());
+
+      expect(payload.credentialConfigurationId).toBe('UniversityDegree_vc+sd-jwt');
+      expect(payload.credentialData).toEqual({
+        id: 'urn:uuid:1',
+        name: 'Jane Doe',
+        graduated: true,
+        gpa: 3.9,
+        degree: { type: 'BachelorDegree' },
+      });
+      expect(payload.mapping.id).toBe('<uuid>');
+      expect(payload.selectiveDisclosure).toEqual({ fields: { name: { sd: true } } });
+    });
+
+    it('should apply the claim disclosures of the credential', async () => {
+      const payload = await getIssuancePayloadBuilder('SD-JWT + IETF SD-JWT VC').build(
+        { ...credential('UniversityDegree', 'SD-JWT + IETF SD-JWT VC'), disclosures: { name: 'always', 'degree.type': 'decoy' } },
+        W3C_OFFER,
+        createContext()
+      );
+
+      expect(payload.selectiveDisclosure).toEqual({
+        fields: {
+          degree: { sd: false, children: { fields: { type: { sd: true } }, decoyMode: 'FIXED', decoys: 2 } },
+        },
+      });
+    });
+
+    it('should not modify the offer', async () => {
+      const offer = JSON.parse(JSON.stringify(W3C_OFFER));
+      await getIssuancePayloadBuilder('SD-JWT + IETF SD-JWT VC')
+        .build(credential('UniversityDegree', 'SD-JWT + IETF SD-JWT VC'), offer, createContext());
+
+      expect(offer).toEqual(W3C_OFFER);
+    });
+  });
+
+  describe('DC+SD-JWT (EUDI)', () => {
+    it('should drop W3C members including the id', async () => {
+      const payload = await getIssuancePayloadBuilder('DC+SD-JWT (EUDI)')
+        .build(credential('urn:eudi:pid:1', 'DC+SD-JWT (EUDI)'), W3C_OFFER, createContext());
+
+      expect(payload.credentialConfigurationId).toBe('urn:eudi:pid:1');
+      expect(payload.credentialData).not.toHaveProperty('id');
+      expect(payload.credentialData).toHaveProperty('name', 'Jane Doe');
+      expect(payload.mapping).toEqual({
+        iat: '<timestamp-seconds>',
+        nbf: '<timestamp-seconds>',
+        exp: '<timestamp-in-seconds:365d>',
+      });
+      expect(payload.selectiveDisclosure).toEqual({ fields: { name: { sd: true }, graduated: { sd: true } } });
+    });
+
+    it('should disclose top-level claims of offers without a subject', async () => {
+      const payload = await getIssuancePayloadBuilder('DC+SD-JWT (EUDI)')
+        .build(credential('Identity Credential', 'DC+SD-JWT (EUDI)'), { given_name: 'Jane', age_over_18: true, age: 30 }, createContext());
+
+      expect(payload.credentialConfigurationId).toBe('identity_credential_dc+sd-jwt');
+      expect(payload.selectiveDisclosure).toEqual({ fields: { given_name: { sd: true }, age_over_18: { sd: true } } });
+    });
+  });
+
+  describe('mDoc (ISO 18013-5)', () => {
+    const builder = getIssuancePayloadBuilder('mDoc (ISO 18013-5)');
+
+    it('should support the issuer server keys', () => {
+      expect(builder.supportsServerKeys).toBe(true);
+      expect(getIssuancePayloadBuilder('JWT + W3C VC').supportsServerKeys).toBeFalsy();
+    });
+
+    it('should keep namespaced offers', async () => {
+      const payload = await builder.build(
+        credential('org.iso.18013.5.1.mDL', 'mDoc (ISO 18013-5)'),
+        { id: 'urn:uuid:1', 'org.iso.18013.5.1': { family_name: 'Doe' } },
+        createContext()
+      );
+
+      expect(payload).toEqual({
+        credentialConfigurationId: 'org.iso.18013.5.1.mDL',
+        mdocData: { 'org.iso.18013.5.1': { family_name: 'Doe' } },
+      });
+    });
+
+    it('should put flat offers into the docType namespace', async () => {
+      const payload = await builder.build(
+        credential('eu.europa.ec.eudi.pid.1', 'mDoc (ISO 18013-5)'),
+        { id: 'urn:uuid:1', given_name: 'Jane', age_over_18: true },
+        createContext()
+      );
+
+      expect(payload.mdocData).toEqual({ 'eu.europa.ec.eudi.pid.1': { given_name: 'Jane', age_over_18: true } });
+    });
+
+    it('should default to the mDL docType', async () => {
+      const payload = await builder.build(
+        credential('Unknown', 'mDoc (ISO 18013-5)'),
+        { family_name: 'Doe' },
+        createContext()
+      );
+
+      expect(payload.mdocData).toEqual({ 'org.iso.18013.5.1.mDL': { family_name: 'Doe' } });
+    });
+  });
+});
+
+describe('findConfigurationId', () => {
+  it('should prefer the exact credential id', () => {
+    expect(findConfigurationId(CONFIGURATIONS, 'mso_mdoc', 'eu.europa.ec.eudi.pid.1')).toBe('eu.europa.ec.eudi.pid.1');
+  });
+
+  it('should ignore configurations of other formats', () => {
+    expect(findConfigurationId(CONFIGURATIONS, 'dc+sd-jwt', 'org.iso.18013.5.1.mDL')).toBeUndefined();
+  });
+});
@@ -0,0 +1,43 @@
+import fs from 'fs';
+import {createJsonFileStore} from '../lib/server/jsonFileStore';
+import {useTemporaryStoreFile} from './fixtures/storeFile';
+
+describe('JSON file store', () => {
+  const getFile = useTemporaryStoreFile('TEST_STORE_FILE', 'nested/store.json');
+  const arrayStore = createJsonFileStore<string[]>({
+    fileVariable: 'TEST_STORE_FILE',
+    defaultFile: '.data/test-store.json',
+    name: 'Test store',
+    shape: 'array',
+  });
+  const objectStore = createJsonFileStore<Record<string, number>>({
+    fileVariable: 'TEST_STORE_FILE',
+    defaultFile: '.data/test-store.json',
+    name: 'Test store',
+    shape: 'object',
+  });
+
+  it('should read an empty value before the first write', () => {
+    expect(arrayStore.read()).toEqual([]);
+    expect(objectStore.read()).toEqual({});
+    expect(fs.existsSync(getFile())).toBe(false);
+  });
+
+  it('should create the directory and replace the file on write', () => {
+    arrayStore.write(['first']);
+    arrayStore.write(['first', 'second']);
+
+    expect(arrayStore.read()).toEqual(['first', 'second']);
+    expect(fs.existsSync(`${getFile()}.tmp`)).toBe(false);
+  });
+
+  it('should reject a file with another top-level value', () => {
+    objectStore.write({ entries: 1 });
+
+    expect(() => arrayStore.read()).toThrow(`Test store file must contain a JSON array: ${getFile()}`);
+    arrayStore.write([]);
+    expect(() => objectStore.read()).toThrow('Test store file must contain a JSON object');
+    fs.writeFileSync(getFile(), 'null');
+    expect(() => objectStore.read()).toThrow('Test store file must contain a JSON object');
+  });
+});
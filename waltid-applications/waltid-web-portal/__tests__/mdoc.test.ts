@@ -0,0 +1,147 @@
+import {bytesToHex, CborTag, decodeCbor, hexToBytes} from '../utils/cbor';
+import {
+  checkValueDigests,
+  decodeDeviceResponse,
+  describeDeviceKey,
+  getIssuerCertificates,
+  getNamespacesJson,
+} from '../utils/mdoc';
+import {bytesToBase64Url} from '../utils/base64';
+import {ISO_DEVICE_RESPONSE} from './fixtures/iso18013-5';
+
+const MDL_NAMESPACE = 'org.iso.18013.5.1';
+
+describe('CBOR decoding', () => {
+  // RFC 8949 appendix A
+  it.each([
+    ['1903e8', 1000],
+    ['3903e7', -1000],
+    ['f93c00', 1],
+    ['f97c00', Infinity],
+    ['fb3ff199999999999a', 1.1],
+    ['f5', true],
+    ['f6', null],
+    ['6449455446', 'IETF'],
+    ['62c3bc', '\u00fc'],
+    ['7f657374726561646d696e67ff', 'streaming'],
+    ['9f018202039f0405ffff', [1, [2, 3], [4, 5]]],
+    ['bf61610161629f0203ffff', { a: 1, b: [2, 3] }],
+    ['a201020304', { 1: 2, 3: 4 }],
+  ])('should decode %s', (hex, expected) => {
+    expect(decodeCbor(hexToBytes(hex))).toEqual(expected);
+  });
+
+  it('should decode byte strings and tags', () => {
+    expect(bytesToHex(decodeCbor(hexToBytes('5f42010243030405ff')) as Uint8Array)).toBe('0102030405');
+
+    const tag = decodeCbor(hexToBytes('c074323031332d30332d32315432303a30343a30305a')) as CborTag;
+    expect(tag.tag).toBe(0);
+    expect(tag.value).toBe('2013-03-21T20:04:00Z');
+  });
+
+  it('should reject truncated and trailing data', () => {
+    expect(() => decodeCbor(hexToBytes('6449455'))).toThrow('Invalid hex string');
+    expect(() => decodeCbor(hexToBytes('64494554'))).toThrow('Unexpected end of CBOR data');
+    expect(() => decodeCbor(hexToBytes('0101'))).toThrow('Unexpected data after the CBOR data item');
+  });
+});
+
+describe('mDoc DeviceResponse decoding', () => {
+  const response = decodeDeviceResponse(hexToBytes(ISO_DEVICE_RESPONSE));
+  const [document] = response.documents;
+
+  it('should decode the documents of a DeviceResponse', () => {
+    expect(response.version).toBe('1.0');
+    expect(response.status).toBe(0);
+    expect(response.documents).toHaveLength(1);
+    expect(document.docType).toBe('org.iso.18013.5.1.mDL');
+    expect(document.deviceAuth).toBe('deviceMac');
+  });
+
+  it('should decode the IssuerSignedItems of each namespace', () => {
+    expect(document.nameSpaces[MDL_NAMESPACE].map((item) => [item.digestID, item.elementIdentifier])).toEqual([
+      [0, 'family_name'],
+      [3, 'issue_date'],
+      [4, 'expiry_date'],
+      [7, 'document_number'],
+      [8, 'portrait'],
+      [9, 'driving_privileges'],
+    ]);
+    expect(bytesToHex(document.nameSpaces[MDL_NAMESPACE][0].random))
+      .toBe('8798645b20ea200e19ffabac92624bee6aec63aceedecfb1b80077d22bfc20e9');
+  });
+
+  it('should turn the data elements into JSON', () => {
+    const { portrait, ...elements } = getNamespacesJson(document)[MDL_NAMESPACE];
+
+    expect(elements).toEqual({
+      family_name: 'Doe',
+      issue_date: '2019-10-20',
+      expiry_date: '2024-10-20',
+      document_number: '123456789',
+      driving_privileges: [
+        { vehicle_category_code: 'A', issue_date: '2018-08-09', expiry_date: '2024-10-20' },
+        { vehicle_category_code: 'B', issue_date: '2017-02-23', expiry_date: '2024-10-20' },
+      ],
+    });
+    // JPEG portrait as base64url
+    expect(portrait.startsWith(bytesToBase64Url(hexToBytes('ffd8ffe0')))).toBe(true);
+  });
+
+  it('should decode the mobile security object', () => {
+    const { algorithm, mso } = document.issuerAuth;
+
+    expect(algorithm).toBe('ES256');
+    expect(mso.version).toBe('1.0');
+    expect(mso.digestAlgorithm).toBe('SHA-256');
+    expect(mso.docType).toBe('org.iso.18013.5.1.mDL');
+    expect(mso.validityInfo).toEqual({
+      signed: '2020-10-01T13:30:02Z',
+      validFrom: '2020-10-01T13:30:02Z',
+      validUntil: '2021-10-01T13:30:02Z',
+    });
+    expect(bytesToHex(mso.valueDigests[MDL_NAMESPACE]['0']))
+      .toBe('75167333b47b6c2bfb86eccc1f438cf57af055371ac55e1e359e20f254adcebf');
+    expect(bytesToHex(mso.valueDigests['org.iso.18013.5.1.US']['1']))
+      .toBe('4d80e1e2e4fb246d97895427ce7000bb59bb24c8cd003ecf94bf35bbd2917e34');
+    expect(describeDeviceKey(mso.deviceKey)).toBe('EC P-256');
+  });
+
+  it('should read the issuer certificate chain', () => {
+    expect(getIssuerCertificates(document)).toEqual([{
+      subject: 'CN=utopia ds, C=US',
+      issuer: 'CN=utopia iaca, C=US',
+      serialNumber: '3c4416eed784f3b413e48f56f075abfa6d87eb84',
+      notBefore: '2020-10-01T00:00:00Z',
+      notAfter: '2021-10-01T00:00:00Z',
+    }]);
+  });
+
+  it('should match the data elements with the value digests', async () => {
+    const checks = await checkValueDigests(document);
+
+    expect(checks).toHaveLength(6);
+    expect(checks.every((check) => check.valid)).toBe(true);
+  });
+
+  it('should report data elements the issuer did not sign', async () => {
+    const [item] = document.nameSpaces[MDL_NAMESPACE];
+    // elementValue 'Doe' changed to 'Dox'
+    const encoded = item.encoded.map((byte, index) => index === item.encoded.length - 1 ? 0x78 : byte);
+    const forged = { ...document, nameSpaces: { [MDL_NAMESPACE]: [{ ...item, encoded }] } };
+
+    expect(await checkValueDigests(forged)).toEqual([
+      { namespace: MDL_NAMESPACE, elementIdentifier: 'family_name', valid: false },
+    ]);
+  });
+
+  it('should decode the base64url vp_token form', () => {
+    const encoded = bytesToBase64Url(hexToBytes(ISO_DEVICE_RESPONSE));
+
+    expect(decodeDeviceResponse(encoded).documents[0].docType).toBe('org.iso.18013.5.1.mDL');
+  });
+
+  it('should reject data that is not a DeviceResponse', () => {
+    expect(() => decodeDeviceResponse(hexToBytes('a0'))).toThrow('DeviceResponse version must be a text string');
+  });
+});
@@ -0,0 +1,155 @@
+import {createHash} from 'crypto';
+import {decodeSdJwt, getSdJwtSubjectClaims, sdJwtDigest, splitSdJwt} from '../utils/sdJwt';
+
+function encode(value: unknown): string {
+  return Buffer.from(JSON.stringify(value)).toString('base64url');
+}
+
+function digest(value: string, algorithm = 'sha256'): string {
+  return createHash(algorithm).update(value).digest('base64url');
+}
+
+function disclosure(...values: unknown[]) {
+  const encoded = encode(values);
+  return { encoded, digest: digest(encoded) };
+}
+
+function jwt(payload: unknown, header: unknown = { alg: 'ES256', typ: 'dc+sd-jwt' }): string {
+  return `${encode(header)}.${encode(payload)}.c2lnbmF0dXJl`;
+}
+
+// SD-JWT specification example disclosure
+const FAMILY_NAME = {
+  encoded: 'WyJfMjZiYzRMVC1hYzZxMktJNmNCVzVlcyIsICJmYW1pbHlfbmFtZSIsICJNw7ZiaXVzIl0',
+  digest: 'X9yH0Ajrdm1Oij4tWso9UzzKJvPoDxwmuEcO3XAdRC0',
+};
+const GIVEN_NAME = disclosure('2GLC42sKQveCfGfryNRN9w', 'given_name', 'Erika');
+const BIRTHDATE = disclosure('6Ij7tM-a5iVPGboS5tmvVA', 'birthdate', '1963-08-12');
+const LOCALITY = disclosure('eI8ZWm9QnKPpNPeNenHdhQ', 'locality', 'Berlin');
+const ADDRESS = disclosure('Qg_O64zqAxe412a108iroA', 'address', { _sd: [LOCALITY.digest], country: 'DE' });
+const NATIONALITY_DE = disclosure('lklxF5jMYlGTPUovMNIvCA', 'DE');
+const NATIONALITY_FR = disclosure('nPuoQnkRFq3BIeAm7AnXFA', 'FR');
+
+const PAYLOAD = {
+  iss: 'https://issuer.example',
+  vct: 'https://issuer.example/identity_credential',
+  iat: 1683000000,
+  _sd: [GIVEN_NAME.digest, FAMILY_NAME.digest, BIRTHDATE.digest, ADDRESS.digest],
+  _sd_alg: 'sha-256',
+  nationalities: [{ '...': NATIONALITY_DE.digest }, { '...': NATIONALITY_FR.digest }],
+  cnf: { jwk: { kty: 'EC', crv: 'P-256', x: 'x', y: 'y' } },
+};
+const ISSUER_JWT = jwt(PAYLOAD);
+
+function present(...disclosures: { encoded: string }[]): string {
+  return `${[ISSUER_JWT, ...disclosures.map((d) => d.encoded)].join('~')}~`;
+}
+
+function withKeyBinding(presentation: string, sdHash = digest(presentation)): string {
+  return presentation + jwt(
+    { aud: 'https://verifier.example', nonce: '1234567890', iat: 1700000000, sd_hash: sdHash },
+    { alg: 'ES256', typ: 'kb+jwt' }
+  );
+}
+
+describe('SD-JWT presentations', () => {
+  it('should hash disclosures as in the SD-JWT specification', async () => {
+    expect(await sdJwtDigest(FAMILY_NAME.encoded, 'sha-256')).toBe(FAMILY_NAME.digest);
+  });
+
+  it('should split the issuer JWT, disclosures and key binding JWT', () => {
+    expect(splitSdJwt(present(GIVEN_NAME))).toEqual({ issuerJwt: ISSUER_JWT, disclosures: [GIVEN_NAME.encoded] });
+    expect(splitSdJwt(withKeyBinding(present())).keyBindingJwt).toBeDefined();
+  });
+
+  it('should rebuild nested and array element disclosures', async () => {
+    const presentation = await decodeSdJwt(present(FAMILY_NAME, ADDRESS, LOCALITY, NATIONALITY_FR));
+
+    expect(presentation.claims).toEqual({
+      iss: 'https://issuer.example',
+      vct: 'https://issuer.example/identity_credential',
+      iat: 1683000000,
+      nationalities: ['FR'],
+      cnf: PAYLOAD.cnf,
+      family_name: 'Möbius',
+      address: { country: 'DE', locality: 'Berlin' },
+    });
+    expect(presentation.disclosed.map((claim) => claim.path)).toEqual([
+      ['nationalities', '0'],
+      ['family_name'],
+      ['address'],
+      ['address', 'locality'],
+    ]);
+    expect(presentation.errors).toEqual([]);
+  });
+
+  it('should count the withheld digests per claim', async () => {
+    const presentation = await decodeSdJwt(present(ADDRESS));
+
+    expect(presentation.withheld).toEqual([
+      { path: ['nationalities'], count: 2 },
+      { path: ['address'], count: 1 },
+      { path: [], count: 3 },
+    ]);
+    expect(getSdJwtSubjectClaims(presentation.claims)).toEqual({ nationalities: [], address: { country: 'DE' } });
+  });
+
+  it('should report disclosures that match no digest', async () => {
+    const unknown = disclosure('WpxQ4HSoEtcTmCCKOeDslB', 'email', 'erika@example.com');
+    const presentation = await decodeSdJwt(present(GIVEN_NAME, unknown, LOCALITY));
+
+    expect(presentation.claims.given_name).toBe('Erika');
+    expect(presentation.claims.email).toBeUndefined();
+    expect(presentation.errors).toEqual([
+      'Disclosure email does not match any digest of the credential',
+      // The address holding the locality was not disclosed
+      'Disclosure locality does not match any digest of the credential',
+    ]);
+  });
+
+  it('should report malformed disclosures and keep the others', async () => {
+    const notJson = encode('not a disclosure').slice(0, -2);
+    const tooLong = disclosure('VGhpcyBpcyB0b28gbG9uZw', 'given_name', 'Erika', 'extra');
+    const presentation = await decodeSdJwt(present(GIVEN_NAME, { encoded: notJson }, tooLong, BIRTHDATE));
+
+    expect(presentation.claims.given_name).toBe('Erika');
+    expect(presentation.claims.birthdate).toBe('1963-08-12');
+    expect(presentation.disclosures.map((d) => d.digest)).toEqual([GIVEN_NAME.digest, BIRTHDATE.digest]);
+    expect(presentation.errors).toEqual([
+      `Disclosure ${notJson} is not base64url encoded JSON`,
+      `Disclosure ${tooLong.encoded} is not a [salt, name, value] or [salt, value] array`,
+    ]);
+  });
+
+  it('should report disclosures referenced at the wrong place', async () => {
+    const claimAsElement = disclosure('1l0aVDeUzGdvLDBQKrBPvg', 'nationality', 'DE');
+    const issuerJwt = jwt({ _sd: [NATIONALITY_DE.digest], nationalities: [{ '...': claimAsElement.digest }] });
+    const presentation = await decodeSdJwt(`${issuerJwt}~${NATIONALITY_DE.encoded}~${claimAsElement.encoded}~`);
+
+    expect(presentation.claims).toEqual({ nationalities: [] });
+    expect(presentation.errors).toEqual([
+      'Disclosure of nationality is referenced as an array element',
+      `Array element disclosure ${NATIONALITY_DE.digest} is referenced as a claim`,
+    ]);
+  });
+
+  it('should use the declared _sd_alg', async () => {
+    const encoded = encode(['5jQXuDmEyUvdnlR2wF2wkQ', 'given_name', 'Erika']);
+    const issuerJwt = jwt({ _sd: [digest(encoded, 'sha512')], _sd_alg: 'sha-512' });
+
+    expect((await decodeSdJwt(`${issuerJwt}~${encoded}~`)).claims).toEqual({ given_name: 'Erika' });
+    await expect(decodeSdJwt(`${jwt({ _sd_alg: 'md5' })}~${encoded}~`)).rejects.toThrow('Unsupported _sd_alg md5');
+  });
+
+  it('should check the sd_hash of the key binding JWT', async () => {
+    const presentation = present(GIVEN_NAME, BIRTHDATE);
+
+    const bound = await decodeSdJwt(withKeyBinding(presentation));
+    expect(bound.keyBinding?.payload.aud).toBe('https://verifier.example');
+    expect(bound.keyBinding?.sdHashValid).toBe(true);
+
+    // A disclosure added after the holder signed
+    const extended = await decodeSdJwt(withKeyBinding(present(GIVEN_NAME, BIRTHDATE, FAMILY_NAME), digest(presentation)));
+    expect(extended.keyBinding?.sdHashValid).toBe(false);
+  });
+});
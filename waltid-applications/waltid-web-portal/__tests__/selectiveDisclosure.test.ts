@@ -0,0 +1,132 @@
+import {buildSelectiveDisclosure, getDisclosureClaims, getDisclosureMode} from '../utils/selectiveDisclosure';
+
+const CLAIMS = {
+  given_name: 'Jane',
+  age_over_18: true,
+  age: 30,
+  address: {
+    street_address: 'Main Street 1',
+    locality: 'Vienna',
+    geo: { lat: 48.2, lng: 16.37 },
+  },
+  driving_privileges: [{ vehicle_category_code: 'B' }],
+  nationalities: ['AT', 'DE'],
+};
+
+describe('Selective disclosure', () => {
+  describe('getDisclosureClaims', () => {
+    it('should list nested claims after their object', () => {
+      expect(getDisclosureClaims(CLAIMS).map((claim) => [claim.path, claim.depth])).toEqual([
+        ['given_name', 0],
+        ['age_over_18', 0],
+        ['age', 0],
+        ['address', 0],
+        ['address.street_address', 1],
+        ['address.locality', 1],
+        ['address.geo', 1],
+        ['address.geo.lat', 2],
+        ['address.geo.lng', 2],
+        ['driving_privileges', 0],
+        ['driving_privileges.0', 1],
+        ['driving_privileges.0.vehicle_category_code', 2],
+        ['nationalities', 0],
+        ['nationalities.0', 1],
+        ['nationalities.1', 1],
+      ]);
+    });
+
+    it('should list array elements by index', () => {
+      const claims = getDisclosureClaims(CLAIMS);
+      expect(claims.find((c) => c.path === 'nationalities')).toMatchObject({ nested: true, element: false });
+      expect(claims.find((c) => c.path === 'nationalities.1')).toMatchObject({ key: '1', value: 'DE', element: true });
+    });
+  });
+
+  describe('getDisclosureMode', () => {
+    it('should default top-level claims of the disclosable types to selective', () => {
+      expect(getDisclosureMode({}, 'given_name', 'Jane', ['string'])).toBe('selective');
+      expect(getDisclosureMode({}, 'age_over_18', true, ['string'])).toBe('always');
+      expect(getDisclosureMode({}, 'address.locality', 'Vienna', ['string'])).toBe('always');
+    });
+
+    it('should prefer the configured mode', () => {
+      expect(getDisclosureMode({ given_name: 'always' }, 'given_name', 'Jane', ['string'])).toBe('always');
+    });
+  });
+
+  describe('buildSelectiveDisclosure', () => {
+    it('should keep the default top-level disclosures', () => {
+      expect(buildSelectiveDisclosure(CLAIMS, undefined, ['string', 'boolean'])).toEqual({
+        fields: { given_name: { sd: true }, age_over_18: { sd: true } },
+      });
+    });
+
+    it('should disclose nested claims recursively', () => {
+      const sdMap = buildSelectiveDisclosure(CLAIMS, {
+        'given_name': 'always',
+        'address': 'selective',
+        'address.locality': 'selective',
+        'address.geo.lat': 'selective',
+      }, ['string']);
+
+      expect(sdMap).toEqual({
+        fields: {
+          address: {
+            sd: true,
+            children: {
+              fields: {
+                locality: { sd: true },
+                geo: { sd: false, children: { fields: { lat: { sd: true } } } },
+              },
+            },
+          },
+        },
+      });
+    });
+
+    it('should disclose arrays as a whole', () => {
+      expect(buildSelectiveDisclosure(CLAIMS, { driving_privileges: 'selective', given_name: 'always' }, ['string']))
+        .toEqual({ fields: { driving_privileges: { sd: true } } });
+    });
+
+    it('should disclose array elements', () => {
+      const sdMap = buildSelectiveDisclosure(CLAIMS, {
+        'given_name': 'always',
+        'nationalities.1': 'selective',
+        'driving_privileges.0.vehicle_category_code': 'selective',
+      }, ['string']);
+
+      expect(sdMap).toEqual({
+        fields: {
+          driving_privileges: {
+            sd: false,
+            elements: [{ sd: false, children: { fields: { vehicle_category_code: { sd: true } } } }],
+          },
+          nationalities: { sd: false, elements: [{ sd: false }, { sd: true }] },
+        },
+      });
+    });
+
+    it('should not add decoy digests for array elements', () => {
+      const sdMap = buildSelectiveDisclosure(CLAIMS, { 'given_name': 'always', 'nationalities.0': 'decoy' }, ['string']);
+
+      expect(sdMap).toEqual({ fields: { nationalities: { sd: false, elements: [{ sd: true }, { sd: false }] } } });
+    });
+
+    it('should add decoy digests to the level of decoy-padded claims', () => {
+      const sdMap = buildSelectiveDisclosure(CLAIMS, {
+        'given_name': 'decoy',
+        'age': 'decoy',
+        'address.street_address': 'decoy',
+      }, ['string']);
+
+      expect(sdMap.decoyMode).toBe('FIXED');
+      expect(sdMap.decoys).toBe(4);
+      expect(sdMap.fields.given_name).toEqual({ sd: true });
+      expect(sdMap.fields.address).toEqual({
+        sd: false,
+        children: { fields: { street_address: { sd: true } }, decoyMode: 'FIXED', decoys: 2 },
+      });
+    });
+  });
+});
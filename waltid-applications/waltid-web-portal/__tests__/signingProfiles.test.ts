@@ -0,0 +1,146 @@
+import axios from 'axios';
+
+jest.mock('axios');
+
+const PROFILES = [
+  {
+    id: 'did:key',
+    issuerDid: 'did:key:z6MkmANLkdcnbriWeVaqdfrA3MmtXoVPNu98tww6xDeyVnyF',
+    issuerKey: {
+      type: 'jwk',
+      jwk: { kty: 'OKP', crv: 'Ed25519', x: 'public-x', d: 'private-d' },
+    },
+  },
+  {
+    id: 'did:jwk',
+    issuerDid: 'did:jwk:eyJrdHkiOiJFQyJ9',
+    issuerKey: {
+      type: 'jwk',
+      jwk: { kty: 'EC', crv: 'P-256', x: 'public-x', y: 'public-y', d: 'private-d' },
+    },
+  },
+];
+
+function loadModule() {
+  let module: typeof import('../lib/server/signingProfiles');
+  jest.isolateModules(() => {
+    module = require('../lib/server/signingProfiles');
+  });
+  return module!;
+}
+
+const mockedAxios = axios as jest.Mocked<typeof axios>;
+
+describe('Signing profile store', () => {
+  afterEach(() => {
+    delete process.env.SIGNING_PROFILES;
+    delete process.env.SIGNING_PROFILES_FILE;
+    delete process.env.SIGNING_PROFILES_ONBOARD;
+    delete process.env.NEXT_PUBLIC_ISSUER;
+    jest.resetAllMocks();
+  });
+
+  it('should load profiles from SIGNING_PROFILES', async () => {
+    process.env.SIGNING_PROFILES = JSON.stringify(PROFILES);
+    const { loadSigningProfiles } = loadModule();
+
+    expect((await loadSigningProfiles()).map((p) => p.id)).toEqual(['did:key', 'did:jwk']);
+  });
+
+  it('should load profiles from SIGNING_PROFILES_FILE', async () => {
+    process.env.SIGNING_PROFILES_FILE = 'signing-profiles.example.json';
+    const { loadSigningProfiles } = loadModule();
+
+    expect((await loadSigningProfiles()).length).toBeGreaterThan(0);
+  });
+
+  it('should ship no private keys in the example profiles', async () => {
+    process.env.SIGNING_PROFILES_FILE = 'signing-profiles.example.json';
+    const { loadSigningProfiles } = loadModule();
+
+    expect((await loadSigningProfiles()).filter((profile) => 'd' in profile.issuerKey.jwk)).toEqual([]);
+  });
+
+  it('should fail when nothing is configured', async () => {
+    const { loadSigningProfiles, getSigningProfile } = loadModule();
+
+    await expect(loadSigningProfiles()).rejects.toThrow('No issuer signing profiles configured');
+    await expect(getSigningProfile('did:key')).rejects.toThrow('No issuer signing profiles configured');
+    expect(mockedAxios.post).not.toHaveBeenCalled();
+  });
+
+  it('should reject an empty list of profiles', async () => {
+    process.env.SIGNING_PROFILES = '[]';
+    const { loadSigningProfiles } = loadModule();
+
+    await expect(loadSigningProfiles()).rejects.toThrow('Signing profiles must not be empty');
+  });
+
+  it('should onboard profiles at the issuer once', async () => {
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    process.env.SIGNING_PROFILES_ONBOARD = 'key, jwk';
+    process.env.NEXT_PUBLIC_ISSUER = 'http://issuer:7002';
+    mockedAxios.post.mockImplementation(async (url, body: any) => ({
+      data: { issuerDid: `did:${body.did.method}:generated`, issuerKey: { type: 'jwk', jwk: { kty: 'OKP', x: 'x', d: 'd' } } },
+    }));
+    const { loadSigningProfiles } = loadModule();
+
+    expect((await loadSigningProfiles()).map((p) => [p.id, p.issuerDid])).toEqual([
+      ['did:key', 'did:key:generated'],
+      ['did:jwk', 'did:jwk:generated'],
+    ]);
+    await loadSigningProfiles();
+    expect(mockedAxios.post).toHaveBeenCalledTimes(2);
+    expect(mockedAxios.post).toHaveBeenCalledWith('http://issuer:7002/onboard/issuer', {
+      key: { backend: 'jwk', keyType: 'Ed25519' },
+      did: { method: 'key' },
+    });
+  });
+
+  it('should prefer configured profiles over onboarding', async () => {
+    process.env.SIGNING_PROFILES = JSON.stringify(PROFILES);
+    process.env.SIGNING_PROFILES_ONBOARD = 'key';
+    const { loadSigningProfiles } = loadModule();
+
+    expect((await loadSigningProfiles()).map((p) => p.issuerDid)).toEqual(PROFILES.map((p) => p.issuerDid));
+    expect(mockedAxios.post).not.toHaveBeenCalled();
+  });
+
+  it('should try a failed onboarding again', async () => {
+    process.env.SIGNING_PROFILES_ONBOARD = 'key';
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    mockedAxios.post
+      .mockRejectedValueOnce(new Error('connect ECONNREFUSED'))
+      .mockResolvedValueOnce({ data: { issuerDid: 'did:key:generated', issuerKey: { type: 'jwk', jwk: { kty: 'OKP' } } } });
+    const { loadSigningProfiles } = loadModule();
+
+    await expect(loadSigningProfiles()).rejects.toThrow('ECONNREFUSED');
+    expect((await loadSigningProfiles())[0].issuerDid).toBe('did:key:generated');
+  });
+
+  it('should resolve the first profile by default', async () => {
+    process.env.SIGNING_PROFILES = JSON.stringify(PROFILES);
+    const { getSigningProfile } = loadModule();
+
+    expect((await getSigningProfile())?.id).toBe('did:key');
+    expect((await getSigningProfile('did:jwk'))?.issuerDid).toBe('did:jwk:eyJrdHkiOiJFQyJ9');
+    expect(await getSigningProfile('did:web')).toBeUndefined();
+  });
+
+  it('should reject profiles without a key', async () => {
+    process.env.SIGNING_PROFILES = JSON.stringify([{ id: 'broken', issuerDid: 'did:key:z6Mk' }]);
+    const { loadSigningProfiles } = loadModule();
+
+    await expect(loadSigningProfiles()).rejects.toThrow('Invalid signing profile: broken');
+  });
+
+  it('should strip private key material from public profiles', () => {
+    const { toPublicSigningProfile } = loadModule();
+
+    expect(toPublicSigningProfile(PROFILES[1])).toEqual({
+      id: 'did:jwk',
+      issuerDid: 'did:jwk:eyJrdHkiOiJFQyJ9',
+      publicJwk: { kty: 'EC', crv: 'P-256', x: 'public-x', y: 'public-y' },
+    });
+  });
+});
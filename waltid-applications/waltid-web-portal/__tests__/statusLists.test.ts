@@ -0,0 +1,101 @@
+import zlib from 'zlib';
+import {buildStatusClaim, packStatusList, STATUS_LISTS, StatusListEntry} from '../types/statusLists';
+import {
+  allocateStatusListEntry,
+  buildStatusListToken,
+  getRequestOrigin,
+  getStatusListUri,
+  listStatusLists,
+  setStatusListEntryStatus,
+} from '../lib/server/statusLists';
+import {useTemporaryStoreFile} from './fixtures/storeFile';
+
+function entry(index: number, status: StatusListEntry['status']): StatusListEntry {
+  return { index, credentialId: 'test', status, createdAt: '2024-01-01T00:00:00Z' };
+}
+
+function decodeJwtPayload(token: string) {
+  return JSON.parse(Buffer.from(token.split('.')[1], 'base64url').toString());
+}
+
+describe('Status lists', () => {
+  describe('packStatusList', () => {
+    it('should start Token Status List bytes with the least significant bit', () => {
+      const bytes = packStatusList(STATUS_LISTS.token, [entry(1, 'REVOKED'), entry(2, 'SUSPENDED'), entry(3, 'VALID')], 8);
+      expect(Array.from(bytes)).toEqual([0b00100100, 0]);
+    });
+
+    it('should start StatusList2021 bytes with the most significant bit', () => {
+      const bytes = packStatusList(STATUS_LISTS.revocation, [entry(1, 'REVOKED'), entry(9, 'REVOKED')], 16);
+      expect(Array.from(bytes)).toEqual([0b01000000, 0b01000000]);
+    });
+  });
+
+  describe('buildStatusClaim', () => {
+    it('should reference the Token Status List', () => {
+      expect(buildStatusClaim(STATUS_LISTS.token, 7, 'https://portal/api/status-lists/token')).toEqual({
+        status: { status_list: { idx: 7, uri: 'https://portal/api/status-lists/token' } },
+      });
+    });
+
+    it('should reference the StatusList2021 credential', () => {
+      expect(buildStatusClaim(STATUS_LISTS.revocation, 7, 'https://portal/api/status-lists/revocation')).toEqual({
+        credentialStatus: {
+          id: 'https://portal/api/status-lists/revocation#7',
+          type: 'StatusList2021Entry',
+          statusPurpose: 'revocation',
+          statusListIndex: '7',
+          statusSize: 1,
+          statusListCredential: 'https://portal/api/status-lists/revocation',
+        },
+      });
+    });
+  });
+});
+
+describe('Status list store', () => {
+  useTemporaryStoreFile('STATUS_LISTS_FILE', 'status-lists.json');
+
+  it('should derive status list urls from the request', () => {
+    expect(getRequestOrigin({ host: 'localhost:7102' })).toBe('http://localhost:7102');
+    expect(getRequestOrigin({ host: 'portal', 'x-forwarded-proto': 'https', 'x-forwarded-host': 'portal.example.com' }))
+      .toBe('https://portal.example.com');
+    expect(getStatusListUri('token', 'http://localhost:7102')).toBe('http://localhost:7102/api/status-lists/token');
+  });
+
+  it('should allocate entries and update their status', () => {
+    expect(allocateStatusListEntry('token', { credentialId: 'pid', format: 'DC+SD-JWT (EUDI)' }).index).toBe(0);
+    expect(allocateStatusListEntry('token', { credentialId: 'mdl' }).index).toBe(1);
+    expect(allocateStatusListEntry('revocation', { credentialId: 'degree' }).index).toBe(0);
+
+    expect(setStatusListEntryStatus('token', 1, 'SUSPENDED')?.status).toBe('SUSPENDED');
+    expect(setStatusListEntryStatus('token', 5, 'REVOKED')).toBeUndefined();
+    expect(() => setStatusListEntryStatus('revocation', 0, 'SUSPENDED')).toThrow();
+
+    const [token, revocation] = listStatusLists('http://localhost:7102');
+    expect(token.entries.map((e) => e.status)).toEqual(['VALID', 'SUSPENDED']);
+    expect(revocation.entries).toHaveLength(1);
+  });
+
+  it('should serve the Token Status List as statuslist+jwt', () => {
+    allocateStatusListEntry('token', { credentialId: 'pid' });
+    setStatusListEntryStatus('token', 0, 'REVOKED');
+
+    const token = buildStatusListToken('token', 'http://localhost:7102/api/status-lists/token');
+    expect(JSON.parse(Buffer.from(token.split('.')[0], 'base64url').toString())).toEqual({ alg: 'none', typ: 'statuslist+jwt' });
+
+    const { status_list } = decodeJwtPayload(token);
+    expect(status_list.bits).toBe(2);
+    expect(zlib.inflateSync(Buffer.from(status_list.lst, 'base64url'))[0]).toBe(1);
+  });
+
+  it('should serve the StatusList2021 credential as JWT', () => {
+    allocateStatusListEntry('revocation', { credentialId: 'degree' });
+    setStatusListEntryStatus('revocation', 0, 'REVOKED');
+
+    const { vc } = decodeJwtPayload(buildStatusListToken('revocation', 'http://localhost:7102/api/status-lists/revocation'));
+    expect(vc.credentialSubject.type).toBe('StatusList2021');
+    expect(vc.credentialSubject.statusPurpose).toBe('revocation');
+    expect(zlib.gunzipSync(Buffer.from(vc.credentialSubject.encodedList, 'base64'))[0]).toBe(0b10000000);
+  });
+});
@@ -0,0 +1,49 @@
+import { createHash } from 'crypto';
+import { buildPaymentTransactionData, encodeTransactionData } from '../types/credentials';
+import { confirmTransactionData, describeTransactionData, getPresentedTransactionDataHashes } from '../utils/transactionData';
+
+function base64url(value: object | string): string {
+  return Buffer.from(typeof value === 'string' ? value : JSON.stringify(value)).toString('base64url');
+}
+
+function sdJwtPresentation(keyBindingPayload: object): string {
+  const issuerJwt = [base64url({ alg: 'ES256' }), base64url({ vct: 'PaymentWalletAttestation' }), 'sig'].join('.');
+  const disclosure = base64url(['salt', 'type', 'CARD']);
+  const keyBindingJwt = [base64url({ typ: 'kb+jwt' }), base64url(keyBindingPayload), 'sig'].join('.');
+  return `${issuerJwt}~${disclosure}~${keyBindingJwt}`;
+}
+
+describe('Transaction data confirmation', () => {
+  const item = buildPaymentTransactionData({ amount: 10, currency: 'EUR', payee: 'Merchant' }, ['PaymentWalletAttestation']);
+  const encoded = encodeTransactionData(item);
+  const hash = createHash('sha256').update(encoded).digest('base64url');
+
+  it('should read transaction_data_hashes from the key binding JWT', () => {
+    expect(getPresentedTransactionDataHashes(sdJwtPresentation({ transaction_data_hashes: [hash] }))).toEqual([hash]);
+  });
+
+  it('should ignore presentations without key binding JWT', () => {
+    expect(getPresentedTransactionDataHashes(`${base64url({})}.${base64url({})}.sig~`)).toEqual([]);
+    expect(getPresentedTransactionDataHashes('not-an-sd-jwt')).toEqual([]);
+  });
+
+  it('should confirm transaction data returned by the wallet', async () => {
+    const result = await confirmTransactionData([encoded], {
+      PaymentWalletAttestation: [sdJwtPresentation({ transaction_data_hashes: [hash] })],
+    });
+
+    expect(result).toEqual([{ item, hash, confirmedBy: ['PaymentWalletAttestation'] }]);
+  });
+
+  it('should report transaction data the wallet did not confirm', async () => {
+    const result = await confirmTransactionData([encoded], {
+      PaymentWalletAttestation: [sdJwtPresentation({ transaction_data_hashes: ['other'] })],
+    });
+
+    expect(result[0].confirmedBy).toEqual([]);
+  });
+
+  it('should describe payments', () => {
+    expect(describeTransactionData(item)).toBe('Payment of 10 EUR to Merchant');
+  });
+});
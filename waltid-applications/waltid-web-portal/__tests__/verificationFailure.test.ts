@@ -0,0 +1,221 @@
+import {
+  getDcqlProblems,
+  getLegacyVerificationFailure,
+  getVerificationFailure,
+  getVerificationRequest,
+  restoreVerificationRequest,
+  storeVerificationRequest,
+} from '../utils/verificationFailure';
+import {VerificationSessionInfo} from '../utils/verificationSession';
+import {
+  AvailableCredential,
+  buildCredentialSets,
+  buildDcqlQuery,
+  CredentialMatchMode,
+  DcqlQuery,
+  getCredentialFormats,
+  TransactionDataItem,
+} from '../types/credentials';
+
+const DCQL_QUERY: DcqlQuery = {
+  credentials: [
+    { id: 'pid', format: 'dc+sd-jwt', meta: { vct_values: ['urn:eudi:pid:1'] } },
+    { id: 'mdl', format: 'mso_mdoc', meta: { doctype_value: 'org.iso.18013.5.1.mDL' } },
+  ],
+};
+
+const SESSION: VerificationSessionInfo = {
+  id: 'f2a0dc3c-0c52-4a65-9c23-d5b4a3c5d0ff',
+  status: 'UNSUCCESSFUL',
+  authorizationRequest: { dcql_query: DCQL_QUERY },
+};
+
+describe('DCQL problems', () => {
+  it('should require every credential query without credential sets', () => {
+    expect(getDcqlProblems(DCQL_QUERY, ['pid', 'photo_id'])).toEqual([
+      'The wallet presented photo_id, which was not requested',
+      'Credential mdl was requested but not presented',
+    ]);
+  });
+
+  it('should check the required credential sets', () => {
+    const query: DcqlQuery = {
+      ...DCQL_QUERY,
+      credential_sets: [
+        { options: [['pid'], ['mdl']] },
+        { options: [['pid', 'mdl']], required: false },
+      ],
+    };
+
+    expect(getDcqlProblems(query, ['mdl'])).toEqual([]);
+    expect(getDcqlProblems({ ...query, credential_sets: [{ options: [['pid', 'mdl']] }] }, ['mdl'])).toEqual([
+      'Credential set 1 is not fulfilled, it requires pid and mdl',
+    ]);
+  });
+});
+
+describe('Verification failure of a Verifier API2 session', () => {
+  it('should list the presentation policies of rejected presentations', () => {
+    const failure = getVerificationFailure({
+      ...SESSION,
+      statusReason: 'One or more presentations in vp_token failed validation',
+      presentedRawData: { vpToken: { pid: ['ey...'], mdl: ['o2d2...'] } },
+      policyResults: {
+        vp_policies: {
+          pid: { 'dc+sd-jwt/audience-check': { success: true, errors: [] } },
+          mdl: {
+            'mso_mdoc/device-auth': {
+              success: false,
+              errors: [{ error: 'DeviceAuthException', message: 'Device signature is invalid' }],
+            },
+          },
+        },
+        vc_policies: [],
+        specific_vc_policies: {},
+      },
+    });
+
+    expect(failure).toEqual({
+      reason: 'One or more presentations in vp_token failed validation',
+      failedPolicies: [{ credential: 'mdl', name: 'mso_mdoc/device-auth', errors: ['Device signature is invalid'] }],
+      dcqlProblems: [],
+    });
+  });
+
+  it('should list failed credential policies once per credential', () => {
+    const failure = getVerificationFailure({
+      ...SESSION,
+      status: 'FAILED',
+      presentedRawData: { vpToken: { pid: ['ey...'] } },
+      presentedCredentials: {
+        pid: [{ type: 'vc-sd_jwt', format: 'dc+sd-jwt', credentialData: { vct: 'urn:eudi:pid:1' } }],
+      },
+      policyResults: {
+        vp_policies: { pid: { 'dc+sd-jwt/kb-jwt_signature': { success: true } } },
+        vc_policies: [
+          { policy: { policy: 'signature' }, success: true },
+          { policy: { policy: 'expiration' }, success: false, error: 'Credential expired' },
+        ],
+      },
+    });
+
+    expect(failure.failedPolicies).toEqual([{ credential: 'pid', name: 'expiration', errors: ['Credential expired'] }]);
+    expect(failure.dcqlProblems).toEqual(['Credential mdl was requested but not presented']);
+  });
+
+  it('should show the error response of the wallet', () => {
+    const failure = getVerificationFailure({
+      ...SESSION,
+      walletError: { error: 'access_denied', error_description: 'The user declined the request' },
+    });
+
+    expect(failure.walletError).toEqual({ error: 'access_denied', errorDescription: 'The user declined the request' });
+    // Nothing was presented, so there is nothing to hold against the DCQL query
+    expect(failure.dcqlProblems).toEqual([]);
+  });
+});
+
+describe('Verification failure of a Verifier API session', () => {
+  it('should list the failed policies with their errors', () => {
+    const failure = getLegacyVerificationFailure({
+      tokenResponse: {},
+      policyResults: {
+        results: [
+          { credential: 'VerifiablePresentation', policyResults: [{ policy: 'signature', is_success: true }] },
+          {
+            credential: 'OpenBadgeCredential',
+            policyResults: [
+              { policy: 'expired', is_success: false, error: { exception: true, message: 'VC expired since 2024-01-01' } },
+              { policy: 'schema', is_success: false, error: 'java.lang.IllegalArgumentException: Schema mismatch\n\tat ...' },
+            ],
+          },
+        ],
+      },
+    });
+
+    expect(failure.failedPolicies).toEqual([
+      { credential: 'OpenBadgeCredential', name: 'expired', errors: ['VC expired since 2024-01-01'] },
+      { credential: 'OpenBadgeCredential', name: 'schema', errors: ['java.lang.IllegalArgumentException: Schema mismatch'] },
+    ]);
+  });
+
+  it('should read the wallet error from the token response', () => {
+    expect(getLegacyVerificationFailure({ tokenResponse: { error: 'invalid_request' } }).walletError)
+      .toEqual({ error: 'invalid_request', errorDescription: undefined });
+  });
+});
+
+describe('Retrying a verification request', () => {
+  const EDITED_PID: AvailableCredential = {
+    id: 'urn:eudi:pid:1',
+    title: 'PID',
+    selectedFormat: 'DC+SD-JWT (EUDI)',
+    offer: {},
+    editedClaims: [{ path: ['age_equal_or_over', '18'], values: [true] }, { path: ['nationalities'], values: ['AT', 'DE'] }],
+  };
+  const MDL: AvailableCredential = { id: 'org.iso.18013.5.1.mDL', title: 'mDL', selectedFormat: 'mDoc (ISO 18013-5)', offer: {} };
+  const TRANSACTION_DATA: TransactionDataItem[] = [{ type: 'payment_data', credential_ids: ['urn:eudi:pid:1'], amount: '10.00' }];
+  const QUERY = { ids: 'urn:eudi:pid:1,org.iso.18013.5.1.mDL', optional: 'org.iso.18013.5.1.mDL', match: 'all' };
+
+  beforeEach(() => {
+    const items: Record<string, string> = {};
+    (global as any).localStorage = {
+      getItem: (key: string) => items[key] ?? null,
+      setItem: (key: string, value: string) => { items[key] = value; },
+      removeItem: (key: string) => { delete items[key]; },
+    };
+  });
+
+  afterEach(() => {
+    delete (global as any).localStorage;
+  });
+
+  // Takes the handed over credentials and transaction data like the verify page and builds its DCQL query
+  function openVerifyPage(query: Record<string, string | string[] | undefined>) {
+    const credentials: AvailableCredential[] = JSON.parse(localStorage.getItem('verification')!);
+    const transactionData: TransactionDataItem[] = JSON.parse(localStorage.getItem('transactionData') ?? '[]');
+    localStorage.removeItem('verification');
+    localStorage.removeItem('transactionData');
+    const credentialSets = buildCredentialSets(
+      credentials.map((credential) => credential.id),
+      query.match as CredentialMatchMode,
+      query.optional?.toString().split(',')
+    );
+    return {
+      credentials,
+      transactionData,
+      dcqlQuery: buildDcqlQuery(credentials, getCredentialFormats(credentials), credentialSets),
+    };
+  }
+
+  it('should send the same DCQL query and transaction data again', () => {
+    localStorage.setItem('verification', JSON.stringify([EDITED_PID, MDL]));
+    localStorage.setItem('transactionData', JSON.stringify(TRANSACTION_DATA));
+    const original = openVerifyPage(QUERY);
+    storeVerificationRequest(SESSION.id, { query: QUERY, credentials: original.credentials, transactionData: original.transactionData });
+
+    const retried = openVerifyPage(restoreVerificationRequest(getVerificationRequest(SESSION.id)!));
+
+    expect(retried.dcqlQuery).toEqual(original.dcqlQuery);
+    expect(retried.dcqlQuery.credentials[0].claims).toEqual([
+      { path: ['age_equal_or_over', '18'], values: [true] },
+      { path: ['nationalities'], values: ['AT', 'DE'] },
+    ]);
+    expect(retried.transactionData).toEqual(TRANSACTION_DATA);
+  });
+
+  it('should not hand over transaction data of an earlier verification', () => {
+    localStorage.setItem('transactionData', JSON.stringify(TRANSACTION_DATA));
+    storeVerificationRequest(SESSION.id, { query: QUERY, credentials: [MDL] });
+
+    restoreVerificationRequest(getVerificationRequest(SESSION.id)!);
+
+    expect(localStorage.getItem('transactionData')).toBeNull();
+  });
+
+  it('should ignore requests remembered as a plain query', () => {
+    localStorage.setItem('verificationRequests', JSON.stringify({ [SESSION.id]: QUERY }));
+
+    expect(getVerificationRequest(SESSION.id)).toBeNull();
+  });
+});
@@ -0,0 +1,219 @@
+import axios from 'axios';
+import {
+  getApi2Status,
+  getLegacyStatus,
+  getVerificationEventsUrl,
+  getVerificationSteps,
+  watchVerificationStatus,
+} from '../utils/verificationStatus';
+import {VerificationSessionInfo} from '../utils/verificationSession';
+
+jest.mock('axios');
+const mockedAxios = axios as jest.Mocked<typeof axios>;
+
+const SESSION_ID = 'f2a0dc3c-0c52-4a65-9c23-d5b4a3c5d0ff';
+const VERIFIER2 = 'http://localhost:7004';
+
+function session(status: VerificationSessionInfo['status'], extra: Partial<VerificationSessionInfo> = {}) {
+  return { data: { id: SESSION_ID, status, ...extra } };
+}
+
+// Stands in for the browser EventSource, which the Jest node environment does not have
+class FakeEventSource {
+  static instances: FakeEventSource[] = [];
+  onmessage: ((message: { data: string }) => void) | null = null;
+  onerror: (() => void) | null = null;
+  closed = false;
+
+  constructor(readonly url: string) {
+    FakeEventSource.instances.push(this);
+  }
+
+  send(data: unknown) {
+    this.onmessage?.({ data: JSON.stringify(data) });
+  }
+
+  close() {
+    this.closed = true;
+  }
+}
+
+describe('Verification status', () => {
+  it('should map Verifier API2 session statuses', () => {
+    expect(getApi2Status(session('ACTIVE').data)).toBe('pending');
+    expect(getApi2Status(session('IN_USE').data)).toBe('wallet-fetched-request');
+    expect(getApi2Status(session('PROCESSING_FLOW').data)).toBe('responded');
+    expect(getApi2Status(session('SUCCESSFUL').data)).toBe('success');
+    expect(getApi2Status(session('UNSUCCESSFUL').data)).toBe('failed');
+  });
+
+  it('should expire unused sessions past their expiration date', () => {
+    const expirationDate = '2025-01-01T00:10:00Z';
+    const later = Date.parse('2025-01-01T00:11:00Z');
+
+    expect(getApi2Status(session('UNUSED', { expirationDate }).data, later)).toBe('expired');
+    expect(getApi2Status(session('PROCESSING_FLOW', { expirationDate, attempted: true }).data, later)).toBe('responded');
+  });
+
+  it('should map legacy verifier sessions', () => {
+    expect(getLegacyStatus({ verificationResult: null })).toBe('pending');
+    expect(getLegacyStatus({ tokenResponse: { vp_token: 'ey...' } })).toBe('responded');
+    expect(getLegacyStatus({ verificationResult: false, tokenResponse: {} })).toBe('failed');
+  });
+
+  it('should list the steps done', () => {
+    expect(getVerificationSteps('responded').map((step) => step.done)).toEqual([true, true, false]);
+    expect(getVerificationSteps('expired').map((step) => step.done)).toEqual([true, true, false]);
+  });
+});
+
+describe('watchVerificationStatus', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+    mockedAxios.get.mockReset();
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    FakeEventSource.instances = [];
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    delete (global as any).EventSource;
+  });
+
+  it('should poll the session info with backoff until it has finished', async () => {
+    mockedAxios.get
+      .mockResolvedValueOnce(session('ACTIVE'))
+      .mockResolvedValueOnce(session('ACTIVE'))
+      .mockResolvedValueOnce(session('IN_USE'))
+      .mockResolvedValueOnce(session('SUCCESSFUL'));
+    const onStatus = jest.fn();
+
+    const result = watchVerificationStatus({ verifierUrl: VERIFIER2, sessionId: SESSION_ID, api2: true, onStatus });
+    await jest.advanceTimersByTimeAsync(1999);
+    // The unchanged second poll doubled the interval
+    expect(mockedAxios.get).toHaveBeenCalledTimes(2);
+    await jest.advanceTimersByTimeAsync(3000);
+
+    expect(await result).toBe('success');
+    expect(onStatus.mock.calls.map(([status]) => status)).toEqual(['pending', 'wallet-fetched-request', 'success']);
+    expect(mockedAxios.get).toHaveBeenCalledWith(`${VERIFIER2}/verification-session/${SESSION_ID}/info`, expect.anything());
+  });
+
+  it('should poll the legacy verifier', async () => {
+    mockedAxios.get.mockResolvedValueOnce({ data: { verificationResult: false } });
+
+    const result = watchVerificationStatus({ verifierUrl: 'http://localhost:7003', sessionId: SESSION_ID, api2: false });
+
+    expect(await result).toBe('failed');
+    expect(mockedAxios.get).toHaveBeenCalledWith(`http://localhost:7003/openid4vc/session/${SESSION_ID}`, expect.anything());
+  });
+
+  it('should read same-device sessions with the response code', async () => {
+    mockedAxios.get.mockResolvedValueOnce(session('SUCCESSFUL'));
+
+    const result = watchVerificationStatus({ verifierUrl: VERIFIER2, sessionId: SESSION_ID, api2: true, responseCode: 'code' });
+
+    expect(await result).toBe('success');
+    expect(mockedAxios.get).toHaveBeenCalledWith(
+      `${VERIFIER2}/verification-session/${SESSION_ID}/info`,
+      expect.objectContaining({ params: { response_code: 'code' } })
+    );
+  });
+
+  it('should subscribe to same-device session events with the response code', async () => {
+    (global as any).EventSource = FakeEventSource;
+    const controller = new AbortController();
+
+    const result = watchVerificationStatus({
+      verifierUrl: VERIFIER2,
+      sessionId: SESSION_ID,
+      api2: true,
+      responseCode: 'a&b',
+      signal: controller.signal,
+    });
+    controller.abort();
+
+    expect(await result).toBeNull();
+    expect(FakeEventSource.instances[0].url).toBe(
+      `${VERIFIER2}/verification-session/${SESSION_ID}/verification-session/events?response_code=a%26b`
+    );
+  });
+
+  it('should retry failed requests and give up after maxErrors', async () => {
+    mockedAxios.get
+      .mockRejectedValueOnce(new Error('Network Error'))
+      .mockResolvedValueOnce(session('ACTIVE'))
+      .mockRejectedValue(new Error('Request failed with status code 502'));
+
+    const result = watchVerificationStatus({ verifierUrl: VERIFIER2, sessionId: SESSION_ID, api2: true, maxErrors: 3 });
+    const rejection = expect(result).rejects.toThrow(
+      'The verification session status could not be read: Request failed with status code 502'
+    );
+    await jest.advanceTimersByTimeAsync(60000);
+
+    await rejection;
+    expect(mockedAxios.get).toHaveBeenCalledTimes(5);
+  });
+
+  it('should expire sessions that do not finish in time', async () => {
+    mockedAxios.get.mockResolvedValue(session('IN_USE'));
+    const onStatus = jest.fn();
+
+    const result = watchVerificationStatus({
+      verifierUrl: VERIFIER2,
+      sessionId: SESSION_ID,
+      api2: true,
+      onStatus,
+      timeoutMs: 30000,
+    });
+    await jest.advanceTimersByTimeAsync(30000);
+
+    expect(await result).toBe('expired');
+    expect(onStatus).toHaveBeenLastCalledWith('expired');
+  });
+
+  it('should stop when the signal aborts', async () => {
+    mockedAxios.get.mockResolvedValue(session('ACTIVE'));
+    const controller = new AbortController();
+
+    const result = watchVerificationStatus({ verifierUrl: VERIFIER2, sessionId: SESSION_ID, api2: true, signal: controller.signal });
+    await jest.advanceTimersByTimeAsync(1000);
+    controller.abort();
+    await jest.advanceTimersByTimeAsync(60000);
+
+    expect(await result).toBeNull();
+    expect(mockedAxios.get).toHaveBeenCalledTimes(2);
+  });
+
+  it('should follow Verifier API2 session events', async () => {
+    (global as any).EventSource = FakeEventSource;
+    mockedAxios.get.mockResolvedValueOnce(session('ACTIVE'));
+    const onStatus = jest.fn();
+
+    const result = watchVerificationStatus({ verifierUrl: VERIFIER2, sessionId: SESSION_ID, api2: true, onStatus });
+    const [events] = FakeEventSource.instances;
+    expect(events.url).toBe(getVerificationEventsUrl(VERIFIER2, SESSION_ID));
+
+    events.send({});
+    events.send({ target: SESSION_ID, event: 'authorization_request_requested', session: session('IN_USE').data });
+    // The session read on subscribing arrives after the event and is older
+    await jest.advanceTimersByTimeAsync(0);
+    events.send({ target: SESSION_ID, event: 'policy_results_available', session: session('SUCCESSFUL').data });
+
+    expect(await result).toBe('success');
+    expect(onStatus.mock.calls.map(([status]) => status)).toEqual(['wallet-fetched-request', 'success']);
+    expect(events.closed).toBe(true);
+    expect(mockedAxios.get).toHaveBeenCalledTimes(1);
+  });
+
+  it('should fall back to polling when the verifier has no events', async () => {
+    (global as any).EventSource = FakeEventSource;
+    mockedAxios.get.mockResolvedValueOnce(session('FAILED'));
+
+    const result = watchVerificationStatus({ verifierUrl: VERIFIER2, sessionId: SESSION_ID, api2: true });
+    FakeEventSource.instances[0].onerror?.();
+
+    expect(await result).toBe('failed');
+    expect(FakeEventSource.instances[0].closed).toBe(true);
+  });
+});
@@ -0,0 +1,111 @@
+import {AvailableCredential} from '../types/credentials';
+import {
+  createVerificationTemplate,
+  getTemplateCredentials,
+  toTemplateId,
+  validateVerificationTemplate,
+  VerificationTemplate,
+} from '../types/verificationTemplates';
+import {
+  deleteVerificationTemplate,
+  getVerificationTemplate,
+  listVerificationTemplates,
+  saveVerificationTemplate,
+} from '../lib/server/verificationTemplates';
+import {useTemporaryStoreFile} from './fixtures/storeFile';
+
+const PID: AvailableCredential = {
+  id: 'eu.europa.ec.eudi.pid.1',
+  title: 'PID',
+  offer: {},
+  selectedFormat: 'DC+SD-JWT (EUDI)',
+  editedClaims: [{ path: ['age_equal_or_over', '18'] }],
+} as AvailableCredential;
+
+const TEMPLATE: VerificationTemplate = {
+  id: 'age-check',
+  name: 'Age check',
+  credentials: [{ id: 'eu.europa.ec.eudi.pid.1', format: 'DC+SD-JWT (EUDI)' }],
+  policies: ['signature'],
+};
+
+describe('Verification templates', () => {
+  it('should derive permalink ids from template names', () => {
+    expect(toTemplateId('  Age Check (18+) ')).toBe('age-check-18');
+    expect(toTemplateId('!!!')).toBe('');
+  });
+
+  it('should accept a valid template', () => {
+    expect(validateVerificationTemplate(TEMPLATE)).toEqual([]);
+  });
+
+  it('should report invalid template fields', () => {
+    const errors = validateVerificationTemplate({
+      ...TEMPLATE,
+      id: 'Age Check',
+      credentials: [{ id: 'pid', format: 'unknown' }],
+      matchMode: 'some',
+      redirects: { successRedirectUri: 'javascript:alert(1)', errorRedirectUri: 'https://example.com' },
+    });
+
+    expect(errors).toHaveLength(4);
+    expect(validateVerificationTemplate([])).toEqual(['Template must be a JSON object']);
+  });
+
+  it('should freeze the DCQL query for EUDI credentials', () => {
+    const template = createVerificationTemplate('Age Check', [PID], {
+      matchMode: 'all',
+      optionalIds: [],
+      policies: ['signature'],
+      clientIdScheme: 'x509_hash',
+    });
+
+    expect(template.id).toBe('age-check');
+    expect(template.credentials).toEqual([
+      { id: PID.id, format: 'DC+SD-JWT (EUDI)', claims: PID.editedClaims },
+    ]);
+    expect(template.dcqlQuery?.credentials).toHaveLength(1);
+    expect(template.clientIdScheme).toBe('x509_hash');
+    expect(validateVerificationTemplate(template)).toEqual([]);
+  });
+
+  it('should restore template credentials with their formats and claims', () => {
+    const [credential, unknown] = getTemplateCredentials(
+      {
+        ...TEMPLATE,
+        credentials: [
+          { id: PID.id, format: 'mDoc (ISO 18013-5)', claims: [{ path: ['given_name'] }] },
+          { id: 'Unlisted', format: 'JWT + W3C VC' },
+        ],
+      },
+      [PID]
+    );
+
+    expect(credential.title).toBe('PID');
+    expect(credential.selectedFormat).toBe('mDoc (ISO 18013-5)');
+    expect(credential.editedClaims).toEqual([{ path: ['given_name'] }]);
+    expect(unknown).toMatchObject({ id: 'Unlisted', title: 'Unlisted', selectedFormat: 'JWT + W3C VC' });
+  });
+});
+
+describe('Verification template store', () => {
+  useTemporaryStoreFile('VERIFICATION_TEMPLATES_FILE', 'templates.json');
+
+  it('should start empty', () => {
+    expect(listVerificationTemplates()).toEqual([]);
+  });
+
+  it('should save, replace and delete templates', () => {
+    const saved = saveVerificationTemplate(TEMPLATE);
+    expect(saved.createdAt).toBeDefined();
+    expect(getVerificationTemplate('age-check')?.name).toBe('Age check');
+
+    const replaced = saveVerificationTemplate({ ...TEMPLATE, name: 'Adult check' });
+    expect(replaced.createdAt).toBe(saved.createdAt);
+    expect(listVerificationTemplates().map((t) => t.name)).toEqual(['Adult check']);
+
+    expect(deleteVerificationTemplate('age-check')).toBe(true);
+    expect(deleteVerificationTemplate('age-check')).toBe(false);
+    expect(listVerificationTemplates()).toEqual([]);
+  });
+});
@@ -1,6 +1,6 @@
 import RowCredential from "@/components/walt/credential/RowCredential";
 import Dropdown from "@/components/walt/forms/Dropdown";
-import {AuthenticationMethods, AvailableCredential, VpProfiles} from "@/types/credentials";
+import {AuthenticationMethods, AvailableCredential, buildTxCode, TxCodeInputMode, TxCodeInputModes, TxCodeSettings, VpProfiles} from "@/types/credentials";
 import Checkbox from "@/components/walt/forms/Checkbox";
 import InputField from "@/components/walt/forms/Input";
 import Button from "@/components/walt/button/Button";
@@ -10,6 +10,7 @@ import React, {useState} from "react";
 import {useRouter} from "next/router";
 import {getOfferUrl} from "@/utils/getOfferUrl";
 import {sendToWebWallet} from "@/utils/sendToWebWallet";
+import {validateCredentials} from "@/utils/credentialSchema";
 import nextConfig from "@/next.config";
 import {LockClosedIcon} from "@heroicons/react/24/outline";
 
@@ -21,6 +22,9 @@ export default function IssueSection() {
     React.useState(AuthenticationMethods[0]);
   const [requirePin, setRequirePin] = useState<boolean>(false);
   const [pin, setPin] = useState<string>('0235');
+  const [pinInputMode, setPinInputMode] = useState<TxCodeInputMode>('numeric');
+  const [pinDescription, setPinDescription] = useState<string>('');
+  const [showPinLength, setShowPinLength] = useState<boolean>(true);
   const [requireVpRequestValue, setRequireVpRequestValue] =
     useState<boolean>(false);
   const [vpRequestValue, setVpRequestValue] = useState<string>(
@@ -31,6 +35,8 @@ export default function IssueSection() {
     VpProfiles[0]
   );
   const [useServerKeys, setUseServerKeys] = useState<boolean>(true);
+  const [withStatusList, setWithStatusList] = useState<boolean>(false);
+  const [requireApproval, setRequireApproval] = useState<boolean>(false);
 
   const router = useRouter();
   const params = router.query;
@@ -64,7 +70,58 @@ export default function IssueSection() {
     router.push('/');
   }
 
+  // A user PIN (tx_code) only applies to pre-authorized code offers
+  const pinAvailable = selectedAuthenticationMethod === 'PRE_AUTHORIZED';
+
+  function getTxCodeSettings(): TxCodeSettings | undefined {
+    if (!requirePin || !pinAvailable) return undefined;
+    return {
+      pin,
+      inputMode: pinInputMode,
+      showLength: showPinLength,
+      description: pinDescription,
+    };
+  }
+
+  // Issuance options as query parameters of the offer and bulk pages
+  function getIssuanceUrl(page: string): string {
+    let url = `${page}?ids=${idsToIssue.join(',')}`;
+    url = url + `&authenticationMethod=${selectedAuthenticationMethod}`;
+    if (requireVpRequestValue && vpRequestValue?.trim().length) {
+      url = url + `&vpRequestValue=${vpRequestValue}`;
+    }
+    if (requireVpProfile && selectedVpProfile?.trim().length) {
+      url = url + `&vpProfile=${selectedVpProfile}`;
+    }
+    if (hasEudiFormat && useServerKeys) {
+      url = url + `&useServerKeys=true`;
+    }
+    if (withStatusList) {
+      url = url + `&statusList=true`;
+    }
+    if (requireApproval) {
+      url = url + `&approval=true`;
+    }
+    return url;
+  }
+
   async function handleIssue() {
+    const txCodeSettings = getTxCodeSettings();
+    if (txCodeSettings) {
+      try {
+        buildTxCode(txCodeSettings);
+      } catch (e) {
+        alert((e as Error).message);
+        return;
+      }
+    }
+
+    const problems = await validateCredentials(credentialsToIssue);
+    if (problems.length > 0) {
+      alert(`Please correct the credential data before issuing:\n${problems.join('\n')}`);
+      return;
+    }
+
     if (checkCallbackUrlParameter()) {
       const offer = await getOfferUrl(
         credentialsToIssue,
@@ -72,10 +129,13 @@ export default function IssueSection() {
           nextConfig.publicRuntimeConfig!.NEXT_PUBLIC_VC_REPO,
         env.NEXT_PUBLIC_ISSUER ??
           nextConfig.publicRuntimeConfig!.NEXT_PUBLIC_ISSUER,
-        undefined, // authenticationMethod
+        selectedAuthenticationMethod,
         undefined, // vpRequestValue
         undefined, // vpProfile
-        hasEudiFormat && useServerKeys
+        hasEudiFormat && useServerKeys,
+        txCodeSettings,
+        withStatusList,
+        requireApproval
       );
       sendToWebWallet(
         decodeURI(params.callback!.toString()),
@@ -85,22 +145,26 @@ export default function IssueSection() {
     } else {
       console.log('show qr-offer');
       localStorage.setItem('offer', JSON.stringify(credentialsToIssue));
-      let url = `/offer?ids=${idsToIssue.join(',')}`;
-      url = url + `&authenticationMethod=${selectedAuthenticationMethod}`;
-      if (requireVpRequestValue && vpRequestValue?.trim().length) {
-        url = url + `&vpRequestValue=${vpRequestValue}`;
-      }
-      if (requireVpProfile && selectedVpProfile?.trim().length) {
-        url = url + `&vpProfile=${selectedVpProfile}`;
+      // Kept out of the URL so the PIN does not end up in the browser history
+      if (txCodeSettings) {
+        localStorage.setItem('txCode', JSON.stringify(txCodeSettings));
+      } else {
+        localStorage.removeItem('txCode');
       }
-      if (hasEudiFormat && useServerKeys) {
-        url = url + `&useServerKeys=true`;
-      }
-
-      await router.push(url);
+      await router.push(getIssuanceUrl('/offer'));
     }
   }
 
+  // One offer per row of an uploaded file, the PIN of each offer comes from a column
+  async function handleBulkIssue() {
+    const txCodeSettings = getTxCodeSettings();
+    localStorage.setItem('bulk', JSON.stringify({
+      credentials: credentialsToIssue,
+      ...(txCodeSettings && { txCode: { ...txCodeSettings, pin: '' } }),
+    }));
+    await router.push(getIssuanceUrl('/bulk'));
+  }
+
   function checkCallbackUrlParameter(): Boolean {
     const callback = params.callback;
     return !(callback === undefined || callback === null || callback === '');
@@ -154,22 +218,60 @@ export default function IssueSection() {
           setSelected={setSelectedAuthenticationMethod}
         />
       </div>
+      <p className="mt-1 text-sm text-gray-500 text-left">
+        {pinAvailable
+          ? 'Pre-authorized code offer'
+          : 'Authorization code offer - the wallet authorizes with the issuer_state of the offer'}
+      </p>
       <div className="mt-3 flex flex-col sm:flex-row justify-between">
         <div className="">
-          <Checkbox value={requirePin} onChange={setRequirePin}>
+          <Checkbox value={requirePin && pinAvailable} onChange={setRequirePin}>
             Require User Pin
           </Checkbox>
         </div>
         <InputField
           error={false}
-          label="Test"
+          label="User Pin"
           value={pin}
-          name="test"
-          type="id"
+          name="tx-code"
+          type={pinInputMode === 'numeric' ? 'tel' : 'text'}
           placeholder=""
+          disabled={!pinAvailable}
           onChange={setPin}
         />
       </div>
+      {!pinAvailable && (
+        <p className="mt-1 text-sm text-gray-500 text-left">
+          A user pin requires the PRE_AUTHORIZED authentication method
+        </p>
+      )}
+      {requirePin && pinAvailable && (
+        <div className="mt-1 mb-3 ml-7 flex flex-col gap-3">
+          <div className="flex flex-col sm:flex-row justify-between">
+            <span className="mt-2 text-sm">Pin Input Mode</span>
+            <Dropdown
+              values={[...TxCodeInputModes]}
+              selected={pinInputMode}
+              setSelected={(mode: string) => setPinInputMode(mode as TxCodeInputMode)}
+            />
+          </div>
+          <div className="flex flex-col sm:flex-row justify-between">
+            <span className="mt-2 text-sm">Pin Description</span>
+            <InputField
+              error={false}
+              label="Pin Description"
+              value={pinDescription}
+              name="tx-code-description"
+              type="text"
+              placeholder="Enter the PIN sent to your email"
+              onChange={setPinDescription}
+            />
+          </div>
+          <Checkbox value={showPinLength} onChange={setShowPinLength}>
+            Tell the wallet the pin length
+          </Checkbox>
+        </div>
+      )}
       <div className="mt-1 flex flex-col sm:flex-row justify-between">
         <div className="">
           <Checkbox
@@ -203,6 +305,45 @@ export default function IssueSection() {
         />
       </div>
 
+      <div className="mt-3 flex flex-col sm:flex-row justify-between items-start sm:items-center">
+        <div className="">
+          <Checkbox value={withStatusList} onChange={setWithStatusList}>
+            Revocable (status list entry)
+          </Checkbox>
+        </div>
+        <span className="text-sm text-gray-500 mt-1 sm:mt-0">
+          Token Status List for SD-JWT VCs, StatusList2021 for W3C
+        </span>
+      </div>
+      {withStatusList && (
+        <div className="mt-1 flex flex-row justify-between items-center">
+          <p className="text-sm text-gray-500 text-left">
+            mDocs are issued without status.
+          </p>
+          <Button onClick={() => router.push('/status-lists')} style="link" color="secondary">
+            Manage status lists
+          </Button>
+        </div>
+      )}
+
+      <div className="mt-3 flex flex-col sm:flex-row justify-between items-start sm:items-center">
+        <div className="">
+          <Checkbox value={requireApproval} onChange={setRequireApproval}>
+            Requires manual approval
+          </Checkbox>
+        </div>
+        <span className="text-sm text-gray-500 mt-1 sm:mt-0">
+          Deferred issuance, released from the approval queue
+        </span>
+      </div>
+      {requireApproval && (
+        <div className="mt-1 flex flex-row justify-end items-center">
+          <Button onClick={() => router.push('/approvals')} style="link" color="secondary">
+            Approval queue
+          </Button>
+        </div>
+      )}
+
       {hasEudiFormat && (
         <div className="mt-3 flex flex-col sm:flex-row justify-between items-start sm:items-center">
           <div className="">
@@ -222,27 +363,26 @@ export default function IssueSection() {
           Cancel
         </Button>
         <Button
-          disabled={
-            !(
-              credentialsToIssue.length > 0 &&
-              (credentialsToIssue.length < 2 ||
-                credentialsToIssue.filter(
-                  (cred) =>
-                    cred.selectedFormat === 'SD-JWT + W3C VC' ||
-                    cred.selectedFormat === 'SD-JWT + IETF SD-JWT VC'
-                ).length === credentialsToIssue.length ||
-                credentialsToIssue.filter(
-                  (cred) =>
-                    !cred.selectedFormat ||
-                    cred.selectedFormat === 'JWT + W3C VC'
-                ).length === credentialsToIssue.length)
-            )
-          }
+          // Credentials of different formats are offered together in one mixed batch offer
+          disabled={credentialsToIssue.length === 0}
           onClick={handleIssue}
         >
           Issue
         </Button>
       </div>
+      <div className="flex flex-row justify-center gap-3 mt-4">
+        <Button
+          onClick={handleBulkIssue}
+          disabled={credentialsToIssue.length === 0}
+          style="link"
+          color="secondary"
+        >
+          Bulk issue from file
+        </Button>
+        <Button onClick={() => router.push('/issuance-history')} style="link" color="secondary">
+          Issuance history
+        </Button>
+      </div>
       <div className="flex flex-col items-center mt-12">
         <div className="flex flex-row gap-2 items-center content-center text-sm text-center text-gray-500">
           <p className="">Secured by walt.id</p>
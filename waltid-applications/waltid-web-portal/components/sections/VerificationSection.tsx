@@ -1,22 +1,47 @@
 import RowCredential from "@/components/walt/credential/RowCredential";
 import PolicyListItem from "@/components/walt/policy/PolicyListItem";
-import {AvailableCredential} from "@/types/credentials";
+import {AvailableCredential, CLIENT_ID_SCHEME_LABELS, ClientIdScheme, CredentialMatchMode, getAvailableClientIdSchemes, getCredentialFormat, getDefaultFormatForCredential, isEudiFormat, REVOCATION_POLICY, TransactionDataItem} from "@/types/credentials";
 import WaltIcon from "@/components/walt/logo/WaltIcon";
 import InputField from "@/components/walt/forms/Input";
+import Dropdown from "@/components/walt/forms/Dropdown";
+import Checkbox from "@/components/walt/forms/Checkbox";
+import TransactionDataEditor from "@/components/walt/forms/TransactionDataEditor";
 import Button from "@/components/walt/button/Button";
 import React, {useContext, useState} from "react";
-import {CredentialsContext} from "@/pages/_app";
+import {CredentialsContext, EnvContext} from "@/pages/_app";
 import {useRouter} from "next/router";
+import axios from "axios";
+import {getVerifierClientSettings} from "@/utils/verifierClientSettings";
+import {createVerificationTemplate, toTemplateId} from "@/types/verificationTemplates";
+
+const CREDENTIAL_MATCH_MODE_LABELS: Record<CredentialMatchMode, string> = {
+  all: 'All of the selected credentials',
+  any: 'Any one of the selected credentials',
+};
+
+// x509_san_dns when configured, otherwise the verifier's own client id
+const DEFAULT_CLIENT_ID_SCHEME_LABEL = 'Default';
 
 export default function VerificationSection() {
   const router = useRouter();
+  const env = useContext(EnvContext);
   const [AvailableCredentials] = useContext(CredentialsContext);
 
   const [signaturePolicy, setSignaturePolicy] = useState<boolean>(true);
   const [expiredPolicy, setExpiredPolicy] = useState<boolean>(true);
   const [notBeforePolicy, setNotBeforePolicy] = useState<boolean>(true);
+  const [revocationPolicy, setRevocationPolicy] = useState<boolean>(false);
   const [webhookPolicy, setWebhookPolicy] = useState<boolean>(false);
   const [webhook, setWebhook] = useState<string>('');
+  const [matchMode, setMatchMode] = useState<CredentialMatchMode>('all');
+  const [optionalIds, setOptionalIds] = useState<string[]>([]);
+  const [clientIdScheme, setClientIdScheme] = useState<ClientIdScheme | null>(null);
+  const [transactionData, setTransactionData] = useState<TransactionDataItem[]>([]);
+  const [transactionDataError, setTransactionDataError] = useState<string | null>(null);
+  const [successRedirectUri, setSuccessRedirectUri] = useState<string>('');
+  const [errorRedirectUri, setErrorRedirectUri] = useState<string>('');
+  const [templateName, setTemplateName] = useState<string>('');
+  const [templateSaved, setTemplateSaved] = useState<string | null>(null);
 
   function handleCancel() {
     router.push('/');
@@ -44,7 +69,28 @@ export default function VerificationSection() {
     );
   }, [AvailableCredentials]);
 
-  function handleVerify() {
+  const clientIdSchemes = getAvailableClientIdSchemes(getVerifierClientSettings(env));
+  // Signing modes only apply to Verifier API2 (EUDI formats)
+  const usesVerifier2 = credentialsToIssueUseEudiFormats();
+
+  function credentialsToIssueUseEudiFormats() {
+    try {
+      return credentialsToIssue.some((credential) => isEudiFormat(getCredentialFormat(credential)));
+    } catch (e) {
+      return false;
+    }
+  }
+
+  function handleOptionalChange(id: string, optional: boolean) {
+    setOptionalIds(
+      optional
+        ? [...optionalIds, id]
+        : optionalIds.filter((optionalId) => optionalId !== id)
+    );
+  }
+
+  // Selected policies as vps entries, or null if the form is incomplete
+  function buildPolicies(): string[] | null {
     const vps = [];
     if (signaturePolicy) {
       vps.push('signature');
@@ -55,24 +101,105 @@ export default function VerificationSection() {
     if (notBeforePolicy) {
       vps.push('not-before');
     }
+    if (revocationPolicy) {
+      vps.push(REVOCATION_POLICY);
+    }
     if (webhookPolicy) {
       if (webhook.length == 0) {
         alert('Please enter a webhook url');
-        return;
+        return null;
       }
       vps.push('webhook=' + webhook);
     }
+    if (credentialsToIssue.length > 0 && credentialsToIssue.every((credential) => optionalIds.includes(credential.id))) {
+      alert('At least one credential must be required');
+      return null;
+    }
+    if (usesVerifier2 && transactionDataError) {
+      alert(transactionDataError);
+      return null;
+    }
+    if (usesVerifier2 && !successRedirectUri !== !errorRedirectUri) {
+      alert('Please enter both redirect urls');
+      return null;
+    }
+    return vps;
+  }
+
+  function getRedirects() {
+    return usesVerifier2 && successRedirectUri && errorRedirectUri
+      ? { successRedirectUri, errorRedirectUri }
+      : undefined;
+  }
+
+  async function handleSaveTemplate() {
+    if (!toTemplateId(templateName)) {
+      alert('Please enter a template name');
+      return;
+    }
+    const vps = buildPolicies();
+    if (!vps) return;
+
+    const template = createVerificationTemplate(templateName, credentialsToIssue, {
+      matchMode,
+      optionalIds,
+      policies: vps,
+      clientIdScheme: usesVerifier2 && clientIdScheme ? clientIdScheme : undefined,
+      redirects: getRedirects(),
+      transactionData: usesVerifier2 ? transactionData : undefined,
+    });
+    try {
+      await axios.post('/api/verification-templates', template);
+      setTemplateSaved(template.id);
+    } catch (e) {
+      console.error('Error saving verification template:', e);
+      alert('Failed to save the verification template');
+    }
+  }
+
+  function handleVerify() {
+    const vps = buildPolicies();
+    if (!vps) return;
 
     const params = new URLSearchParams();
     params.append('ids', idsToIssue.join(','));
     if (vps.length) {
       params.append('vps', vps.join(','));
     }
+    if (matchMode !== 'all') {
+      params.append('match', matchMode);
+    }
+    if (optionalIds.length) {
+      params.append('optional', optionalIds.join(','));
+    }
+    if (usesVerifier2 && clientIdScheme) {
+      params.append('client_id_scheme', clientIdScheme);
+    }
+    const redirects = getRedirects();
+    if (redirects) {
+      params.append('success_redirect_uri', redirects.successRedirectUri);
+      params.append('error_redirect_uri', redirects.errorRedirectUri);
+    }
 
+    // One format per credential, in the same order as the ids
     params.append(
-      'format',
-      (credentialsToIssue[0]?.selectedFormat ?? 'JWT + W3C VC') as string
+      'formats',
+      idsToIssue
+        .map((id) => {
+          const credential = credentialsToIssue.find((cred) => cred.id === id);
+          if (!credential) return '';
+          return (credential.selectedFormat ??
+            getDefaultFormatForCredential(credential)) as string;
+        })
+        .join(',')
     );
+    // Keep edited claims and claim sets for the verification request
+    localStorage.setItem('verification', JSON.stringify(credentialsToIssue));
+    if (usesVerifier2 && transactionData.length) {
+      localStorage.setItem('transactionData', JSON.stringify(transactionData));
+    } else {
+      localStorage.removeItem('transactionData');
+    }
     router.push(`/verify?${params.toString()}`);
   }
 
@@ -105,6 +232,82 @@ export default function VerificationSection() {
         ))}
       </div>
       {/*END*/}
+      {credentialsToIssue.length > 1 && (
+        <>
+          <div className="mt-12"></div>
+          <hr className="text-green-900 border border-[0.5px] border-gray-100" />
+          <h3 className="text-gray-500 text-left mt-2 font-semibold">
+            Credential Requirements
+          </h3>
+          <div className="mt-5 flex flex-col sm:flex-row justify-between">
+            <span className="mt-2">Request</span>
+            <Dropdown
+              values={Object.values(CREDENTIAL_MATCH_MODE_LABELS)}
+              selected={CREDENTIAL_MATCH_MODE_LABELS[matchMode]}
+              setSelected={(label: string) =>
+                setMatchMode(
+                  (Object.keys(CREDENTIAL_MATCH_MODE_LABELS) as CredentialMatchMode[]).find(
+                    (mode) => CREDENTIAL_MATCH_MODE_LABELS[mode] === label
+                  ) ?? 'all'
+                )
+              }
+            />
+          </div>
+          <div className="flex flex-col gap-3 mt-3">
+            {credentialsToIssue.map((credential) => (
+              <Checkbox
+                key={credential.id}
+                value={optionalIds.includes(credential.id)}
+                onChange={(optional) => handleOptionalChange(credential.id, optional)}
+              >
+                {credential.title} is optional
+              </Checkbox>
+            ))}
+          </div>
+        </>
+      )}
+      {usesVerifier2 && (
+        <>
+          <div className="mt-12"></div>
+          <hr className="text-green-900 border border-[0.5px] border-gray-100" />
+          <h3 className="text-gray-500 text-left mt-2 font-semibold">
+            Request Signing
+          </h3>
+          <div className="mt-5 flex flex-col sm:flex-row justify-between">
+            <span className="mt-2">Client Identifier</span>
+            <Dropdown
+              values={[DEFAULT_CLIENT_ID_SCHEME_LABEL, ...clientIdSchemes.map((scheme) => CLIENT_ID_SCHEME_LABELS[scheme])]}
+              selected={clientIdScheme ? CLIENT_ID_SCHEME_LABELS[clientIdScheme] : DEFAULT_CLIENT_ID_SCHEME_LABEL}
+              setSelected={(label: string) =>
+                setClientIdScheme(
+                  clientIdSchemes.find((scheme) => CLIENT_ID_SCHEME_LABELS[scheme] === label) ?? null
+                )
+              }
+            />
+          </div>
+          <div className="mt-12"></div>
+          <hr className="text-green-900 border border-[0.5px] border-gray-100" />
+          <h3 className="text-gray-500 text-left mt-2 font-semibold">
+            Transaction Data
+          </h3>
+          <TransactionDataEditor
+            credentials={credentialsToIssue}
+            onChange={(items, error) => {
+              setTransactionData(items);
+              setTransactionDataError(error);
+            }}
+          />
+          <div className="mt-12"></div>
+          <hr className="text-green-900 border border-[0.5px] border-gray-100" />
+          <h3 className="text-gray-500 text-left mt-2 font-semibold">
+            Redirects
+          </h3>
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 mt-5 text-left">
+            <InputField label="Success redirect URL" showLabel value={successRedirectUri} name="success-redirect-uri" type="url" placeholder="https://example.com/success" onChange={setSuccessRedirectUri} />
+            <InputField label="Error redirect URL" showLabel value={errorRedirectUri} name="error-redirect-uri" type="url" placeholder="https://example.com/error" onChange={setErrorRedirectUri} />
+          </div>
+        </>
+      )}
       <div className="mt-12"></div>
       <hr className="text-green-900 border border-[0.5px] border-gray-100" />
       <h3 className="text-gray-500 text-left mt-2 font-semibold">
@@ -127,6 +330,11 @@ export default function VerificationSection() {
             value={notBeforePolicy}
             onChange={setNotBeforePolicy}
           />
+          <PolicyListItem
+            name="Revocation Policy"
+            value={revocationPolicy}
+            onChange={setRevocationPolicy}
+          />
           <div className="sm:flex justify-between">
             <PolicyListItem
               name="Webhook Policy"
@@ -145,6 +353,37 @@ export default function VerificationSection() {
           </div>
         </div>
       </div>
+      <div className="mt-12"></div>
+      <hr className="text-green-900 border border-[0.5px] border-gray-100" />
+      <h3 className="text-gray-500 text-left mt-2 font-semibold">
+        Template
+      </h3>
+      <div className="mt-5 flex flex-col sm:flex-row gap-3 justify-between items-center">
+        <InputField
+          label=""
+          value={templateName}
+          name="template-name"
+          type="text"
+          placeholder="Age check"
+          onChange={(name: string) => {
+            setTemplateName(name);
+            setTemplateSaved(null);
+          }}
+        />
+        <div className="flex flex-row gap-3">
+          <Button onClick={() => router.push('/templates')} style="link" color="secondary">
+            Manage templates
+          </Button>
+          <Button onClick={handleSaveTemplate} style="button">
+            Save Template
+          </Button>
+        </div>
+      </div>
+      {templateSaved && (
+        <p className="mt-3 text-sm text-gray-500 text-left break-all">
+          Saved - share {`${window.location.origin}/verify?template=${templateSaved}`}
+        </p>
+      )}
       <div className="mt-12" />
       <hr />
       <div className="flex flex-row justify-center gap-3 mt-14">
@@ -1,9 +1,14 @@
-import {AvailableCredential, DIDMethods, mapFormat, isEudiFormat, ClaimDefinition, getAvailableFormatsForCredential, getDefaultFormatForCredential, isEudiCredential} from "@/types/credentials";
+import {AvailableCredential, mapFormat, isEudiFormat, ClaimDefinition, getAvailableFormatsForCredential, getDefaultFormatForCredential, isEudiCredential, getClaimCatalog} from "@/types/credentials";
 import EditCredentialModal from "../modal/EditCredentialModal";
 import {PencilSquareIcon} from "@heroicons/react/24/outline";
 import Dropdown from "@/components/walt/forms/Dropdown";
 import ClaimsEditor from "@/components/walt/forms/ClaimsEditor";
 import React from "react";
+import {SigningProfilesContext} from "@/pages/_app";
+import {getIssuancePayloadBuilder, getSubjectClaims} from "@/utils/issuancePayloads";
+import {ClaimDisclosures} from "@/utils/selectiveDisclosure";
+import {extractCredentialSubject, withCredentialSubject} from "@/utils/credentialClaims";
+import {CredentialSchema, fetchCredentialSchema} from "@/utils/credentialSchema";
 
 type Props = {
   credentialToEdit: AvailableCredential;
@@ -11,27 +16,6 @@ type Props = {
   setCredentialsToIssue: (credentials: AvailableCredential[]) => void;
 };
 
-// Extract credential subject from offer - handles both W3C and mDoc formats
-function extractCredentialSubject(offer: any): any {
-  // W3C format: offer.credentialSubject
-  if (offer.credentialSubject) {
-    return offer.credentialSubject;
-  }
-  // mDoc format: offer[namespace] where namespace is a key like 'eu.europa.ec.eudi.pid.1'
-  const namespaceKeys = Object.keys(offer).filter(k =>
-    typeof offer[k] === 'object' && !Array.isArray(offer[k])
-  );
-  if (namespaceKeys.length > 0) {
-    // Return all namespace data combined for editing
-    const combined: any = {};
-    for (const ns of namespaceKeys) {
-      combined[ns] = offer[ns];
-    }
-    return combined;
-  }
-  return offer;
-}
-
 export default function RowCredential({
   credentialToEdit,
   credentialsToIssue,
@@ -41,16 +25,54 @@ export default function RowCredential({
     extractCredentialSubject(credentialToEdit.offer)
   );
   // Get available formats for this credential (EUDI credentials have restricted formats)
-  const availableFormats = getAvailableFormatsForCredential(credentialToEdit.id);
+  const availableFormats = getAvailableFormatsForCredential(credentialToEdit);
   const [selectedFormat, setSelectedFormat] = React.useState(
-    getDefaultFormatForCredential(credentialToEdit.id)
+    getDefaultFormatForCredential(credentialToEdit)
   );
-  const [selectedDID, setSelectedDID] = React.useState(DIDMethods[0]);
+  const signingProfiles = React.useContext(SigningProfilesContext);
+  const signingProfileIds = signingProfiles.map((profile) => profile.id);
+  // Signing profile used for the issuer DID and key (resolved server-side)
+  const [selectedDID, setSelectedDID] = React.useState(signingProfileIds[0] ?? '');
   const [modalVisible, setModalVisible] = React.useState(false);
+  const [credentialSchema, setCredentialSchema] = React.useState<CredentialSchema | null>(null);
   // Initialize claims from defaultClaims or empty array
   const [claims, setClaims] = React.useState<ClaimDefinition[]>(
     credentialToEdit.defaultClaims || []
   );
+  const [claimSets, setClaimSets] = React.useState<string[][]>(
+    credentialToEdit.claimSets || []
+  );
+  const [disclosures, setDisclosures] = React.useState<ClaimDisclosures>(
+    credentialToEdit.disclosures || {}
+  );
+  // Only SD-JWT formats have selectively disclosable claims
+  const disclosableTypes = getIssuancePayloadBuilder(selectedFormat).disclosableTypes;
+  const currentOffer = credentialsToIssue.find((credential) => credential.id === credentialToEdit.id)?.offer ?? credentialToEdit.offer;
+
+  // Signing profiles are loaded asynchronously - default to the first one
+  React.useEffect(() => {
+    if (!signingProfileIds.includes(selectedDID) && signingProfileIds.length > 0) {
+      setSelectedDID(signingProfileIds[0]);
+    }
+  }, [signingProfileIds.join(',')]);
+
+  // Issuer metadata may arrive after mount - keep the selection supported
+  React.useEffect(() => {
+    if (!availableFormats.includes(selectedFormat)) {
+      setSelectedFormat(availableFormats[0]);
+    }
+  }, [availableFormats.join(',')]);
+
+  // Schema of the selected format, issuer metadata (vct) may arrive after mount
+  React.useEffect(() => {
+    let active = true;
+    fetchCredentialSchema(credentialToEdit, selectedFormat).then((schema) => {
+      if (active) setCredentialSchema(schema);
+    });
+    return () => {
+      active = false;
+    };
+  }, [selectedFormat, JSON.stringify(credentialToEdit.vcts)]);
 
   React.useEffect(() => {
     setCredentialsToIssue(
@@ -64,28 +86,22 @@ export default function RowCredential({
           // For W3C: credentialSubject is { claims }
           const currentSubject = extractCredentialSubject(credential.offer);
           if (JSON.stringify(credentialSubject) !== JSON.stringify(currentSubject)) {
-            // Check if this is mDoc format (namespaced) or W3C format
-            if (credential.offer.credentialSubject) {
-              // W3C format
-              updatedCredential.offer = { ...credential.offer, credentialSubject };
-            } else {
-              // mDoc format - credentialSubject IS the namespaced data
-              updatedCredential.offer = { ...credentialSubject };
-            }
+            updatedCredential.offer = withCredentialSubject(credential.offer, credentialSubject);
           }
           updatedCredential.selectedFormat = selectedFormat;
           updatedCredential.selectedDID = selectedDID;
           updatedCredential.editedClaims = claims;
+          updatedCredential.claimSets = claimSets;
+          updatedCredential.disclosures = disclosures;
 
           return updatedCredential;
         } else {
-          let updatedCredential = { ...credential };
-          updatedCredential.selectedFormat = selectedFormat;
-          return updatedCredential;
+          // Other credentials keep their own format
+          return credential;
         }
       })
     );
-  }, [credentialSubject, selectedFormat, selectedDID, claims]);
+  }, [credentialSubject, selectedFormat, selectedDID, claims, claimSets, disclosures]);
 
   return (
     <>
@@ -123,10 +139,10 @@ export default function RowCredential({
             />
           </div>
           {/* Hide DID dropdown for EUDI credentials - they use server keys */}
-          {!isEudiCredential(credentialToEdit.id) && (
+          {!isEudiCredential(credentialToEdit) && signingProfileIds.length > 0 && (
             <div className="w-full">
               <Dropdown
-                values={DIDMethods}
+                values={signingProfileIds}
                 selected={selectedDID}
                 setSelected={setSelectedDID}
               />
@@ -143,8 +159,12 @@ export default function RowCredential({
               <ClaimsEditor
                 credentialTitle={credentialToEdit.title}
                 credentialId={credentialToEdit.id}
+                format={format}
                 claims={claims}
                 onChange={setClaims}
+                claimSets={claimSets}
+                onClaimSetsChange={setClaimSets}
+                catalog={getClaimCatalog(credentialToEdit, format)}
               />
             );
           }
@@ -161,6 +181,11 @@ export default function RowCredential({
         credentialSubject={credentialSubject}
         setCredentialSubject={setCredentialSubject}
         credentialTitle={credentialToEdit.title}
+        credentialSchema={credentialSchema}
+        disclosureClaims={disclosableTypes && getSubjectClaims(currentOffer)}
+        disclosableTypes={disclosableTypes}
+        disclosures={disclosures}
+        setDisclosures={setDisclosures}
       />
     </>
   );
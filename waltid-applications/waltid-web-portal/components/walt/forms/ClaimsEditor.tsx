@@ -1,12 +1,18 @@
 import React, { useState } from 'react';
-import { ClaimDefinition } from '@/types/credentials';
+import { ClaimCatalogEntry, ClaimDefinition, findCatalogEntry, formatClaimValues, getClaimIds, parseClaimValues } from '@/types/credentials';
 import { ChevronDownIcon, ChevronUpIcon, XMarkIcon, PlusIcon } from '@heroicons/react/24/outline';
 
 interface ClaimsEditorProps {
   credentialTitle: string;
   credentialId: string;
+  // DCQL format of the credential (e.g. mso_mdoc, dc+sd-jwt)
+  format: string;
   claims: ClaimDefinition[];
   onChange: (claims: ClaimDefinition[]) => void;
+  claimSets: string[][];
+  onClaimSetsChange: (claimSets: string[][]) => void;
+  // Claims known for the credential's doctype/vct
+  catalog?: ClaimCatalogEntry[];
 }
 
 // Convert array path to dot notation for display
@@ -14,27 +20,69 @@ function pathToString(path: string[]): string {
   return path.join('.');
 }
 
-// Convert dot notation string back to array path
-function stringToPath(str: string): string[] {
-  return str.split('.').filter(s => s.length > 0);
+// Convert dot notation string back to array path - catalog paths win, as
+// mDoc namespaces (e.g. org.iso.18013.5.1) contain dots themselves
+function stringToPath(str: string, format: string, catalog: ClaimCatalogEntry[]): string[] {
+  const known = catalog.find(entry => pathToString(entry.path) === str);
+  if (known) return known.path;
+  const segments = str.split('.').filter(s => s.length > 0);
+  if (format === 'mso_mdoc' && segments.length > 2) {
+    return [segments.slice(0, -1).join('.'), segments[segments.length - 1]];
+  }
+  return segments;
+}
+
+// Convert claim set to comma separated claim ids for display
+function claimSetToString(claimSet: string[]): string {
+  return claimSet.join(', ');
+}
+
+// Convert comma separated claim ids back to a claim set
+function stringToClaimSet(str: string): string[] {
+  return str.split(',').map(s => s.trim()).filter(s => s.length > 0);
 }
 
 export default function ClaimsEditor({
   credentialTitle,
   credentialId,
+  format,
   claims,
   onChange,
+  claimSets,
+  onClaimSetsChange,
+  catalog = [],
 }: ClaimsEditorProps) {
   const [isExpanded, setIsExpanded] = useState(false);
 
-  const handleClaimChange = (index: number, value: string) => {
+  const [valueInputs, setValueInputs] = useState<Record<number, string>>({});
+
+  const updateClaim = (index: number, update: Partial<ClaimDefinition>) => {
     const newClaims = [...claims];
-    newClaims[index] = { path: stringToPath(value) };
+    newClaims[index] = { ...newClaims[index], ...update };
     onChange(newClaims);
   };
 
+  const handleClaimChange = (index: number, value: string) => {
+    updateClaim(index, { path: stringToPath(value, format, catalog) });
+  };
+
+  const handleIdChange = (index: number, value: string) => {
+    updateClaim(index, { id: value.trim() || undefined });
+  };
+
+  const handleValuesChange = (index: number, value: string) => {
+    // Keep the raw text while typing, e.g. a trailing comma
+    setValueInputs({ ...valueInputs, [index]: value });
+    updateClaim(index, { values: parseClaimValues(value) });
+  };
+
+  const handleIntentToRetainChange = (index: number, value: boolean) => {
+    updateClaim(index, { intentToRetain: value || undefined });
+  };
+
   const handleRemoveClaim = (index: number) => {
     const newClaims = claims.filter((_, i) => i !== index);
+    setValueInputs({});
     onChange(newClaims);
   };
 
@@ -42,6 +90,23 @@ export default function ClaimsEditor({
     onChange([...claims, { path: [] }]);
   };
 
+  const handleClaimSetChange = (index: number, value: string) => {
+    const newClaimSets = [...claimSets];
+    newClaimSets[index] = stringToClaimSet(value);
+    onClaimSetsChange(newClaimSets);
+  };
+
+  const handleRemoveClaimSet = (index: number) => {
+    onClaimSetsChange(claimSets.filter((_, i) => i !== index));
+  };
+
+  const handleAddClaimSet = () => {
+    onClaimSetsChange([...claimSets, []]);
+  };
+
+  const claimIds = getClaimIds(claims.filter(c => c.path.length > 0));
+  const catalogListId = `claim-catalog-${credentialId.replace(/[^A-Za-z0-9_-]/g, '_')}`;
+
   return (
     <div className="border border-gray-200 rounded-lg mt-4">
       {/* Header - always visible */}
@@ -63,25 +128,76 @@ export default function ClaimsEditor({
       {/* Expandable content */}
       {isExpanded && (
         <div className="px-3 pb-3 space-y-2">
-          {claims.map((claim, index) => (
-            <div key={index} className="flex items-center gap-2">
-              <input
-                type="text"
-                value={pathToString(claim.path)}
-                onChange={(e) => handleClaimChange(index, e.target.value)}
-                className="flex-1 px-3 py-2 text-sm border border-gray-300 rounded-md focus:ring-primary-500 focus:border-primary-500"
-                placeholder="namespace.claim_name"
-              />
-              <button
-                type="button"
-                onClick={() => handleRemoveClaim(index)}
-                className="p-2 text-gray-400 hover:text-red-500"
-                title="Remove claim"
-              >
-                <XMarkIcon className="h-5 w-5" />
-              </button>
-            </div>
-          ))}
+          {catalog.length > 0 && (
+            <datalist id={catalogListId}>
+              {catalog.map((entry) => (
+                <option key={pathToString(entry.path)} value={pathToString(entry.path)}>
+                  {entry.displayName}
+                </option>
+              ))}
+            </datalist>
+          )}
+          {claims.map((claim, index) => {
+            const catalogEntry = findCatalogEntry(claim.path, catalog);
+            const isUnknown = catalog.length > 0 && claim.path.length > 0 && !catalogEntry;
+            return (
+              <div key={index} className="space-y-1">
+                <div className="flex items-center gap-2">
+                  <input
+                    type="text"
+                    value={pathToString(claim.path)}
+                    onChange={(e) => handleClaimChange(index, e.target.value)}
+                    list={catalog.length > 0 ? catalogListId : undefined}
+                    className={`flex-1 px-3 py-2 text-sm border rounded-md focus:ring-primary-500 focus:border-primary-500 ${isUnknown ? 'border-amber-400' : 'border-gray-300'}`}
+                    placeholder="namespace.claim_name"
+                  />
+                  <button
+                    type="button"
+                    onClick={() => handleRemoveClaim(index)}
+                    className="p-2 text-gray-400 hover:text-red-500"
+                    title="Remove claim"
+                  >
+                    <XMarkIcon className="h-5 w-5" />
+                  </button>
+                </div>
+                {catalogEntry?.displayName && (
+                  <p className="text-xs text-gray-500 pl-1">{catalogEntry.displayName}</p>
+                )}
+                {isUnknown && (
+                  <p className="text-xs text-amber-600 pl-1">
+                    Unknown claim for {credentialTitle}
+                  </p>
+                )}
+                <div className="flex items-center gap-2 pr-9">
+                  <input
+                    type="text"
+                    value={claim.id ?? ''}
+                    onChange={(e) => handleIdChange(index, e.target.value)}
+                    className="w-1/3 px-2 py-1 text-xs border border-gray-300 rounded-md focus:ring-primary-500 focus:border-primary-500"
+                    placeholder="Claim ID (optional)"
+                  />
+                  <input
+                    type="text"
+                    value={valueInputs[index] ?? formatClaimValues(claim.values)}
+                    onChange={(e) => handleValuesChange(index, e.target.value)}
+                    className="flex-1 px-2 py-1 text-xs border border-gray-300 rounded-md focus:ring-primary-500 focus:border-primary-500"
+                    placeholder={'Required values, e.g. true, AT, DE or "01234" (optional)'}
+                  />
+                  {format === 'mso_mdoc' && (
+                    <label className="flex items-center gap-1 text-xs text-gray-600 whitespace-nowrap">
+                      <input
+                        type="checkbox"
+                        checked={claim.intentToRetain === true}
+                        onChange={(e) => handleIntentToRetainChange(index, e.target.checked)}
+                        className="h-3 w-3 rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+                      />
+                      Retain
+                    </label>
+                  )}
+                </div>
+              </div>
+            );
+          })}
           <button
             type="button"
             onClick={handleAddClaim}
@@ -90,6 +206,43 @@ export default function ClaimsEditor({
             <PlusIcon className="h-4 w-4" />
             Add Claim
           </button>
+
+          {/* Claim sets - alternative combinations of the claims above */}
+          <div className="pt-3 mt-3 border-t border-gray-100">
+            <span className="text-sm font-medium text-gray-700">
+              Claim Sets ({claimSets.length})
+            </span>
+            <p className="text-xs text-gray-500 mt-1">
+              Wallet returns the first set it can satisfy. Available IDs: {claimIds.join(', ') || '-'}
+            </p>
+            {claimSets.map((claimSet, index) => (
+              <div key={index} className="flex items-center gap-2 mt-2">
+                <input
+                  type="text"
+                  value={claimSetToString(claimSet)}
+                  onChange={(e) => handleClaimSetChange(index, e.target.value)}
+                  className="flex-1 px-3 py-2 text-sm border border-gray-300 rounded-md focus:ring-primary-500 focus:border-primary-500"
+                  placeholder="claim_id, other_claim_id"
+                />
+                <button
+                  type="button"
+                  onClick={() => handleRemoveClaimSet(index)}
+                  className="p-2 text-gray-400 hover:text-red-500"
+                  title="Remove claim set"
+                >
+                  <XMarkIcon className="h-5 w-5" />
+                </button>
+              </div>
+            ))}
+            <button
+              type="button"
+              onClick={handleAddClaimSet}
+              className="flex items-center gap-1 text-sm text-primary-600 hover:text-primary-700 mt-2"
+            >
+              <PlusIcon className="h-4 w-4" />
+              Add Claim Set
+            </button>
+          </div>
         </div>
       )}
     </div>
@@ -0,0 +1,78 @@
+import React from 'react';
+import Dropdown from '@/components/walt/forms/Dropdown';
+import {
+  ClaimDisclosures,
+  DECOY_DIGESTS_PER_CLAIM,
+  DISCLOSURE_MODE_LABELS,
+  DisclosureMode,
+  DisclosureModes,
+  getDisclosureClaims,
+  getDisclosureMode,
+} from '@/utils/selectiveDisclosure';
+
+interface DisclosureEditorProps {
+  claims: { [key: string]: any };
+  disclosures: ClaimDisclosures;
+  // Value types of top-level claims that are selectively disclosable by default
+  disclosableTypes: string[];
+  onChange: (disclosures: ClaimDisclosures) => void;
+}
+
+function describeValue(value: any): string {
+  if (Array.isArray(value)) {
+    return `${value.length} item${value.length === 1 ? '' : 's'}`;
+  }
+  if (value !== null && typeof value === 'object') {
+    return 'object';
+  }
+  return String(value);
+}
+
+// Disclosure mode per claim of an SD-JWT credential, nested claims included
+export default function DisclosureEditor({ claims, disclosures, disclosableTypes, onChange }: DisclosureEditorProps) {
+  const claimList = getDisclosureClaims(claims);
+  const modes = Object.fromEntries(
+    claimList.map((claim) => [claim.path, getDisclosureMode(disclosures, claim.path, claim.value, disclosableTypes)])
+  );
+  const decoyClaims = Object.values(modes).filter((mode) => mode === 'decoy').length;
+
+  function setMode(path: string, label: string) {
+    const mode = DisclosureModes.find((m) => DISCLOSURE_MODE_LABELS[m] === label) as DisclosureMode;
+    onChange({ ...disclosures, [path]: mode });
+  }
+
+  return (
+    <div className="flex flex-col gap-2">
+      <p className="text-xs text-gray-500">
+        Selectively disclosable claims are only shown to verifiers the holder presents them to.
+        Objects and arrays can be disclosable as a whole and per nested claim or element. Decoy-padded claims
+        add {DECOY_DIGESTS_PER_CLAIM} decoy digests to their level, hiding how many claims it has.
+      </p>
+      {claimList.map((claim) => (
+        <div
+          key={claim.path}
+          className="flex flex-row gap-3 items-center justify-between"
+          style={{ paddingLeft: `${claim.depth * 1.25}rem` }}
+        >
+          <div className="flex flex-col min-w-0">
+            <span className="text-sm font-medium text-gray-700">{claim.element ? `#${Number(claim.key) + 1}` : claim.key}</span>
+            <span className="text-xs text-gray-500 truncate">{describeValue(claim.value)}</span>
+          </div>
+          <div className="w-56 shrink-0">
+            <Dropdown
+              values={DisclosureModes.filter((mode) => !claim.element || mode !== 'decoy')
+                .map((mode) => DISCLOSURE_MODE_LABELS[mode])}
+              selected={DISCLOSURE_MODE_LABELS[modes[claim.path]]}
+              setSelected={(label: string) => setMode(claim.path, label)}
+            />
+          </div>
+        </div>
+      ))}
+      {decoyClaims > 0 && (
+        <p className="text-xs text-gray-500">
+          {decoyClaims * DECOY_DIGESTS_PER_CLAIM} decoy digests will be added.
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,134 @@
+import React, {useEffect, useState} from 'react';
+import {
+  AvailableCredential,
+  buildPaymentTransactionData,
+  buildQesTransactionData,
+  getDocumentDigest,
+  toDcqlId,
+  TransactionDataItem,
+} from '@/types/credentials';
+import Dropdown from '@/components/walt/forms/Dropdown';
+import InputField from '@/components/walt/forms/Input';
+import Checkbox from '@/components/walt/forms/Checkbox';
+
+type TransactionDataKind = 'none' | 'payment' | 'qes';
+
+const TRANSACTION_DATA_KIND_LABELS: Record<TransactionDataKind, string> = {
+  none: 'None',
+  payment: 'Payment confirmation',
+  qes: 'Qualified electronic signature',
+};
+
+interface TransactionDataEditorProps {
+  credentials: AvailableCredential[];
+  // Called with the transaction data to request, or an error if the form is incomplete
+  onChange: (transactionData: TransactionDataItem[], error: string | null) => void;
+}
+
+// Payments are authorised with the payment wallet attestation, if it is requested
+function getDefaultBoundIds(credentials: AvailableCredential[]): string[] {
+  const paymentCredential = credentials.find((c) => c.id === 'PaymentWalletAttestation');
+  return paymentCredential ? [paymentCredential.id] : credentials.map((c) => c.id);
+}
+
+export default function TransactionDataEditor({ credentials, onChange }: TransactionDataEditorProps) {
+  const [kind, setKind] = useState<TransactionDataKind>('none');
+  const [boundIds, setBoundIds] = useState<string[]>([]);
+
+  const [amount, setAmount] = useState('');
+  const [currency, setCurrency] = useState('EUR');
+  const [payee, setPayee] = useState('');
+  const [payeeId, setPayeeId] = useState('');
+
+  const [documentLabel, setDocumentLabel] = useState('');
+  const [documentHash, setDocumentHash] = useState('');
+
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setBoundIds(getDefaultBoundIds(credentials));
+  }, [credentials.map((c) => c.id).join(',')]);
+
+  useEffect(() => {
+    if (kind === 'none') {
+      setError(null);
+      onChange([], null);
+      return;
+    }
+    const credentialIds = boundIds.map(toDcqlId);
+    try {
+      const item = kind === 'payment'
+        ? buildPaymentTransactionData(
+          { amount: Number(amount), currency: currency.trim().toUpperCase(), payee, payeeId: payeeId.trim() || undefined },
+          credentialIds
+        )
+        : buildQesTransactionData({ documentLabel, documentHash }, credentialIds);
+      setError(null);
+      onChange([item], null);
+    } catch (e) {
+      setError((e as Error).message);
+      onChange([], (e as Error).message);
+    }
+  }, [kind, boundIds, amount, currency, payee, payeeId, documentLabel, documentHash]);
+
+  async function handleDocumentChange(event: React.ChangeEvent<HTMLInputElement>) {
+    const file = event.target.files?.[0];
+    if (!file) return;
+    setDocumentLabel(file.name);
+    setDocumentHash(await getDocumentDigest(await file.arrayBuffer()));
+  }
+
+  function handleBoundChange(id: string, bound: boolean) {
+    setBoundIds(bound ? [...boundIds, id] : boundIds.filter((boundId) => boundId !== id));
+  }
+
+  return (
+    <>
+      <div className="mt-5 flex flex-col sm:flex-row justify-between">
+        <span className="mt-2">Authorise</span>
+        <Dropdown
+          values={Object.values(TRANSACTION_DATA_KIND_LABELS)}
+          selected={TRANSACTION_DATA_KIND_LABELS[kind]}
+          setSelected={(label: string) =>
+            setKind(
+              (Object.keys(TRANSACTION_DATA_KIND_LABELS) as TransactionDataKind[]).find(
+                (k) => TRANSACTION_DATA_KIND_LABELS[k] === label
+              ) ?? 'none'
+            )
+          }
+        />
+      </div>
+      {kind === 'payment' && (
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 mt-3 text-left">
+          <InputField label="Amount" showLabel value={amount} name="transaction-amount" type="number" placeholder="42.00" onChange={setAmount} />
+          <InputField label="Currency" showLabel value={currency} name="transaction-currency" type="text" placeholder="EUR" onChange={setCurrency} />
+          <InputField label="Payee" showLabel value={payee} name="transaction-payee" type="text" placeholder="Merchant name" onChange={setPayee} />
+          <InputField label="Payee ID (optional)" showLabel value={payeeId} name="transaction-payee-id" type="text" placeholder="Merchant identifier" onChange={setPayeeId} />
+        </div>
+      )}
+      {kind === 'qes' && (
+        <div className="flex flex-col gap-2 mt-3 text-left">
+          <label className="text-sm text-gray-800" htmlFor="transaction-document">Document to sign</label>
+          <input id="transaction-document" type="file" onChange={handleDocumentChange} className="text-sm" />
+          {documentHash && (
+            <p className="text-xs text-gray-500 break-all">SHA-256: {documentHash}</p>
+          )}
+        </div>
+      )}
+      {kind !== 'none' && (
+        <div className="flex flex-col gap-3 mt-3">
+          {credentials.map((credential) => (
+            <Checkbox
+              key={credential.id}
+              value={boundIds.includes(credential.id)}
+              onChange={(bound) => handleBoundChange(credential.id, bound)}
+            >
+              Authorise with {credential.title}
+            </Checkbox>
+          ))}
+          {error && <p className="text-sm text-red-600 text-left">{error}</p>}
+        </div>
+      )}
+    </>
+  );
+}
@@ -0,0 +1,83 @@
+import React, {useEffect, useRef, useState} from 'react';
+import {CheckCircleIcon, ClockIcon, XCircleIcon} from '@heroicons/react/24/outline';
+import {
+  AUTHORIZATION_CODE_GRANT,
+  checkIssuanceSession,
+  getIssuanceSteps,
+  IssuanceSessionInfo,
+} from '@/utils/checkIssuanceSession';
+
+const FAILED_STATUS_LABELS: Record<string, string> = {
+  UNSUCCESSFUL: 'Issuance failed',
+  REJECTED_BY_USER: 'Rejected in the wallet',
+  EXPIRED: 'Offer expired',
+};
+
+interface IssuanceSessionStatusProps {
+  issuerUrl: string;
+  sessionId: string;
+  // Called with every change of the polled session
+  onUpdate?: (session: IssuanceSessionInfo) => void;
+}
+
+// Progress of an issuance session, polled from the issuer
+export default function IssuanceSessionStatus({ issuerUrl, sessionId, onUpdate }: IssuanceSessionStatusProps) {
+  const [session, setSession] = useState<IssuanceSessionInfo | null>(null);
+  const [unavailable, setUnavailable] = useState(false);
+  // Kept out of the effect dependencies so a new callback does not restart polling
+  const onUpdateRef = useRef(onUpdate);
+  onUpdateRef.current = onUpdate;
+
+  useEffect(() => {
+    const controller = new AbortController();
+    setSession(null);
+    setUnavailable(false);
+    const handleUpdate = (update: IssuanceSessionInfo) => {
+      setSession(update);
+      onUpdateRef.current?.(update);
+    };
+    checkIssuanceSession(issuerUrl, sessionId, { onUpdate: handleUpdate, signal: controller.signal }).then((result) => {
+      if (!result && !controller.signal.aborted) {
+        setUnavailable(true);
+      }
+    });
+    return () => controller.abort();
+  }, [issuerUrl, sessionId]);
+
+  if (!session) {
+    return unavailable ? (
+      <p className="text-xs text-gray-500">Issuance session status is not available</p>
+    ) : null;
+  }
+
+  const failure = FAILED_STATUS_LABELS[session.status];
+
+  return (
+    <div className="text-left text-sm">
+      <p className="text-gray-500">
+        {session.grantType === AUTHORIZATION_CODE_GRANT ? 'Authorization code' : 'Pre-authorized code'} offer
+        {session.grantType === AUTHORIZATION_CODE_GRANT && (
+          <span className="block text-xs break-all">issuer_state: {session.id}</span>
+        )}
+      </p>
+      <ul className="mt-2 flex flex-col gap-1">
+        {getIssuanceSteps(session).map((step) => (
+          <li key={step.label} className="flex flex-row gap-2 items-center">
+            {step.done ? (
+              <CheckCircleIcon className="h-4 text-green-600" />
+            ) : (
+              <ClockIcon className="h-4 text-gray-400" />
+            )}
+            <span className={step.done ? 'text-gray-900' : 'text-gray-500'}>{step.label}</span>
+          </li>
+        ))}
+      </ul>
+      {failure && (
+        <p className="mt-2 flex flex-row gap-2 items-center text-red-600">
+          <XCircleIcon className="h-4" />
+          {failure}{session.statusReason ? `: ${session.statusReason}` : ''}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -1,6 +1,10 @@
 import React from "react";
 import Button from "@/components/walt/button/Button";
 import BaseModal from "@/components/walt/modal/BaseModal";
+import DisclosureEditor from "@/components/walt/forms/DisclosureEditor";
+import {ClaimDisclosures} from "@/utils/selectiveDisclosure";
+import {FlatClaim, flattenClaims, formatClaimLabel, unflattenClaims} from "@/utils/credentialClaims";
+import {CredentialSchema, getClaimErrors, getOtherErrors, validateCredentialSubject} from "@/utils/credentialSchema";
 
 type Props = {
   show: boolean;
@@ -8,75 +12,43 @@ type Props = {
   credentialSubject: any;
   setCredentialSubject: (credentialSubject: any) => void;
   credentialTitle?: string;
+  // Schema the edited data has to satisfy before it can be saved
+  credentialSchema?: CredentialSchema | null;
+  // SD-JWT formats only - claims of the credential subject and their disclosure modes
+  disclosureClaims?: any;
+  disclosableTypes?: string[];
+  disclosures?: ClaimDisclosures;
+  setDisclosures?: (disclosures: ClaimDisclosures) => void;
 };
 
-// Flatten nested credential data for form display
-function flattenClaims(data: any, prefix = ''): { key: string; path: string[]; value: any; type: string }[] {
-  const claims: { key: string; path: string[]; value: any; type: string }[] = [];
-
-  for (const key in data) {
-    const value = data[key];
-    const currentPath = prefix ? [...prefix.split('.'), key] : [key];
-
-    if (value !== null && typeof value === 'object' && !Array.isArray(value)) {
-      // Recurse into nested objects (like namespaces)
-      claims.push(...flattenClaims(value, currentPath.join('.')));
-    } else {
-      // Leaf value - add as editable claim
-      let type = 'text';
-      if (typeof value === 'boolean') type = 'checkbox';
-      else if (key.includes('date') || key.includes('Date')) type = 'date';
-
-      claims.push({
-        key,
-        path: currentPath,
-        value,
-        type,
-      });
-    }
-  }
-
-  return claims;
-}
-
-// Reconstruct nested object from flat claims
-function unflattenClaims(claims: { path: string[]; value: any }[], originalStructure: any): any {
-  const result = JSON.parse(JSON.stringify(originalStructure)); // Deep clone
-
-  for (const claim of claims) {
-    let current = result;
-    for (let i = 0; i < claim.path.length - 1; i++) {
-      if (!current[claim.path[i]]) {
-        current[claim.path[i]] = {};
-      }
-      current = current[claim.path[i]];
-    }
-    current[claim.path[claim.path.length - 1]] = claim.value;
-  }
-
-  return result;
-}
-
-// Format claim key for display (snake_case to Title Case)
-function formatClaimLabel(key: string): string {
-  return key
-    .replace(/_/g, ' ')
-    .replace(/\b\w/g, (c) => c.toUpperCase());
-}
-
 export default function EditCredentialModal({
   show,
   onClose,
   credentialSubject,
   setCredentialSubject,
   credentialTitle,
+  credentialSchema,
+  disclosureClaims,
+  disclosableTypes,
+  disclosures,
+  setDisclosures,
 }: Props) {
-  const [claims, setClaims] = React.useState<{ key: string; path: string[]; value: any; type: string }[]>([]);
+  const [claims, setClaims] = React.useState<FlatClaim[]>([]);
+  const [editedDisclosures, setEditedDisclosures] = React.useState<ClaimDisclosures>({});
+  const showDisclosures = !!disclosureClaims && !!disclosableTypes && !!setDisclosures;
+  const errors = React.useMemo(
+    () => credentialSchema ? validateCredentialSubject(unflattenClaims(claims, credentialSubject), credentialSchema) : [],
+    [claims, credentialSchema]
+  );
+  const otherErrors = getOtherErrors(errors, claims.map((claim) => claim.path));
+  const inputClassName = (claimErrors: string[]) =>
+    `w-full px-3 py-2 border rounded-md shadow-sm focus:ring-primary-500 focus:border-primary-500 ${claimErrors.length > 0 ? 'border-red-500' : 'border-gray-300'}`;
 
   React.useEffect(() => {
     if (credentialSubject) {
       setClaims(flattenClaims(credentialSubject));
     }
+    setEditedDisclosures(disclosures ?? {});
   }, [credentialSubject, show]);
 
   const handleClaimChange = (index: number, newValue: any) => {
@@ -86,8 +58,14 @@ export default function EditCredentialModal({
   };
 
   const handleSave = () => {
+    if (errors.length > 0) {
+      return;
+    }
     const updated = unflattenClaims(claims, credentialSubject);
     setCredentialSubject(updated);
+    if (showDisclosures) {
+      setDisclosures(editedDisclosures);
+    }
     onClose();
   };
 
@@ -98,64 +76,100 @@ export default function EditCredentialModal({
           {credentialTitle ? `Edit ${credentialTitle}` : 'Edit Credential Data'}
         </h2>
 
+        {credentialSchema && (
+          <p className="text-xs text-gray-500 -mt-2 mb-4 break-all">Validated against {credentialSchema.source}</p>
+        )}
+
         <div className="overflow-y-auto flex-1 pr-2">
+          {otherErrors.length > 0 && (
+            <div className="mb-4 text-sm text-red-600">
+              {otherErrors.map((error, index) => (
+                <p key={index}>{error.path.length > 0 ? `${error.path.join('.')}: ` : ''}{error.message}</p>
+              ))}
+            </div>
+          )}
           <div className="space-y-4">
-            {claims.map((claim, index) => (
-              <div key={claim.path.join('.')} className="flex flex-col">
-                <label className="text-sm font-medium text-gray-700 mb-1">
-                  {formatClaimLabel(claim.key)}
-                </label>
-
-                {claim.type === 'checkbox' ? (
-                  <div className="flex items-center">
+            {claims.map((claim, index) => {
+              const claimErrors = getClaimErrors(errors, claim.path);
+              return (
+                <div key={claim.path.join('.')} className="flex flex-col">
+                  <label className="text-sm font-medium text-gray-700 mb-1">
+                    {formatClaimLabel(claim.key)}
+                  </label>
+
+                  {claim.type === 'checkbox' ? (
+                    <div className="flex items-center">
+                      <input
+                        type="checkbox"
+                        checked={claim.value === true}
+                        onChange={(e) => handleClaimChange(index, e.target.checked)}
+                        className="h-4 w-4 text-primary-600 border-gray-300 rounded focus:ring-primary-500"
+                      />
+                      <span className="ml-2 text-sm text-gray-600">
+                        {claim.value ? 'Yes' : 'No'}
+                      </span>
+                    </div>
+                  ) : claim.type === 'date' ? (
                     <input
-                      type="checkbox"
-                      checked={claim.value === true}
-                      onChange={(e) => handleClaimChange(index, e.target.checked)}
-                      className="h-4 w-4 text-primary-600 border-gray-300 rounded focus:ring-primary-500"
+                      type="date"
+                      value={claim.value || ''}
+                      onChange={(e) => handleClaimChange(index, e.target.value)}
+                      className={inputClassName(claimErrors)}
                     />
-                    <span className="ml-2 text-sm text-gray-600">
-                      {claim.value ? 'Yes' : 'No'}
-                    </span>
-                  </div>
-                ) : claim.type === 'date' ? (
-                  <input
-                    type="date"
-                    value={claim.value || ''}
-                    onChange={(e) => handleClaimChange(index, e.target.value)}
-                    className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:ring-primary-500 focus:border-primary-500"
-                  />
-                ) : Array.isArray(claim.value) ? (
-                  <textarea
-                    value={JSON.stringify(claim.value, null, 2)}
-                    onChange={(e) => {
-                      try {
-                        handleClaimChange(index, JSON.parse(e.target.value));
-                      } catch {
-                        // Invalid JSON, ignore
-                      }
-                    }}
-                    className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:ring-primary-500 focus:border-primary-500 font-mono text-sm"
-                    rows={3}
-                  />
-                ) : (
-                  <input
-                    type="text"
-                    value={claim.value || ''}
-                    onChange={(e) => handleClaimChange(index, e.target.value)}
-                    className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:ring-primary-500 focus:border-primary-500"
-                  />
-                )}
-              </div>
-            ))}
+                  ) : claim.type === 'number' ? (
+                    <input
+                      type="number"
+                      value={claim.value ?? ''}
+                      onChange={(e) => handleClaimChange(index, e.target.value === '' ? '' : Number(e.target.value))}
+                      className={inputClassName(claimErrors)}
+                    />
+                  ) : Array.isArray(claim.value) ? (
+                    <textarea
+                      value={JSON.stringify(claim.value, null, 2)}
+                      onChange={(e) => {
+                        try {
+                          handleClaimChange(index, JSON.parse(e.target.value));
+                        } catch {
+                          // Invalid JSON, ignore
+                        }
+                      }}
+                      className={`${inputClassName(claimErrors)} font-mono text-sm`}
+                      rows={3}
+                    />
+                  ) : (
+                    <input
+                      type="text"
+                      value={claim.value || ''}
+                      onChange={(e) => handleClaimChange(index, e.target.value)}
+                      className={inputClassName(claimErrors)}
+                    />
+                  )}
+                  {claimErrors.map((error, errorIndex) => (
+                    <p key={errorIndex} className="mt-1 text-sm text-red-600">{error}</p>
+                  ))}
+                </div>
+              );
+            })}
           </div>
+
+          {showDisclosures && (
+            <div className="mt-6 pt-4 border-t">
+              <h3 className="text-sm font-semibold text-gray-900 mb-2">Selective Disclosure</h3>
+              <DisclosureEditor
+                claims={disclosureClaims}
+                disclosures={editedDisclosures}
+                disclosableTypes={disclosableTypes}
+                onChange={setEditedDisclosures}
+              />
+            </div>
+          )}
         </div>
 
         <div className="flex flex-row justify-end gap-2 mt-6 pt-4 border-t">
           <Button onClick={onClose} style="link">
             Cancel
           </Button>
-          <Button onClick={handleSave} style="button">
+          <Button onClick={handleSave} style="button" disabled={errors.length > 0}>
             Save
           </Button>
         </div>
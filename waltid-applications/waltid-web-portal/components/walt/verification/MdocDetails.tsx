@@ -0,0 +1,69 @@
+import React, {useEffect, useState} from 'react';
+import {checkValueDigests, describeDeviceKey, getIssuerCertificates, MdocDocument, ValueDigestCheck} from '@/utils/mdoc';
+import {CertificateSummary} from '@/utils/x509';
+
+interface MdocDetailsProps {
+  document: MdocDocument;
+}
+
+// Issuer data of a presented mDoc: signer certificate, mobile security object and value digests
+export default function MdocDetails({ document }: MdocDetailsProps) {
+  const [digestChecks, setDigestChecks] = useState<ValueDigestCheck[] | null>(null);
+  const { algorithm, mso } = document.issuerAuth;
+
+  let certificate: CertificateSummary | undefined;
+  try {
+    [certificate] = getIssuerCertificates(document);
+  } catch (e) {
+    console.warn('Could not read the mDoc issuer certificate:', e);
+  }
+
+  useEffect(() => {
+    let active = true;
+    setDigestChecks(null);
+    checkValueDigests(document)
+      .then((checks) => active && setDigestChecks(checks))
+      .catch(() => active && setDigestChecks([]));
+    return () => {
+      active = false;
+    };
+  }, [document]);
+
+  const mismatches = digestChecks?.filter((check) => !check.valid) ?? [];
+  const rows: [string, string][] = [];
+  if (certificate) {
+    rows.push(
+      ['Signed by', certificate.subject],
+      ['Certificate issuer', certificate.issuer],
+      ['Certificate valid', `${certificate.notBefore} – ${certificate.notAfter}`]
+    );
+  }
+  rows.push(
+    ['Signature', `${algorithm}, ${mso.digestAlgorithm} digests`],
+    ['Signed', mso.validityInfo.signed],
+    ['Valid', `${mso.validityInfo.validFrom} – ${mso.validityInfo.validUntil}`],
+    ['Device key', describeDeviceKey(mso.deviceKey)],
+    ['Device authentication', document.deviceAuth === 'deviceMac' ? 'MAC' : document.deviceAuth === 'deviceSignature' ? 'Signature' : 'None']
+  );
+
+  return (
+    <div className="mt-3 px-2">
+      <div className="text-xs text-gray-500 font-semibold mb-1">Issuer signed</div>
+      {rows.map(([label, value]) => (
+        <div key={label} className="flex flex-row py-1 text-sm">
+          <div className="text-gray-600 w-1/2 pr-2 leading-[1.1]">{label}</div>
+          <div className="w-1/2 text-[#313233] break-all">{value}</div>
+        </div>
+      ))}
+      {digestChecks && (
+        <div className={`text-sm mt-1 ${mismatches.length ? 'text-red-600' : 'text-green-700'}`}>
+          {digestChecks.length === 0
+            ? 'The value digests could not be checked'
+            : mismatches.length
+              ? `Not signed by the issuer: ${mismatches.map((check) => `${check.namespace} ${check.elementIdentifier}`).join(', ')}`
+              : `All ${digestChecks.length} data elements match the issuer's digests`}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,135 @@
+import React, {useEffect, useState} from 'react';
+import axios from 'axios';
+import {CheckCircleIcon, XCircleIcon} from '@heroicons/react/24/outline';
+import WaltIcon from '@/components/walt/logo/WaltIcon';
+import MdocDetails from '@/components/walt/verification/MdocDetails';
+import SdJwtDisclosures from '@/components/walt/verification/SdJwtDisclosures';
+import {flattenClaims, formatClaimLabel} from '@/utils/credentialClaims';
+import {getTypeMetadataUrl} from '@/utils/credentialSchema';
+import {decodeSdJwt, getSdJwtSubjectClaims, SdJwtPresentation} from '@/utils/sdJwt';
+import {PresentedCredentialView} from '@/utils/verificationSession';
+
+// Values such as mDoc portraits are cut off, the JSON view has them in full
+const MAX_VALUE_LENGTH = 80;
+
+function formatValue(value: any): string {
+  const text = typeof value === 'string' ? value : JSON.stringify(value) ?? '';
+  return text.length > MAX_VALUE_LENGTH ? `${text.slice(0, MAX_VALUE_LENGTH)}…` : text;
+}
+
+interface PresentedCredentialProps {
+  credential: PresentedCredentialView;
+}
+
+// Credential presented through a Verifier API2 session, with the policies run on it
+export default function PresentedCredential({ credential }: PresentedCredentialProps) {
+  const [typeName, setTypeName] = useState<string | null>(null);
+  const [sdJwt, setSdJwt] = useState<SdJwtPresentation | null>(null);
+  const isMdoc = credential.format === 'mso_mdoc';
+
+  useEffect(() => {
+    setTypeName(null);
+    const metadataUrl = getTypeMetadataUrl(credential.credentialType);
+    if (!metadataUrl) return;
+    let active = true;
+    axios
+      .get(metadataUrl)
+      .then((response) => active && setTypeName(response.data.name ?? null))
+      .catch(() => active && setTypeName(null));
+    return () => {
+      active = false;
+    };
+  }, [credential.credentialType]);
+
+  // The presented SD-JWT is rebuilt here, the verifier only lists the names of its disclosures
+  useEffect(() => {
+    setSdJwt(null);
+    if (!credential.sdJwt) return;
+    let active = true;
+    decodeSdJwt(credential.sdJwt)
+      .then((presentation) => active && setSdJwt(presentation))
+      .catch((e) => console.warn('Could not decode the SD-JWT presentation:', e));
+    return () => {
+      active = false;
+    };
+  }, [credential.sdJwt]);
+
+  const isDisclosed = (path: string[]) => sdJwt
+    ? sdJwt.disclosed.some((claim) => claim.path.every((name, index) => name === path[index]))
+    : path.some((name) => credential.disclosed.includes(name));
+
+  // mDoc data elements are grouped by their namespace
+  const claims = flattenClaims(sdJwt ? getSdJwtSubjectClaims(sdJwt.claims) : credential.claims);
+  const groups = isMdoc
+    ? Object.keys(credential.claims).map((namespace) => ({
+      title: namespace,
+      claims: claims.filter((claim) => claim.path[0] === namespace),
+      depth: 1,
+    }))
+    : [{ title: null, claims, depth: 0 }];
+
+  return (
+    <div className="w-full text-left">
+      <div className="flex flex-col drop-shadow-sm rounded-xl py-5 px-6 text-gray-100 bg-gradient-to-r from-green-700 to-green-900">
+        <div className="flex flex-row justify-between items-center">
+          <WaltIcon height={30} width={30} outline type="white" />
+          <span className="text-xs uppercase tracking-wide">{credential.format}</span>
+        </div>
+        <h6 className="text-2xl font-bold mt-6 overflow-hidden text-ellipsis whitespace-nowrap">
+          {typeName ?? credential.credentialType ?? 'Credential'}
+        </h6>
+        <div className="text-xs mt-1 overflow-hidden text-ellipsis whitespace-nowrap">
+          Credential query: {credential.queryId}
+          {credential.issuer && ` · Issuer: ${credential.issuer}`}
+        </div>
+      </div>
+      <div className="mt-5 px-2">
+        {groups.map((group) => (
+          <div key={group.title ?? 'claims'} className="mb-3">
+            {group.title && (
+              <div className="text-xs text-gray-500 font-semibold mb-1">{group.title}</div>
+            )}
+            {group.claims.length === 0 && (
+              <div className="text-gray-500 text-sm">No claims were presented</div>
+            )}
+            {group.claims.map((claim) => (
+              <div key={claim.path.join('/')} className="flex flex-row py-1 text-sm">
+                <div className="text-gray-600 w-1/2 pr-2 leading-[1.1]">
+                  {claim.path.slice(group.depth).map(formatClaimLabel).join(' › ')}
+                  {isDisclosed(claim.path) && (
+                    <span className="ml-2 text-xs text-green-700">disclosed</span>
+                  )}
+                </div>
+                <div className="w-1/2 text-[#313233] break-all">{formatValue(claim.value)}</div>
+              </div>
+            ))}
+          </div>
+        ))}
+      </div>
+      {credential.mdoc && <MdocDetails document={credential.mdoc} />}
+      {sdJwt && <SdJwtDisclosures presentation={sdJwt} />}
+      <div className="mt-6 px-2">
+        <div className="text-gray-500 mb-2">
+          {credential.policies.length
+            ? 'The credential was verified along with:'
+            : 'The credential was not verified against any policies'}
+        </div>
+        {credential.policies.map((policy, index) => (
+          <div key={`${policy.name}-${index}`} className="flex items-start gap-3 py-1">
+            {policy.success ? (
+              <CheckCircleIcon className="h-4 mt-1 shrink-0 text-green-600" />
+            ) : (
+              <XCircleIcon className="h-4 mt-1 shrink-0 text-red-600" />
+            )}
+            <div>
+              <div>{formatClaimLabel(policy.name.replace(/-/g, ' '))} Policy</div>
+              {policy.errors.map((error) => (
+                <div key={error} className="text-xs text-red-600 break-all">{error}</div>
+              ))}
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,57 @@
+import React from 'react';
+import {CheckCircleIcon, EyeSlashIcon, XCircleIcon} from '@heroicons/react/24/outline';
+import {formatClaimLabel} from '@/utils/credentialClaims';
+import {SdJwtPresentation} from '@/utils/sdJwt';
+
+interface SdJwtDisclosuresProps {
+  presentation: SdJwtPresentation;
+}
+
+function formatPath(path: string[]): string {
+  return path.length ? path.map(formatClaimLabel).join(' › ') : 'Credential';
+}
+
+// Disclosed and withheld claims of an SD-JWT presentation, with its key binding
+export default function SdJwtDisclosures({ presentation }: SdJwtDisclosuresProps) {
+  const { disclosed, withheld, keyBinding, errors } = presentation;
+
+  return (
+    <div className="mt-3 px-2 text-left text-sm">
+      <div className="text-xs text-gray-500 font-semibold mb-1">Selective disclosure</div>
+      {disclosed.length === 0 && withheld.length === 0 && (
+        <div className="text-gray-500">The credential has no selectively disclosable claims</div>
+      )}
+      {disclosed.map((claim) => (
+        <div key={claim.digest} className="flex items-center gap-2 py-0.5">
+          <CheckCircleIcon className="h-4 shrink-0 text-green-600" />
+          <span>{formatPath(claim.path)} disclosed</span>
+        </div>
+      ))}
+      {withheld.map((digests) => (
+        <div key={digests.path.join('/')} className="flex items-center gap-2 py-0.5 text-gray-500">
+          <EyeSlashIcon className="h-4 shrink-0" />
+          <span>
+            {formatPath(digests.path)}: {digests.count} {digests.count === 1 ? 'claim' : 'claims'} withheld or decoy
+          </span>
+        </div>
+      ))}
+      {keyBinding && (
+        <div className="flex items-start gap-2 py-0.5 mt-1">
+          {keyBinding.sdHashValid ? (
+            <CheckCircleIcon className="h-4 mt-0.5 shrink-0 text-green-600" />
+          ) : (
+            <XCircleIcon className="h-4 mt-0.5 shrink-0 text-red-600" />
+          )}
+          <span className="break-all">
+            Key binding for {keyBinding.payload.aud ?? 'unknown audience'}
+            {keyBinding.payload.iat && ` at ${new Date(keyBinding.payload.iat * 1000).toISOString()}`}
+            {keyBinding.sdHashValid ? '' : ' does not cover the presented disclosures'}
+          </span>
+        </div>
+      )}
+      {errors.map((error) => (
+        <div key={error} className="text-xs text-red-600 break-all">{error}</div>
+      ))}
+    </div>
+  );
+}
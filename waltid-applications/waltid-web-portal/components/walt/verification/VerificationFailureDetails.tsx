@@ -0,0 +1,64 @@
+import React from 'react';
+import {ExclamationTriangleIcon, XCircleIcon} from '@heroicons/react/24/outline';
+import {VerificationFailure} from '@/utils/verificationFailure';
+
+interface VerificationFailureDetailsProps {
+  failure: VerificationFailure;
+}
+
+// Wallet error, DCQL problems and failed policies of a verification
+export default function VerificationFailureDetails({ failure }: VerificationFailureDetailsProps) {
+  const { reason, walletError, dcqlProblems, failedPolicies } = failure;
+  const explained = !!walletError || dcqlProblems.length > 0 || failedPolicies.length > 0;
+
+  return (
+    <div className="text-left text-sm flex flex-col gap-6">
+      {reason && <p className="text-gray-600 break-words">{reason}</p>}
+      {walletError && (
+        <div>
+          <div className="text-xs text-gray-500 font-semibold mb-1">Wallet response</div>
+          <div className="flex items-start gap-2">
+            <ExclamationTriangleIcon className="h-4 mt-0.5 shrink-0 text-red-600" />
+            <div>
+              <div className="font-mono">{walletError.error}</div>
+              {walletError.errorDescription && <div className="text-gray-600">{walletError.errorDescription}</div>}
+            </div>
+          </div>
+        </div>
+      )}
+      {dcqlProblems.length > 0 && (
+        <div>
+          <div className="text-xs text-gray-500 font-semibold mb-1">Requested credentials</div>
+          {dcqlProblems.map((problem) => (
+            <div key={problem} className="flex items-start gap-2 py-0.5">
+              <XCircleIcon className="h-4 mt-0.5 shrink-0 text-red-600" />
+              <span>{problem}</span>
+            </div>
+          ))}
+        </div>
+      )}
+      {failedPolicies.length > 0 && (
+        <div>
+          <div className="text-xs text-gray-500 font-semibold mb-1">Failed policies</div>
+          {failedPolicies.map((policy, index) => (
+            <div key={index} className="flex items-start gap-2 py-1">
+              <XCircleIcon className="h-4 mt-0.5 shrink-0 text-red-600" />
+              <div className="min-w-0">
+                <div>
+                  {policy.name}
+                  {policy.credential && <span className="text-gray-500 break-all"> · {policy.credential}</span>}
+                </div>
+                {policy.errors.map((error) => (
+                  <div key={error} className="text-xs text-red-600 break-words">{error}</div>
+                ))}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+      {!explained && !reason && (
+        <p className="text-gray-500">The verifier did not report why the verification failed</p>
+      )}
+    </div>
+  );
+}
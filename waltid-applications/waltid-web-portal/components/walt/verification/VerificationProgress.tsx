@@ -0,0 +1,36 @@
+import React from 'react';
+import {CheckCircleIcon, ClockIcon, XCircleIcon} from '@heroicons/react/24/outline';
+import {getVerificationSteps, VERIFICATION_STATUS_LABELS, VerificationStatus} from '@/utils/verificationStatus';
+
+interface VerificationProgressProps {
+  status: VerificationStatus;
+}
+
+// Steps of a verification session as reported by the verifier
+export default function VerificationProgress({ status }: VerificationProgressProps) {
+  const unsuccessful = status === 'failed' || status === 'expired';
+
+  return (
+    <div className="text-left text-sm">
+      {!unsuccessful && <p className="text-gray-500">{VERIFICATION_STATUS_LABELS[status]}</p>}
+      <ul className="mt-2 flex flex-col gap-1">
+        {getVerificationSteps(status).map((step) => (
+          <li key={step.label} className="flex flex-row gap-2 items-center">
+            {step.done ? (
+              <CheckCircleIcon className="h-4 text-green-600" />
+            ) : (
+              <ClockIcon className="h-4 text-gray-400" />
+            )}
+            <span className={step.done ? 'text-gray-900' : 'text-gray-500'}>{step.label}</span>
+          </li>
+        ))}
+      </ul>
+      {unsuccessful && (
+        <p className="mt-2 flex flex-row gap-2 items-center text-red-600">
+          <XCircleIcon className="h-4" />
+          {VERIFICATION_STATUS_LABELS[status]}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,63 @@
+import crypto from "crypto";
+import {applyIssuanceSession, IssuanceRecord, NewIssuanceRecord} from "@/types/issuanceHistory";
+import {IssuanceSessionInfo} from "@/utils/checkIssuanceSession";
+import {createJsonFileStore} from "@/lib/server/jsonFileStore";
+
+/**
+ * Issuance log, kept in ISSUANCE_HISTORY_FILE or .data/issuance-history.json.
+ */
+
+const store = createJsonFileStore<IssuanceRecord[]>({
+  fileVariable: 'ISSUANCE_HISTORY_FILE',
+  defaultFile: '.data/issuance-history.json',
+  name: 'Issuance history',
+  shape: 'array',
+});
+
+// Newest first
+export function listIssuanceRecords(): IssuanceRecord[] {
+  return store.read().reverse();
+}
+
+export function getIssuanceRecord(id: string): IssuanceRecord | undefined {
+  return store.read().find((record) => record.id === id);
+}
+
+export function createIssuanceRecord(offer: NewIssuanceRecord): IssuanceRecord {
+  const records = store.read();
+  const id = offer.sessionId ?? crypto.randomUUID();
+  if (records.some((record) => record.id === id)) {
+    throw new Error(`Issuance record ${id} already exists`);
+  }
+  const record: IssuanceRecord = {
+    id,
+    ...(offer.sessionId && { sessionId: offer.sessionId }),
+    issuerUrl: offer.issuerUrl,
+    offerUrl: offer.offerUrl,
+    credentials: offer.credentials.map((c) => ({
+      id: c.id,
+      ...(c.title && { title: c.title }),
+      ...(c.format && { format: c.format }),
+    })),
+    ...(offer.authenticationMethod && { authenticationMethod: offer.authenticationMethod }),
+    ...(offer.txCode && { txCode: true }),
+    ...(offer.statusList && { statusList: true }),
+    ...(offer.requireApproval && { requireApproval: true }),
+    status: 'OFFERED',
+    createdAt: new Date().toISOString(),
+  };
+  store.write([...records, record]);
+  return record;
+}
+
+// Returns the updated record, or undefined if there is no record with the id
+export function updateIssuanceRecord(id: string, session: IssuanceSessionInfo): IssuanceRecord | undefined {
+  const records = store.read();
+  const record = records.find((r) => r.id === id);
+  if (!record) {
+    return undefined;
+  }
+  const updated = applyIssuanceSession(record, session);
+  store.write(records.map((r) => (r.id === id ? updated : r)));
+  return updated;
+}
@@ -0,0 +1,51 @@
+import fs from "fs";
+import path from "path";
+
+/**
+ * One JSON file holding a server-side store of the portal, for data that is small and rarely written.
+ * The file is the environment variable's path or the default path, relative to the working directory.
+ */
+
+export interface JsonFileStoreOptions {
+  // Environment variable overriding the default file
+  fileVariable: string;
+  defaultFile: string;
+  // Store name in error messages, e.g. "Status lists"
+  name: string;
+  // Top-level JSON value of the file
+  shape: 'array' | 'object';
+}
+
+export interface JsonFileStore<T> {
+  // The empty array or object if the file does not exist yet
+  read(): T;
+  write(value: T): void;
+}
+
+export function createJsonFileStore<T extends object>(options: JsonFileStoreOptions): JsonFileStore<T> {
+  const getFile = () =>
+    path.resolve(process.cwd(), process.env[options.fileVariable] ?? options.defaultFile);
+
+  return {
+    read() {
+      const file = getFile();
+      if (!fs.existsSync(file)) {
+        return (options.shape === 'array' ? [] : {}) as T;
+      }
+      const value = JSON.parse(fs.readFileSync(file, 'utf-8'));
+      const isArray = Array.isArray(value);
+      if (value === null || typeof value !== 'object' || isArray !== (options.shape === 'array')) {
+        throw new Error(`${options.name} file must contain a JSON ${options.shape}: ${file}`);
+      }
+      return value;
+    },
+    // Write to a temporary file first so a crash never leaves a truncated store
+    write(value: T) {
+      const file = getFile();
+      fs.mkdirSync(path.dirname(file), { recursive: true });
+      const temporaryFile = `${file}.tmp`;
+      fs.writeFileSync(temporaryFile, JSON.stringify(value, null, 2));
+      fs.renameSync(temporaryFile, file);
+    },
+  };
+}
@@ -0,0 +1,115 @@
+import fs from "fs";
+import path from "path";
+import axios from "axios";
+import nextConfig from "@/next.config";
+import {SigningProfile} from "@/types/credentials";
+
+/**
+ * Server-side registry of issuer signing profiles.
+ * Profiles are loaded from SIGNING_PROFILES (JSON) or the file referenced by
+ * SIGNING_PROFILES_FILE and must never be imported from browser code.
+ * Demo deployments can instead set SIGNING_PROFILES_ONBOARD to DID methods (e.g. "key,jwk"):
+ * the issuer then generates a key and DID per method on first use, which are kept in memory only.
+ */
+
+export interface ServerSigningProfile {
+  id: string;
+  issuerDid: string;
+  issuerKey: {
+    type: string;
+    jwk: { [key: string]: any };
+  };
+}
+
+// JWK members holding private key material
+const PRIVATE_JWK_MEMBERS = ['d', 'p', 'q', 'dp', 'dq', 'qi', 'oth', 'k'];
+
+// Key types of onboarded profiles, by DID method
+const ONBOARDING_KEY_TYPES: Record<string, string> = {
+  key: 'Ed25519',
+  jwk: 'secp256r1',
+};
+
+let cachedProfiles: Promise<ServerSigningProfile[]> | null = null;
+
+function readProfilesSource(): string | null {
+  if (process.env.SIGNING_PROFILES) {
+    return process.env.SIGNING_PROFILES;
+  }
+  if (process.env.SIGNING_PROFILES_FILE) {
+    const file = path.resolve(process.cwd(), process.env.SIGNING_PROFILES_FILE);
+    return fs.readFileSync(file, 'utf-8');
+  }
+  return null;
+}
+
+async function onboardProfiles(methods: string[]): Promise<ServerSigningProfile[]> {
+  const issuerUrl = process.env.NEXT_PUBLIC_ISSUER ?? nextConfig.publicRuntimeConfig.NEXT_PUBLIC_ISSUER;
+  const profiles: ServerSigningProfile[] = [];
+  for (const method of methods) {
+    const keyType = ONBOARDING_KEY_TYPES[method];
+    if (!keyType) {
+      throw new Error(`Signing profiles cannot be onboarded for did:${method}`);
+    }
+    const response = await axios.post(`${issuerUrl}/onboard/issuer`, {
+      key: { backend: 'jwk', keyType },
+      did: { method },
+    });
+    profiles.push({ id: `did:${method}`, issuerDid: response.data.issuerDid, issuerKey: response.data.issuerKey });
+  }
+  console.warn(`Using issuer signing profiles onboarded at ${issuerUrl}, they change when the portal restarts`);
+  return profiles;
+}
+
+async function readProfiles(): Promise<ServerSigningProfile[]> {
+  const source = readProfilesSource();
+  const onboardMethods = process.env.SIGNING_PROFILES_ONBOARD?.split(',').map((method) => method.trim()).filter(Boolean);
+  // Issuance needs a key, so a missing configuration is an error rather than an empty list
+  if (!source && !onboardMethods?.length) {
+    throw new Error('No issuer signing profiles configured, set SIGNING_PROFILES, SIGNING_PROFILES_FILE or SIGNING_PROFILES_ONBOARD');
+  }
+
+  const profiles = source ? JSON.parse(source) : await onboardProfiles(onboardMethods!);
+  if (!Array.isArray(profiles)) {
+    throw new Error('Signing profiles must be a JSON array');
+  }
+  if (profiles.length === 0) {
+    throw new Error('Signing profiles must not be empty');
+  }
+  for (const profile of profiles) {
+    if (!profile.id || !profile.issuerDid || !profile.issuerKey?.jwk) {
+      throw new Error(`Invalid signing profile: ${profile.id ?? JSON.stringify(profile)}`);
+    }
+  }
+
+  return profiles;
+}
+
+export function loadSigningProfiles(): Promise<ServerSigningProfile[]> {
+  if (!cachedProfiles) {
+    // A failed onboarding is tried again with the next request
+    cachedProfiles = readProfiles().catch((error) => {
+      cachedProfiles = null;
+      throw error;
+    });
+  }
+  return cachedProfiles;
+}
+
+// Resolve a profile by id - the first configured profile is the default
+export async function getSigningProfile(id?: string): Promise<ServerSigningProfile | undefined> {
+  const profiles = await loadSigningProfiles();
+  return id ? profiles.find((profile) => profile.id === id) : profiles[0];
+}
+
+export function toPublicSigningProfile(profile: ServerSigningProfile): SigningProfile {
+  const publicJwk = { ...profile.issuerKey.jwk };
+  for (const member of PRIVATE_JWK_MEMBERS) {
+    delete publicJwk[member];
+  }
+  return {
+    id: profile.id,
+    issuerDid: profile.issuerDid,
+    publicJwk,
+  };
+}
@@ -0,0 +1,133 @@
+import {IncomingHttpHeaders} from "http";
+import zlib from "zlib";
+import {
+  CredentialStatus,
+  packStatusList,
+  STATUS_LIST_SIZE,
+  STATUS_LISTS,
+  StatusList,
+  StatusListEntry,
+  StatusListId,
+  StatusListIds,
+} from "@/types/statusLists";
+import {createJsonFileStore} from "@/lib/server/jsonFileStore";
+
+/**
+ * Store of the portal's status list entries, kept in STATUS_LISTS_FILE or .data/status-lists.json.
+ */
+
+type StatusListEntries = { [id in StatusListId]?: StatusListEntry[] };
+
+const store = createJsonFileStore<StatusListEntries>({
+  fileVariable: 'STATUS_LISTS_FILE',
+  defaultFile: '.data/status-lists.json',
+  name: 'Status lists',
+  shape: 'object',
+});
+
+// Portal URL a request was sent to, behind a proxy as well
+export function getRequestOrigin(headers: IncomingHttpHeaders): string {
+  const protocol = headers['x-forwarded-proto']?.toString().split(',')[0] ?? 'http';
+  const host = headers['x-forwarded-host']?.toString().split(',')[0] ?? headers.host;
+  return `${protocol}://${host}`;
+}
+
+// Public URL of a status list, STATUS_LIST_BASE_URL or the portal URL the request was sent to
+export function getStatusListUri(id: StatusListId, requestOrigin: string): string {
+  const baseUrl = process.env.STATUS_LIST_BASE_URL ?? requestOrigin;
+  return `${baseUrl.replace(/\/+$/, '')}/api/status-lists/${id}`;
+}
+
+export function listStatusLists(requestOrigin: string): StatusList[] {
+  const entries = store.read();
+  return StatusListIds.map((id) => ({
+    ...STATUS_LISTS[id],
+    uri: getStatusListUri(id, requestOrigin),
+    entries: entries[id] ?? [],
+  }));
+}
+
+// Reserve the next index of the list for a credential about to be issued
+export function allocateStatusListEntry(
+  id: StatusListId,
+  credential: Pick<StatusListEntry, 'credentialId' | 'credentialTitle' | 'format'>
+): StatusListEntry {
+  const entries = store.read();
+  const listEntries = entries[id] ?? [];
+  if (listEntries.length >= STATUS_LIST_SIZE) {
+    throw new Error(`Status list ${id} is full`);
+  }
+  const entry: StatusListEntry = {
+    index: listEntries.length,
+    credentialId: credential.credentialId,
+    ...(credential.credentialTitle && { credentialTitle: credential.credentialTitle }),
+    ...(credential.format && { format: credential.format }),
+    status: 'VALID',
+    createdAt: new Date().toISOString(),
+  };
+  store.write({ ...entries, [id]: [...listEntries, entry] });
+  return entry;
+}
+
+// Returns the updated entry, or undefined if the list has no entry at the index
+export function setStatusListEntryStatus(
+  id: StatusListId,
+  index: number,
+  status: CredentialStatus
+): StatusListEntry | undefined {
+  if (!STATUS_LISTS[id].statuses.includes(status)) {
+    throw new Error(`${STATUS_LISTS[id].title} does not support the status ${status}`);
+  }
+  const entries = store.read();
+  const entry = entries[id]?.find((e) => e.index === index);
+  if (!entry) {
+    return undefined;
+  }
+  const updated: StatusListEntry = { ...entry, status, updatedAt: new Date().toISOString() };
+  store.write({ ...entries, [id]: entries[id]!.map((e) => (e.index === index ? updated : e)) });
+  return updated;
+}
+
+function encodeJwtPart(value: object): string {
+  return Buffer.from(JSON.stringify(value)).toString('base64url');
+}
+
+/**
+ * Current status list as unsigned JWT (alg none).
+ * The walt.id status policies read the list without checking its signature.
+ */
+export function buildStatusListToken(id: StatusListId, uri: string): string {
+  const list = STATUS_LISTS[id];
+  const bytes = packStatusList(list, store.read()[id] ?? []);
+  const issuedAt = Math.floor(Date.now() / 1000);
+
+  const payload = list.type === 'TokenStatusList'
+    ? {
+      sub: uri,
+      iat: issuedAt,
+      status_list: {
+        bits: list.bits,
+        lst: zlib.deflateSync(bytes).toString('base64url'),
+      },
+    }
+    : {
+      sub: uri,
+      iat: issuedAt,
+      vc: {
+        '@context': ['https://www.w3.org/2018/credentials/v1', 'https://w3id.org/vc/status-list/2021/v1'],
+        id: uri,
+        type: ['VerifiableCredential', 'StatusList2021Credential'],
+        issuer: new URL(uri).origin,
+        issuanceDate: new Date(issuedAt * 1000).toISOString(),
+        credentialSubject: {
+          id: `${uri}#list`,
+          type: 'StatusList2021',
+          statusPurpose: 'revocation',
+          encodedList: zlib.gzipSync(bytes).toString('base64'),
+        },
+      },
+    };
+
+  const header = list.type === 'TokenStatusList' ? { alg: 'none', typ: 'statuslist+jwt' } : { alg: 'none', typ: 'JWT' };
+  return `${encodeJwtPart(header)}.${encodeJwtPart(payload)}.`;
+}
@@ -0,0 +1,49 @@
+import {VerificationTemplate} from "@/types/verificationTemplates";
+import {createJsonFileStore} from "@/lib/server/jsonFileStore";
+
+/**
+ * Store of verification templates, kept in VERIFICATION_TEMPLATES_FILE or .data/verification-templates.json.
+ */
+
+const store = createJsonFileStore<VerificationTemplate[]>({
+  fileVariable: 'VERIFICATION_TEMPLATES_FILE',
+  defaultFile: '.data/verification-templates.json',
+  name: 'Verification templates',
+  shape: 'array',
+});
+
+export function listVerificationTemplates(): VerificationTemplate[] {
+  return store.read();
+}
+
+export function getVerificationTemplate(id: string): VerificationTemplate | undefined {
+  return store.read().find((template) => template.id === id);
+}
+
+// Create or replace the template with the same id
+export function saveVerificationTemplate(template: VerificationTemplate): VerificationTemplate {
+  const templates = store.read();
+  const existing = templates.find((t) => t.id === template.id);
+  const now = new Date().toISOString();
+  const saved: VerificationTemplate = {
+    ...template,
+    createdAt: existing?.createdAt ?? template.createdAt ?? now,
+    updatedAt: now,
+  };
+  store.write(
+    existing
+      ? templates.map((t) => (t.id === template.id ? saved : t))
+      : [...templates, saved]
+  );
+  return saved;
+}
+
+export function deleteVerificationTemplate(id: string): boolean {
+  const templates = store.read();
+  const remaining = templates.filter((template) => template.id !== id);
+  if (remaining.length === templates.length) {
+    return false;
+  }
+  store.write(remaining);
+  return true;
+}
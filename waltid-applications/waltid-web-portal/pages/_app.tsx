@@ -2,43 +2,69 @@ import React from "react";
 import axios from "axios";
 import "@/styles/globals.css";
 import type {AppProps} from "next/app";
-import {AvailableCredential, EudiCredentials} from "@/types/credentials";
+import {applyCredentialConfigurations, AvailableCredential, CredentialConfiguration, EudiCredentials, SigningProfile} from "@/types/credentials";
 
 export const EnvContext = React.createContext({} as { [key: string]: string });
 export const CredentialsContext = React.createContext([
   [],
   (credentials: AvailableCredential[]) => {},
 ] as [AvailableCredential[], (credentials: AvailableCredential[]) => void]);
+export const SigningProfilesContext = React.createContext([] as SigningProfile[]);
 
 export default function App({ Component, pageProps }: AppProps) {
   const [AvailableCredentials, setAvailableCredentials] = React.useState<
     AvailableCredential[]
   >([...EudiCredentials]);
   const [env, setEnv] = React.useState({} as { [key: string]: string });
+  const [signingProfiles, setSigningProfiles] = React.useState<SigningProfile[]>([]);
 
   React.useEffect(() => {
+    axios
+      .get('/api/signing-profiles')
+      .then((response) => setSigningProfiles(response.data))
+      .catch((error) => console.error('Error fetching signing profiles:', error));
+
     axios.get('/api/env').then((response) => {
       if (response.data.hasOwnProperty('NEXT_PUBLIC_VC_REPO')) {
         setEnv(response.data);
 
+        // Supported formats per credential come from the issuer metadata
+        const configurations: Promise<Record<string, CredentialConfiguration>> = axios
+          .get(`${response.data.NEXT_PUBLIC_ISSUER}/draft13/.well-known/openid-credential-issuer`)
+          .then((metadata) => metadata.data.credential_configurations_supported ?? {})
+          .catch((error) => {
+            console.error('Error fetching issuer metadata:', error);
+            return {};
+          });
+
+        configurations.then((configs) => {
+          setAvailableCredentials((prev) =>
+            prev.map((credential) => applyCredentialConfigurations(credential, configs))
+          );
+        });
+
         axios
           .get(`${response.data.NEXT_PUBLIC_VC_REPO}/api/list`)
           .then((credentials) => {
             credentials.data.forEach((credential: string) => {
-              axios
-                .get(
+              Promise.all([
+                axios.get(
                   `${response.data.NEXT_PUBLIC_VC_REPO}/api/vc/${credential}`
-                )
-                .then((data) => {
-                  setAvailableCredentials((prev) => [
-                    ...prev,
+                ),
+                configurations,
+              ]).then(([data, configs]) => {
+                setAvailableCredentials((prev) => [
+                  ...prev,
+                  applyCredentialConfigurations(
                     {
                       id: credential,
                       title: credential,
                       offer: data.data,
                     },
-                  ]);
-                });
+                    configs
+                  ),
+                ]);
+              });
             });
           });
       } else {
@@ -52,7 +78,9 @@ export default function App({ Component, pageProps }: AppProps) {
       <CredentialsContext.Provider
         value={[AvailableCredentials, setAvailableCredentials]}
       >
-        <Component {...pageProps} />
+        <SigningProfilesContext.Provider value={signingProfiles}>
+          <Component {...pageProps} />
+        </SigningProfilesContext.Provider>
       </CredentialsContext.Provider>
     </EnvContext.Provider>
   );
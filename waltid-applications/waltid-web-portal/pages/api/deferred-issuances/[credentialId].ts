@@ -0,0 +1,49 @@
+import type {NextApiRequest, NextApiResponse} from "next";
+import axios from "axios";
+import nextConfig from "@/next.config";
+import {getOperatorAuthorization, isDeferredIssuanceDecision} from "@/types/deferredIssuance";
+
+type DecisionRequest = {
+  decision: string;
+  reason?: string;
+};
+
+// Approve or reject a held deferred credential
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== 'POST') {
+    res.setHeader('Allow', 'POST');
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const authorization = getOperatorAuthorization(req.headers.authorization);
+  if (!authorization) {
+    return res.status(401).json({ error: 'Operator API key required' });
+  }
+
+  const credentialId = req.query.credentialId as string;
+  const { decision, reason } = (req.body ?? {}) as DecisionRequest;
+  if (!isDeferredIssuanceDecision(decision) || (reason !== undefined && typeof reason !== 'string')) {
+    return res.status(400).json({ error: 'Invalid approval decision' });
+  }
+
+  const issuerUrl =
+    process.env.NEXT_PUBLIC_ISSUER ??
+    nextConfig.publicRuntimeConfig.NEXT_PUBLIC_ISSUER;
+  try {
+    const response = await axios.post(
+      `${issuerUrl}/openid4vc/deferred/${encodeURIComponent(credentialId)}/${decision}`,
+      reason ? { reason } : {},
+      { headers: { Authorization: authorization } }
+    );
+    res.status(200).json(response.data);
+  } catch (error) {
+    console.error('Error deciding deferred issuance:', error);
+    if (axios.isAxiosError(error) && error.response) {
+      return res.status(error.response.status).send(error.response.data);
+    }
+    res.status(502).json({ error: 'Issuer could not be reached' });
+  }
+}
@@ -0,0 +1,36 @@
+import type {NextApiRequest, NextApiResponse} from "next";
+import axios from "axios";
+import nextConfig from "@/next.config";
+import {getOperatorAuthorization} from "@/types/deferredIssuance";
+
+// Deferred credentials held by the issuer for approval
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== 'GET') {
+    res.setHeader('Allow', 'GET');
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const authorization = getOperatorAuthorization(req.headers.authorization);
+  if (!authorization) {
+    return res.status(401).json({ error: 'Operator API key required' });
+  }
+
+  const issuerUrl =
+    process.env.NEXT_PUBLIC_ISSUER ??
+    nextConfig.publicRuntimeConfig.NEXT_PUBLIC_ISSUER;
+  try {
+    const response = await axios.get(`${issuerUrl}/openid4vc/deferred`, {
+      headers: { Authorization: authorization },
+    });
+    res.status(200).json(response.data);
+  } catch (error) {
+    console.error('Error loading deferred issuances:', error);
+    if (axios.isAxiosError(error) && error.response) {
+      return res.status(error.response.status).send(error.response.data);
+    }
+    res.status(502).json({ error: 'Issuer could not be reached' });
+  }
+}
@@ -14,6 +14,7 @@ export default function handler(
     NEXT_PUBLIC_VERIFIER2_CLIENT_ID: process.env.NEXT_PUBLIC_VERIFIER2_CLIENT_ID,
     NEXT_PUBLIC_VERIFIER2_SIGNING_KEY: process.env.NEXT_PUBLIC_VERIFIER2_SIGNING_KEY,
     NEXT_PUBLIC_VERIFIER2_X5C: process.env.NEXT_PUBLIC_VERIFIER2_X5C,
+    NEXT_PUBLIC_VERIFIER2_ATTESTATION: process.env.NEXT_PUBLIC_VERIFIER2_ATTESTATION,
     NEXT_PUBLIC_WALLET: process.env.NEXT_PUBLIC_WALLET,
   });
 }
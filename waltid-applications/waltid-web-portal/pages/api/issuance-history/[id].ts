@@ -0,0 +1,41 @@
+import type {NextApiRequest, NextApiResponse} from "next";
+import {IssuanceRecord, isIssuanceSessionStatus} from "@/types/issuanceHistory";
+import {getIssuanceRecord, updateIssuanceRecord} from "@/lib/server/issuanceHistory";
+
+type ResponseData = IssuanceRecord | { error: string };
+
+export default function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<ResponseData>
+) {
+  const id = req.query.id as string;
+
+  try {
+    switch (req.method) {
+      case 'GET': {
+        const record = getIssuanceRecord(id);
+        if (!record) {
+          return res.status(404).json({ error: 'Issuance record not found' });
+        }
+        return res.status(200).json(record);
+      }
+      case 'PUT': {
+        // Body is the issuer's issuance session, as polled by the browser
+        if (!isIssuanceSessionStatus(req.body?.status)) {
+          return res.status(400).json({ error: 'Invalid issuance session status' });
+        }
+        const record = updateIssuanceRecord(id, req.body);
+        if (!record) {
+          return res.status(404).json({ error: 'Issuance record not found' });
+        }
+        return res.status(200).json(record);
+      }
+      default:
+        res.setHeader('Allow', 'GET, PUT');
+        return res.status(405).json({ error: 'Method not allowed' });
+    }
+  } catch (error) {
+    console.error('Error accessing issuance record:', error);
+    res.status(500).json({ error: 'Issuance record could not be accessed' });
+  }
+}
@@ -0,0 +1,33 @@
+import type {NextApiRequest, NextApiResponse} from "next";
+import {IssuanceRecord, validateNewIssuanceRecord} from "@/types/issuanceHistory";
+import {createIssuanceRecord, getIssuanceRecord, listIssuanceRecords} from "@/lib/server/issuanceHistory";
+
+type ResponseData = IssuanceRecord | IssuanceRecord[] | { error: string; details?: string[] };
+
+export default function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<ResponseData>
+) {
+  try {
+    switch (req.method) {
+      case 'GET':
+        return res.status(200).json(listIssuanceRecords());
+      case 'POST': {
+        const errors = validateNewIssuanceRecord(req.body);
+        if (errors.length > 0) {
+          return res.status(400).json({ error: 'Invalid issuance record', details: errors });
+        }
+        if (req.body.sessionId && getIssuanceRecord(req.body.sessionId)) {
+          return res.status(409).json({ error: 'Issuance session is already recorded' });
+        }
+        return res.status(201).json(createIssuanceRecord(req.body));
+      }
+      default:
+        res.setHeader('Allow', 'GET, POST');
+        return res.status(405).json({ error: 'Method not allowed' });
+    }
+  } catch (error) {
+    console.error('Error accessing issuance history:', error);
+    res.status(500).json({ error: 'Issuance history could not be accessed' });
+  }
+}
@@ -0,0 +1,94 @@
+import type {NextApiRequest, NextApiResponse} from "next";
+import axios from "axios";
+import nextConfig from "@/next.config";
+import {loadSigningProfiles, ServerSigningProfile} from "@/lib/server/signingProfiles";
+import {IssueEndpoint, IssueEndpoints, MIXED_ISSUE_ENDPOINT} from "@/types/credentials";
+
+type IssueRequest = {
+  endpoint: string;
+  payload: { [key: string]: any } | { [key: string]: any }[];
+  // Issuance session lifetime in seconds, the issuer default if not set
+  sessionTtl?: number;
+};
+
+// Replace the signing profile reference with the issuer DID and key
+function resolveSigningProfile(payload: { [key: string]: any }, profiles: ServerSigningProfile[]) {
+  const { signingProfile, ...rest } = payload;
+  if (signingProfile === undefined) {
+    return rest;
+  }
+  const profile = profiles.find((p) => p.id === signingProfile);
+  if (!profile) {
+    throw new Error(`Unknown signing profile: ${signingProfile}`);
+  }
+  return {
+    ...rest,
+    issuerDid: profile.issuerDid,
+    issuerKey: profile.issuerKey,
+  };
+}
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== 'POST') {
+    res.setHeader('Allow', 'POST');
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const { endpoint, payload, sessionTtl } = req.body as IssueRequest;
+  if (
+    !IssueEndpoints.includes(endpoint as IssueEndpoint) ||
+    !payload ||
+    (sessionTtl !== undefined && !(Number.isInteger(sessionTtl) && sessionTtl > 0))
+  ) {
+    return res.status(400).json({ error: 'Invalid issuance request' });
+  }
+
+  // Only load the profiles when needed, mDoc offers carry their own issuer key
+  const payloads = Array.isArray(payload) ? payload : [payload];
+  let profiles: ServerSigningProfile[] = [];
+  if (payloads.some((p) => p.signingProfile !== undefined)) {
+    try {
+      profiles = await loadSigningProfiles();
+    } catch (error) {
+      console.error('Error loading signing profiles:', error);
+      return res.status(500).json({ error: (error as Error).message });
+    }
+  }
+
+  let issuancePayload;
+  try {
+    issuancePayload = Array.isArray(payload)
+      ? payload.map((p) => resolveSigningProfile(p, profiles))
+      : resolveSigningProfile(payload, profiles);
+  } catch (error) {
+    return res.status(400).json({ error: (error as Error).message });
+  }
+
+  const issuerUrl =
+    process.env.NEXT_PUBLIC_ISSUER ??
+    nextConfig.publicRuntimeConfig.NEXT_PUBLIC_ISSUER;
+  try {
+    // The mixed batch endpoint takes any formats, always as a list
+    const issueUrl = endpoint === MIXED_ISSUE_ENDPOINT
+      ? `${issuerUrl}/openid4vc/issueBatch`
+      : `${issuerUrl}/openid4vc/${endpoint}/${Array.isArray(payload) ? 'issueBatch' : 'issue'}`;
+    const response = await axios.post(
+      issueUrl,
+      endpoint === MIXED_ISSUE_ENDPOINT && !Array.isArray(issuancePayload) ? [issuancePayload] : issuancePayload,
+      {
+        responseType: 'text',
+        ...(sessionTtl && { headers: { sessionTtl: String(sessionTtl) } }),
+      }
+    );
+    res.status(200).send(response.data);
+  } catch (error) {
+    console.error('Error issuing credential offer:', error);
+    if (axios.isAxiosError(error) && error.response) {
+      return res.status(error.response.status).send(error.response.data);
+    }
+    res.status(502).json({ error: 'Issuer could not be reached' });
+  }
+}
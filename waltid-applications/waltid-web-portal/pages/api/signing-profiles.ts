@@ -0,0 +1,17 @@
+import type {NextApiRequest, NextApiResponse} from "next";
+import {SigningProfile} from "@/types/credentials";
+import {loadSigningProfiles, toPublicSigningProfile} from "@/lib/server/signingProfiles";
+
+type ResponseData = SigningProfile[] | { error: string };
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<ResponseData>
+) {
+  try {
+    res.status(200).json((await loadSigningProfiles()).map(toPublicSigningProfile));
+  } catch (error) {
+    console.error('Error loading signing profiles:', error);
+    res.status(500).json({ error: 'Signing profiles could not be loaded' });
+  }
+}
@@ -0,0 +1,36 @@
+import type {NextApiRequest, NextApiResponse} from "next";
+import {CredentialStatuses, isStatusListId, STATUS_LISTS, StatusListEntry} from "@/types/statusLists";
+import {setStatusListEntryStatus} from "@/lib/server/statusLists";
+
+type ResponseData = StatusListEntry | { error: string };
+
+export default function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<ResponseData>
+) {
+  const id = req.query.id;
+  const index = Number(req.query.entry);
+  if (!isStatusListId(id) || !Number.isInteger(index)) {
+    return res.status(404).json({ error: 'Status list entry not found' });
+  }
+  if (req.method !== 'PUT') {
+    res.setHeader('Allow', 'PUT');
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  // Revoke, suspend or reinstate the credential
+  const status = req.body?.status;
+  if (!CredentialStatuses.includes(status) || !STATUS_LISTS[id].statuses.includes(status)) {
+    return res.status(400).json({ error: `Invalid status, expected one of ${STATUS_LISTS[id].statuses.join(', ')}` });
+  }
+  try {
+    const entry = setStatusListEntryStatus(id, index, status);
+    if (!entry) {
+      return res.status(404).json({ error: 'Status list entry not found' });
+    }
+    return res.status(200).json(entry);
+  } catch (error) {
+    console.error('Error updating status list entry:', error);
+    res.status(500).json({ error: 'Status list entry could not be updated' });
+  }
+}
@@ -0,0 +1,46 @@
+import type {NextApiRequest, NextApiResponse} from "next";
+import {buildStatusClaim, isStatusListId, STATUS_LISTS, StatusClaim, StatusListEntry} from "@/types/statusLists";
+import {
+  allocateStatusListEntry,
+  buildStatusListToken,
+  getRequestOrigin,
+  getStatusListUri,
+} from "@/lib/server/statusLists";
+
+type ResponseData = string | { entry: StatusListEntry; claim: StatusClaim } | { error: string };
+
+export default function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<ResponseData>
+) {
+  const id = req.query.id;
+  if (!isStatusListId(id)) {
+    return res.status(404).json({ error: 'Status list not found' });
+  }
+  const uri = getStatusListUri(id, getRequestOrigin(req.headers));
+
+  try {
+    switch (req.method) {
+      case 'GET':
+        // Fetched by verifiers - never cache, the status may change at any time
+        res.setHeader('Cache-Control', 'no-store');
+        res.setHeader('Content-Type', STATUS_LISTS[id].type === 'TokenStatusList' ? 'application/statuslist+jwt' : 'application/jwt');
+        return res.status(200).send(buildStatusListToken(id, uri));
+      case 'POST': {
+        // Status list entry for a credential about to be issued
+        const { credentialId, credentialTitle, format } = req.body ?? {};
+        if (typeof credentialId !== 'string' || !credentialId) {
+          return res.status(400).json({ error: 'Missing credentialId' });
+        }
+        const entry = allocateStatusListEntry(id, { credentialId, credentialTitle, format });
+        return res.status(201).json({ entry, claim: buildStatusClaim(STATUS_LISTS[id], entry.index, uri) });
+      }
+      default:
+        res.setHeader('Allow', 'GET, POST');
+        return res.status(405).json({ error: 'Method not allowed' });
+    }
+  } catch (error) {
+    console.error('Error accessing status list:', error);
+    res.status(500).json({ error: 'Status list could not be accessed' });
+  }
+}
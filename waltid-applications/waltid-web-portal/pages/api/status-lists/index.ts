@@ -0,0 +1,21 @@
+import type {NextApiRequest, NextApiResponse} from "next";
+import {StatusList} from "@/types/statusLists";
+import {getRequestOrigin, listStatusLists} from "@/lib/server/statusLists";
+
+type ResponseData = StatusList[] | { error: string };
+
+export default function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<ResponseData>
+) {
+  if (req.method !== 'GET') {
+    res.setHeader('Allow', 'GET');
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+  try {
+    return res.status(200).json(listStatusLists(getRequestOrigin(req.headers)));
+  } catch (error) {
+    console.error('Error accessing status lists:', error);
+    res.status(500).json({ error: 'Status lists could not be accessed' });
+  }
+}
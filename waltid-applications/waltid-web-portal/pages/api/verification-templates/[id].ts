@@ -0,0 +1,47 @@
+import type {NextApiRequest, NextApiResponse} from "next";
+import {VerificationTemplate, validateVerificationTemplate} from "@/types/verificationTemplates";
+import {
+  deleteVerificationTemplate,
+  getVerificationTemplate,
+  saveVerificationTemplate,
+} from "@/lib/server/verificationTemplates";
+
+type ResponseData = VerificationTemplate | { error: string; details?: string[] };
+
+export default function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<ResponseData>
+) {
+  const id = req.query.id as string;
+
+  try {
+    switch (req.method) {
+      case 'GET': {
+        const template = getVerificationTemplate(id);
+        if (!template) {
+          return res.status(404).json({ error: 'Verification template not found' });
+        }
+        return res.status(200).json(template);
+      }
+      case 'PUT': {
+        const template = { ...req.body, id };
+        const errors = validateVerificationTemplate(template);
+        if (errors.length > 0) {
+          return res.status(400).json({ error: 'Invalid verification template', details: errors });
+        }
+        return res.status(200).json(saveVerificationTemplate(template));
+      }
+      case 'DELETE':
+        if (!deleteVerificationTemplate(id)) {
+          return res.status(404).json({ error: 'Verification template not found' });
+        }
+        return res.status(204).end();
+      default:
+        res.setHeader('Allow', 'GET, PUT, DELETE');
+        return res.status(405).json({ error: 'Method not allowed' });
+    }
+  } catch (error) {
+    console.error('Error accessing verification template:', error);
+    res.status(500).json({ error: 'Verification template could not be accessed' });
+  }
+}
@@ -0,0 +1,31 @@
+import type {NextApiRequest, NextApiResponse} from "next";
+import {VerificationTemplate, validateVerificationTemplate} from "@/types/verificationTemplates";
+import {listVerificationTemplates, saveVerificationTemplate} from "@/lib/server/verificationTemplates";
+
+type ResponseData = VerificationTemplate | VerificationTemplate[] | { error: string; details?: string[] };
+
+export default function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<ResponseData>
+) {
+  try {
+    switch (req.method) {
+      case 'GET':
+        return res.status(200).json(listVerificationTemplates());
+      case 'POST': {
+        // Create, replace or import a template
+        const errors = validateVerificationTemplate(req.body);
+        if (errors.length > 0) {
+          return res.status(400).json({ error: 'Invalid verification template', details: errors });
+        }
+        return res.status(201).json(saveVerificationTemplate(req.body));
+      }
+      default:
+        res.setHeader('Allow', 'GET, POST');
+        return res.status(405).json({ error: 'Method not allowed' });
+    }
+  } catch (error) {
+    console.error('Error accessing verification templates:', error);
+    res.status(500).json({ error: 'Verification templates could not be accessed' });
+  }
+}
@@ -0,0 +1,208 @@
+import React, {useEffect, useState} from "react";
+import {useRouter} from "next/router";
+import axios from "axios";
+import Icon from "@/components/walt/logo/Icon";
+import WaltIcon from "@/components/walt/logo/WaltIcon";
+import Button from "@/components/walt/button/Button";
+import BackButton from "@/components/walt/button/BackButton";
+import InputField from "@/components/walt/forms/Input";
+import {
+  ApprovalQueueItem,
+  buildApprovalQueue,
+  DeferredIssuanceDecision,
+  DeferredIssuanceStatus,
+  OPERATOR_API_KEY_STORAGE,
+  operatorAuthorizationHeader,
+} from "@/types/deferredIssuance";
+import {IssuanceRecord} from "@/types/issuanceHistory";
+
+const DEFERRED_ISSUANCES_API = '/api/deferred-issuances';
+
+const STATUS_COLORS: Record<DeferredIssuanceStatus, string> = {
+  PENDING: 'text-yellow-600',
+  APPROVED: 'text-green-700',
+  REJECTED: 'text-red-600',
+};
+
+export default function Approvals() {
+  const router = useRouter();
+
+  const [queue, setQueue] = useState<ApprovalQueueItem[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  // Operator API key of the issuer, kept for the browser session only
+  const [apiKey, setApiKey] = useState<string | null>(null);
+  const [apiKeyInput, setApiKeyInput] = useState('');
+
+  async function loadQueue(key = apiKey) {
+    if (!key) {
+      setLoading(false);
+      return;
+    }
+    setLoading(true);
+    try {
+      const [issuances, records] = await Promise.all([
+        axios.get(DEFERRED_ISSUANCES_API, { headers: operatorAuthorizationHeader(key) })
+          .then((response) => response.data),
+        // Titles and formats of the offers, the queue works without them
+        axios.get('/api/issuance-history').then((response) => response.data as IssuanceRecord[]).catch(() => []),
+      ]);
+      setQueue(buildApprovalQueue(issuances, records));
+      setError(null);
+    } catch (e) {
+      console.error('Error loading approval queue:', e);
+      if (axios.isAxiosError(e) && e.response?.status === 401) {
+        signOut();
+        setError('Invalid operator API key');
+      } else {
+        setError('Failed to load the approval queue');
+      }
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  function signIn() {
+    const key = apiKeyInput.trim();
+    if (!key) {
+      return;
+    }
+    sessionStorage.setItem(OPERATOR_API_KEY_STORAGE, key);
+    setApiKey(key);
+    setApiKeyInput('');
+    loadQueue(key);
+  }
+
+  function signOut() {
+    sessionStorage.removeItem(OPERATOR_API_KEY_STORAGE);
+    setApiKey(null);
+    setQueue([]);
+  }
+
+  useEffect(() => {
+    const key = sessionStorage.getItem(OPERATOR_API_KEY_STORAGE);
+    setApiKey(key);
+    loadQueue(key);
+  }, []);
+
+  async function handleDecision(item: ApprovalQueueItem, decision: DeferredIssuanceDecision) {
+    const reason = decision === 'reject' ? prompt('Reason for the rejection (optional)') : undefined;
+    if (reason === null) {
+      return;
+    }
+    try {
+      await axios.post(`${DEFERRED_ISSUANCES_API}/${item.credentialId}`, {
+        decision,
+        ...(reason && { reason }),
+      }, { headers: operatorAuthorizationHeader(apiKey!) });
+      await loadQueue();
+    } catch (e) {
+      console.error('Error deciding deferred issuance:', e);
+      if (axios.isAxiosError(e) && e.response?.status === 401) {
+        signOut();
+        setError('Invalid operator API key');
+      } else {
+        alert(`Failed to ${decision} the credential`);
+      }
+    }
+  }
+
+  return (
+    <div className="flex flex-col justify-center items-center bg-gray-50">
+      <div
+        className="my-5 flex flex-row justify-center cursor-pointer"
+        onClick={() => router.push('/')}
+      >
+        <Icon height={35} width={35} />
+      </div>
+      <div className="relative w-11/12 md:w-7/12 text-center shadow-2xl rounded-lg pt-8 pb-8 px-10 bg-white max-w-[960px]">
+        <BackButton />
+        <h1 className="text-xl sm:text-2xl lg:text-3xl text-gray-900 text-center font-bold mt-5">
+          Approval Queue
+        </h1>
+        <p className="mt-3 text-gray-600">
+          Credentials requested by wallets that are released after your approval
+        </p>
+        {apiKey && (
+          <div className="flex justify-center gap-2 mt-2">
+            <Button style="link" color="secondary" disabled={loading} onClick={() => loadQueue()}>
+              Refresh
+            </Button>
+            <Button style="link" color="secondary" onClick={signOut}>
+              Sign out
+            </Button>
+          </div>
+        )}
+        <hr className="mt-6" />
+        {!apiKey ? (
+          <div className="flex flex-col gap-3 items-center my-10">
+            {error && <p className="text-red-600 font-semibold">{error}</p>}
+            <div className="w-full max-w-sm text-left">
+              <InputField
+                value={apiKeyInput}
+                onChange={setApiKeyInput}
+                type="password"
+                name="operatorApiKey"
+                label="Operator API key"
+                placeholder="Operator API key of the issuer"
+                showLabel={true}
+              />
+            </div>
+            <Button style="button" disabled={!apiKeyInput.trim()} onClick={signIn}>
+              Sign in
+            </Button>
+          </div>
+        ) : error ? (
+          <p className="text-red-600 my-10 font-semibold">{error}</p>
+        ) : loading ? (
+          <div className="flex justify-center">
+            <div className="animate-spin rounded-full h-16 w-16 border-b-2 border-gray-900 my-10"></div>
+          </div>
+        ) : queue.length === 0 ? (
+          <p className="my-10 text-gray-500">
+            No credentials awaiting approval. Credentials appear here once a wallet requested them.
+          </p>
+        ) : (
+          <div className="flex flex-col divide-y divide-gray-100 text-left">
+            {queue.map((item) => (
+              <div key={item.credentialId} className="py-4 flex flex-col sm:flex-row justify-between gap-3">
+                <div className="min-w-0">
+                  <p className="font-semibold text-gray-900">{item.credentialConfigurationId}</p>
+                  {item.record && (
+                    <p className="text-sm text-gray-500">
+                      Offer of {item.record.credentials.map((credential) => credential.title ?? credential.id).join(', ')}
+                    </p>
+                  )}
+                  <p className="text-sm text-gray-500">
+                    Requested {new Date(item.requestedAt).toLocaleString()}, {item.format}
+                  </p>
+                  <p className="text-xs text-gray-500 break-all">Session {item.sessionId}</p>
+                  <p className={`text-sm font-semibold ${STATUS_COLORS[item.status]}`}>
+                    {item.status}
+                    {item.statusReason && <span className="font-normal text-gray-500">: {item.statusReason}</span>}
+                  </p>
+                </div>
+                {item.status === 'PENDING' && (
+                  <div className="flex flex-row flex-wrap gap-2 items-center shrink-0">
+                    <Button style="link" color="secondary" onClick={() => handleDecision(item, 'reject')}>
+                      Reject
+                    </Button>
+                    <Button style="button" color="green" onClick={() => handleDecision(item, 'approve')}>
+                      Approve
+                    </Button>
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+        <div className="flex flex-col items-center mt-12">
+          <div className="flex flex-row gap-2 items-center content-center text-sm text-center text-gray-500">
+            <p className="">Secured by walt.id</p>
+            <WaltIcon height={15} width={15} type="gray" />
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
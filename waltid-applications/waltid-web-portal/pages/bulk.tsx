@@ -0,0 +1,333 @@
+import React, {useContext, useEffect, useState} from "react";
+import {renderToStaticMarkup} from "react-dom/server";
+import {useRouter} from "next/router";
+import QRCode from "react-qr-code";
+import Icon from "@/components/walt/logo/Icon";
+import WaltIcon from "@/components/walt/logo/WaltIcon";
+import Button from "@/components/walt/button/Button";
+import BackButton from "@/components/walt/button/BackButton";
+import Dropdown from "@/components/walt/forms/Dropdown";
+import InputField from "@/components/walt/forms/Input";
+import {EnvContext} from "@/pages/_app";
+import nextConfig from "@/next.config";
+import {AvailableCredential, TxCodeSettings} from "@/types/credentials";
+import {getOfferUrl} from "@/utils/getOfferUrl";
+import {
+  buildBulkRowOffer,
+  BulkMapping,
+  BulkOfferResult,
+  BulkSheet,
+  getBulkClaimTargets,
+  parseBulkFile,
+  PIN_TARGET,
+  RECIPIENT_TARGET,
+  suggestBulkMapping,
+} from "@/utils/bulkIssuance";
+import {buildMbox, buildOfferEmail, buildOfferSheetCsv, buildOfferSheetHtml} from "@/utils/offerSheets";
+import {validateCredentials} from "@/utils/credentialSchema";
+
+const NOT_MAPPED = '(not mapped)';
+
+function renderQrSvg(offerUrl: string): string {
+  return renderToStaticMarkup(<QRCode value={offerUrl} size={256} />);
+}
+
+function downloadFile(fileName: string, content: string, type: string) {
+  const blob = new Blob([content], { type });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+export default function BulkIssuance() {
+  const env = useContext(EnvContext);
+  const router = useRouter();
+
+  const [credentials, setCredentials] = useState<AvailableCredential[] | null>(null);
+  const [txCode, setTxCode] = useState<TxCodeSettings | undefined>(undefined);
+  const [fileName, setFileName] = useState('');
+  const [sheet, setSheet] = useState<BulkSheet | null>(null);
+  const [fileError, setFileError] = useState<string | null>(null);
+  const [mapping, setMapping] = useState<BulkMapping>({});
+  const [emailSubject, setEmailSubject] = useState('Your credential is ready');
+  const [progress, setProgress] = useState<number | null>(null);
+  const [results, setResults] = useState<BulkOfferResult[]>([]);
+
+  const targets = credentials ? getBulkClaimTargets(credentials) : [];
+  const credentialTitles = (credentials ?? []).map((credential) => credential.title);
+  const issued = results.filter((result) => result.offerUrl);
+  const running = progress !== null;
+
+  useEffect(() => {
+    if (!router.isReady) return;
+    const stored = localStorage.getItem('bulk');
+    if (stored) {
+      const bulk = JSON.parse(stored);
+      localStorage.removeItem('bulk');
+      setCredentials(bulk.credentials);
+      setTxCode(bulk.txCode);
+    } else {
+      setCredentials([]);
+    }
+  }, [router.isReady]);
+
+  async function handleFile(event: React.ChangeEvent<HTMLInputElement>) {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    try {
+      const parsed = parseBulkFile(file.name, await file.text());
+      setFileName(file.name);
+      setSheet(parsed);
+      setMapping(suggestBulkMapping(parsed.columns, targets));
+      setResults([]);
+      setFileError(null);
+    } catch (e) {
+      setSheet(null);
+      setFileError(`Failed to read ${file.name}: ${(e as Error).message}`);
+    }
+  }
+
+  function setColumn(targetId: string, column: string) {
+    const { [targetId]: _, ...rest } = mapping;
+    setMapping(column === NOT_MAPPED ? rest : { ...rest, [targetId]: column });
+  }
+
+  async function handleGenerate() {
+    if (!sheet || !credentials) return;
+    if (txCode && !mapping[PIN_TARGET]) {
+      alert('These offers require a user PIN - please map a PIN column');
+      return;
+    }
+
+    const generated: BulkOfferResult[] = [];
+    for (let index = 0; index < sheet.rows.length; index++) {
+      const row = sheet.rows[index];
+      setProgress(index + 1);
+      const result: BulkOfferResult = { row: index + 1, data: row };
+      try {
+        const rowOffer = buildBulkRowOffer(credentials, targets, mapping, row);
+        const problems = await validateCredentials(rowOffer.credentials);
+        if (problems.length > 0) {
+          throw new Error(problems.join('; '));
+        }
+        result.recipient = rowOffer.recipient;
+        result.pin = rowOffer.pin;
+        const response = await getOfferUrl(
+          rowOffer.credentials,
+          env.NEXT_PUBLIC_VC_REPO ?? nextConfig.publicRuntimeConfig!.NEXT_PUBLIC_VC_REPO,
+          env.NEXT_PUBLIC_ISSUER ?? nextConfig.publicRuntimeConfig!.NEXT_PUBLIC_ISSUER,
+          router.query.authenticationMethod as string,
+          router.query.vpRequestValue as string,
+          router.query.vpProfile as string,
+          router.query.useServerKeys === 'true',
+          txCode && { ...txCode, pin: rowOffer.pin ?? '' },
+          router.query.statusList === 'true',
+          router.query.approval === 'true'
+        );
+        result.offerUrl = response.data;
+      } catch (e: any) {
+        result.error = e?.response?.data?.message ?? (e as Error).message;
+      }
+      generated.push(result);
+      setResults([...generated]);
+    }
+    setProgress(null);
+  }
+
+  function getQrCodes(): Record<number, string> {
+    return Object.fromEntries(issued.map((result) => [result.row, renderQrSvg(result.offerUrl!)]));
+  }
+
+  function getEmail(result: BulkOfferResult): string {
+    return buildOfferEmail({
+      to: result.recipient!,
+      subject: emailSubject,
+      credentialTitles,
+      offerUrl: result.offerUrl!,
+      qrSvg: renderQrSvg(result.offerUrl!),
+    });
+  }
+
+  const baseName = fileName.replace(/\.[^.]+$/, '') || 'offers';
+
+  return (
+    <div className="flex flex-col justify-center items-center bg-gray-50">
+      <div
+        className="my-5 flex flex-row justify-center cursor-pointer"
+        onClick={() => router.push('/')}
+      >
+        <Icon height={35} width={35} />
+      </div>
+      <div className="relative w-11/12 md:w-7/12 text-center shadow-2xl rounded-lg pt-8 pb-8 px-10 bg-white max-w-[960px]">
+        <BackButton />
+        <h1 className="text-xl sm:text-2xl lg:text-3xl text-gray-900 text-center font-bold mt-5">
+          Bulk Issuance
+        </h1>
+        <p className="mt-3 text-gray-600">
+          One credential offer per row of a CSV or JSON file
+        </p>
+        <hr className="mt-8" />
+        {credentials === null ? (
+          <div className="flex justify-center">
+            <div className="animate-spin rounded-full h-16 w-16 border-b-2 border-gray-900 my-10"></div>
+          </div>
+        ) : credentials.length === 0 ? (
+          <div className="my-10">
+            <p className="text-gray-500 mb-4">Select the credentials to issue first.</p>
+            <Button onClick={() => router.push('/')}>Select Credentials</Button>
+          </div>
+        ) : (
+          <div className="text-left">
+            <h3 className="mt-6 text-gray-500 font-semibold">Credentials</h3>
+            {credentials.map((credential) => (
+              <p key={credential.id} className="text-gray-900">
+                {credential.title}
+                {credential.selectedFormat && (
+                  <span className="ml-2 text-sm text-gray-500">{credential.selectedFormat}</span>
+                )}
+              </p>
+            ))}
+
+            <h3 className="mt-6 text-gray-500 font-semibold">Data</h3>
+            <p className="text-sm text-gray-500">
+              CSV with a header line, or a JSON array of objects. Nested JSON objects become dotted columns.
+            </p>
+            <div className="flex flex-row gap-3 items-center mt-2">
+              <label className="cursor-pointer text-sm font-semibold text-primary-400 hover:text-primary-600">
+                {sheet ? 'Choose another file' : 'Choose file'}
+                <input type="file" accept=".csv,.json,text/csv,application/json" className="sr-only" onChange={handleFile} />
+              </label>
+              {sheet && (
+                <span className="text-sm text-gray-500">
+                  {fileName}: {sheet.rows.length} row{sheet.rows.length === 1 ? '' : 's'}, {sheet.columns.length} columns
+                </span>
+              )}
+            </div>
+            {fileError && <p className="mt-2 text-sm text-red-600">{fileError}</p>}
+
+            {sheet && (
+              <>
+                <h3 className="mt-6 text-gray-500 font-semibold">Columns</h3>
+                <p className="text-sm text-gray-500">
+                  Claims without a column keep the credential&apos;s data. Lists can be written as JSON or separated by semicolons.
+                </p>
+                <div className="flex flex-col gap-2 mt-2">
+                  {[
+                    ...targets.map((target) => ({ id: target.id, label: target.label })),
+                    { id: RECIPIENT_TARGET, label: 'Recipient email (optional)' },
+                    ...(txCode ? [{ id: PIN_TARGET, label: 'User PIN (required)' }] : []),
+                  ].map((target) => (
+                    <div key={target.id} className="flex flex-row gap-3 items-center justify-between">
+                      <span className="text-sm font-medium text-gray-700 truncate">{target.label}</span>
+                      <div className="w-56 shrink-0">
+                        <Dropdown
+                          values={[NOT_MAPPED, ...sheet.columns]}
+                          selected={mapping[target.id] ?? NOT_MAPPED}
+                          setSelected={(column: string) => setColumn(target.id, column)}
+                        />
+                      </div>
+                    </div>
+                  ))}
+                </div>
+                {mapping[RECIPIENT_TARGET] && (
+                  <div className="mt-4">
+                    <InputField
+                      value={emailSubject}
+                      onChange={setEmailSubject}
+                      type="text"
+                      name="emailSubject"
+                      label="Email subject"
+                      placeholder="Email subject"
+                      showLabel={true}
+                    />
+                  </div>
+                )}
+                <div className="flex flex-row justify-center mt-8">
+                  <Button onClick={handleGenerate} disabled={running}>
+                    {running ? `Creating offer ${progress} of ${sheet.rows.length}` : `Create ${sheet.rows.length} offers`}
+                  </Button>
+                </div>
+              </>
+            )}
+
+            {results.length > 0 && !running && (
+              <>
+                <hr className="mt-8" />
+                <h3 className="mt-6 text-gray-500 font-semibold">Offers</h3>
+                <p className="text-sm text-gray-500">
+                  {issued.length} of {results.length} offers created
+                </p>
+                <div className="flex flex-row flex-wrap gap-2 mt-2">
+                  <Button
+                    style="link"
+                    onClick={() => downloadFile(`${baseName}-offers.csv`, buildOfferSheetCsv(results, sheet!.columns), 'text/csv')}
+                  >
+                    Offer sheet (CSV)
+                  </Button>
+                  <Button
+                    style="link"
+                    disabled={issued.length === 0}
+                    onClick={() => downloadFile(
+                      `${baseName}-qr-codes.html`,
+                      buildOfferSheetHtml(credentialTitles.join(', '), results, sheet!.columns, getQrCodes()),
+                      'text/html'
+                    )}
+                  >
+                    QR codes (HTML)
+                  </Button>
+                  <Button
+                    style="link"
+                    disabled={!issued.some((result) => result.recipient)}
+                    onClick={() => downloadFile(
+                      `${baseName}-emails.mbox`,
+                      buildMbox(issued.filter((result) => result.recipient).map(getEmail)),
+                      'application/mbox'
+                    )}
+                  >
+                    Emails (mbox)
+                  </Button>
+                </div>
+                <div className="flex flex-col divide-y divide-gray-100 mt-2">
+                  {results.map((result) => (
+                    <div key={result.row} className="py-2 flex flex-row justify-between gap-3 text-sm">
+                      <div className="min-w-0">
+                        <p className="text-gray-900">
+                          Row {result.row}
+                          {result.recipient && <span className="ml-2 text-gray-500">{result.recipient}</span>}
+                        </p>
+                        {result.offerUrl ? (
+                          <p className="text-xs text-gray-500 truncate">{result.offerUrl}</p>
+                        ) : (
+                          <p className="text-red-600">{result.error}</p>
+                        )}
+                      </div>
+                      {result.offerUrl && result.recipient && (
+                        <Button
+                          style="link"
+                          color="secondary"
+                          onClick={() => downloadFile(`${baseName}-row-${result.row}.eml`, getEmail(result), 'message/rfc822')}
+                        >
+                          Email
+                        </Button>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              </>
+            )}
+          </div>
+        )}
+        <div className="flex flex-col items-center mt-12">
+          <div className="flex flex-row gap-2 items-center content-center text-sm text-center text-gray-500">
+            <p className="">Secured by walt.id</p>
+            <WaltIcon height={15} width={15} type="gray" />
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,122 @@
+import WaltIcon from "@/components/walt/logo/WaltIcon";
+import {useContext, useEffect, useState} from "react";
+import {useRouter} from "next/router";
+import axios from "axios";
+import nextConfig from "@/next.config";
+import {EnvContext} from "@/pages/_app";
+import Button from "@/components/walt/button/Button";
+import VerificationFailureDetails from "@/components/walt/verification/VerificationFailureDetails";
+import {fetchVerificationSession} from "@/utils/verificationSession";
+import {getApi2Status} from "@/utils/verificationStatus";
+import {
+  getLegacyVerificationFailure,
+  getVerificationFailure,
+  getVerificationRequest,
+  restoreVerificationRequest,
+  VerificationFailure,
+  VerificationRequest,
+} from "@/utils/verificationFailure";
+
+// Why a verification failed, with the option to start it again with the same request
+export default function VerificationFailurePage() {
+  const env = useContext(EnvContext);
+  const router = useRouter();
+
+  const [failure, setFailure] = useState<VerificationFailure | null>(null);
+  const [expired, setExpired] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [request, setRequest] = useState<VerificationRequest | null>(null);
+
+  useEffect(() => {
+    if (!router.isReady) return;
+    const sessionId = router.query.sessionId as string;
+    setRequest(getVerificationRequest(sessionId));
+
+    // Wallets redirecting back with an error response pass it in the query, the portal's error redirect only flags it
+    const queryError = router.query.error?.toString();
+    const walletErrorCode = queryError !== 'true' ? queryError : undefined;
+    const withWalletError = (details: VerificationFailure): VerificationFailure =>
+      walletErrorCode && !details.walletError
+        ? { ...details, walletError: { error: walletErrorCode, errorDescription: router.query.error_description?.toString() } }
+        : details;
+
+    const loadLegacySession = () => {
+      const verifierUrl = env.NEXT_PUBLIC_VERIFIER || nextConfig.publicRuntimeConfig?.NEXT_PUBLIC_VERIFIER;
+      axios
+        .get(`${verifierUrl}/openid4vc/session/${encodeURIComponent(sessionId)}`)
+        .then((response) => setFailure(withWalletError(getLegacyVerificationFailure(response.data))))
+        .catch(() => {
+          setError('The verification session could not be loaded');
+          if (walletErrorCode) {
+            setFailure(withWalletError({ failedPolicies: [], dcqlProblems: [] }));
+          }
+        });
+    };
+
+    // Same lookup as the success page: Verifier API2 first, then the Verifier API
+    const verifier2Url = env.NEXT_PUBLIC_VERIFIER2 || nextConfig.publicRuntimeConfig?.NEXT_PUBLIC_VERIFIER2;
+    if (!verifier2Url) {
+      loadLegacySession();
+      return;
+    }
+    fetchVerificationSession(verifier2Url, sessionId, { responseCode: router.query.response_code?.toString() }).then(
+      (session) => {
+        setExpired(getApi2Status(session) === 'expired');
+        setFailure(withWalletError(getVerificationFailure(session)));
+      },
+      () => loadLegacySession()
+    );
+  }, [router.isReady, env]);
+
+  function retry() {
+    router.push({ pathname: '/verify', query: restoreVerificationRequest(request!) });
+  }
+
+  return (
+    <div className="min-h-screen flex justify-center items-center bg-gray-50">
+      <div className="relative w-full h-full sm:h-auto sm:w-10/12 md:w-8/12 lg:w-6/12 text-center shadow-2xl rounded-lg pt-8 pb-8 px-10 bg-white">
+        <h1 className="text-3xl text-gray-900 text-center font-bold mb-10">
+          Verification Failed
+        </h1>
+        <div className="flex flex-col items-center">
+          <div className="w-80 h-60 sm:h-[225px] sm:w-[400px]">
+            <div className="flex h-full w-full flex-col drop-shadow-sm rounded-xl py-7 px-8 text-gray-100 overflow-hidden bg-gradient-to-r from-red-700 to-red-900 z-[-2]">
+              <div className="flex flex-row">
+                <WaltIcon height={35} width={35} outline type="white" />
+              </div>
+              <div className="mb-8 mt-12">
+                <h6 className={'text-2xl font-bold '}>
+                  {expired ? 'Request expired' : 'Failed to verify'}
+                </h6>
+              </div>
+            </div>
+          </div>
+        </div>
+        <div className="mt-10 px-12">
+          {error && <p className="text-red-600 mb-4">{error}</p>}
+          {failure ? (
+            <VerificationFailureDetails failure={failure} />
+          ) : (
+            !error && <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-gray-900 mx-auto"></div>
+          )}
+        </div>
+        <div className="flex flex-row justify-center gap-5 mt-10">
+          <Button style="link" onClick={() => router.push('/')}>
+            Back to credentials
+          </Button>
+          {request && (
+            <Button style="button" onClick={retry}>
+              Retry with the same request
+            </Button>
+          )}
+        </div>
+        <div className="flex flex-col items-center mt-12">
+          <div className="flex flex-row gap-2 items-center content-center text-sm text-center text-gray-500">
+            <p className="">Secured by walt.id</p>
+            <WaltIcon height={15} width={15} type="gray" />
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,153 @@
+import React, {useEffect, useState} from "react";
+import {useRouter} from "next/router";
+import axios from "axios";
+import Icon from "@/components/walt/logo/Icon";
+import WaltIcon from "@/components/walt/logo/WaltIcon";
+import Button from "@/components/walt/button/Button";
+import BackButton from "@/components/walt/button/BackButton";
+import {IssuanceRecord, IssuanceRecordStatus, isFinalIssuanceStatus} from "@/types/issuanceHistory";
+import {getIssuanceSession} from "@/utils/checkIssuanceSession";
+import {updateIssuanceRecord} from "@/utils/issuanceHistory";
+
+const ISSUANCE_HISTORY_API = '/api/issuance-history';
+
+const STATUS_COLORS: Record<IssuanceRecordStatus, string> = {
+  OFFERED: 'text-gray-500',
+  REDEEMED: 'text-green-700',
+  FAILED: 'text-red-600',
+  REJECTED: 'text-red-600',
+  EXPIRED: 'text-yellow-600',
+};
+
+function formatTime(timestamp?: string): string | null {
+  return timestamp ? new Date(timestamp).toLocaleString() : null;
+}
+
+export default function IssuanceHistory() {
+  const router = useRouter();
+
+  const [records, setRecords] = useState<IssuanceRecord[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  async function loadRecords(): Promise<IssuanceRecord[]> {
+    try {
+      const loaded: IssuanceRecord[] = (await axios.get(ISSUANCE_HISTORY_API)).data;
+      setRecords(loaded);
+      setError(null);
+      return loaded;
+    } catch (e) {
+      console.error('Error loading issuance history:', e);
+      setError('Failed to load the issuance history');
+      return [];
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  // Offers still open when their offer page was closed are looked up at the issuer once
+  async function refreshOpenOffers(loaded: IssuanceRecord[]) {
+    const open = loaded.filter((record) => record.sessionId && !isFinalIssuanceStatus(record.status));
+    if (open.length === 0) {
+      return;
+    }
+    setRefreshing(true);
+    const updated = await Promise.all(open.map(async (record) => {
+      try {
+        const session = await getIssuanceSession(record.issuerUrl, record.sessionId!);
+        return await updateIssuanceRecord(record.id, session);
+      } catch (e) {
+        // Sessions the issuer no longer knows keep their last status
+        return null;
+      }
+    }));
+    const byId = new Map(updated.filter((r): r is IssuanceRecord => !!r).map((r) => [r.id, r]));
+    setRecords((current) => current.map((record) => byId.get(record.id) ?? record));
+    setRefreshing(false);
+  }
+
+  useEffect(() => {
+    loadRecords().then(refreshOpenOffers);
+  }, []);
+
+  return (
+    <div className="flex flex-col justify-center items-center bg-gray-50">
+      <div
+        className="my-5 flex flex-row justify-center cursor-pointer"
+        onClick={() => router.push('/')}
+      >
+        <Icon height={35} width={35} />
+      </div>
+      <div className="relative w-11/12 md:w-7/12 text-center shadow-2xl rounded-lg pt-8 pb-8 px-10 bg-white max-w-[960px]">
+        <BackButton />
+        <h1 className="text-xl sm:text-2xl lg:text-3xl text-gray-900 text-center font-bold mt-5">
+          Issuance History
+        </h1>
+        <p className="mt-3 text-gray-600">
+          Credential offers created by the portal and whether a wallet redeemed them
+        </p>
+        <div className="flex justify-center mt-2">
+          <Button
+            style="link"
+            color="secondary"
+            disabled={loading || refreshing}
+            onClick={() => loadRecords().then(refreshOpenOffers)}
+          >
+            {refreshing ? 'Checking open offers...' : 'Refresh'}
+          </Button>
+        </div>
+        <hr className="mt-6" />
+        {error ? (
+          <p className="text-red-600 my-10 font-semibold">{error}</p>
+        ) : loading ? (
+          <div className="flex justify-center">
+            <div className="animate-spin rounded-full h-16 w-16 border-b-2 border-gray-900 my-10"></div>
+          </div>
+        ) : records.length === 0 ? (
+          <p className="my-10 text-gray-500">No credential offers created yet.</p>
+        ) : (
+          <div className="flex flex-col divide-y divide-gray-100 text-left">
+            {records.map((record) => (
+              <div key={record.id} className="py-4 flex flex-col sm:flex-row justify-between gap-3">
+                <div className="min-w-0">
+                  {record.credentials.map((credential, index) => (
+                    <p key={index} className="font-semibold text-gray-900">
+                      {credential.title ?? credential.id}
+                      {credential.format && (
+                        <span className="ml-2 text-sm font-normal text-gray-500">{credential.format}</span>
+                      )}
+                    </p>
+                  ))}
+                  <p className="text-sm text-gray-500">
+                    Offered {formatTime(record.createdAt)}
+                    {record.authenticationMethod ? `, ${record.authenticationMethod}` : ''}
+                    {record.txCode ? ', with PIN' : ''}
+                    {record.statusList ? ', revocable' : ''}
+                    {record.requireApproval ? ', requires approval' : ''}
+                  </p>
+                  {record.sessionId && (
+                    <p className="text-xs text-gray-500 break-all">Session {record.sessionId}</p>
+                  )}
+                </div>
+                <div className="sm:text-right shrink-0 text-sm">
+                  <p className={`font-semibold ${STATUS_COLORS[record.status]}`}>{record.status}</p>
+                  {record.statusReason && <p className="text-gray-500">{record.statusReason}</p>}
+                  {record.authorizedAt && <p className="text-gray-500">Authorized {formatTime(record.authorizedAt)}</p>}
+                  {record.tokenIssuedAt && <p className="text-gray-500">Token {formatTime(record.tokenIssuedAt)}</p>}
+                  {record.redeemedAt && <p className="text-gray-500">Redeemed {formatTime(record.redeemedAt)}</p>}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+        <div className="flex flex-col items-center mt-12">
+          <div className="flex flex-row gap-2 items-center content-center text-sm text-center text-gray-500">
+            <p className="">Secured by walt.id</p>
+            <WaltIcon height={15} width={15} type="gray" />
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
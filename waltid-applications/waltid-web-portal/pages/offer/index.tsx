@@ -9,6 +9,11 @@ import {sendToWebWallet} from "@/utils/sendToWebWallet";
 import {getOfferUrl} from "@/utils/getOfferUrl";
 import nextConfig from "@/next.config";
 import BackButton from "@/components/walt/button/BackButton";
+import {TxCodeSettings} from "@/types/credentials";
+import IssuanceSessionStatus from "@/components/walt/issuance/IssuanceSessionStatus";
+import {getIssuanceSessionIdFromOffer, IssuanceSessionInfo} from "@/utils/checkIssuanceSession";
+import {updateIssuanceRecord} from "@/utils/issuanceHistory";
+import {IssuanceRecord} from "@/types/issuanceHistory";
 
 const BUTTON_COPY_TEXT_DEFAULT = 'Copy offer URL';
 const BUTTON_COPY_TEXT_COPIED = 'Copied';
@@ -21,11 +26,27 @@ export default function Offer() {
   const [offerURL, setOfferURL] = useState('');
   const [loading, setLoading] = useState(true);
   const [copyText, setCopyText] = useState(BUTTON_COPY_TEXT_DEFAULT);
+  const [txCode, setTxCode] = useState<TxCodeSettings | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [issuanceRecord, setIssuanceRecord] = useState<IssuanceRecord | null>(null);
+
+  const issuerUrl = env.NEXT_PUBLIC_ISSUER
+    ? env.NEXT_PUBLIC_ISSUER
+    : nextConfig.publicRuntimeConfig!.NEXT_PUBLIC_ISSUER;
+  const issuanceSessionId = offerURL ? getIssuanceSessionIdFromOffer(offerURL) : null;
 
   function handleCancel() {
     router.push('/');
   }
 
+  // Keep the issuance history in step with the polled session, the record id is the session id
+  async function handleSessionUpdate(session: IssuanceSessionInfo) {
+    const record = await updateIssuanceRecord(session.id, session);
+    if (record) {
+      setIssuanceRecord(record);
+    }
+  }
+
   useEffect(() => {
     const getOfferURL = async () => {
       let credentials;
@@ -43,21 +64,34 @@ export default function Offer() {
           return false;
         });
       }
+      let txCodeSettings: TxCodeSettings | undefined;
+      if (localStorage.getItem('txCode')) {
+        txCodeSettings = JSON.parse(localStorage.getItem('txCode')!);
+        localStorage.removeItem('txCode');
+        setTxCode(txCodeSettings!);
+      }
       if (credentials) {
         const response = await getOfferUrl(
           credentials,
           env.NEXT_PUBLIC_VC_REPO
             ? env.NEXT_PUBLIC_VC_REPO
             : nextConfig.publicRuntimeConfig!.NEXT_PUBLIC_VC_REPO,
-          env.NEXT_PUBLIC_ISSUER
-            ? env.NEXT_PUBLIC_ISSUER
-            : nextConfig.publicRuntimeConfig!.NEXT_PUBLIC_ISSUER,
+          issuerUrl,
           router.query.authenticationMethod as string,
           router.query.vpRequestValue as string,
           router.query.vpProfile as string,
-          router.query.useServerKeys === 'true'
-        );
-        setOfferURL(response.data);
+          router.query.useServerKeys === 'true',
+          txCodeSettings,
+          router.query.statusList === 'true',
+          router.query.approval === 'true'
+        ).catch((e) => {
+          console.error('Error creating credential offer:', e);
+          setError(e?.response?.data?.message ?? (e as Error).message);
+          return null;
+        });
+        if (response) {
+          setOfferURL(response.data);
+        }
         setLoading(false);
       }
     };
@@ -108,8 +142,10 @@ export default function Offer() {
         <h1 className="text-xl sm:text-2xl lg:text-3xl text-gray-900 text-center font-bold mt-5">
           Claim Your Credential
         </h1>
-        <div className="flex justify-center">
-          {loading ? (
+        <div className="flex flex-col sm:flex-row justify-center items-center sm:gap-8">
+          {error ? (
+            <p className="text-red-600 my-10 font-semibold">{error}</p>
+          ) : loading ? (
             <div className="animate-spin rounded-full h-32 w-32 border-b-2 border-gray-900 my-10"></div>
           ) : (
             <QRCode
@@ -118,9 +154,20 @@ export default function Offer() {
               viewBox={'0 0 256 256'}
             />
           )}
+          {txCode && !loading && !error && (
+            <div className="mb-6 sm:mb-0 text-center">
+              <p className="text-sm text-gray-500">User Pin</p>
+              <p className="text-3xl font-mono font-bold tracking-widest text-gray-900">
+                {txCode.pin.trim()}
+              </p>
+              {txCode.description && (
+                <p className="text-xs text-gray-500 mt-1 max-w-[180px]">{txCode.description}</p>
+              )}
+            </div>
+          )}
         </div>
         {/* Same-device button for EUDI wallet */}
-        {!loading && (
+        {!loading && !error && (
           <div className="mb-4">
             <Button onClick={openInEudiWallet} style="button" className="w-full bg-blue-600 hover:bg-blue-700">
               Open in EUDI Wallet
@@ -135,6 +182,33 @@ export default function Offer() {
             Open Web Wallet
           </Button>
         </div>
+        {issuanceSessionId && !loading && !error && (
+          <div className="flex justify-center mt-8">
+            <IssuanceSessionStatus
+              issuerUrl={issuerUrl}
+              sessionId={issuanceSessionId}
+              onUpdate={handleSessionUpdate}
+            />
+          </div>
+        )}
+        {router.query.approval === 'true' && !loading && !error && !issuanceRecord?.redeemedAt && (
+          <div className="mt-4 text-sm text-gray-500">
+            <p>The wallet receives the credential once it is approved.</p>
+            <Button onClick={() => router.push('/approvals')} style="link" color="secondary">
+              Approval queue
+            </Button>
+          </div>
+        )}
+        {issuanceRecord?.redeemedAt && (
+          <p className="mt-4 text-sm font-semibold text-green-700">
+            Redeemed by the wallet at {new Date(issuanceRecord.redeemedAt).toLocaleString()}
+          </p>
+        )}
+        <div className="flex justify-center mt-4">
+          <Button onClick={() => router.push('/issuance-history')} style="link" color="secondary">
+            Issuance history
+          </Button>
+        </div>
         <div className="flex flex-col items-center mt-12">
           <div className="flex flex-row gap-2 items-center content-center text-sm text-center text-gray-500">
             <p className="">Secured by walt.id</p>
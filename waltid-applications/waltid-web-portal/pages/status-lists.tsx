@@ -0,0 +1,130 @@
+import React, {useEffect, useState} from "react";
+import {useRouter} from "next/router";
+import axios from "axios";
+import Icon from "@/components/walt/logo/Icon";
+import WaltIcon from "@/components/walt/logo/WaltIcon";
+import Button from "@/components/walt/button/Button";
+import BackButton from "@/components/walt/button/BackButton";
+import {CredentialStatus, StatusList, StatusListEntry} from "@/types/statusLists";
+
+const STATUS_LISTS_API = '/api/status-lists';
+
+const STATUS_ACTIONS: Record<CredentialStatus, string> = {
+  VALID: 'Reinstate',
+  REVOKED: 'Revoke',
+  SUSPENDED: 'Suspend',
+};
+
+const STATUS_COLORS: Record<CredentialStatus, string> = {
+  VALID: 'text-green-700',
+  REVOKED: 'text-red-600',
+  SUSPENDED: 'text-yellow-600',
+};
+
+export default function StatusLists() {
+  const router = useRouter();
+
+  const [statusLists, setStatusLists] = useState<StatusList[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  async function loadStatusLists() {
+    try {
+      setStatusLists((await axios.get(STATUS_LISTS_API)).data);
+      setError(null);
+    } catch (e) {
+      console.error('Error loading status lists:', e);
+      setError('Failed to load status lists');
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  useEffect(() => {
+    loadStatusLists();
+  }, []);
+
+  async function handleSetStatus(list: StatusList, entry: StatusListEntry, status: CredentialStatus) {
+    try {
+      await axios.put(`${STATUS_LISTS_API}/${list.id}/${entry.index}`, { status });
+      await loadStatusLists();
+    } catch (e) {
+      console.error('Error updating status list entry:', e);
+      alert('Failed to update the credential status');
+    }
+  }
+
+  return (
+    <div className="flex flex-col justify-center items-center bg-gray-50">
+      <div
+        className="my-5 flex flex-row justify-center cursor-pointer"
+        onClick={() => router.push('/')}
+      >
+        <Icon height={35} width={35} />
+      </div>
+      <div className="relative w-11/12 md:w-7/12 text-center shadow-2xl rounded-lg pt-8 pb-8 px-10 bg-white max-w-[960px]">
+        <BackButton />
+        <h1 className="text-xl sm:text-2xl lg:text-3xl text-gray-900 text-center font-bold mt-5">
+          Status Lists
+        </h1>
+        <p className="mt-3 text-gray-600">
+          Revoke, suspend and reinstate credentials issued with a status list entry
+        </p>
+        <hr className="mt-8" />
+        {error ? (
+          <p className="text-red-600 my-10 font-semibold">{error}</p>
+        ) : loading ? (
+          <div className="flex justify-center">
+            <div className="animate-spin rounded-full h-16 w-16 border-b-2 border-gray-900 my-10"></div>
+          </div>
+        ) : (
+          statusLists.map((list) => (
+            <div key={list.id} className="mt-6 text-left">
+              <h3 className="text-gray-500 font-semibold">{list.title}</h3>
+              <p className="text-xs text-gray-500 break-all">{list.uri}</p>
+              {list.entries.length === 0 ? (
+                <p className="my-4 text-sm text-gray-500">No credentials issued with this list yet.</p>
+              ) : (
+                <div className="flex flex-col divide-y divide-gray-100 mt-2">
+                  {[...list.entries].reverse().map((entry) => (
+                    <div key={entry.index} className="py-3 flex flex-col sm:flex-row justify-between gap-3">
+                      <div>
+                        <p className="font-semibold text-gray-900">
+                          {entry.credentialTitle ?? entry.credentialId}
+                          <span className="ml-2 text-sm font-normal text-gray-500">#{entry.index}</span>
+                        </p>
+                        <p className="text-sm text-gray-500">
+                          {entry.format ? `${entry.format}, ` : ''}issued {new Date(entry.createdAt).toLocaleString()}
+                        </p>
+                        <p className={`text-sm font-semibold ${STATUS_COLORS[entry.status]}`}>{entry.status}</p>
+                      </div>
+                      <div className="flex flex-row flex-wrap gap-2 items-center">
+                        {list.statuses.filter((status) => status !== entry.status).map((status) => (
+                          <Button
+                            key={status}
+                            style="link"
+                            color={status === 'VALID' ? 'primary' : 'secondary'}
+                            onClick={() => handleSetStatus(list, entry, status)}
+                          >
+                            {STATUS_ACTIONS[status]}
+                          </Button>
+                        ))}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+              <hr className="mt-4" />
+            </div>
+          ))
+        )}
+        <div className="flex flex-col items-center mt-12">
+          <div className="flex flex-row gap-2 items-center content-center text-sm text-center text-gray-500">
+            <p className="">Secured by walt.id</p>
+            <WaltIcon height={15} width={15} type="gray" />
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
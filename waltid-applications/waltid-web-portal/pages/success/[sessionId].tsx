@@ -1,11 +1,17 @@
 import WaltIcon from "@/components/walt/logo/WaltIcon";
-import {CheckCircleIcon} from "@heroicons/react/24/outline";
+import {CheckCircleIcon, XCircleIcon} from "@heroicons/react/24/outline";
 import {useContext, useEffect, useState} from "react";
 import {useRouter} from "next/router";
 import axios from "axios";
 import nextConfig from "@/next.config";
 import Modal from "@/components/walt/modal/BaseModal";
 import {EnvContext} from "@/pages/_app";
+import {confirmTransactionData, describeTransactionData, TransactionDataConfirmation} from "@/utils/transactionData";
+import {fetchVerificationSession, getPresentedCredentials, PresentedCredentialView} from "@/utils/verificationSession";
+import PresentedCredential from "@/components/walt/verification/PresentedCredential";
+import SdJwtDisclosures from "@/components/walt/verification/SdJwtDisclosures";
+import {base64UrlDecodeJson} from "@/utils/base64";
+import {decodeSdJwt, getSdJwtSubjectClaims, SdJwtPresentation} from "@/utils/sdJwt";
 
 export default function Success() {
   const env = useContext(EnvContext);
@@ -27,13 +33,33 @@ export default function Success() {
       credentialSubject: {
         [key: string]: string;
       };
+      // Disclosures of SD-JWT credentials
+      sdJwt?: SdJwtPresentation;
     }>
   >([]);
   const [index, setIndex] = useState<number>(0);
   const [modal, setModal] = useState<boolean>(false);
+  const [transactionData, setTransactionData] = useState<TransactionDataConfirmation[]>([]);
+  // Credentials of a Verifier API2 session, null for sessions of the Verifier API
+  const [presented, setPresented] = useState<PresentedCredentialView[] | null>(null);
 
   function parseJwt(token: string) {
-    return JSON.parse(Buffer.from(token.split('.')[1], 'base64').toString());
+    return base64UrlDecodeJson(token.split('.')[1]);
+  }
+
+  // JWT credential, or SD-JWT credential rebuilt from the presented disclosures
+  async function parseCredential(vc: string) {
+    if (!vc.includes('~')) {
+      const parsed = parseJwt(vc);
+      return parsed.vc ? parsed.vc : parsed;
+    }
+    const sdJwt = await decodeSdJwt(vc);
+    const credential = sdJwt.claims.vc ?? sdJwt.claims;
+    return {
+      ...credential,
+      credentialSubject: credential.credentialSubject ?? getSdJwtSubjectClaims(sdJwt.claims),
+      sdJwt,
+    };
   }
 
   const fetchVctName = async (vctUrl: string) => {
@@ -47,13 +73,12 @@ export default function Success() {
     }
   };
 
-  useEffect(() => {
-    if (!router.isReady) return;
+  function loadLegacySession() {
     axios
       .get(
         `${env.NEXT_PUBLIC_VERIFIER ? env.NEXT_PUBLIC_VERIFIER : nextConfig.publicRuntimeConfig!.NEXT_PUBLIC_VERIFIER}/openid4vc/session/${router.query.sessionId}`
       )
-      .then((response) => {
+      .then(async (response) => {
         let parsedToken = parseJwt(response.data.tokenResponse.vp_token);
         let containsVP = !!parsedToken.vp?.verifiableCredential;
         let vcs = containsVP
@@ -62,7 +87,7 @@ export default function Success() {
 
         setCredentials(
           Array.isArray(vcs)
-            ? vcs.map((vc: string) => {
+            ? await Promise.all(vcs.map((vc: string) => {
               if (typeof vc !== 'string') {
                 console.error(
                   'Invalid VC format: expected a string but got',
@@ -70,34 +95,8 @@ export default function Success() {
                 );
                 return vc;
               }
-              let split = vc.split('~');
-              let parsed = parseJwt(split[0]);
-
-              if (split.length === 1) return parsed.vc ? parsed.vc : parsed;
-              else {
-                let credentialWithSdJWTAttributes = { ...parsed };
-                split.slice(1).forEach((item) => {
-                  // If it is key binding jwt, skip
-                  if (item.split('.').length === 3) return;
-
-                  let parsedItem = JSON.parse(
-                    Buffer.from(item, 'base64').toString()
-                  );
-                  credentialWithSdJWTAttributes.credentialSubject = {
-                    [parsedItem[1]]: parsedItem[2],
-                    ...credentialWithSdJWTAttributes.credentialSubject,
-                  };
-                  // credentialWithSdJWTAttributes.credentialSubject._sd.map((sdItem: string) => {
-                  //   if (sdItem === parsedItem[0]) {
-                  //     return `${parsedItem[1]}: ${parsedItem[2]}`
-                  //   }
-                  //   return sdItem;
-                  // })
-                });
-                credentialWithSdJWTAttributes.type = parsed.vc?.type
-                return credentialWithSdJWTAttributes;
-              }
-            })
+              return parseCredential(vc);
+            }))
             : []
         );
 
@@ -127,16 +126,42 @@ export default function Success() {
           fetchVctName(vctResolutionUrl).then((name) => setVctName(name));
         }
       });
+  }
+
+  // EUDI verifications run through Verifier API2, other sessions are looked up at the Verifier API
+  useEffect(() => {
+    if (!router.isReady) return;
+    const sessionId = router.query.sessionId as string;
+    const verifier2Url = env.NEXT_PUBLIC_VERIFIER2 || nextConfig.publicRuntimeConfig?.NEXT_PUBLIC_VERIFIER2;
+    if (!verifier2Url) {
+      loadLegacySession();
+      return;
+    }
+    fetchVerificationSession(verifier2Url, sessionId, { responseCode: router.query.response_code?.toString() }).then(
+      (session) => {
+        setPresented(getPresentedCredentials(session));
+        // Transaction data is only requested through Verifier API2 sessions
+        confirmTransactionData(
+          session.authorizationRequest?.transaction_data ?? [],
+          session.presentedRawData?.vpToken ?? {}
+        )
+          .then(setTransactionData)
+          .catch(() => setTransactionData([]));
+      },
+      () => loadLegacySession()
+    );
   }, [router.isReady, env]);
 
   return (
-    <div className="h-screen flex justify-center items-center bg-gray-50">
+    <div className="min-h-screen flex justify-center items-center bg-gray-50">
       <Modal show={modal} securedByWalt={false} onClose={() => setModal(false)}>
         <div className="flex flex-col items-center">
           <div className="w-full">
             <textarea
               value={JSON.stringify(
-                credentials[index]?.credentialSubject ?? credentials[index],
+                presented
+                  ? presented[index]?.credential.credentialData
+                  : credentials[index]?.credentialSubject ?? credentials[index],
                 null,
                 4
               )}
@@ -172,90 +197,108 @@ export default function Success() {
               </svg>
             </button>
           )}
-          <div className="group h-[225px] w-[400px] [perspective:1000px]">
-            <div className="relative h-full w-full rounded-xl shadow-xl transition-all duration-500 [transform-style:preserve-3d] group-hover:[transform:rotateY(180deg)]">
-              <div className="absolute inset-0">
-                <div className="flex h-full w-full flex-col drop-shadow-sm rounded-xl py-7 px-8 text-gray-100 cursor-pointer overflow-hidden bg-gradient-to-r from-green-700 to-green-900 z-[-2]">
-                  <div className="flex flex-row">
-                    <WaltIcon height={35} width={35} outline type="white" />
-                  </div>
-                  <div className="mb-8 mt-12">
-                    <h6 className={'text-2xl font-bold overflow-hidden text-ellipsis whitespace-nowrap'}>
-                      {credentials[index]?.type
-                        ? credentials[index]?.type[
-                          credentials[index].type.length - 1
-                        ].replace(/([a-z0-9])([A-Z])/g, '$1 $2')
-                        : credentials[index]?.vct
-                          ? vctName
-                          : credentials[index]?.vct}
-                    </h6>
-                  </div>
-                </div>
-              </div>
-              <div className="absolute inset-0 h-full w-full rounded-xl bg-white p-5 text-slate-200 [transform:rotateY(180deg)] [backface-visibility:hidden] overflow-y-scroll">
-                {credentials[index] && credentials[index].credentialSubject &&
-                  Object.keys(credentials[index].credentialSubject)
-                    .map((key) => {
-                      if (
-                        typeof credentials[index].credentialSubject[key] ===
-                        'string' &&
-                        credentials[index].credentialSubject[key].length > 0 &&
-                        credentials[index].credentialSubject[key].length < 20
-                      ) {
-                        return {
-                          key: (
-                            key.charAt(0).toUpperCase() + key.slice(1)
-                          ).replace(/([a-z0-9])([A-Z])/g, '$1 $2'),
-                          value: credentials[index].credentialSubject[key],
-                        };
-                      }
-                    })
-                    .filter((item) => item !== undefined).length > 0 && (
-                    <>
-                      {Object.keys(credentials[index].credentialSubject)
-                        .map((key) => {
-                          if (
-                            typeof credentials[index].credentialSubject[key] ===
-                            'string' &&
-                            credentials[index].credentialSubject[key].length >
-                            0 &&
-                            credentials[index].credentialSubject[key].length <
-                            20
-                          ) {
-                            return {
-                              key: (
-                                key.charAt(0).toUpperCase() + key.slice(1)
-                              ).replace(/([a-z0-9])([A-Z])/g, '$1 $2'),
-                              value: credentials[index].credentialSubject[key],
-                            };
-                          }
-                        })
-                        .map((item, index) => {
-                          return (
-                            <div key={index} className="flex flex-row py-1">
-                              <div className="text-gray-600 text-left w-1/2 capitalize leading-[1.1]">
-                                {item?.key}
-                              </div>
-                              <div className="text-slate-800 text-left w-1/2 text-[#313233]">
-                                {item?.value}
-                              </div>
-                            </div>
-                          );
-                        })}
-                    </>
-                  )}
-                <div className="flex flex-row py-1">
+          {presented ? (
+            <div className="w-[400px] max-w-full">
+              {presented[index] ? (
+                <>
+                  <PresentedCredential credential={presented[index]} />
                   <button
                     onClick={() => setModal(true)}
-                    className="text-gray-500 text-center w-full capitalize leading-[1.1] underline"
+                    className="text-gray-500 text-center w-full capitalize leading-[1.1] underline mt-4"
                   >
                     View Credential In JSON
                   </button>
+                </>
+              ) : (
+                <div className="text-gray-500">No credentials were presented</div>
+              )}
+            </div>
+          ) : (
+            <div className="group h-[225px] w-[400px] [perspective:1000px]">
+              <div className="relative h-full w-full rounded-xl shadow-xl transition-all duration-500 [transform-style:preserve-3d] group-hover:[transform:rotateY(180deg)]">
+                <div className="absolute inset-0">
+                  <div className="flex h-full w-full flex-col drop-shadow-sm rounded-xl py-7 px-8 text-gray-100 cursor-pointer overflow-hidden bg-gradient-to-r from-green-700 to-green-900 z-[-2]">
+                    <div className="flex flex-row">
+                      <WaltIcon height={35} width={35} outline type="white" />
+                    </div>
+                    <div className="mb-8 mt-12">
+                      <h6 className={'text-2xl font-bold overflow-hidden text-ellipsis whitespace-nowrap'}>
+                        {credentials[index]?.type
+                          ? credentials[index]?.type[
+                            credentials[index].type.length - 1
+                          ].replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+                          : credentials[index]?.vct
+                            ? vctName
+                            : credentials[index]?.vct}
+                      </h6>
+                    </div>
+                  </div>
+                </div>
+                <div className="absolute inset-0 h-full w-full rounded-xl bg-white p-5 text-slate-200 [transform:rotateY(180deg)] [backface-visibility:hidden] overflow-y-scroll">
+                  {credentials[index] && credentials[index].credentialSubject &&
+                    Object.keys(credentials[index].credentialSubject)
+                      .map((key) => {
+                        if (
+                          typeof credentials[index].credentialSubject[key] ===
+                          'string' &&
+                          credentials[index].credentialSubject[key].length > 0 &&
+                          credentials[index].credentialSubject[key].length < 20
+                        ) {
+                          return {
+                            key: (
+                              key.charAt(0).toUpperCase() + key.slice(1)
+                            ).replace(/([a-z0-9])([A-Z])/g, '$1 $2'),
+                            value: credentials[index].credentialSubject[key],
+                          };
+                        }
+                      })
+                      .filter((item) => item !== undefined).length > 0 && (
+                      <>
+                        {Object.keys(credentials[index].credentialSubject)
+                          .map((key) => {
+                            if (
+                              typeof credentials[index].credentialSubject[key] ===
+                              'string' &&
+                              credentials[index].credentialSubject[key].length >
+                              0 &&
+                              credentials[index].credentialSubject[key].length <
+                              20
+                            ) {
+                              return {
+                                key: (
+                                  key.charAt(0).toUpperCase() + key.slice(1)
+                                ).replace(/([a-z0-9])([A-Z])/g, '$1 $2'),
+                                value: credentials[index].credentialSubject[key],
+                              };
+                            }
+                          })
+                          .map((item, index) => {
+                            return (
+                              <div key={index} className="flex flex-row py-1">
+                                <div className="text-gray-600 text-left w-1/2 capitalize leading-[1.1]">
+                                  {item?.key}
+                                </div>
+                                <div className="text-slate-800 text-left w-1/2 text-[#313233]">
+                                  {item?.value}
+                                </div>
+                              </div>
+                            );
+                          })}
+                      </>
+                    )}
+                  <div className="flex flex-row py-1">
+                    <button
+                      onClick={() => setModal(true)}
+                      className="text-gray-500 text-center w-full capitalize leading-[1.1] underline"
+                    >
+                      View Credential In JSON
+                    </button>
+                  </div>
                 </div>
               </div>
             </div>
-          </div>
-          {index !== credentials.length - 1 && (
+          )}
+          {index < (presented ?? credentials).length - 1 && (
             <button
               onClick={() => setIndex(index + 1)}
               className="text-gray-500 hover:text-gray-900 focus:outline-none absolute right-10"
@@ -277,40 +320,71 @@ export default function Success() {
             </button>
           )}
         </div>
-        <div className="mt-10 px-12">
-          <div className="flex flex-row items-center justify-center mb-5 text-gray-500">
-            {policyResults[index + 1]?.policyResults.length
-              ? 'The VP was verified along with:'
-              : 'The VP was not verified against any policies'}
+        {!presented && credentials[index]?.sdJwt && (
+          <div className="mt-6 px-12">
+            <SdJwtDisclosures presentation={credentials[index].sdJwt!} />
           </div>
-          <div className="xs:grid xs:grid-cols-2 items-center justify-center">
-            {policyResults[index + 1]?.policyResults
-              .map((policy) => {
-                return {
-                  name:
-                    policy.policy.charAt(0).toUpperCase() +
-                    policy.policy.slice(1) +
-                    ' Policy',
-                  is_success: policy.is_success,
-                };
-              })
-              .map((policy, index) => {
-                return (
-                  <div
-                    key={policy.name}
-                    className={`flex items-center gap-3 overflow-hidden text-ellipsis whitespace-nowrap ${index % 2 == 1 ? 'sm:justify-self-end' : ''}`}
-                  >
-                    {policy.is_success ? (
-                      <CheckCircleIcon className="h-4 text-green-600" />
-                    ) : (
-                      <CheckCircleIcon className="h-4 text-red-600" />
-                    )}
-                    <div>{policy.name}</div>
+        )}
+        {!presented && (
+          <div className="mt-10 px-12">
+            <div className="flex flex-row items-center justify-center mb-5 text-gray-500">
+              {policyResults[index + 1]?.policyResults.length
+                ? 'The VP was verified along with:'
+                : 'The VP was not verified against any policies'}
+            </div>
+            <div className="xs:grid xs:grid-cols-2 items-center justify-center">
+              {policyResults[index + 1]?.policyResults
+                .map((policy) => {
+                  return {
+                    name:
+                      policy.policy.charAt(0).toUpperCase() +
+                      policy.policy.slice(1) +
+                      ' Policy',
+                    is_success: policy.is_success,
+                  };
+                })
+                .map((policy, index) => {
+                  return (
+                    <div
+                      key={policy.name}
+                      className={`flex items-center gap-3 overflow-hidden text-ellipsis whitespace-nowrap ${index % 2 == 1 ? 'sm:justify-self-end' : ''}`}
+                    >
+                      {policy.is_success ? (
+                        <CheckCircleIcon className="h-4 text-green-600" />
+                      ) : (
+                        <CheckCircleIcon className="h-4 text-red-600" />
+                      )}
+                      <div>{policy.name}</div>
+                    </div>
+                  );
+                })}
+            </div>
+          </div>
+        )}
+        {transactionData.length > 0 && (
+          <div className="mt-10 px-12">
+            <div className="flex flex-row items-center justify-center mb-5 text-gray-500">
+              Authorised transactions:
+            </div>
+            {transactionData.map((transaction) => (
+              <div key={transaction.hash} className="flex items-start gap-3 text-left py-1">
+                {transaction.confirmedBy.length > 0 ? (
+                  <CheckCircleIcon className="h-4 mt-1 shrink-0 text-green-600" />
+                ) : (
+                  <XCircleIcon className="h-4 mt-1 shrink-0 text-red-600" />
+                )}
+                <div>
+                  <div>{describeTransactionData(transaction.item)}</div>
+                  <div className="text-xs text-gray-500 break-all">
+                    {transaction.confirmedBy.length > 0
+                      ? `Hash ${transaction.hash} confirmed by ${transaction.confirmedBy.join(', ')}`
+                      : `Hash ${transaction.hash} not returned by the wallet`}
                   </div>
-                );
-              })}
+                </div>
+              </div>
+            ))}
           </div>
-        </div>
+        )}
         <div className="flex flex-col items-center mt-12">
           <div className="flex flex-row gap-2 items-center content-center text-sm text-center text-gray-500">
             <p className="">Secured by walt.id</p>
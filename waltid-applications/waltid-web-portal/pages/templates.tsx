@@ -0,0 +1,154 @@
+import React, {useEffect, useState} from "react";
+import {useRouter} from "next/router";
+import axios from "axios";
+import Icon from "@/components/walt/logo/Icon";
+import WaltIcon from "@/components/walt/logo/WaltIcon";
+import Button from "@/components/walt/button/Button";
+import BackButton from "@/components/walt/button/BackButton";
+import {VerificationTemplate} from "@/types/verificationTemplates";
+
+const TEMPLATES_API = '/api/verification-templates';
+
+export default function Templates() {
+  const router = useRouter();
+
+  const [templates, setTemplates] = useState<VerificationTemplate[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [copiedId, setCopiedId] = useState<string | null>(null);
+
+  async function loadTemplates() {
+    try {
+      setTemplates((await axios.get(TEMPLATES_API)).data);
+      setError(null);
+    } catch (e) {
+      console.error('Error loading verification templates:', e);
+      setError('Failed to load verification templates');
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  useEffect(() => {
+    loadTemplates();
+  }, []);
+
+  function getPermalink(template: VerificationTemplate) {
+    return `${window.location.origin}/verify?template=${template.id}`;
+  }
+
+  function handleCopy(template: VerificationTemplate) {
+    navigator.clipboard.writeText(getPermalink(template)).then(() => {
+      setCopiedId(template.id);
+      setTimeout(() => setCopiedId(null), 3000);
+    });
+  }
+
+  function handleExport(template: VerificationTemplate) {
+    const blob = new Blob([JSON.stringify(template, null, 2)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${template.id}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  }
+
+  async function handleDelete(template: VerificationTemplate) {
+    if (!confirm(`Delete template "${template.name}"?`)) return;
+    try {
+      await axios.delete(`${TEMPLATES_API}/${template.id}`);
+      await loadTemplates();
+    } catch (e) {
+      console.error('Error deleting verification template:', e);
+      alert('Failed to delete the verification template');
+    }
+  }
+
+  async function handleImport(event: React.ChangeEvent<HTMLInputElement>) {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    try {
+      await axios.post(TEMPLATES_API, JSON.parse(await file.text()));
+      await loadTemplates();
+    } catch (e: any) {
+      console.error('Error importing verification template:', e);
+      const details = e?.response?.data?.details as string[] | undefined;
+      alert(`Failed to import ${file.name}${details ? `:\n${details.join('\n')}` : ''}`);
+    }
+  }
+
+  return (
+    <div className="flex flex-col justify-center items-center bg-gray-50">
+      <div
+        className="my-5 flex flex-row justify-center cursor-pointer"
+        onClick={() => router.push('/')}
+      >
+        <Icon height={35} width={35} />
+      </div>
+      <div className="relative w-11/12 md:w-7/12 text-center shadow-2xl rounded-lg pt-8 pb-8 px-10 bg-white max-w-[960px]">
+        <BackButton />
+        <h1 className="text-xl sm:text-2xl lg:text-3xl text-gray-900 text-center font-bold mt-5">
+          Verification Templates
+        </h1>
+        <p className="mt-3 text-gray-600">
+          Launch, share, export and import saved verification requests
+        </p>
+        <hr className="mt-8" />
+        {error ? (
+          <p className="text-red-600 my-10 font-semibold">{error}</p>
+        ) : loading ? (
+          <div className="flex justify-center">
+            <div className="animate-spin rounded-full h-16 w-16 border-b-2 border-gray-900 my-10"></div>
+          </div>
+        ) : templates.length === 0 ? (
+          <p className="my-10 text-gray-500">No templates saved yet.</p>
+        ) : (
+          <div className="flex flex-col divide-y divide-gray-100 mt-4">
+            {templates.map((template) => (
+              <div key={template.id} className="py-4 flex flex-col sm:flex-row justify-between gap-3 text-left">
+                <div>
+                  <p className="font-semibold text-gray-900">{template.name}</p>
+                  <p className="text-sm text-gray-500">
+                    {template.credentials.map((credential) => `${credential.id} (${credential.format})`).join(', ')}
+                  </p>
+                  {template.description && (
+                    <p className="text-sm text-gray-500">{template.description}</p>
+                  )}
+                </div>
+                <div className="flex flex-row flex-wrap gap-2 items-center">
+                  <Button style="link" onClick={() => handleCopy(template)}>
+                    {copiedId === template.id ? 'Copied' : 'Copy link'}
+                  </Button>
+                  <Button style="link" onClick={() => handleExport(template)}>
+                    Export
+                  </Button>
+                  <Button style="link" color="secondary" onClick={() => handleDelete(template)}>
+                    Delete
+                  </Button>
+                  <Button onClick={() => router.push(`/verify?template=${template.id}`)}>
+                    Launch
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+        <hr className="mt-4" />
+        <div className="flex flex-row justify-center mt-8">
+          <label className="cursor-pointer text-sm font-semibold text-primary-400 hover:text-primary-600">
+            Import template
+            <input type="file" accept="application/json,.json" className="sr-only" onChange={handleImport} />
+          </label>
+        </div>
+        <div className="flex flex-col items-center mt-12">
+          <div className="flex flex-row gap-2 items-center content-center text-sm text-center text-gray-500">
+            <p className="">Secured by walt.id</p>
+            <WaltIcon height={15} width={15} type="gray" />
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,103 @@
+import {useContext, useEffect, useState} from "react";
+import {useRouter} from "next/router";
+import WaltIcon from "@/components/walt/logo/WaltIcon";
+import Icon from "@/components/walt/logo/Icon";
+import {EnvContext} from "@/pages/_app";
+import nextConfig from "@/next.config";
+import {VERIFICATION_STATUS_LABELS, VerificationStatus, watchVerificationStatus} from "@/utils/verificationStatus";
+import {takePendingVerification} from "@/utils/sameDeviceVerification";
+
+// Landing page of the same-device flow - the wallet redirects here after presenting
+export default function VerificationCallback() {
+  const env = useContext(EnvContext);
+  const router = useRouter();
+
+  const [error, setError] = useState<string | null>(null);
+  const [status, setStatus] = useState<VerificationStatus | null>(null);
+
+  useEffect(() => {
+    if (!router.isReady) return;
+
+    const pendingSessionId = takePendingVerification();
+    const sessionId = router.query.session?.toString() || pendingSessionId;
+    const responseCode = router.query.response_code?.toString();
+    // The result pages need the response code to read the session as well
+    const responseCodeQuery = responseCode ? { response_code: responseCode } : {};
+
+    if (!sessionId) {
+      setError('The verification session could not be resumed');
+      return;
+    }
+    if (router.query.error) {
+      router.replace({
+        pathname: `/failure/${sessionId}`,
+        query: { error: router.query.error, error_description: router.query.error_description, ...responseCodeQuery },
+      });
+      return;
+    }
+
+    const verifier2Url = env.NEXT_PUBLIC_VERIFIER2 || nextConfig.publicRuntimeConfig?.NEXT_PUBLIC_VERIFIER2;
+    if (!verifier2Url) {
+      setError('EUDI verification requires Verifier API2 configuration (NEXT_PUBLIC_VERIFIER2)');
+      return;
+    }
+
+    const controller = new AbortController();
+    watchVerificationStatus({
+      verifierUrl: verifier2Url,
+      sessionId,
+      api2: true,
+      responseCode,
+      onStatus: setStatus,
+      signal: controller.signal,
+    }).then(
+      (result) => {
+        if (result) {
+          router.replace({
+            pathname: result === 'success' ? `/success/${sessionId}` : `/failure/${sessionId}`,
+            query: responseCodeQuery,
+          });
+        }
+      },
+      (e) => setError((e as Error).message)
+    );
+    return () => controller.abort();
+  }, [router.isReady]);
+
+  return (
+    <div className="flex flex-col justify-center items-center bg-gray-50">
+      <div
+        className="my-5 flex flex-row justify-center cursor-pointer"
+        onClick={() => router.push('/')}
+      >
+        <Icon height={35} width={35} />
+      </div>
+      <div className="relative w-10/12 sm:w-7/12 lg:w-5/12 text-center shadow-2xl rounded-lg pt-8 pb-8 px-10 bg-white">
+        <h1 className="text-xl sm:text-2xl lg:text-3xl text-gray-900 text-center font-bold mt-5">
+          Completing Verification
+        </h1>
+        <div className="flex justify-center">
+          {error ? (
+            <div className="text-red-600 my-10 text-center">
+              <p className="font-semibold">{error}</p>
+              <p className="text-sm text-gray-500 mt-2">
+                Please start the verification again.
+              </p>
+            </div>
+          ) : (
+            <div className="flex flex-col items-center my-10">
+              <div className="animate-spin rounded-full h-32 w-32 border-b-2 border-gray-900"></div>
+              {status && <p className="text-sm text-gray-500 mt-6">{VERIFICATION_STATUS_LABELS[status]}</p>}
+            </div>
+          )}
+        </div>
+        <div className="flex flex-col items-center mt-12">
+          <div className="flex flex-row gap-2 items-center content-center text-sm text-center text-gray-500">
+            <p className="">Secured by walt.id</p>
+            <WaltIcon height={15} width={15} type="gray" />
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -10,12 +10,24 @@ import {sendToWebWallet} from "@/utils/sendToWebWallet";
 import {isMobileDevice} from "@/utils/deviceDetection";
 import nextConfig from "@/next.config";
 import BackButton from "@/components/walt/button/BackButton";
-import {CredentialFormats, mapFormat, isEudiFormat, buildDcqlQuery, buildVerificationSessionRequest, VerificationSigningConfig} from "@/types/credentials";
-import {checkVerificationResult, getStateFromUrl} from "@/utils/checkVerificationResult";
+import {AvailableCredential, ClientIdScheme, CredentialMatchMode, DcqlQuery, getAvailableClientIdSchemes, getCredentialFormats, isEudiFormat, buildCredentialSets, buildDcqlQuery, buildSameDeviceSessionRequest, buildSigningConfig, buildStatusVcPolicies, buildVerificationSessionRequest, TransactionDataItem, VerificationRedirects, VerificationSigningConfig, VerificationUrlConfig} from "@/types/credentials";
+import {getTemplateCredentials, VerificationTemplate} from "@/types/verificationTemplates";
+import {getStateFromUrl} from "@/utils/checkVerificationResult";
+import {VerificationStatus, watchVerificationStatus} from "@/utils/verificationStatus";
+import VerificationProgress from "@/components/walt/verification/VerificationProgress";
+import {storeVerificationRequest, VerificationRequest} from "@/utils/verificationFailure";
+import {buildSameDeviceRedirects, createVerificationSessionId, storePendingVerification} from "@/utils/sameDeviceVerification";
+import {getVerifierClientSettings} from "@/utils/verifierClientSettings";
 
 const BUTTON_COPY_TEXT_DEFAULT = 'Copy offer URL';
 const BUTTON_COPY_TEXT_COPIED = 'Copied';
 
+interface WatchedSession {
+  verifierUrl: string;
+  sessionId: string;
+  api2: boolean;
+}
+
 export default function Verification() {
   const env = useContext(EnvContext);
   const [AvailableCredentials] = useContext(CredentialsContext);
@@ -27,6 +39,9 @@ export default function Verification() {
   const [error, setError] = useState<string | null>(null);
   const [usedApi2, setUsedApi2] = useState(false);
   const [isMobile, setIsMobile] = useState(false);
+  const [watchedSession, setWatchedSession] = useState<WatchedSession | null>(null);
+  const [status, setStatus] = useState<VerificationStatus | null>(null);
+  const [statusError, setStatusError] = useState<string | null>(null);
 
   // Detect mobile device on mount (client-side only)
   useEffect(() => {
@@ -45,20 +60,80 @@ export default function Verification() {
       try {
         let vps = router.query.vps?.toString().split(',') ?? [];
         let ids = router.query.ids?.toString().split(',') ?? [];
-        let format = router.query.format?.toString() ?? CredentialFormats[0];
-        let credentials = AvailableCredentials.filter((cred) => {
-          for (const id of ids) {
-            if (id.toString() == cred.id.toString()) {
-              return true;
+        let formatLabels = router.query.formats?.toString().split(',') ?? [];
+        // Older links carry a single format for all credentials
+        let sharedFormat = router.query.format?.toString();
+        let matchMode = (router.query.match?.toString() ?? 'all') as CredentialMatchMode;
+        let optionalIds = router.query.optional?.toString().split(',') ?? [];
+        let clientIdSchemeParam = router.query.client_id_scheme?.toString();
+        let credentials: AvailableCredential[];
+        let transactionData: TransactionDataItem[] = [];
+        let templateDcqlQuery: DcqlQuery | undefined;
+        // Kept with the session, so that a retry sends the same request
+        let verificationRequest: VerificationRequest = { query: router.query };
+        let customRedirects: VerificationRedirects | undefined =
+          router.query.success_redirect_uri && router.query.error_redirect_uri
+            ? {
+              successRedirectUri: router.query.success_redirect_uri.toString(),
+              errorRedirectUri: router.query.error_redirect_uri.toString(),
             }
+            : undefined;
+        if (localStorage.getItem('transactionData')) {
+          transactionData = JSON.parse(localStorage.getItem('transactionData')!);
+          localStorage.removeItem('transactionData');
+          verificationRequest = { ...verificationRequest, transactionData };
+        }
+        if (router.query.template) {
+          // Shared permalink: the saved template replaces the other parameters
+          let template: VerificationTemplate;
+          try {
+            template = (await axios.get(`/api/verification-templates/${encodeURIComponent(router.query.template.toString())}`)).data;
+          } catch (e) {
+            setError(`Verification template "${router.query.template}" could not be loaded`);
+            setLoading(false);
+            return;
           }
-          return false;
+          credentials = getTemplateCredentials(template, AvailableCredentials);
+          ids = credentials.map((credential) => credential.id);
+          formatLabels = template.credentials.map((credential) => credential.format);
+          vps = template.policies ?? [];
+          matchMode = template.matchMode ?? 'all';
+          optionalIds = template.optionalIds ?? [];
+          clientIdSchemeParam = template.clientIdScheme;
+          transactionData = template.transactionData ?? [];
+          templateDcqlQuery = template.dcqlQuery;
+          customRedirects = template.redirects;
+        } else if (localStorage.getItem('verification')) {
+          credentials = JSON.parse(localStorage.getItem('verification')!);
+          localStorage.removeItem('verification');
+          verificationRequest = { ...verificationRequest, credentials };
+        } else {
+          credentials = AvailableCredentials.filter((cred) => {
+            for (const id of ids) {
+              if (id.toString() == cred.id.toString()) {
+                return true;
+              }
+            }
+            return false;
+          });
+        }
+        credentials = credentials.map((credential) => {
+          const index = ids.indexOf(credential.id);
+          const selectedFormat = formatLabels[index] || sharedFormat || credential.selectedFormat;
+          return selectedFormat ? { ...credential, selectedFormat } : credential;
         });
 
-        const credFormat = mapFormat(format);
+        const credFormats = getCredentialFormats(credentials);
+        const eudiFormatCount = Object.values(credFormats).filter(isEudiFormat).length;
+
+        if (eudiFormatCount > 0 && eudiFormatCount < credentials.length) {
+          setError('EUDI formats (DC+SD-JWT, mDoc) cannot be combined with other formats in one verification');
+          setLoading(false);
+          return;
+        }
 
         // Route EUDI formats (dc+sd-jwt, mso_mdoc) to Verifier API2
-        if (isEudiFormat(credFormat)) {
+        if (eudiFormatCount > 0) {
           const verifier2Url = env.NEXT_PUBLIC_VERIFIER2 || nextConfig.publicRuntimeConfig?.NEXT_PUBLIC_VERIFIER2;
 
           if (!verifier2Url) {
@@ -67,27 +142,61 @@ export default function Verification() {
             return;
           }
 
-          const dcqlQuery = buildDcqlQuery(credentials, credFormat);
+          let credentialSets;
+          try {
+            credentialSets = buildCredentialSets(
+              credentials.map((credential) => credential.id),
+              matchMode,
+              optionalIds
+            );
+          } catch (e) {
+            setError((e as Error).message);
+            setLoading(false);
+            return;
+          }
+          const dcqlQuery = templateDcqlQuery ?? buildDcqlQuery(credentials, credFormats, credentialSets);
 
-          // Build signing config from environment variables if available
-          let signingConfig: VerificationSigningConfig | undefined;
-          const clientId = env.NEXT_PUBLIC_VERIFIER2_CLIENT_ID || nextConfig.publicRuntimeConfig?.NEXT_PUBLIC_VERIFIER2_CLIENT_ID;
-          const signingKeyJson = env.NEXT_PUBLIC_VERIFIER2_SIGNING_KEY || nextConfig.publicRuntimeConfig?.NEXT_PUBLIC_VERIFIER2_SIGNING_KEY;
-          const x5c = env.NEXT_PUBLIC_VERIFIER2_X5C || nextConfig.publicRuntimeConfig?.NEXT_PUBLIC_VERIFIER2_X5C;
+          // Without a chosen scheme, sign with x509_san_dns if configured, else use the verifier defaults
+          const clientSettings = getVerifierClientSettings(env);
+          const clientIdScheme = (clientIdSchemeParam ??
+            (getAvailableClientIdSchemes(clientSettings).includes('x509_san_dns') ? 'x509_san_dns' : undefined)
+          ) as ClientIdScheme | undefined;
 
-          if (clientId && signingKeyJson && x5c) {
+          // The session id is fixed up front: redirects and redirect_uri client ids refer to it
+          const requestedSessionId = createVerificationSessionId();
+          const urlPrefix = `${verifier2Url}/verification-session`;
+          const responseUri = `${urlPrefix}/${requestedSessionId}/response`;
+          // redirect_uri client ids must match the response URI the verifier builds
+          const urlConfig: VerificationUrlConfig | undefined =
+            clientIdScheme === 'redirect_uri' ? { url_prefix: urlPrefix } : undefined;
+          let signingConfig: VerificationSigningConfig | undefined;
+          if (clientIdScheme) {
             try {
-              signingConfig = {
-                clientId,
-                key: JSON.parse(signingKeyJson),
-                x5c: [x5c],
-              };
+              signingConfig = await buildSigningConfig(clientIdScheme, clientSettings, responseUri);
             } catch (e) {
-              console.warn('Failed to parse verifier signing config:', e);
+              setError((e as Error).message);
+              setLoading(false);
+              return;
             }
           }
 
-          const requestBody = buildVerificationSessionRequest(dcqlQuery, signingConfig);
+          // On mobile the wallet runs on this device and returns the user via redirect
+          const sameDevice = isMobileDevice();
+          const requestBody = sameDevice
+            ? buildSameDeviceSessionRequest(
+              dcqlQuery,
+              requestedSessionId,
+              customRedirects ?? buildSameDeviceRedirects(window.location.origin, requestedSessionId),
+              signingConfig,
+              { urlConfig, transactionData, vcPolicies: buildStatusVcPolicies(vps) }
+            )
+            : buildVerificationSessionRequest(dcqlQuery, signingConfig, {
+              sessionId: requestedSessionId,
+              urlConfig,
+              transactionData,
+              redirects: customRedirects,
+              vcPolicies: buildStatusVcPolicies(vps),
+            });
 
           const response = await axios.post(
             `${verifier2Url}/verification-session/create`,
@@ -107,13 +216,20 @@ export default function Verification() {
           setUsedApi2(true);
           setLoading(false);
 
+          if (sameDevice) {
+            storeVerificationRequest(sessionId, verificationRequest);
+            // The callback page resumes the session once the wallet redirects back
+            if (!customRedirects) {
+              storePendingVerification(sessionId);
+            }
+            window.location.href = verificationUrl;
+            return;
+          }
+
           const state = sessionId || getStateFromUrl(verificationUrl);
           if (state) {
-            checkVerificationResult(verifier2Url, state, true).then((result) => {
-              if (result) {
-                router.push(`/success/${state}`);
-              }
-            });
+            storeVerificationRequest(state, verificationRequest);
+            setWatchedSession({ verifierUrl: verifier2Url, sessionId: state, api2: true });
           }
         } else {
           // Legacy formats (jwt_vc_json, vc+sd-jwt) use existing Verifier API
@@ -125,8 +241,9 @@ export default function Verification() {
 
           const issuerMetadata = await axios.get(`${env.NEXT_PUBLIC_ISSUER ? env.NEXT_PUBLIC_ISSUER : nextConfig.publicRuntimeConfig!.NEXT_PUBLIC_ISSUER}/${standardVersion}/.well-known/openid-credential-issuer`);
           const request_credentials = credentials.map((credential) => {
+            const credFormat = credFormats[credential.id];
             if (credFormat === 'vc+sd-jwt') {
-              const vct = issuerMetadata.data[issuerMetadataConfigSelector[standardVersion]][`${credential.offer.type[credential.offer.type.length - 1]}_vc+sd-jwt`]?.vct;
+              const vct = issuerMetadata.data[issuerMetadataConfigSelector[standardVersion]][`${credential.offer.type?.[credential.offer.type.length - 1] ?? credential.id}_vc+sd-jwt`]?.vct;
               return {
                 vct,
                 format: 'vc+sd-jwt',
@@ -143,7 +260,7 @@ export default function Verification() {
             request_credentials: request_credentials,
           };
 
-          if (credFormat !== 'vc+sd-jwt') {
+          if (!Object.values(credFormats).includes('vc+sd-jwt')) {
             requestBody.vc_policies = vps.map((vp) => {
               if (vp.includes('=')) {
                 return {
@@ -172,11 +289,8 @@ export default function Verification() {
 
           const state = getStateFromUrl(response.data);
           if (state) {
-            checkVerificationResult(verifierUrl, state, false).then((result) => {
-              if (result) {
-                router.push(`/success/${state}`);
-              }
-            });
+            storeVerificationRequest(state, verificationRequest);
+            setWatchedSession({ verifierUrl, sessionId: state, api2: false });
           }
         }
       } catch (err) {
@@ -188,6 +302,26 @@ export default function Verification() {
     getverifyURL();
   }, [router.isReady]);
 
+  // Follow the session until the wallet has presented, stops when leaving the page
+  useEffect(() => {
+    if (!watchedSession) return;
+
+    const controller = new AbortController();
+    setStatus(null);
+    setStatusError(null);
+    watchVerificationStatus({ ...watchedSession, onStatus: setStatus, signal: controller.signal }).then(
+      (result) => {
+        if (result === 'success') {
+          router.push(`/success/${watchedSession.sessionId}`);
+        } else if (result === 'failed') {
+          router.push(`/failure/${watchedSession.sessionId}`);
+        }
+      },
+      (e) => setStatusError((e as Error).message)
+    );
+    return () => controller.abort();
+  }, [watchedSession]);
+
   async function copyCurrentURLToClipboard() {
     navigator.clipboard.writeText(verifyURL).then(
       function () {
@@ -259,6 +393,15 @@ export default function Verification() {
             </p>
           </div>
         )}
+        {(status || statusError) && !loading && !error && (
+          <div className="flex justify-center mb-6">
+            {statusError ? (
+              <p className="text-sm text-red-600">{statusError}</p>
+            ) : (
+              <VerificationProgress status={status!} />
+            )}
+          </div>
+        )}
         <div className="sm:flex flex-row gap-5 justify-center">
           <Button style="link" onClick={copyCurrentURLToClipboard}>
             {copyText}
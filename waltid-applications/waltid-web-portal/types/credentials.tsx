@@ -1,5 +1,70 @@
+import {base64ToBytes, base64UrlDecodeJson, base64UrlEncodeJson, bytesToBase64, bytesToBase64Url} from "@/utils/base64";
+import {ClaimDisclosures} from "@/utils/selectiveDisclosure";
+
+export type ClaimValue = string | number | boolean;
+
+// Plain numbers only, so that e.g. the postal code 01234 stays a string
+function parseUnquotedClaimValue(text: string): ClaimValue {
+  if (text === 'true' || text === 'false') return text === 'true';
+  if (/^-?\d+(\.\d+)?$/.test(text) && String(Number(text)) === text) return Number(text);
+  return text;
+}
+
+/**
+ * Parse claim values as entered in the claims editor: comma separated, with true/false and numbers typed.
+ * Double-quoted values are JSON strings, for numeric-looking strings such as "123456789" and values with commas.
+ */
+export function parseClaimValues(text: string): ClaimValue[] | undefined {
+  const values: ClaimValue[] = [];
+  let i = 0;
+  while (i < text.length) {
+    while (i < text.length && /\s/.test(text[i])) i++;
+    if (i >= text.length) break;
+
+    let value: ClaimValue | undefined;
+    if (text[i] === '"') {
+      let end = i + 1;
+      while (end < text.length && text[end] !== '"') {
+        end += text[end] === '\\' ? 2 : 1;
+      }
+      try {
+        value = JSON.parse(text.slice(i, end + 1));
+      } catch (e) {
+        // Closing quote not typed yet
+        value = text.slice(i + 1, end);
+      }
+      i = end + 1;
+    }
+    const comma = text.indexOf(',', i);
+    const rest = text.slice(i, comma === -1 ? text.length : comma).trim();
+    i = comma === -1 ? text.length : comma + 1;
+    if (value === undefined && rest.length > 0) {
+      value = parseUnquotedClaimValue(rest);
+    }
+    if (value !== undefined) {
+      values.push(value);
+    }
+  }
+  return values.length > 0 ? values : undefined;
+}
+
+// Claim values as editable text, strings are quoted where they would not parse back unchanged
+export function formatClaimValues(values?: ClaimValue[]): string {
+  return (values ?? []).map((value) => {
+    if (typeof value !== 'string') return String(value);
+    const parsed = parseClaimValues(value);
+    return parsed?.length === 1 && parsed[0] === value ? value : JSON.stringify(value);
+  }).join(', ');
+}
+
 export interface ClaimDefinition {
+  // Claim identifier, referenced from claim sets
+  id?: string;
   path: string[];
+  // Only match credentials where the claim has one of these values
+  values?: ClaimValue[];
+  // mDoc only - verifier intends to retain the claim after the transaction
+  intentToRetain?: boolean;
 }
 
 export type AvailableCredential = {
@@ -7,15 +72,26 @@ export type AvailableCredential = {
   title: string;
   selectedFormat?: String;
   selectedDID?: String;
+  // Format labels the configured issuer supports for this credential
+  formats?: string[];
+  // Known claims per protocol format (e.g. mso_mdoc), from issuer metadata
+  claimCatalogs?: Record<string, ClaimCatalogEntry[]>;
+  // SD-JWT VC type per protocol format (e.g. dc+sd-jwt), from issuer metadata
+  vcts?: Record<string, string>;
   offer: any;
   defaultClaims?: ClaimDefinition[];
   editedClaims?: ClaimDefinition[];
+  // Alternative claim combinations, each entry is a list of claim IDs
+  claimSets?: string[][];
+  // SD-JWT issuance only - disclosure mode per claim path of the credential subject
+  disclosures?: ClaimDisclosures;
 };
 
 export const EudiCredentials: AvailableCredential[] = [
   {
     id: 'eu.europa.ec.eudi.pid.1',
     title: 'EU Personal ID (mDoc)',
+    formats: ['mDoc (ISO 18013-5)'],
     offer: {
       'eu.europa.ec.eudi.pid.1': {
         family_name: 'Doe',
@@ -38,6 +114,7 @@ export const EudiCredentials: AvailableCredential[] = [
   {
     id: 'org.iso.18013.5.1.mDL',
     title: 'Mobile Driving License',
+    formats: ['mDoc (ISO 18013-5)'],
     offer: {
       'org.iso.18013.5.1': {
         family_name: 'Doe',
@@ -67,6 +144,7 @@ export const EudiCredentials: AvailableCredential[] = [
   {
     id: 'urn:eudi:pid:1',
     title: 'EU Personal ID (SD-JWT)',
+    formats: ['DC+SD-JWT (EUDI)'],
     offer: {
       credentialSubject: {
         family_name: 'Doe',
@@ -89,6 +167,7 @@ export const EudiCredentials: AvailableCredential[] = [
   {
     id: 'PaymentWalletAttestation',
     title: 'Payment Wallet Attestation',
+    formats: ['DC+SD-JWT (EUDI)'],
     offer: {
       credentialSubject: {
         funding_source: {
@@ -120,51 +199,232 @@ export const CredentialFormats = [
   'mDoc (ISO 18013-5)',
 ];
 
-// Map credential IDs to their supported formats (based on issuer configuration)
-// eu.europa.ec.eudi.pid.1 -> mso_mdoc only
-// org.iso.18013.5.1.mDL -> mso_mdoc only
-// eu.europa.ec.eudi.pid_vc_sd_jwt / urn:eudi:pid:1 -> dc+sd-jwt only
-// PaymentWalletAttestation -> dc+sd-jwt only
-const CREDENTIAL_FORMAT_MAP: Record<string, string[]> = {
-  'eu.europa.ec.eudi.pid.1': ['mDoc (ISO 18013-5)'],
-  'org.iso.18013.5.1.mDL': ['mDoc (ISO 18013-5)'],
-  'urn:eudi:pid:1': ['DC+SD-JWT (EUDI)'],
-  'PaymentWalletAttestation': ['DC+SD-JWT (EUDI)'],
+// Protocol format identifier for each portal format label
+const CREDENTIAL_FORMAT_PROTOCOLS: Record<string, string> = {
+  'JWT + W3C VC': 'jwt_vc_json',
+  'SD-JWT + W3C VC': 'jwt_vc_json',
+  'SD-JWT + IETF SD-JWT VC': 'vc+sd-jwt',
+  'DC+SD-JWT (EUDI)': 'dc+sd-jwt',
+  'mDoc (ISO 18013-5)': 'mso_mdoc',
 };
 
+// Entry of the issuer's credential_configurations_supported metadata
+export interface CredentialConfiguration {
+  format: string;
+  vct?: string;
+  doctype?: string;
+  credential_definition?: {
+    type?: string[];
+  };
+  // Namespaced map (mDoc), claim map or list of claim descriptions with paths
+  claims?: any;
+  [key: string]: any;
+}
+
+// Claim known for a doctype/vct
+export interface ClaimCatalogEntry {
+  path: string[];
+  displayName?: string;
+  mandatory?: boolean;
+}
+
+// Check if an issuer credential configuration issues the given credential
+function matchesCredentialConfiguration(
+  credential: Pick<AvailableCredential, 'id' | 'offer'>,
+  configurationId: string,
+  configuration: CredentialConfiguration
+): boolean {
+  const { id, offer } = credential;
+  if (configurationId === id || configurationId === `${id}_${configuration.format}`) {
+    return true;
+  }
+  if (configuration.doctype && (configuration.doctype === id || configuration.doctype === offer?.doctype)) {
+    return true;
+  }
+  if (configuration.vct && (
+    configuration.vct === id ||
+    configuration.vct === offer?.vct ||
+    configuration.vct.endsWith(`/${id}`)
+  )) {
+    return true;
+  }
+  const types = configuration.credential_definition?.type;
+  return !!types && types[types.length - 1] === id;
+}
+
+// Work out the format labels the issuer supports for a credential
+// from its credential_configurations_supported metadata (format, vct, doctype)
+export function getSupportedFormats(
+  credential: Pick<AvailableCredential, 'id' | 'offer'>,
+  configurations: Record<string, CredentialConfiguration>
+): string[] {
+  const protocols = new Set(
+    Object.entries(configurations)
+      .filter(([configurationId, configuration]) =>
+        matchesCredentialConfiguration(credential, configurationId, configuration)
+      )
+      .map(([, configuration]) => configuration.format)
+  );
+  return CredentialFormats.filter((label) => protocols.has(CREDENTIAL_FORMAT_PROTOCOLS[label]));
+}
+
+// Apply issuer metadata to a credential - credentials the issuer does not
+// advertise keep their previous formats
+export function applyCredentialConfigurations(
+  credential: AvailableCredential,
+  configurations: Record<string, CredentialConfiguration>
+): AvailableCredential {
+  const formats = getSupportedFormats(credential, configurations);
+  if (formats.length === 0) {
+    return credential;
+  }
+
+  const claimCatalogs: Record<string, ClaimCatalogEntry[]> = {};
+  const vcts: Record<string, string> = {};
+  for (const [configurationId, configuration] of Object.entries(configurations)) {
+    if (!matchesCredentialConfiguration(credential, configurationId, configuration)) continue;
+    const catalog = getClaimCatalogFromConfiguration(configuration);
+    if (catalog.length > 0) {
+      claimCatalogs[configuration.format] = catalog;
+    }
+    if (configuration.vct) {
+      vcts[configuration.format] = configuration.vct;
+    }
+  }
+
+  return {
+    ...credential,
+    formats,
+    ...(Object.keys(claimCatalogs).length > 0 && { claimCatalogs }),
+    ...(Object.keys(vcts).length > 0 && { vcts }),
+  };
+}
+
+// Members of an issuer claim description - all other object members are nested claims
+const CLAIM_DESCRIPTION_MEMBERS = ['mandatory', 'value_type', 'display', 'path'];
+
+// W3C members of an offer that are not claims
+const W3C_CREDENTIAL_MEMBERS = [
+  '@context', 'type', 'id', 'issuer', 'issued', 'issuanceDate', 'validFrom',
+  'expirationDate', 'credentialSchema', 'credentialStatus', 'vct',
+];
+
+// Pick the English display name, or the first one
+function getDisplayName(display?: { name?: string; locale?: string }[]): string | undefined {
+  if (!Array.isArray(display)) return undefined;
+  return (display.find((d) => d.locale?.startsWith('en')) ?? display[0])?.name;
+}
+
+function collectClaimDescriptions(descriptions: any, prefix: string[]): ClaimCatalogEntry[] {
+  const entries: ClaimCatalogEntry[] = [];
+  for (const [name, description] of Object.entries<any>(descriptions ?? {})) {
+    if (description === null || typeof description !== 'object' || Array.isArray(description)) continue;
+    const path = [...prefix, name];
+    entries.push({
+      path,
+      displayName: getDisplayName(description.display),
+      mandatory: description.mandatory,
+    });
+    const nested = Object.fromEntries(
+      Object.entries(description).filter(([key]) => !CLAIM_DESCRIPTION_MEMBERS.includes(key))
+    );
+    entries.push(...collectClaimDescriptions(nested, path));
+  }
+  return entries;
+}
+
+// Claim catalog from the issuer's claims metadata of a credential configuration
+export function getClaimCatalogFromConfiguration(configuration: CredentialConfiguration): ClaimCatalogEntry[] {
+  const claims = configuration.claims;
+  if (!claims || typeof claims !== 'object') {
+    return [];
+  }
+  if (Array.isArray(claims)) {
+    return claims
+      .filter((claim) => Array.isArray(claim?.path))
+      .map((claim) => ({
+        path: claim.path.map(String),
+        displayName: getDisplayName(claim.display),
+        mandatory: claim.mandatory,
+      }));
+  }
+  if (configuration.format === 'mso_mdoc') {
+    // { namespace: { element: description } }
+    return Object.entries<any>(claims).flatMap(([namespace, elements]) =>
+      collectClaimDescriptions(elements, [namespace]).filter((entry) => entry.path.length === 2)
+    );
+  }
+  return collectClaimDescriptions(claims, []);
+}
+
+function collectOfferClaims(data: any, prefix: string[]): ClaimCatalogEntry[] {
+  const entries: ClaimCatalogEntry[] = [];
+  for (const [key, value] of Object.entries<any>(data ?? {})) {
+    const path = [...prefix, key];
+    entries.push({ path });
+    if (value !== null && typeof value === 'object' && !Array.isArray(value)) {
+      entries.push(...collectOfferClaims(value, path));
+    }
+  }
+  return entries;
+}
+
+// Claim catalog derived from the credential data of the credentials repository
+export function getClaimCatalogFromOffer(offer: any, format: string): ClaimCatalogEntry[] {
+  if (!offer || typeof offer !== 'object') {
+    return [];
+  }
+  if (format === 'mso_mdoc') {
+    return Object.entries<any>(offer)
+      .filter(([, elements]) => elements !== null && typeof elements === 'object' && !Array.isArray(elements))
+      .flatMap(([namespace, elements]) => Object.keys(elements).map((element) => ({ path: [namespace, element] })));
+  }
+  const subject = offer.credentialSubject ?? Object.fromEntries(
+    Object.entries(offer).filter(([key]) => !W3C_CREDENTIAL_MEMBERS.includes(key))
+  );
+  return collectOfferClaims(subject, []);
+}
+
+// Claims known for a credential in the given protocol format
+export function getClaimCatalog(credential: AvailableCredential, format: string): ClaimCatalogEntry[] {
+  const catalog = credential.claimCatalogs?.[format];
+  return catalog && catalog.length > 0 ? catalog : getClaimCatalogFromOffer(credential.offer, format);
+}
+
+export function findCatalogEntry(path: string[], catalog: ClaimCatalogEntry[]): ClaimCatalogEntry | undefined {
+  const key = JSON.stringify(path);
+  return catalog.find((entry) => JSON.stringify(entry.path) === key);
+}
+
 // Get available formats for a credential based on issuer support
-export function getAvailableFormatsForCredential(credentialId: string): string[] {
-  return CREDENTIAL_FORMAT_MAP[credentialId] || CredentialFormats.filter(
+export function getAvailableFormatsForCredential(credential: AvailableCredential): string[] {
+  if (credential.formats && credential.formats.length > 0) {
+    return credential.formats;
+  }
+  return CredentialFormats.filter(
     f => f !== 'DC+SD-JWT (EUDI)' && f !== 'mDoc (ISO 18013-5)'
   );
 }
 
 // Get the default format for a credential
-export function getDefaultFormatForCredential(credentialId: string): string {
-  const formats = getAvailableFormatsForCredential(credentialId);
+export function getDefaultFormatForCredential(credential: AvailableCredential): string {
+  const formats = getAvailableFormatsForCredential(credential);
   return formats[0];
 }
 
-// Check if credential is EUDI-only (has restricted formats)
-export function isEudiCredential(credentialId: string): boolean {
-  return credentialId in CREDENTIAL_FORMAT_MAP;
+// Check if credential is EUDI-only (issuer offers it in EUDI formats only)
+export function isEudiCredential(credential: AvailableCredential): boolean {
+  return !!credential.formats && credential.formats.length > 0 &&
+    credential.formats.every((format) => isEudiFormat(mapFormat(format)));
 }
 
 // Get Value
 export function mapFormat(format: string): string {
-  switch (format) {
-    case 'JWT + W3C VC':
-    case 'SD-JWT + W3C VC':
-      return 'jwt_vc_json';
-    case 'SD-JWT + IETF SD-JWT VC':
-      return 'vc+sd-jwt';
-    case 'DC+SD-JWT (EUDI)':
-      return 'dc+sd-jwt';
-    case 'mDoc (ISO 18013-5)':
-      return 'mso_mdoc';
-    default:
-      throw new Error(`Unsupported format: ${format}`);
+  const protocol = CREDENTIAL_FORMAT_PROTOCOLS[format];
+  if (!protocol) {
+    throw new Error(`Unsupported format: ${format}`);
   }
+  return protocol;
 }
 
 // Check if format requires Verifier API2 (EUDI formats)
@@ -172,6 +432,13 @@ export function isEudiFormat(format: string): boolean {
   return format === 'dc+sd-jwt' || format === 'mso_mdoc';
 }
 
+export interface DcqlClaim {
+  id?: string;
+  path: string[];
+  values?: ClaimValue[];
+  intent_to_retain?: boolean;
+}
+
 export interface DcqlCredential {
   id: string;
   format: string;
@@ -179,28 +446,151 @@ export interface DcqlCredential {
     doctype_value?: string;
     vct_values?: string[];
   };
-  claims?: { path: string[] }[];
+  claims?: DcqlClaim[];
+  claim_sets?: string[][];
+}
+
+export interface DcqlCredentialSet {
+  options: string[][];
+  required?: boolean;
 }
 
 export interface DcqlQuery {
   credentials: DcqlCredential[];
+  credential_sets?: DcqlCredentialSet[];
 }
 
-export function buildDcqlQuery(credentials: AvailableCredential[], format: string): DcqlQuery {
-  return {
+// Credential set as selected in the portal - options reference AvailableCredential ids
+export interface CredentialSetDefinition {
+  options: string[][];
+  required?: boolean;
+}
+
+export const CredentialMatchModes = ['all', 'any'] as const;
+export type CredentialMatchMode = (typeof CredentialMatchModes)[number];
+
+// DCQL credential id must be alphanumeric with underscores/hyphens only
+// The credential.id may contain dots (e.g., "eu.europa.ec.eudi.pid.1") or
+// colons (e.g., "urn:eudi:pid:1") which are not allowed by EUDI wallets
+export function toDcqlId(id: string): string {
+  return id.replace(/[^a-zA-Z0-9_-]/g, '_');
+}
+
+// Claim ids used in claim_sets - explicit ids, or derived from the claim path.
+// Joined paths can clash (['a', 'b_c'] and ['a_b', 'c']), so later clashing ids get a numeric suffix.
+export function getClaimIds(claims: ClaimDefinition[]): string[] {
+  const used = new Set<string>(claims.filter((claim) => claim.id).map((claim) => claim.id!));
+  return claims.map((claim) => {
+    if (claim.id) {
+      return claim.id;
+    }
+    const derived = toDcqlId(claim.path.join('_'));
+    let id = derived;
+    for (let suffix = 2; used.has(id); suffix++) {
+      id = `${derived}_${suffix}`;
+    }
+    used.add(id);
+    return id;
+  });
+}
+
+// Build credential sets from the portal selection:
+// 'all' requests every non-optional credential, 'any' accepts one of them.
+// Optional credentials are always requested as separate, non-required sets.
+export function buildCredentialSets(
+  credentialIds: string[],
+  mode: CredentialMatchMode,
+  optionalIds: string[] = []
+): CredentialSetDefinition[] | undefined {
+  const requiredIds = credentialIds.filter((id) => !optionalIds.includes(id));
+  // Only optional sets would let a session succeed without any presentation
+  if (credentialIds.length > 0 && requiredIds.length === 0) {
+    throw new Error('At least one credential must be required');
+  }
+  const optionalSets = credentialIds
+    .filter((id) => optionalIds.includes(id))
+    .map((id) => ({ options: [[id]], required: false }));
+
+  if (mode === 'all' && optionalSets.length === 0) {
+    // Plain DCQL query - all credentials are requested
+    return undefined;
+  }
+
+  const requiredSets: CredentialSetDefinition[] = [];
+  if (requiredIds.length > 0) {
+    requiredSets.push({
+      options: mode === 'any' ? requiredIds.map((id) => [id]) : [requiredIds],
+    });
+  }
+
+  return [...requiredSets, ...optionalSets];
+}
+
+// Get the protocol format (e.g. mso_mdoc) of a credential from its selected format label
+export function getCredentialFormat(credential: AvailableCredential): string {
+  return mapFormat(
+    (credential.selectedFormat ?? getDefaultFormatForCredential(credential)).toString()
+  );
+}
+
+// Map credential ids to their protocol formats
+export function getCredentialFormats(credentials: AvailableCredential[]): Record<string, string> {
+  const formats: Record<string, string> = {};
+  for (const credential of credentials) {
+    formats[credential.id] = getCredentialFormat(credential);
+  }
+  return formats;
+}
+
+function buildDcqlClaim(
+  claim: ClaimDefinition,
+  claimId: string,
+  format: string,
+  withId: boolean
+): DcqlClaim {
+  // Claim ids are required as soon as claim_sets reference them
+  const dcqlClaim: DcqlClaim = withId || claim.id
+    ? { id: claimId, path: claim.path }
+    : { path: claim.path };
+  if (claim.values && claim.values.length > 0) {
+    dcqlClaim.values = claim.values;
+  }
+  // intent_to_retain is defined for mso_mdoc claims only
+  if (format === 'mso_mdoc' && claim.intentToRetain !== undefined) {
+    dcqlClaim.intent_to_retain = claim.intentToRetain;
+  }
+  return dcqlClaim;
+}
+
+export function buildDcqlQuery(
+  credentials: AvailableCredential[],
+  formats: Record<string, string>,
+  credentialSets?: CredentialSetDefinition[]
+): DcqlQuery {
+  const query: DcqlQuery = {
     credentials: credentials.map((credential) => {
+      const credentialFormat = formats[credential.id];
+      if (!credentialFormat) {
+        throw new Error(`Missing format for credential: ${credential.id}`);
+      }
+      const claimSets = credential.claimSets?.filter((set) => set.length > 0);
+      const hasClaimSets = !!claimSets && claimSets.length > 0;
+
       // Prefer user-edited claims, then default claims, then fallback
-      const claims = credential.editedClaims?.map(c => ({ path: c.path })) ||
-        credential.defaultClaims?.map(c => ({ path: c.path })) ||
-        getDefaultClaimsForCredential(credential.id, format);
+      const claimDefinitions: ClaimDefinition[] = credential.editedClaims ||
+        credential.defaultClaims ||
+        getDefaultClaimsForCredential(credential.id, credentialFormat);
 
-      // DCQL credential id must be alphanumeric with underscores/hyphens only
-      // The credential.id may contain dots (e.g., "eu.europa.ec.eudi.pid.1") or
-      // colons (e.g., "urn:eudi:pid:1") which are not allowed by EUDI wallets
-      const dcqlId = credential.id.replace(/[^a-zA-Z0-9_-]/g, '_');
+      const claimIds = getClaimIds(claimDefinitions);
+      const claims = claimDefinitions.map((c, i) =>
+        buildDcqlClaim(c, claimIds[i], credentialFormat, hasClaimSets)
+      );
 
-      if (format === 'mso_mdoc') {
-        return {
+      const dcqlId = toDcqlId(credential.id);
+
+      let dcqlCredential: DcqlCredential;
+      if (credentialFormat === 'mso_mdoc') {
+        dcqlCredential = {
           id: dcqlId,
           format: 'mso_mdoc',
           meta: {
@@ -210,22 +600,38 @@ export function buildDcqlQuery(credentials: AvailableCredential[], format: strin
         };
       } else {
         // dc+sd-jwt
-        return {
+        dcqlCredential = {
           id: dcqlId,
           format: 'dc+sd-jwt',
           meta: {
-            vct_values: [credential.offer.vct || 'urn:eudi:pid:1'],
+            // The vct the issuer advertises for dc+sd-jwt wins over the one of the offer template
+            vct_values: [credential.vcts?.['dc+sd-jwt'] ?? (credential.offer.vct || 'urn:eudi:pid:1')],
           },
           claims,
         };
       }
+
+      if (hasClaimSets) {
+        dcqlCredential.claim_sets = claimSets;
+      }
+
+      return dcqlCredential;
     }),
   };
+
+  if (credentialSets && credentialSets.length > 0) {
+    query.credential_sets = credentialSets.map((set) => ({
+      options: set.options.map((option) => option.map(toDcqlId)),
+      ...(set.required === false && { required: false }),
+    }));
+  }
+
+  return query;
 }
 
 // Fallback default claims for known EUDI credential types
-function getDefaultClaimsForCredential(credentialId: string, format: string): { path: string[] }[] {
-  const defaultClaimsMap: Record<string, { path: string[] }[]> = {
+function getDefaultClaimsForCredential(credentialId: string, format: string): ClaimDefinition[] {
+  const defaultClaimsMap: Record<string, ClaimDefinition[]> = {
     'eu.europa.ec.eudi.pid.1': [
       { path: ['eu.europa.ec.eudi.pid.1', 'family_name'] },
       { path: ['eu.europa.ec.eudi.pid.1', 'given_name'] },
@@ -254,7 +660,9 @@ function getDefaultClaimsForCredential(credentialId: string, format: string): {
 
 export interface VerificationSigningConfig {
   clientId: string;
-  key: {
+  // Defaults to true - unsigned requests are only valid for redirect_uri client ids
+  signedRequest?: boolean;
+  key?: {
     type: string;
     jwk: {
       kty: string;
@@ -264,120 +672,346 @@ export interface VerificationSigningConfig {
       d: string;
     };
   };
-  x5c: string[];
+  x5c?: string[];
+  verifierAttestation?: string;
+}
+
+// Client identifier prefixes (OpenID4VP) a verification request can be sent with
+export const ClientIdSchemes = ['x509_san_dns', 'x509_hash', 'verifier_attestation', 'redirect_uri'] as const;
+export type ClientIdScheme = typeof ClientIdSchemes[number];
+
+export const CLIENT_ID_SCHEME_LABELS: Record<ClientIdScheme, string> = {
+  x509_san_dns: 'Signed - X.509 SAN DNS',
+  x509_hash: 'Signed - X.509 certificate hash',
+  verifier_attestation: 'Signed - Verifier attestation',
+  redirect_uri: 'Unsigned - Redirect URI',
+};
+
+// Verifier credentials configured for the portal (NEXT_PUBLIC_VERIFIER2_*)
+export interface VerifierClientSettings {
+  x509SanDnsClientId?: string;
+  key?: VerificationSigningConfig['key'];
+  x5c?: string[];
+  verifierAttestation?: string;
+}
+
+// Schemes the configured verifier credentials allow - unsigned requests are always possible
+export function getAvailableClientIdSchemes(settings: VerifierClientSettings): ClientIdScheme[] {
+  const canSignWithCertificate = !!settings.key && !!settings.x5c?.length;
+  return ClientIdSchemes.filter((scheme) => {
+    switch (scheme) {
+      case 'x509_san_dns':
+        return canSignWithCertificate && !!settings.x509SanDnsClientId?.startsWith('x509_san_dns:');
+      case 'x509_hash':
+        return canSignWithCertificate;
+      case 'verifier_attestation':
+        return !!settings.key && !!settings.verifierAttestation;
+      case 'redirect_uri':
+        return true;
+    }
+  });
+}
+
+// x509_hash client id: base64url SHA-256 of the DER encoded leaf certificate
+export async function getX509HashClientId(leafCertificate: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', base64ToBytes(leafCertificate));
+  return `x509_hash:${bytesToBase64Url(new Uint8Array(digest))}`;
+}
+
+// verifier_attestation client id: subject of the attestation JWT
+export function getVerifierAttestationClientId(attestation: string): string {
+  const payload = base64UrlDecodeJson(attestation.split('.')[1] ?? '');
+  if (!payload.sub) {
+    throw new Error('Verifier attestation has no sub claim');
+  }
+  return `verifier_attestation:${payload.sub}`;
+}
+
+/**
+ * Signing config for a client identifier scheme. redirect_uri client ids
+ * name the response URI, so the session id and URL prefix have to be fixed up front.
+ */
+export async function buildSigningConfig(
+  scheme: ClientIdScheme,
+  settings: VerifierClientSettings,
+  responseUri: string
+): Promise<VerificationSigningConfig> {
+  if (!getAvailableClientIdSchemes(settings).includes(scheme)) {
+    throw new Error(`Client identifier scheme not configured: ${scheme}`);
+  }
+  switch (scheme) {
+    case 'x509_san_dns':
+      return { clientId: settings.x509SanDnsClientId!, key: settings.key, x5c: settings.x5c };
+    case 'x509_hash':
+      return { clientId: await getX509HashClientId(settings.x5c![0]), key: settings.key, x5c: settings.x5c };
+    case 'verifier_attestation':
+      return {
+        clientId: getVerifierAttestationClientId(settings.verifierAttestation!),
+        key: settings.key,
+        verifierAttestation: settings.verifierAttestation,
+      };
+    case 'redirect_uri':
+      return { clientId: `redirect_uri:${responseUri}`, signedRequest: false };
+  }
+}
+
+// Decoded OpenID4VP transaction_data object, bound to DCQL credential query ids
+export interface TransactionDataItem {
+  type: string;
+  credential_ids: string[];
+  transaction_data_hashes_alg?: string[];
+  [key: string]: any;
+}
+
+export const PAYMENT_TRANSACTION_DATA_TYPE = 'payment_data';
+export const QES_TRANSACTION_DATA_TYPE = 'qes_authorization';
+
+// Object identifier of SHA-256, as used for QES document digests
+const SHA_256_OID = '2.16.840.1.101.3.4.2.1';
+
+export interface PaymentConfirmation {
+  amount: number;
+  // ISO 4217 code, e.g. EUR
+  currency: string;
+  payee: string;
+  payeeId?: string;
+}
+
+export interface QesAuthorization {
+  documentLabel: string;
+  // Base64 SHA-256 digest of the document to sign
+  documentHash: string;
+}
+
+function requireCredentialIds(credentialIds: string[]) {
+  if (credentialIds.length === 0) {
+    throw new Error('Transaction data must be bound to at least one credential');
+  }
+}
+
+// SCA payment confirmation, e.g. authorised with a PaymentWalletAttestation
+export function buildPaymentTransactionData(
+  payment: PaymentConfirmation,
+  credentialIds: string[]
+): TransactionDataItem {
+  requireCredentialIds(credentialIds);
+  if (!(payment.amount > 0)) {
+    throw new Error('Payment amount must be greater than zero');
+  }
+  if (!/^[A-Z]{3}$/.test(payment.currency)) {
+    throw new Error(`Invalid currency code: ${payment.currency}`);
+  }
+  if (!payment.payee.trim()) {
+    throw new Error('Payment payee is required');
+  }
+
+  return {
+    type: PAYMENT_TRANSACTION_DATA_TYPE,
+    credential_ids: credentialIds,
+    transaction_data_hashes_alg: ['sha-256'],
+    payee: payment.payeeId
+      ? { name: payment.payee.trim(), id: payment.payeeId }
+      : { name: payment.payee.trim() },
+    currency_amount: {
+      currency: payment.currency,
+      value: payment.amount,
+    },
+  };
+}
+
+// Qualified electronic signature of a document, identified by its digest
+export function buildQesTransactionData(
+  qes: QesAuthorization,
+  credentialIds: string[]
+): TransactionDataItem {
+  requireCredentialIds(credentialIds);
+  if (!qes.documentHash) {
+    throw new Error('Document hash is required for a qualified signature');
+  }
+
+  return {
+    type: QES_TRANSACTION_DATA_TYPE,
+    credential_ids: credentialIds,
+    transaction_data_hashes_alg: ['sha-256'],
+    signatureQualifier: 'eu_eidas_qes',
+    documentDigests: [{
+      label: qes.documentLabel,
+      hash: qes.documentHash,
+      hashAlgorithmOID: SHA_256_OID,
+    }],
+  };
+}
+
+// Base64 SHA-256 digest of a document, for QES transaction data
+export async function getDocumentDigest(document: ArrayBuffer): Promise<string> {
+  return bytesToBase64(new Uint8Array(await crypto.subtle.digest('SHA-256', document)));
+}
+
+// transaction_data request parameter entry: base64url encoded JSON
+export function encodeTransactionData(item: TransactionDataItem): string {
+  return base64UrlEncodeJson(item);
+}
+
+export type VerificationFlowType = 'cross_device' | 'same_device';
+
+// Where the wallet sends the user after presenting on the same device
+export interface VerificationRedirects {
+  successRedirectUri: string;
+  errorRedirectUri: string;
+}
+
+export interface VerificationCoreFlow {
+  signed_request: boolean;
+  clientId?: string;
+  key?: VerificationSigningConfig['key'];
+  x5c?: string[];
+  verifier_attestation?: string;
+  transaction_data?: string[];
+  // Chosen by the portal when the session id has to be known up front, e.g. for redirects
+  sessionId?: string;
+  dcql_query: DcqlQuery;
+  policies?: VerificationPolicies;
+}
+
+// Verifier API2 credential policy, by name or as configured policy object
+export type VerificationVcPolicy = string | { policy: string; [argument: string]: any };
+
+export interface VerificationPolicies {
+  vc_policies?: VerificationVcPolicy[];
+}
+
+// Where the verifier hosts request and response endpoints, e.g. https://verifier/verification-session
+export interface VerificationUrlConfig {
+  url_host?: string;
+  url_prefix?: string;
+}
+
+export interface VerificationSessionRedirects {
+  success_redirect_uri: string;
+  error_redirect_uri: string;
 }
 
 export interface VerificationSessionRequest {
-  flow_type: string;
-  core_flow: {
-    signed_request: boolean;
-    clientId?: string;
-    key?: VerificationSigningConfig['key'];
-    x5c?: string[];
-    dcql_query: DcqlQuery;
+  flow_type: 'cross_device';
+  core_flow: VerificationCoreFlow;
+  url_config?: VerificationUrlConfig;
+  redirects?: VerificationSessionRedirects;
+}
+
+// Same-device setup of Verifier API2 - serialized without the core_flow/url_config names
+export interface SameDeviceVerificationSessionRequest {
+  flow_type: 'same_device';
+  core: VerificationCoreFlow;
+  urlConfig: VerificationUrlConfig;
+  redirects: VerificationSessionRedirects;
+}
+
+export interface VerificationSessionOptions {
+  sessionId?: string;
+  urlConfig?: VerificationUrlConfig;
+  transactionData?: TransactionDataItem[];
+  // Final redirect after the presentation, e.g. from a verification template
+  redirects?: VerificationRedirects;
+  // Replaces the verifier's default credential policies (signature only)
+  vcPolicies?: VerificationVcPolicy[];
+}
+
+function toSessionRedirects(redirects: VerificationRedirects): VerificationSessionRedirects {
+  return {
+    success_redirect_uri: redirects.successRedirectUri,
+    error_redirect_uri: redirects.errorRedirectUri,
   };
 }
 
-export function buildVerificationSessionRequest(
+function buildVerificationCoreFlow(
   dcqlQuery: DcqlQuery,
-  signingConfig?: VerificationSigningConfig
-): VerificationSessionRequest {
-  const coreFlow: VerificationSessionRequest['core_flow'] = {
-    signed_request: true,
+  signingConfig?: VerificationSigningConfig,
+  options: VerificationSessionOptions = {}
+): VerificationCoreFlow {
+  const coreFlow: VerificationCoreFlow = {
+    signed_request: signingConfig?.signedRequest ?? true,
     dcql_query: dcqlQuery,
   };
 
   // Add signing parameters if provided
   if (signingConfig) {
     coreFlow.clientId = signingConfig.clientId;
-    coreFlow.key = signingConfig.key;
-    coreFlow.x5c = signingConfig.x5c;
+    if (signingConfig.key) coreFlow.key = signingConfig.key;
+    if (signingConfig.x5c) coreFlow.x5c = signingConfig.x5c;
+    if (signingConfig.verifierAttestation) coreFlow.verifier_attestation = signingConfig.verifierAttestation;
+  }
+
+  if (options.transactionData?.length) {
+    coreFlow.transaction_data = options.transactionData.map(encodeTransactionData);
   }
+  if (options.sessionId) {
+    coreFlow.sessionId = options.sessionId;
+  }
+  if (options.vcPolicies) {
+    coreFlow.policies = { vc_policies: options.vcPolicies };
+  }
+
+  return coreFlow;
+}
 
+export function buildVerificationSessionRequest(
+  dcqlQuery: DcqlQuery,
+  signingConfig?: VerificationSigningConfig,
+  options: VerificationSessionOptions = {}
+): VerificationSessionRequest {
   return {
     flow_type: 'cross_device',
-    core_flow: coreFlow,
+    core_flow: buildVerificationCoreFlow(dcqlQuery, signingConfig, options),
+    ...(options.urlConfig && { url_config: options.urlConfig }),
+    ...(options.redirects && { redirects: toSessionRedirects(options.redirects) }),
   };
 }
 
-export const DIDMethods = [
-  'did:jwk',
-  'did:key',
-  'did:ebsi',
-  'did:web',
-  'did:cheqd',
-]
+export function buildSameDeviceSessionRequest(
+  dcqlQuery: DcqlQuery,
+  sessionId: string,
+  redirects: VerificationRedirects,
+  signingConfig?: VerificationSigningConfig,
+  options: Omit<VerificationSessionOptions, 'sessionId' | 'redirects'> = {}
+): SameDeviceVerificationSessionRequest {
+  return {
+    flow_type: 'same_device',
+    core: buildVerificationCoreFlow(dcqlQuery, signingConfig, { ...options, sessionId }),
+    // Wallet URL and prefix default to the verifier configuration
+    urlConfig: options.urlConfig ?? {},
+    redirects: toSessionRedirects(redirects),
+  };
+}
 
-export const DIDMethodsConfig = {
-  'did:key': {
-    'issuerDid': 'did:key:z6MkmANLkdcnbriWeVaqdfrA3MmtXoVPNu98tww6xDeyVnyF',
-    'issuerKey': {
-      "type": "jwk",
-      "jwk": {
-        "kty": "OKP",
-        "d": "fbpXmCh4KkcVIGOnkcjHvWAcaUPvvkBvgMFPE4nAgvA",
-        "crv": "Ed25519",
-        "kid": "DJ3X4BZqk4GJsMGZL44hEZrlEy9scbMcSA_QuUi3tGs",
-        "x": "Y64Ns3aRo6KQgJTtCZKFA78uYvslBcIrOk7xaS1PIZI"
-      }
-    }
-  },
-  'did:ebsi': {
-    'issuerDid': 'did:ebsi:zf39qHTXaLrr6iy3tQhT3UZ',
-    'issuerKey': {
-      "type": "jwk",
-      "jwk": {
-        "kty": "EC",
-        "x": "SgfOvOk1TL5yiXhK5Nq7OwKfn_RUkDizlIhAf8qd2wE",
-        "y": "u_y5JZOsw3SrnNPydzJkoaiqb8raSdCNE_nPovt1fNI",
-        "crv": "P-256",
-        "d": "UqSi2MbJmPczfRmwRDeOJrdivoEy-qk4OEDjFwJYlUI"
-      }
-    }
-  },
-  'did:jwk': {
-    'issuerDid': 'did:jwk:eyJrdHkiOiJFQyIsImNydiI6IlAtMjU2Iiwia2lkIjoiM1lOZDlGbng5Smx5UFZZd2dXRkUzN0UzR3dJMGVHbENLOHdGbFd4R2ZwTSIsIngiOiJGb3ZZMjFMQUFPVGxnLW0tTmVLV2haRUw1YUZyblIwdWNKakQ1VEtwR3VnIiwieSI6IkNyRkpmR1RkUDI5SkpjY3BRWHV5TU8zb2h0enJUcVB6QlBCSVRZajBvZ0EifQ',
-    'issuerKey': {
-      "type": "jwk",
-      "jwk": {
-        "kty": "EC",
-        "d": "8jH4vwtvCw6tcBzdxQ6V7FY2L215lBGm-x3flgENx4Y",
-        "crv": "P-256",
-        "kid": "3YNd9Fnx9JlyPVYwgWFE37E3GwI0eGlCK8wFlWxGfpM",
-        "x": "FovY21LAAOTlg-m-NeKWhZEL5aFrnR0ucJjD5TKpGug",
-        "y": "CrFJfGTdP29JJccpQXuyMO3ohtzrTqPzBPBITYj0ogA"
-      }
-    }
-  },
-  'did:web': {
-    'issuerDid': 'did:web:wallet.demo.walt.id:wallet-api:registry:portal',
-    'issuerKey': {
-      "type": "jwk",
-      "jwk": {
-        "kty": "EC",
-        "d": "6rVNEWMQzVdPgin7ER_ptWlSnkozGwOWYlSDcQHMRZw",
-        "crv": "secp256k1",
-        "kid": "hxKurYDplZbY3PgDdXNtz1CwaG6CJ9dyslsyJY11rQs",
-        "x": "fTlAxVt3AHGX4LfqStS8MRIWjBrNYbcdHwW95FKZTiU",
-        "y": "SqeitQcdT7lZg4z2JgCCD8JabsZvE_6W8dbMlVNxXeo"
-      }
-    }
-  },
-  'did:cheqd': {
-    'issuerDid': 'did:cheqd:testnet:16047c9a-8f6f-4258-b35e-73098c6981e0',
-    'issuerKey': {
-      "type": "jwk",
-      "jwk": {
-        "kty": "OKP",
-        "d": "YqOrL8iTCxeoVAFAxXC-CVxX7-RfOtVggl55wwP3wg0",
-        "crv": "Ed25519",
-        "kid": "AMSWqtZTHp2PosnSCeFJ10rES2Vd6IzNx8UV3oZuKGw",
-        "x": "3oKRKU2W66W8DycLCQ26WCv8scVBGI-H3PvTIvZ0Fjw"
-      }
-    }
+export const REVOCATION_POLICY = 'revoked-status-list';
+
+/**
+ * Verifier API2 credential policies for the vps entries, only needed when credential status is checked.
+ * Checks StatusList2021 (W3C) and Token Status List (SD-JWT VC) entries, credentials without one pass.
+ */
+export function buildStatusVcPolicies(vps: string[]): VerificationVcPolicy[] | undefined {
+  if (!vps.includes(REVOCATION_POLICY)) {
+    return undefined;
   }
+  return [
+    ...(vps.includes('signature') ? ['signature'] : []),
+    REVOCATION_POLICY,
+    { policy: 'credential-status', argument: { discriminator: 'ietf', value: 0 } },
+  ];
 }
 
+// Issuer signing profile as exposed to the browser - private keys stay on the server
+export interface SigningProfile {
+  id: string;
+  issuerDid: string;
+  publicJwk: { [key: string]: any };
+}
+
+// Issuer API route families, see /api/issue - 'mixed' offers credentials of several formats together
+export const MIXED_ISSUE_ENDPOINT = 'mixed';
+export const IssueEndpoints = ['jwt', 'sdjwt', 'mdoc', MIXED_ISSUE_ENDPOINT] as const;
+export type IssueEndpoint = typeof IssueEndpoints[number];
+
 export const AuthenticationMethods = [
   'PRE_AUTHORIZED',
   'PWD',
@@ -391,3 +1025,45 @@ export const VpProfiles = [
   'DEFAULT',
   'ISO_18013_7_MDOC',
 ]
+
+export const TxCodeInputModes = ['numeric', 'text'] as const;
+export type TxCodeInputMode = typeof TxCodeInputModes[number];
+
+// User PIN (tx_code) of a pre-authorized code offer
+export interface TxCodeSettings {
+  pin: string;
+  inputMode: TxCodeInputMode;
+  // Advertise the PIN length to the wallet
+  showLength: boolean;
+  description?: string;
+}
+
+// tx_code as advertised in the credential offer
+export interface TxCode {
+  input_mode: TxCodeInputMode;
+  length?: number;
+  description?: string;
+}
+
+export function buildTxCode(settings: TxCodeSettings): { txCode: TxCode; txCodeValue: string } {
+  const pin = settings.pin.trim();
+  if (!pin) {
+    throw new Error('Please enter a user PIN');
+  }
+  if (settings.inputMode === 'numeric' && !/^[0-9]+$/.test(pin)) {
+    throw new Error('A numeric user PIN may only contain digits');
+  }
+  const description = settings.description?.trim();
+  // OpenID4VCI limits the description to 300 characters
+  if (description && description.length > 300) {
+    throw new Error('The user PIN description may be at most 300 characters');
+  }
+  return {
+    txCode: {
+      input_mode: settings.inputMode,
+      ...(settings.showLength && { length: pin.length }),
+      ...(description && { description }),
+    },
+    txCodeValue: pin,
+  };
+}
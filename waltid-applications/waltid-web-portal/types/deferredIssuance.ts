@@ -0,0 +1,71 @@
+import {IssuanceRecord} from "@/types/issuanceHistory";
+
+/**
+ * Deferred issuance with manual approval. The issuer holds credentials of requireApproval issuance requests
+ * and answers the wallet's deferred credential requests with issuance_pending until an operator decides.
+ */
+
+export const DeferredIssuanceStatuses = ['PENDING', 'APPROVED', 'REJECTED'] as const;
+export type DeferredIssuanceStatus = typeof DeferredIssuanceStatuses[number];
+
+export const DeferredIssuanceDecisions = ['approve', 'reject'] as const;
+export type DeferredIssuanceDecision = typeof DeferredIssuanceDecisions[number];
+
+// Issuance request fields that hold a credential for approval
+export const APPROVAL_ISSUANCE_REQUEST = {
+  issuanceType: 'DEFERRED',
+  requireApproval: true,
+} as const;
+
+// Seconds an offer that requires approval stays valid - held credentials expire with their session
+export const APPROVAL_SESSION_TTL = 24 * 60 * 60;
+
+// sessionStorage key of the operator API key entered on the approvals page
+export const OPERATOR_API_KEY_STORAGE = 'operatorApiKey';
+
+// Issuer API /openid4vc/deferred, authenticated with the issuer's operator API key
+export interface DeferredIssuance {
+  credentialId: string;
+  sessionId: string;
+  credentialConfigurationId: string;
+  format: string;
+  status: DeferredIssuanceStatus;
+  statusReason?: string;
+  requestedAt: string;
+  decidedAt?: string;
+}
+
+// Deferred credential with the portal's issuance record of its offer, if there is one
+export interface ApprovalQueueItem extends DeferredIssuance {
+  record?: IssuanceRecord;
+}
+
+// Authorization header for the issuer's deferred endpoints
+export function operatorAuthorizationHeader(apiKey: string): { Authorization: string } {
+  return { Authorization: `Bearer ${apiKey}` };
+}
+
+// Operator Authorization header of a request to the portal, forwarded to the issuer
+export function getOperatorAuthorization(header: string | undefined): string | null {
+  return header && /^Bearer \S+$/.test(header) ? header : null;
+}
+
+export function isDeferredIssuanceDecision(decision: any): decision is DeferredIssuanceDecision {
+  return DeferredIssuanceDecisions.includes(decision);
+}
+
+// Pending credentials first, oldest request first within each group
+export function buildApprovalQueue(issuances: DeferredIssuance[], records: IssuanceRecord[]): ApprovalQueueItem[] {
+  const recordsBySession = new Map(
+    records.filter((record) => record.sessionId).map((record) => [record.sessionId!, record])
+  );
+  return [...issuances]
+    .sort((a, b) =>
+      Number(b.status === 'PENDING') - Number(a.status === 'PENDING') ||
+      a.requestedAt.localeCompare(b.requestedAt)
+    )
+    .map((issuance) => {
+      const record = recordsBySession.get(issuance.sessionId);
+      return record ? { ...issuance, record } : issuance;
+    });
+}
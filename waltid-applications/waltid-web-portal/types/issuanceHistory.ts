@@ -0,0 +1,100 @@
+import {IssuanceSessionInfo, IssuanceSessionStatus} from "@/utils/checkIssuanceSession";
+
+/**
+ * Log of the credential offers created by the portal.
+ * Redemption status is taken from the issuer's issuance session while the offer is tracked.
+ */
+
+export const IssuanceRecordStatuses = ['OFFERED', 'REDEEMED', 'FAILED', 'REJECTED', 'EXPIRED'] as const;
+export type IssuanceRecordStatus = typeof IssuanceRecordStatuses[number];
+
+const SESSION_STATUSES: Record<IssuanceSessionStatus, IssuanceRecordStatus> = {
+  ACTIVE: 'OFFERED',
+  SUCCESSFUL: 'REDEEMED',
+  UNSUCCESSFUL: 'FAILED',
+  REJECTED_BY_USER: 'REJECTED',
+  EXPIRED: 'EXPIRED',
+};
+
+export interface IssuedCredential {
+  id: string;
+  title?: string;
+  // Portal format label, e.g. 'DC+SD-JWT (EUDI)'
+  format?: string;
+}
+
+export interface IssuanceRecord {
+  // Issuance session id, or a random id for offers without a session reference
+  id: string;
+  sessionId?: string;
+  issuerUrl: string;
+  offerUrl: string;
+  credentials: IssuedCredential[];
+  authenticationMethod?: string;
+  txCode?: boolean;
+  statusList?: boolean;
+  requireApproval?: boolean;
+  status: IssuanceRecordStatus;
+  statusReason?: string;
+  createdAt: string;
+  updatedAt?: string;
+  authorizedAt?: string;
+  tokenIssuedAt?: string;
+  redeemedAt?: string;
+}
+
+// Request body of POST /api/issuance-history
+export type NewIssuanceRecord = Pick<
+  IssuanceRecord,
+  'sessionId' | 'issuerUrl' | 'offerUrl' | 'credentials' | 'authenticationMethod' | 'txCode' | 'statusList' | 'requireApproval'
+>;
+
+export function isFinalIssuanceStatus(status: IssuanceRecordStatus): boolean {
+  return status !== 'OFFERED';
+}
+
+export function isIssuanceSessionStatus(status: any): status is IssuanceSessionStatus {
+  return Object.keys(SESSION_STATUSES).includes(status);
+}
+
+// Returns a list of problems, empty if the record can be stored
+export function validateNewIssuanceRecord(record: any): string[] {
+  if (record === null || typeof record !== 'object' || Array.isArray(record)) {
+    return ['Issuance record must be a JSON object'];
+  }
+  const errors: string[] = [];
+  if (typeof record.issuerUrl !== 'string' || !record.issuerUrl) {
+    errors.push('issuerUrl is required');
+  }
+  if (typeof record.offerUrl !== 'string' || !record.offerUrl) {
+    errors.push('offerUrl is required');
+  }
+  if (record.sessionId !== undefined && typeof record.sessionId !== 'string') {
+    errors.push('sessionId must be a string');
+  }
+  if (!Array.isArray(record.credentials) || record.credentials.length === 0) {
+    errors.push('At least one credential is required');
+  } else if (record.credentials.some((c: any) => typeof c?.id !== 'string' || !c.id)) {
+    errors.push('Every credential needs an id');
+  }
+  return errors;
+}
+
+// Record updated with the issuer's view of its issuance session
+export function applyIssuanceSession(
+  record: IssuanceRecord,
+  session: IssuanceSessionInfo,
+  now = new Date().toISOString()
+): IssuanceRecord {
+  const status = SESSION_STATUSES[session.status];
+  return {
+    ...record,
+    status,
+    ...(session.statusReason && { statusReason: session.statusReason }),
+    ...(session.authorizedAt && { authorizedAt: session.authorizedAt }),
+    ...(session.tokenIssuedAt && { tokenIssuedAt: session.tokenIssuedAt }),
+    // The issuer has no completion timestamp, the first update seeing the session succeeded stands in for it
+    ...(status === 'REDEEMED' && { redeemedAt: record.redeemedAt ?? now }),
+    updatedAt: now,
+  };
+}
@@ -0,0 +1,114 @@
+/**
+ * Credential status lists hosted by the portal, a local stand-in for an issuer's status list service.
+ * The lists are served as unsigned JWTs from /api/status-lists/<id>.
+ */
+
+export const StatusListIds = ['token', 'revocation'] as const;
+export type StatusListId = typeof StatusListIds[number];
+
+export const CredentialStatuses = ['VALID', 'REVOKED', 'SUSPENDED'] as const;
+export type CredentialStatus = typeof CredentialStatuses[number];
+
+export interface StatusListDefinition {
+  id: StatusListId;
+  type: 'TokenStatusList' | 'StatusList2021';
+  title: string;
+  // Bits per credential status
+  bits: 1 | 2;
+  statuses: CredentialStatus[];
+}
+
+export const STATUS_LISTS: Record<StatusListId, StatusListDefinition> = {
+  // IETF Token Status List, for SD-JWT VCs (status.status_list)
+  token: {
+    id: 'token',
+    type: 'TokenStatusList',
+    title: 'Token Status List',
+    bits: 2,
+    statuses: ['VALID', 'REVOKED', 'SUSPENDED'],
+  },
+  // W3C StatusList2021 revocation list, for W3C credentials (credentialStatus)
+  revocation: {
+    id: 'revocation',
+    type: 'StatusList2021',
+    title: 'StatusList2021 (revocation)',
+    bits: 1,
+    statuses: ['VALID', 'REVOKED'],
+  },
+};
+
+// Number of credential statuses per list - 16KB for 1 bit, the StatusList2021 minimum
+export const STATUS_LIST_SIZE = 131072;
+
+// Status values of the Token Status List registry, StatusList2021 uses the first two
+const STATUS_VALUES: Record<CredentialStatus, number> = {
+  VALID: 0,
+  REVOKED: 1,
+  SUSPENDED: 2,
+};
+
+export interface StatusListEntry {
+  index: number;
+  credentialId: string;
+  credentialTitle?: string;
+  // Portal format label, e.g. 'DC+SD-JWT (EUDI)'
+  format?: string;
+  status: CredentialStatus;
+  createdAt: string;
+  updatedAt?: string;
+}
+
+export interface StatusList extends StatusListDefinition {
+  uri: string;
+  entries: StatusListEntry[];
+}
+
+// Status list claim of a credential - merged into its credential data when issuing
+export type StatusClaim =
+  | { status: { status_list: { idx: number; uri: string } } }
+  | {
+      credentialStatus: {
+        id: string;
+        type: 'StatusList2021Entry';
+        statusPurpose: 'revocation';
+        statusListIndex: string;
+        statusSize: 1;
+        statusListCredential: string;
+      };
+    };
+
+export function isStatusListId(id: any): id is StatusListId {
+  return StatusListIds.includes(id);
+}
+
+export function buildStatusClaim(list: StatusListDefinition, index: number, uri: string): StatusClaim {
+  if (list.type === 'TokenStatusList') {
+    return { status: { status_list: { idx: index, uri } } };
+  }
+  return {
+    credentialStatus: {
+      id: `${uri}#${index}`,
+      type: 'StatusList2021Entry',
+      statusPurpose: 'revocation',
+      statusListIndex: String(index),
+      statusSize: 1,
+      statusListCredential: uri,
+    },
+  };
+}
+
+/**
+ * Uncompressed status list bytes. Token Status Lists start with the least significant bit of a byte,
+ * StatusList2021 with the most significant one.
+ */
+export function packStatusList(list: StatusListDefinition, entries: StatusListEntry[], size = STATUS_LIST_SIZE): Uint8Array {
+  const bytes = new Uint8Array(Math.ceil((size * list.bits) / 8));
+  for (const entry of entries) {
+    const value = STATUS_VALUES[entry.status];
+    const position = entry.index * list.bits;
+    const byte = Math.floor(position / 8);
+    const shift = list.type === 'TokenStatusList' ? position % 8 : 8 - list.bits - (position % 8);
+    bytes[byte] |= value << shift;
+  }
+  return bytes;
+}
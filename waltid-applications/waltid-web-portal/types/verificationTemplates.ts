@@ -0,0 +1,180 @@
+import {
+  AvailableCredential,
+  buildCredentialSets,
+  buildDcqlQuery,
+  ClaimDefinition,
+  ClientIdScheme,
+  ClientIdSchemes,
+  CredentialFormats,
+  CredentialMatchMode,
+  CredentialMatchModes,
+  DcqlQuery,
+  getCredentialFormats,
+  getDefaultFormatForCredential,
+  isEudiFormat,
+  TransactionDataItem,
+  VerificationRedirects,
+} from "@/types/credentials";
+
+export interface VerificationTemplateCredential {
+  id: string;
+  // Portal format label, e.g. 'mDoc (ISO 18013-5)'
+  format: string;
+  claims?: ClaimDefinition[];
+  claimSets?: string[][];
+}
+
+/**
+ * Named, shareable verification request - launched from /verify?template=<id>
+ */
+export interface VerificationTemplate {
+  id: string;
+  name: string;
+  description?: string;
+  credentials: VerificationTemplateCredential[];
+  // Verifier API2 query, used as is when present
+  dcqlQuery?: DcqlQuery;
+  matchMode?: CredentialMatchMode;
+  optionalIds?: string[];
+  // Policy entries as in the vps URL parameter, e.g. 'signature' or 'webhook=https://...'
+  policies?: string[];
+  clientIdScheme?: ClientIdScheme;
+  redirects?: VerificationRedirects;
+  transactionData?: TransactionDataItem[];
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+export interface VerificationTemplateSettings {
+  description?: string;
+  matchMode: CredentialMatchMode;
+  optionalIds: string[];
+  policies: string[];
+  clientIdScheme?: ClientIdScheme;
+  redirects?: VerificationRedirects;
+  transactionData?: TransactionDataItem[];
+}
+
+const TEMPLATE_ID_PATTERN = /^[a-z0-9][a-z0-9-]{0,63}$/;
+
+// Permalink id for a template name, e.g. 'Age Check' -> 'age-check'
+export function toTemplateId(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 64);
+}
+
+function isHttpUrl(value: unknown): boolean {
+  if (typeof value !== 'string') return false;
+  try {
+    return ['http:', 'https:'].includes(new URL(value).protocol);
+  } catch (e) {
+    return false;
+  }
+}
+
+// Validate imported or submitted template JSON - returns the problems found
+export function validateVerificationTemplate(input: any): string[] {
+  if (!input || typeof input !== 'object' || Array.isArray(input)) {
+    return ['Template must be a JSON object'];
+  }
+
+  const errors: string[] = [];
+  if (typeof input.id !== 'string' || !TEMPLATE_ID_PATTERN.test(input.id)) {
+    errors.push('id must consist of lowercase letters, digits and dashes');
+  }
+  if (typeof input.name !== 'string' || !input.name.trim()) {
+    errors.push('name is required');
+  }
+  if (!Array.isArray(input.credentials) || input.credentials.length === 0) {
+    errors.push('credentials must list at least one credential');
+  } else {
+    input.credentials.forEach((credential: any, index: number) => {
+      if (typeof credential?.id !== 'string' || !credential.id) {
+        errors.push(`credentials[${index}].id is required`);
+      }
+      if (!CredentialFormats.includes(credential?.format)) {
+        errors.push(`credentials[${index}].format must be one of: ${CredentialFormats.join(', ')}`);
+      }
+    });
+  }
+  if (input.dcqlQuery !== undefined && !Array.isArray(input.dcqlQuery?.credentials)) {
+    errors.push('dcqlQuery.credentials must be an array');
+  }
+  if (input.matchMode !== undefined && !CredentialMatchModes.includes(input.matchMode)) {
+    errors.push(`matchMode must be one of: ${CredentialMatchModes.join(', ')}`);
+  }
+  if (input.optionalIds !== undefined && !Array.isArray(input.optionalIds)) {
+    errors.push('optionalIds must be an array');
+  }
+  if (input.policies !== undefined && (!Array.isArray(input.policies) || input.policies.some((p: any) => typeof p !== 'string'))) {
+    errors.push('policies must be an array of strings');
+  }
+  if (input.clientIdScheme !== undefined && !ClientIdSchemes.includes(input.clientIdScheme)) {
+    errors.push(`clientIdScheme must be one of: ${ClientIdSchemes.join(', ')}`);
+  }
+  if (input.redirects !== undefined && (!isHttpUrl(input.redirects?.successRedirectUri) || !isHttpUrl(input.redirects?.errorRedirectUri))) {
+    errors.push('redirects must have http(s) successRedirectUri and errorRedirectUri');
+  }
+  if (input.transactionData !== undefined && !Array.isArray(input.transactionData)) {
+    errors.push('transactionData must be an array');
+  }
+  return errors;
+}
+
+// Capture the current verification setup as a template
+export function createVerificationTemplate(
+  name: string,
+  credentials: AvailableCredential[],
+  settings: VerificationTemplateSettings
+): VerificationTemplate {
+  const templateCredentials = credentials.map((credential) => ({
+    id: credential.id,
+    format: (credential.selectedFormat ?? getDefaultFormatForCredential(credential)).toString(),
+    ...(credential.editedClaims && { claims: credential.editedClaims }),
+    ...(credential.claimSets?.length && { claimSets: credential.claimSets }),
+  }));
+
+  // Freeze the DCQL query for Verifier API2 credentials
+  const formats = getCredentialFormats(credentials);
+  const dcqlQuery = Object.values(formats).every(isEudiFormat)
+    ? buildDcqlQuery(
+      credentials,
+      formats,
+      buildCredentialSets(credentials.map((c) => c.id), settings.matchMode, settings.optionalIds)
+    )
+    : undefined;
+
+  return {
+    id: toTemplateId(name),
+    name: name.trim(),
+    ...(settings.description && { description: settings.description }),
+    credentials: templateCredentials,
+    ...(dcqlQuery && { dcqlQuery }),
+    matchMode: settings.matchMode,
+    optionalIds: settings.optionalIds,
+    policies: settings.policies,
+    ...(settings.clientIdScheme && { clientIdScheme: settings.clientIdScheme }),
+    ...(settings.redirects && { redirects: settings.redirects }),
+    ...(settings.transactionData?.length && { transactionData: settings.transactionData }),
+  };
+}
+
+// Credentials to verify for a template, based on the portal's credential list
+export function getTemplateCredentials(
+  template: VerificationTemplate,
+  availableCredentials: AvailableCredential[]
+): AvailableCredential[] {
+  return template.credentials.map((templateCredential) => {
+    const credential = availableCredentials.find((c) => c.id === templateCredential.id)
+      ?? { id: templateCredential.id, title: templateCredential.id, offer: {} };
+    return {
+      ...credential,
+      selectedFormat: templateCredential.format,
+      ...(templateCredential.claims && { editedClaims: templateCredential.claims }),
+      ...(templateCredential.claimSets && { claimSets: templateCredential.claimSets }),
+    };
+  });
+}
@@ -0,0 +1,30 @@
+// Base64 helpers working in the browser and in Node (no Buffer)
+
+// Decode base64 or base64url, with or without padding
+export function base64ToBytes(base64: string): Uint8Array {
+  const binary = atob(base64.replace(/-/g, '+').replace(/_/g, '/'));
+  return Uint8Array.from(binary, (char) => char.charCodeAt(0));
+}
+
+export function bytesToBase64(bytes: Uint8Array): string {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i++) {
+    binary += String.fromCharCode(bytes[i]);
+  }
+  return btoa(binary);
+}
+
+export function bytesToBase64Url(bytes: Uint8Array): string {
+  return bytesToBase64(bytes)
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '');
+}
+
+export function base64UrlEncodeJson(value: unknown): string {
+  return bytesToBase64Url(new TextEncoder().encode(JSON.stringify(value)));
+}
+
+export function base64UrlDecodeJson<T = any>(encoded: string): T {
+  return JSON.parse(new TextDecoder().decode(base64ToBytes(encoded)));
+}
@@ -0,0 +1,258 @@
+import {AvailableCredential} from "@/types/credentials";
+import {
+  extractCredentialSubject,
+  FlatClaim,
+  flattenClaims,
+  unflattenClaims,
+  withCredentialSubject,
+} from "@/utils/credentialClaims";
+
+/**
+ * Bulk issuance: one credential offer per row of an uploaded CSV or JSON file.
+ * Columns are mapped to claim paths of the credentials, flattened like in the credential editor.
+ */
+
+// Offers are created one after another in the browser
+export const MAX_BULK_ROWS = 500;
+
+// Mapping targets besides claims
+export const RECIPIENT_TARGET = 'recipient';
+export const PIN_TARGET = 'pin';
+
+export interface BulkSheet {
+  columns: string[];
+  rows: Record<string, string>[];
+}
+
+export interface BulkClaimTarget {
+  id: string;
+  credentialIndex: number;
+  label: string;
+  claim: FlatClaim;
+}
+
+// Target id -> column
+export type BulkMapping = Record<string, string>;
+
+export interface BulkRowOffer {
+  credentials: AvailableCredential[];
+  recipient?: string;
+  pin?: string;
+}
+
+export interface BulkOfferResult {
+  // 1-based, as in the uploaded file
+  row: number;
+  data: Record<string, string>;
+  recipient?: string;
+  pin?: string;
+  offerUrl?: string;
+  error?: string;
+}
+
+const CSV_DELIMITERS = [',', ';', '\t'];
+
+// RFC 4180 CSV, with the delimiter (comma, semicolon or tab) detected from the header line
+export function parseCsv(text: string): string[][] {
+  const content = text.replace(/^\uFEFF/, '');
+  const headerLine = content.split(/\r?\n/, 1)[0];
+  const delimiter = CSV_DELIMITERS.reduce((best, candidate) =>
+    headerLine.split(candidate).length > headerLine.split(best).length ? candidate : best
+  );
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+    if (quoted) {
+      if (char === '"' && content[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"' && cell === '') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') i++;
+      rows.push([...row, cell]);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  if (quoted) {
+    throw new Error('CSV file ends inside a quoted value');
+  }
+  if (cell !== '' || row.length > 0) {
+    rows.push([...row, cell]);
+  }
+  // Blank lines carry no row
+  return rows.filter((r) => r.some((value) => value.trim() !== ''));
+}
+
+function toCellValue(value: any): string {
+  if (value === null || value === undefined) return '';
+  return Array.isArray(value) ? JSON.stringify(value) : String(value);
+}
+
+function parseJsonRows(text: string): BulkSheet {
+  const data = JSON.parse(text);
+  if (!Array.isArray(data) || data.some((row) => row === null || typeof row !== 'object' || Array.isArray(row))) {
+    throw new Error('JSON file must contain an array of objects');
+  }
+  const columns: string[] = [];
+  const rows = data.map((item) => {
+    const row: Record<string, string> = {};
+    for (const claim of flattenClaims(item)) {
+      const column = claim.path.join('.');
+      if (!columns.includes(column)) columns.push(column);
+      row[column] = toCellValue(claim.value);
+    }
+    return row;
+  });
+  return { columns, rows };
+}
+
+function parseCsvRows(text: string): BulkSheet {
+  const [header, ...lines] = parseCsv(text);
+  const columns = (header ?? []).map((column) => column.trim());
+  if (columns.some((column) => !column)) {
+    throw new Error('Every CSV column needs a name in the header line');
+  }
+  const duplicate = columns.find((column, index) => columns.indexOf(column) !== index);
+  if (duplicate) {
+    throw new Error(`CSV column "${duplicate}" appears more than once`);
+  }
+  const rows = lines.map((line) => Object.fromEntries(columns.map((column, index) => [column, line[index] ?? ''])));
+  return { columns, rows };
+}
+
+export function parseBulkFile(fileName: string, text: string): BulkSheet {
+  const isJson = fileName.toLowerCase().endsWith('.json') || /^\s*\[/.test(text);
+  const sheet = isJson ? parseJsonRows(text) : parseCsvRows(text);
+  if (sheet.rows.length === 0) {
+    throw new Error(`${fileName} contains no rows`);
+  }
+  if (sheet.rows.length > MAX_BULK_ROWS) {
+    throw new Error(`${fileName} has ${sheet.rows.length} rows, at most ${MAX_BULK_ROWS} are supported`);
+  }
+  return sheet;
+}
+
+export function getBulkClaimTargets(credentials: AvailableCredential[]): BulkClaimTarget[] {
+  return credentials.flatMap((credential, credentialIndex) =>
+    flattenClaims(extractCredentialSubject(credential.offer)).map((claim) => ({
+      id: `${credentialIndex}:${claim.path.join('.')}`,
+      credentialIndex,
+      label: credentials.length > 1 ? `${credential.title} › ${claim.path.join('.')}` : claim.path.join('.'),
+      claim,
+    }))
+  );
+}
+
+function normalizeName(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+// Columns named like a claim path, or like the claim itself
+export function suggestBulkMapping(columns: string[], targets: BulkClaimTarget[]): BulkMapping {
+  const findColumn = (...names: string[]) =>
+    columns.find((column) => names.map(normalizeName).includes(normalizeName(column)));
+
+  const mapping: BulkMapping = {};
+  for (const target of targets) {
+    const column = findColumn(target.claim.path.join('.')) ?? findColumn(target.claim.key);
+    if (column) mapping[target.id] = column;
+  }
+  const recipient = findColumn('email', 'e-mail', 'mail', 'recipient');
+  if (recipient) mapping[RECIPIENT_TARGET] = recipient;
+  const pin = findColumn('pin', 'tx_code', 'user_pin');
+  if (pin) mapping[PIN_TARGET] = pin;
+  return mapping;
+}
+
+// Cell value with the type of the credential's example value
+export function parseClaimValue(raw: string, template: any): any {
+  const value = raw.trim();
+  if (typeof template === 'boolean') {
+    if (/^(true|yes|1)$/i.test(value)) return true;
+    if (/^(false|no|0)$/i.test(value)) return false;
+    throw new Error(`"${value}" is not a yes/no value`);
+  }
+  if (typeof template === 'number') {
+    const number = Number(value);
+    if (Number.isNaN(number)) throw new Error(`"${value}" is not a number`);
+    return number;
+  }
+  if (Array.isArray(template)) {
+    if (value.startsWith('[')) {
+      const array = JSON.parse(value);
+      if (!Array.isArray(array)) throw new Error(`"${value}" is not a list`);
+      return array;
+    }
+    // Plain cells list their items separated by semicolons
+    return value.split(';').map((item) => item.trim()).filter((item) => item !== '');
+  }
+  return value;
+}
+
+/**
+ * Credentials of one row, with the mapped cells as claims.
+ * Throws with all problems of the row - an empty cell of a mapped claim is one of them.
+ */
+export function buildBulkRowOffer(
+  credentials: AvailableCredential[],
+  targets: BulkClaimTarget[],
+  mapping: BulkMapping,
+  row: Record<string, string>
+): BulkRowOffer {
+  const errors: string[] = [];
+
+  const rowCredentials = credentials.map((credential, credentialIndex) => {
+    const updatedClaims = targets
+      .filter((target) => target.credentialIndex === credentialIndex && mapping[target.id])
+      .flatMap((target) => {
+        const cell = row[mapping[target.id]] ?? '';
+        if (cell.trim() === '') {
+          errors.push(`${target.label} is empty`);
+          return [];
+        }
+        try {
+          return [{ path: target.claim.path, value: parseClaimValue(cell, target.claim.value) }];
+        } catch (e) {
+          errors.push(`${target.label}: ${(e as Error).message}`);
+          return [];
+        }
+      });
+    const subject = extractCredentialSubject(credential.offer);
+    return { ...credential, offer: withCredentialSubject(credential.offer, unflattenClaims(updatedClaims, subject)) };
+  });
+
+  const recipient = mapping[RECIPIENT_TARGET] ? row[mapping[RECIPIENT_TARGET]]?.trim() : undefined;
+  if (recipient && !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(recipient)) {
+    errors.push(`"${recipient}" is not an email address`);
+  }
+  const pin = mapping[PIN_TARGET] ? row[mapping[PIN_TARGET]]?.trim() : undefined;
+  if (mapping[PIN_TARGET] && !pin) {
+    errors.push('PIN is empty');
+  }
+
+  if (errors.length > 0) {
+    throw new Error(errors.join('; '));
+  }
+  return {
+    credentials: rowCredentials,
+    ...(recipient && { recipient }),
+    ...(pin && { pin }),
+  };
+}
@@ -0,0 +1,227 @@
+/**
+ * CBOR decoder (RFC 8949) for the structures of ISO/IEC 18013-5 mDocs.
+ * Map keys are turned into strings, so COSE header labels and digest ids read as '1', '33', ...
+ * Integers beyond 2^53 lose precision, which none of the mDoc structures need.
+ */
+
+export class CborTag {
+  constructor(
+    readonly tag: number,
+    readonly value: CborValue,
+    // Encoding of the tagged item, tag included - digests of IssuerSignedItemBytes are taken over it
+    readonly encoded: Uint8Array
+  ) {
+  }
+}
+
+export type CborValue = number | string | boolean | null | undefined | Uint8Array | CborValue[] | CborMap | CborTag;
+
+export interface CborMap {
+  [key: string]: CborValue;
+}
+
+// Tag of a byte string holding an encoded CBOR data item (RFC 8949 3.4.5.1)
+export const ENCODED_CBOR_TAG = 24;
+
+const BREAK = 0xff;
+
+function decodeFloat16(half: number): number {
+  const exponent = (half >> 10) & 0x1f;
+  const fraction = half & 0x3ff;
+  const sign = half & 0x8000 ? -1 : 1;
+  if (exponent === 0) {
+    return sign * fraction * Math.pow(2, -24);
+  }
+  if (exponent === 0x1f) {
+    return fraction ? NaN : sign * Infinity;
+  }
+  return sign * (1024 + fraction) * Math.pow(2, exponent - 25);
+}
+
+class CborReader {
+  private offset = 0;
+  private readonly view: DataView;
+
+  constructor(private readonly bytes: Uint8Array) {
+    this.view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  }
+
+  get done(): boolean {
+    return this.offset >= this.bytes.length;
+  }
+
+  private ensure(length: number) {
+    if (this.offset + length > this.bytes.length) {
+      throw new Error(`Unexpected end of CBOR data at byte ${this.offset}`);
+    }
+  }
+
+  private readUint(length: number): number {
+    this.ensure(length);
+    const offset = this.offset;
+    this.offset += length;
+    switch (length) {
+      case 1:
+        return this.view.getUint8(offset);
+      case 2:
+        return this.view.getUint16(offset);
+      case 4:
+        return this.view.getUint32(offset);
+      default:
+        return this.view.getUint32(offset) * 0x100000000 + this.view.getUint32(offset + 4);
+    }
+  }
+
+  // Argument of the initial byte, null for indefinite lengths
+  private readArgument(additionalInfo: number): number | null {
+    if (additionalInfo < 24) return additionalInfo;
+    if (additionalInfo <= 27) return this.readUint(1 << (additionalInfo - 24));
+    if (additionalInfo === 31) return null;
+    throw new Error(`Invalid CBOR additional information ${additionalInfo} at byte ${this.offset - 1}`);
+  }
+
+  private readBytes(length: number): Uint8Array {
+    this.ensure(length);
+    const bytes = this.bytes.slice(this.offset, this.offset + length);
+    this.offset += length;
+    return bytes;
+  }
+
+  private isBreak(): boolean {
+    this.ensure(1);
+    if (this.bytes[this.offset] === BREAK) {
+      this.offset++;
+      return true;
+    }
+    return false;
+  }
+
+  // Chunks of an indefinite length byte or text string
+  private readChunks(majorType: number): Uint8Array[] {
+    const chunks: Uint8Array[] = [];
+    while (!this.isBreak()) {
+      const initial = this.readUint(1);
+      const length = this.readArgument(initial & 0x1f);
+      if (initial >> 5 !== majorType || length === null) {
+        throw new Error(`Invalid chunk of an indefinite length string at byte ${this.offset - 1}`);
+      }
+      chunks.push(this.readBytes(length));
+    }
+    return chunks;
+  }
+
+  read(): CborValue {
+    const start = this.offset;
+    const initial = this.readUint(1);
+    const majorType = initial >> 5;
+    const additionalInfo = initial & 0x1f;
+
+    if (majorType === 7) {
+      switch (additionalInfo) {
+        case 20:
+          return false;
+        case 21:
+          return true;
+        case 22:
+          return null;
+        case 23:
+          return undefined;
+        case 25:
+          return decodeFloat16(this.readUint(2));
+        case 26:
+          this.ensure(4);
+          this.offset += 4;
+          return this.view.getFloat32(this.offset - 4);
+        case 27:
+          this.ensure(8);
+          this.offset += 8;
+          return this.view.getFloat64(this.offset - 8);
+        default:
+          if (additionalInfo < 24) return additionalInfo;
+          if (additionalInfo === 24) return this.readUint(1);
+          throw new Error(`Unexpected CBOR break at byte ${start}`);
+      }
+    }
+
+    const argument = this.readArgument(additionalInfo);
+    switch (majorType) {
+      case 0:
+      case 1:
+        if (argument === null) throw new Error(`Invalid CBOR integer at byte ${start}`);
+        return majorType === 0 ? argument : -1 - argument;
+      case 2:
+      case 3: {
+        const bytes = argument === null ? concatBytes(this.readChunks(majorType)) : this.readBytes(argument);
+        return majorType === 2 ? bytes : new TextDecoder('utf-8', { fatal: true }).decode(bytes);
+      }
+      case 4: {
+        const items: CborValue[] = [];
+        while (argument === null ? !this.isBreak() : items.length < argument) {
+          items.push(this.read());
+        }
+        return items;
+      }
+      case 5: {
+        const map: CborMap = {};
+        for (let i = 0; argument === null ? !this.isBreak() : i < argument; i++) {
+          const key = this.read();
+          map[typeof key === 'string' ? key : String(key)] = this.read();
+        }
+        return map;
+      }
+      default: {
+        if (argument === null) throw new Error(`Invalid CBOR tag at byte ${start}`);
+        const value = this.read();
+        return new CborTag(argument, value, this.bytes.slice(start, this.offset));
+      }
+    }
+  }
+}
+
+function concatBytes(chunks: Uint8Array[]): Uint8Array {
+  const bytes = new Uint8Array(chunks.reduce((length, chunk) => length + chunk.length, 0));
+  let offset = 0;
+  for (const chunk of chunks) {
+    bytes.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return bytes;
+}
+
+// Decode a single CBOR data item, throws for malformed or trailing data
+export function decodeCbor(bytes: Uint8Array): CborValue {
+  const reader = new CborReader(bytes);
+  const value = reader.read();
+  if (!reader.done) {
+    throw new Error('Unexpected data after the CBOR data item');
+  }
+  return value;
+}
+
+// Data item of an encoded CBOR tag (#6.24(bstr .cbor ...))
+export function decodeEmbeddedCbor(value: CborValue): CborValue {
+  if (!(value instanceof CborTag) || value.tag !== ENCODED_CBOR_TAG || !(value.value instanceof Uint8Array)) {
+    throw new Error('Expected an encoded CBOR data item (tag 24)');
+  }
+  return decodeCbor(value.value);
+}
+
+export function hexToBytes(hex: string): Uint8Array {
+  const clean = hex.replace(/\s+/g, '');
+  if (clean.length % 2 !== 0 || /[^0-9a-fA-F]/.test(clean)) {
+    throw new Error('Invalid hex string');
+  }
+  const bytes = new Uint8Array(clean.length / 2);
+  for (let i = 0; i < bytes.length; i++) {
+    bytes[i] = parseInt(clean.substr(i * 2, 2), 16);
+  }
+  return bytes;
+}
+
+export function bytesToHex(bytes: Uint8Array): string {
+  let hex = '';
+  for (let i = 0; i < bytes.length; i++) {
+    hex += (bytes[i] < 16 ? '0' : '') + bytes[i].toString(16);
+  }
+  return hex;
+}
@@ -0,0 +1,153 @@
+import axios from 'axios';
+
+export const PRE_AUTHORIZED_CODE_GRANT = 'urn:ietf:params:oauth:grant-type:pre-authorized_code';
+export const AUTHORIZATION_CODE_GRANT = 'authorization_code';
+
+const DEFAULT_TIMEOUT_MS = 10 * 60 * 1000;
+
+export type IssuanceSessionStatus = 'ACTIVE' | 'SUCCESSFUL' | 'UNSUCCESSFUL' | 'REJECTED_BY_USER' | 'EXPIRED';
+
+// Issuer API /openid4vc/session/{id}
+export interface IssuanceSessionInfo {
+    id: string;
+    grantType: string;
+    status: IssuanceSessionStatus;
+    statusReason?: string;
+    closed: boolean;
+    credentialConfigurationIds: string[];
+    authorizedAt?: string;
+    tokenIssuedAt?: string;
+    expiresAt: string;
+}
+
+export interface IssuanceStep {
+    label: string;
+    done: boolean;
+}
+
+// The issuance session id is the id of the credential_offer_uri and the issuer_state of authorization code offers
+export function getIssuanceSessionIdFromOffer(offerUrl: string): string | null {
+    try {
+        const params = new URL(offerUrl.replace(/^[a-z-]+:\/\/[^?]*/, 'https://offer')).searchParams;
+        const offerUri = params.get('credential_offer_uri');
+        if (offerUri) {
+            return new URL(offerUri).searchParams.get('id');
+        }
+        const offer = params.get('credential_offer');
+        return offer ? JSON.parse(offer).grants?.authorization_code?.issuer_state ?? null : null;
+    } catch (e) {
+        return null;
+    }
+}
+
+export function getIssuanceSteps(session: IssuanceSessionInfo): IssuanceStep[] {
+    const steps: IssuanceStep[] = [];
+    if (session.grantType === AUTHORIZATION_CODE_GRANT) {
+        steps.push({ label: 'Wallet authorized', done: !!session.authorizedAt });
+    }
+    steps.push({ label: 'Token redeemed', done: !!session.tokenIssuedAt });
+    steps.push({ label: 'Credential received', done: session.status === 'SUCCESSFUL' });
+    return steps;
+}
+
+export async function getIssuanceSession(
+    issuerURL: string,
+    sessionId: string,
+    signal?: AbortSignal
+): Promise<IssuanceSessionInfo> {
+    const response = await axios.get(`${issuerURL}/openid4vc/session/${encodeURIComponent(sessionId)}`, {
+        headers: { 'accept': 'application/json' },
+        signal,
+    });
+    return response.data;
+}
+
+export interface CheckIssuanceSessionOptions {
+    // Called with every change of the session
+    onUpdate?: (session: IssuanceSessionInfo) => void;
+    signal?: AbortSignal;
+    // Polling stops when the session has not finished by then
+    timeoutMs?: number;
+    pollIntervalMs?: number;
+    maxPollIntervalMs?: number;
+    // Failed requests in a row before giving up
+    maxErrors?: number;
+}
+
+/**
+ * Poll the issuer with backoff until the issuance session has finished.
+ * Calls onUpdate on every change and resolves with the final session, or null if it is unknown,
+ * did not finish in time, could not be read maxErrors times in a row or the signal aborts.
+ */
+export function checkIssuanceSession(
+    issuerURL: string,
+    sessionId: string,
+    options: CheckIssuanceSessionOptions = {}
+): Promise<IssuanceSessionInfo | null> {
+    const {
+        onUpdate,
+        signal,
+        timeoutMs = DEFAULT_TIMEOUT_MS,
+        pollIntervalMs = 1000,
+        maxPollIntervalMs = 5000,
+        maxErrors = 5,
+    } = options;
+
+    return new Promise((resolve) => {
+        // Cancels the request in flight once polling has ended
+        const controller = new AbortController();
+        let previous = '';
+        let finished = false;
+        let pollTimer: ReturnType<typeof setTimeout> | undefined;
+        let timeoutTimer: ReturnType<typeof setTimeout> | undefined;
+        let delay = pollIntervalMs;
+        let errors = 0;
+
+        const finish = (result: IssuanceSessionInfo | null) => {
+            if (finished) return;
+            finished = true;
+            clearTimeout(pollTimer);
+            clearTimeout(timeoutTimer);
+            controller.abort();
+            signal?.removeEventListener('abort', onAbort);
+            resolve(result);
+        };
+
+        const onAbort = () => finish(null);
+
+        const poll = async () => {
+            try {
+                const session = await getIssuanceSession(issuerURL, sessionId, controller.signal);
+                if (finished) return;
+                errors = 0;
+                const changed = JSON.stringify(session) !== previous;
+                if (changed) {
+                    previous = JSON.stringify(session);
+                    onUpdate?.(session);
+                }
+                if (session.closed || session.status !== 'ACTIVE') {
+                    return finish(session);
+                }
+                // Back off while nothing happens, look again soon after a change
+                delay = changed ? pollIntervalMs : Math.min(delay * 2, maxPollIntervalMs);
+            } catch (error) {
+                if (finished) return;
+                console.error("Error fetching issuance session:", error);
+                errors++;
+                // The issuer does not know the session, asking again will not change that
+                if ((error as any)?.response?.status === 404 || errors >= maxErrors) {
+                    return finish(null);
+                }
+                delay = Math.min(delay * 2, maxPollIntervalMs);
+            }
+            pollTimer = setTimeout(poll, delay);
+        };
+
+        if (signal?.aborted) {
+            return resolve(null);
+        }
+        signal?.addEventListener('abort', onAbort);
+        timeoutTimer = setTimeout(() => finish(null), timeoutMs);
+        poll();
+    });
+}
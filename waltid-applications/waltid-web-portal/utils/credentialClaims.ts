@@ -0,0 +1,97 @@
+/**
+ * Claims of a credential's subject as flat, editable list - shared by the credential editor and bulk issuance.
+ */
+
+export interface FlatClaim {
+  key: string;
+  path: string[];
+  value: any;
+  type: string;
+}
+
+// Flatten nested credential data for form display
+// The path is kept as array - mDoc namespaces such as 'org.iso.18013.5.1' contain dots
+export function flattenClaims(data: any, parentPath: string[] = []): FlatClaim[] {
+  const claims: FlatClaim[] = [];
+
+  for (const key in data) {
+    const value = data[key];
+    const currentPath = [...parentPath, key];
+
+    if (value !== null && typeof value === 'object' && !Array.isArray(value)) {
+      // Recurse into nested objects (like namespaces)
+      claims.push(...flattenClaims(value, currentPath));
+    } else {
+      // Leaf value - add as editable claim
+      let type = 'text';
+      if (typeof value === 'boolean') type = 'checkbox';
+      else if (typeof value === 'number') type = 'number';
+      else if (key.includes('date') || key.includes('Date')) type = 'date';
+
+      claims.push({
+        key,
+        path: currentPath,
+        value,
+        type,
+      });
+    }
+  }
+
+  return claims;
+}
+
+// Reconstruct nested object from flat claims
+export function unflattenClaims(claims: { path: string[]; value: any }[], originalStructure: any): any {
+  const result = JSON.parse(JSON.stringify(originalStructure)); // Deep clone
+
+  for (const claim of claims) {
+    let current = result;
+    for (let i = 0; i < claim.path.length - 1; i++) {
+      if (!current[claim.path[i]]) {
+        current[claim.path[i]] = {};
+      }
+      current = current[claim.path[i]];
+    }
+    current[claim.path[claim.path.length - 1]] = claim.value;
+  }
+
+  return result;
+}
+
+// Format claim key for display (snake_case to Title Case)
+export function formatClaimLabel(key: string): string {
+  return key
+    .replace(/_/g, ' ')
+    .replace(/\b\w/g, (c) => c.toUpperCase());
+}
+
+// Extract credential subject from offer - handles both W3C and mDoc formats
+export function extractCredentialSubject(offer: any): any {
+  // W3C format: offer.credentialSubject
+  if (offer.credentialSubject) {
+    return offer.credentialSubject;
+  }
+  // mDoc format: offer[namespace] where namespace is a key like 'eu.europa.ec.eudi.pid.1'
+  const namespaceKeys = Object.keys(offer).filter(k =>
+    typeof offer[k] === 'object' && !Array.isArray(offer[k])
+  );
+  if (namespaceKeys.length > 0) {
+    // Return all namespace data combined for editing
+    const combined: any = {};
+    for (const ns of namespaceKeys) {
+      combined[ns] = offer[ns];
+    }
+    return combined;
+  }
+  return offer;
+}
+
+// Offer with an edited credential subject, the inverse of extractCredentialSubject
+export function withCredentialSubject(offer: any, credentialSubject: any): any {
+  // W3C format
+  if (offer.credentialSubject) {
+    return { ...offer, credentialSubject };
+  }
+  // mDoc format - credentialSubject IS the namespaced data
+  return { ...credentialSubject };
+}
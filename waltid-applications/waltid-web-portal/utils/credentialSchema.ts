@@ -0,0 +1,227 @@
+import axios from "axios";
+import Ajv, {ErrorObject, ValidateFunction} from "ajv";
+import Ajv2019 from "ajv/dist/2019";
+import Ajv2020 from "ajv/dist/2020";
+import addFormats from "ajv-formats";
+import {AvailableCredential, getDefaultFormatForCredential, mapFormat} from "@/types/credentials";
+import {extractCredentialSubject} from "@/utils/credentialClaims";
+import {getMdocSchema} from "@/utils/mdocDataElements";
+
+/**
+ * Validation of edited credential data against the JSON Schema of the credential:
+ * the credentialSchema of W3C credentials, the vct type metadata of SD-JWT VCs and the data element types of mDocs.
+ * Errors carry the claim path of the credential subject, as flattened by the credential editor.
+ */
+
+export type CredentialSchemaKind = 'credentialSchema' | 'typeMetadata' | 'mdoc';
+
+export interface CredentialSchema {
+  kind: CredentialSchemaKind;
+  // Schema URL, or the standard defining the data element types
+  source: string;
+  schema: any;
+}
+
+export interface ClaimError {
+  // Relative to the credential subject, empty for the subject itself
+  path: string[];
+  message: string;
+}
+
+// Claims of an SD-JWT VC the issuer adds
+const ISSUER_CLAIMS = ['iss', 'sub', 'iat', 'nbf', 'exp', 'vct', 'vct#integrity', 'cnf', 'status', 'id', '_sd', '_sd_alg'];
+
+const SCHEMA_DRAFTS: Record<string, () => Ajv> = {
+  'https://json-schema.org/draft/2020-12/schema': () => new Ajv2020({ allErrors: true, strict: false, validateSchema: false }),
+  'https://json-schema.org/draft/2019-09/schema': () => new Ajv2019({ allErrors: true, strict: false, validateSchema: false }),
+};
+
+const FORMAT_NAMES: Record<string, string> = {
+  date: 'a date (YYYY-MM-DD)',
+  'date-time': 'a date and time (ISO 8601)',
+  email: 'an email address',
+  uri: 'a URL',
+};
+
+const validators = new WeakMap<object, ValidateFunction>();
+
+// Compiled validator of a schema - throws for schemas with unresolvable references
+function getValidator(schema: any): ValidateFunction {
+  let validate = validators.get(schema);
+  if (!validate) {
+    const draft = String(schema.$schema ?? '').replace(/#$/, '');
+    const ajv = SCHEMA_DRAFTS[draft]?.() ?? new Ajv({ allErrors: true, strict: false, validateSchema: false });
+    addFormats(ajv);
+    validate = ajv.compile(schema);
+    validators.set(schema, validate);
+  }
+  return validate;
+}
+
+function parsePointer(pointer: string): string[] {
+  return pointer === ''
+    ? []
+    : pointer.slice(1).split('/').map((segment) => segment.replace(/~1/g, '/').replace(/~0/g, '~'));
+}
+
+function describeError(error: ErrorObject, errors: ErrorObject[]): string {
+  switch (error.keyword) {
+    case 'format':
+      return FORMAT_NAMES[error.params.format] ? `must be ${FORMAT_NAMES[error.params.format]}` : error.message!;
+    case 'enum':
+      return `must be one of ${error.params.allowedValues.join(', ')}`;
+    case 'anyOf':
+    case 'oneOf':
+      return errors
+        .filter((branch) => branch.schemaPath.startsWith(`${error.schemaPath}/`))
+        .map((branch) => describeError(branch, errors))
+        .filter((message, index, messages) => messages.indexOf(message) === index)
+        .join(' or ') || error.message!;
+    default:
+      return error.message!;
+  }
+}
+
+// Claim path of an error location, undefined for data the issuer adds
+function toClaimPath(kind: CredentialSchemaKind, path: string[], error: ErrorObject): string[] | undefined {
+  switch (kind) {
+    case 'credentialSchema':
+      return path[0] === 'credentialSubject' ? path.slice(1) : undefined;
+    case 'typeMetadata':
+      // SD-JWT VC claims are top-level, next to the claims of the issuer
+      return path.length === 0 && error.keyword === 'required' && ISSUER_CLAIMS.includes(error.params.missingProperty)
+        ? undefined
+        : path;
+    case 'mdoc':
+      return path;
+  }
+}
+
+export function validateCredentialSubject(credentialSubject: any, credentialSchema: CredentialSchema): ClaimError[] {
+  const validate = getValidator(credentialSchema.schema);
+  const instance = credentialSchema.kind === 'credentialSchema' ? { credentialSubject } : credentialSubject;
+  if (validate(instance)) {
+    return [];
+  }
+
+  const errors = validate.errors ?? [];
+  // Branches of anyOf/oneOf are reported through the combined error
+  const combined = errors.filter((error) => error.keyword === 'anyOf' || error.keyword === 'oneOf');
+  const claimErrors: ClaimError[] = [];
+  for (const error of errors) {
+    if (combined.some((parent) => error.schemaPath.startsWith(`${parent.schemaPath}/`))) continue;
+    const path = parsePointer(error.instancePath);
+    if (error.keyword === 'additionalProperties') {
+      path.push(error.params.additionalProperty);
+    }
+    const claimPath = toClaimPath(credentialSchema.kind, path, error);
+    if (!claimPath) continue;
+    const message = describeError(error, errors);
+    if (!claimErrors.some((e) => e.message === message && e.path.join('/') === claimPath.join('/'))) {
+      claimErrors.push({ path: claimPath, message });
+    }
+  }
+  return claimErrors;
+}
+
+function isWithin(path: string[], claimPath: string[]): boolean {
+  return claimPath.length <= path.length && claimPath.every((segment, index) => segment === path[index]);
+}
+
+// Errors of a claim, errors inside array values name their position
+export function getClaimErrors(errors: ClaimError[], claimPath: string[]): string[] {
+  return errors
+    .filter((error) => isWithin(error.path, claimPath))
+    .map((error) => error.path.length > claimPath.length
+      ? `${error.path.slice(claimPath.length).join('.')}: ${error.message}`
+      : error.message);
+}
+
+// Errors that belong to none of the claims, such as missing required claims
+export function getOtherErrors(errors: ClaimError[], claimPaths: string[][]): ClaimError[] {
+  return errors.filter((error) => !claimPaths.some((claimPath) => isWithin(error.path, claimPath)));
+}
+
+// SD-JWT VC type metadata location of a vct URL: https://example.com/a/b -> https://example.com/.well-known/vct/a/b
+export function getTypeMetadataUrl(vct?: string): string | undefined {
+  if (!vct || !/^https?:\/\//.test(vct)) {
+    return undefined;
+  }
+  const url = new URL(vct);
+  return `${url.origin}/.well-known/vct${url.pathname === '/' ? '' : url.pathname}`;
+}
+
+// JSON Schema references of a W3C credential
+export function getCredentialSchemaUrls(offer: any): string[] {
+  const entries = Array.isArray(offer?.credentialSchema) ? offer.credentialSchema : [offer?.credentialSchema];
+  return entries
+    .filter((entry: any) => typeof entry?.id === 'string' && /JsonSchema/i.test(entry.type ?? 'JsonSchema'))
+    .map((entry: any) => entry.id);
+}
+
+const schemaRequests = new Map<string, Promise<any>>();
+
+function fetchJson(url: string): Promise<any> {
+  if (!schemaRequests.has(url)) {
+    const request = axios.get(url).then((response) => response.data);
+    // Failed requests are retried on the next call
+    request.catch(() => schemaRequests.delete(url));
+    schemaRequests.set(url, request);
+  }
+  return schemaRequests.get(url)!;
+}
+
+async function fetchSchemaSource(credential: AvailableCredential, protocol: string): Promise<CredentialSchema | null> {
+  if (protocol === 'mso_mdoc') {
+    const schema = getMdocSchema(Object.keys(extractCredentialSubject(credential.offer)));
+    return schema && { kind: 'mdoc', source: 'ISO/IEC 18013-5', schema };
+  }
+
+  if (protocol === 'vc+sd-jwt' || protocol === 'dc+sd-jwt') {
+    const metadataUrl = getTypeMetadataUrl(credential.vcts?.[protocol] ?? credential.offer.vct);
+    if (!metadataUrl) return null;
+    const metadata = await fetchJson(metadataUrl);
+    if (metadata.schema) {
+      return { kind: 'typeMetadata', source: metadataUrl, schema: metadata.schema };
+    }
+    return metadata.schema_uri
+      ? { kind: 'typeMetadata', source: metadata.schema_uri, schema: await fetchJson(metadata.schema_uri) }
+      : null;
+  }
+
+  const [schemaUrl] = getCredentialSchemaUrls(credential.offer);
+  if (!schemaUrl) return null;
+  const document = await fetchJson(schemaUrl);
+  // JsonSchemaCredential: a credential wrapping the schema
+  const schema = document.credentialSubject?.jsonSchema ?? document;
+  return { kind: 'credentialSchema', source: schemaUrl, schema };
+}
+
+/**
+ * Schema of a credential in a portal format, null if the credential has none.
+ * Unreachable or unusable schemas are skipped - they do not prevent issuance.
+ */
+export async function fetchCredentialSchema(credential: AvailableCredential, format: string): Promise<CredentialSchema | null> {
+  try {
+    const credentialSchema = await fetchSchemaSource(credential, mapFormat(format));
+    if (credentialSchema) {
+      getValidator(credentialSchema.schema);
+    }
+    return credentialSchema;
+  } catch (e) {
+    console.warn(`Skipping schema validation of ${credential.title}:`, e);
+    return null;
+  }
+}
+
+// Problems of the credentials to issue, one message per claim
+export async function validateCredentials(credentials: AvailableCredential[]): Promise<string[]> {
+  const problems = await Promise.all(credentials.map(async (credential) => {
+    const format = (credential.selectedFormat ?? getDefaultFormatForCredential(credential)).toString();
+    const credentialSchema = await fetchCredentialSchema(credential, format);
+    if (!credentialSchema) return [];
+    return validateCredentialSubject(extractCredentialSubject(credential.offer), credentialSchema)
+      .map((error) => `${credential.title}: ${error.path.length > 0 ? `${error.path.join('.')} ` : ''}${error.message}`);
+  }));
+  return problems.flat();
+}
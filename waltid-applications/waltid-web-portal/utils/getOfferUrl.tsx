@@ -1,6 +1,41 @@
 import axios from "axios";
 import {v4 as uuidv4} from "uuid";
-import {AvailableCredential, CredentialFormats, DIDMethods, DIDMethodsConfig} from "@/types/credentials";
+import {AvailableCredential, buildTxCode, CredentialFormats, IssueEndpoint, MIXED_ISSUE_ENDPOINT, TxCodeSettings} from "@/types/credentials";
+import {getIssuancePayloadBuilder, IssuancePayload, IssuancePayloadBuilder, IssuancePayloadContext} from "@/utils/issuancePayloads";
+import {StatusClaim} from "@/types/statusLists";
+import {APPROVAL_ISSUANCE_REQUEST, APPROVAL_SESSION_TTL} from "@/types/deferredIssuance";
+import {buildIssuanceRecord, recordIssuanceOffer} from "@/utils/issuanceHistory";
+
+// Issuer endpoint for the offer - credentials of different format families share one mixed batch offer
+export function getIssueEndpoint(credentials: Array<AvailableCredential>): IssueEndpoint {
+  const endpoints = new Set(
+    credentials.map((c) => getIssuancePayloadBuilder((c.selectedFormat ?? CredentialFormats[0]).toString()).endpoint)
+  );
+  // The mdoc endpoint has no batch variant
+  if (endpoints.size > 1 || (credentials.length > 1 && endpoints.has('mdoc'))) {
+    return MIXED_ISSUE_ENDPOINT;
+  }
+  return endpoints.values().next().value ?? 'jwt';
+}
+
+async function fetchVcRepoMapping(vcRepoUrl: string, credentialId: string) {
+  return fetch(`${vcRepoUrl}/api/mapping/${credentialId}`)
+    .then((data) => data.json())
+    .catch(() => null);
+}
+
+// Reserve an entry on the portal status list of the credential's format
+async function allocateStatusClaim(builder: IssuancePayloadBuilder, credential: AvailableCredential): Promise<StatusClaim | undefined> {
+  if (!builder.statusListId) {
+    return undefined;
+  }
+  const response = await axios.post(`/api/status-lists/${builder.statusListId}`, {
+    credentialId: credential.id,
+    credentialTitle: credential.title,
+    format: credential.selectedFormat?.toString(),
+  });
+  return response.data.claim;
+}
 
 const getOfferUrl = async (
   credentials: Array<AvailableCredential>,
@@ -9,245 +44,66 @@ const getOfferUrl = async (
   authenticationMethod?: string,
   vpRequestValue?: string,
   vpProfile?: string,
-  useServerKeys?: boolean
+  useServerKeys?: boolean,
+  txCodeSettings?: TxCodeSettings,
+  withStatusList?: boolean,
+  requireApproval?: boolean
 ) => {
+  // Validated up front so an invalid PIN never creates an issuance session
+  const txCode = txCodeSettings ? buildTxCode(txCodeSettings) : undefined;
+
   const data = await fetch(
     `${NEXT_PUBLIC_ISSUER}/draft13/.well-known/openid-credential-issuer`
   ).then((data) => {
     return data.json();
   });
-  const credential_configurations_supported =
-    data.credential_configurations_supported;
+  const context: IssuancePayloadContext = {
+    configurations: data.credential_configurations_supported,
+    fetchMapping: (credentialId) => fetchVcRepoMapping(NEXT_PUBLIC_VC_REPO, credentialId),
+  };
 
   const payload = await Promise.all(
-    credentials.map(async (c) => {
-      c = {
-        ...c,
-        selectedFormat: c.selectedFormat ?? CredentialFormats[0],
-        selectedDID: c.selectedDID ?? DIDMethods[0],
-      };
-
+    credentials.map(async (c): Promise<IssuancePayload> => {
+      const builder = getIssuancePayloadBuilder((c.selectedFormat ?? CredentialFormats[0]).toString());
       const offer = { ...c.offer, id: uuidv4() };
-      let payload: {
-        issuerDid?: string;
-        issuerKey?: { type: string; jwk: object };
-        credentialConfigurationId: string;
-        credentialData: any;
-        mapping?: any;
-        selectiveDisclosure?: any;
-        authenticationMethod?: string;
-        vpRequestValue?: string;
-        vpProfile?: string;
-      } = {
-        // Only include issuerDid/issuerKey when NOT using server keys
-        ...(useServerKeys ? {} : {
-          issuerDid:
-            DIDMethodsConfig[c.selectedDID as keyof typeof DIDMethodsConfig]
-              .issuerDid,
-          issuerKey:
-            DIDMethodsConfig[c.selectedDID as keyof typeof DIDMethodsConfig]
-              .issuerKey,
-        }),
-        credentialConfigurationId: Object.keys(
-          credential_configurations_supported
-        ).find((key) => key === c.id + '_jwt_vc_json') as string,
-        credentialData: offer,
-      };
-
-      if (c.selectedFormat === 'mDoc (ISO 18013-5)') {
-        // mDoc format - uses mdocData instead of credentialData
-        // Look for matching mDoc credential configuration - prioritize exact ID match
-        const exactMatch = Object.keys(credential_configurations_supported).find((key) => {
-          const config = credential_configurations_supported[key];
-          return config.format === 'mso_mdoc' && key === c.id;
-        });
-        payload.credentialConfigurationId = exactMatch || Object.keys(
-          credential_configurations_supported
-        ).find((key) => {
-          const config = credential_configurations_supported[key];
-          return config.format === 'mso_mdoc' &&
-                 key.toLowerCase().includes(c.id.toLowerCase().replace(/\s+/g, '_'));
-        }) as string;
-
-        // For mDoc, the offer data should already be in namespace format
-        // Convert credentialData to mdocData format
-        const mdocData: any = {};
-        const docType = credential_configurations_supported[payload.credentialConfigurationId]?.docType || 'org.iso.18013.5.1.mDL';
-
-        // Check for namespace format in offer
-        // Note: namespace may differ from docType (e.g., mDL uses namespace 'org.iso.18013.5.1' but docType 'org.iso.18013.5.1.mDL')
-        const namespaceKeys = Object.keys(offer).filter(k => k !== 'id' && typeof offer[k] === 'object');
-
-        if (namespaceKeys.length > 0) {
-          // Offer already has namespace format - copy all namespaces
-          for (const ns of namespaceKeys) {
-            mdocData[ns] = { ...offer[ns] };
-          }
-        } else if (offer.credentialSubject) {
-          // Convert W3C-style to mDoc namespace format
-          mdocData[docType] = { ...offer.credentialSubject };
-        } else {
-          // Use offer as-is for the namespace
-          const { id, ...offerData } = offer;
-          mdocData[docType] = offerData;
-        }
-
-        // Replace credentialData with mdocData
-        delete (payload as any).credentialData;
-        (payload as any).mdocData = mdocData;
-
-        // Remove mapping for mDoc
-        delete (payload as any).mapping;
-
-      } else if (c.selectedFormat === 'DC+SD-JWT (EUDI)') {
-        // DC+SD-JWT format for EUDI wallet
-        payload.mapping = {
-          iat: '<timestamp-seconds>',
-          nbf: '<timestamp-seconds>',
-          exp: '<timestamp-in-seconds:365d>',
-        };
-
-        // Remove W3C-specific fields
-        delete payload.credentialData['@context'];
-        delete payload.credentialData['type'];
-        delete payload.credentialData['validFrom'];
-        delete payload.credentialData['expirationDate'];
-        delete payload.credentialData['issuanceDate'];
-        delete payload.credentialData['issued'];
-        delete payload.credentialData['issuer'];
-        delete payload.credentialData['id'];
-
-        // Find matching DC+SD-JWT credential configuration
-        // First try exact match with credential ID, then look for dc+sd-jwt variant
-        const exactDcSdJwtMatch = Object.keys(credential_configurations_supported).find((key) => {
-          const config = credential_configurations_supported[key];
-          return config.format === 'dc+sd-jwt' && key === c.id;
-        });
-        payload.credentialConfigurationId = exactDcSdJwtMatch || Object.keys(
-          credential_configurations_supported
-        ).find((key) => {
-          const config = credential_configurations_supported[key];
-          return config.format === 'dc+sd-jwt' &&
-                 key.toLowerCase().includes(c.id.toLowerCase().replace(/\s+/g, '_'));
-        }) as string;
-
-        payload.selectiveDisclosure = { fields: {} };
-        // Flatten credentialSubject for DC+SD-JWT
-        const subjectData = offer.credentialSubject || offer;
-        for (const key in subjectData) {
-          if (typeof subjectData[key] === 'string' || typeof subjectData[key] === 'boolean') {
-            payload.selectiveDisclosure.fields[key] = {
-              sd: true,
-            };
-          }
-        }
-      } else if (c.selectedFormat === 'SD-JWT + IETF SD-JWT VC') {
-        payload.mapping = {
-          id: '<uuid>',
-          iat: '<timestamp-seconds>',
-          nbf: '<timestamp-seconds>',
-          exp: '<timestamp-in-seconds:365d>',
-        };
-
-        // Hack - remove the following fields as they used for w3c only
-        delete payload.credentialData['@context'];
-        delete payload.credentialData['type'];
-        delete payload.credentialData['validFrom'];
-        delete payload.credentialData['expirationDate'];
-        delete payload.credentialData['issuanceDate'];
-        delete payload.credentialData['issued'];
-        delete payload.credentialData['issuer'];
-
-        payload.credentialConfigurationId = Object.keys(
-          credential_configurations_supported
-        ).find((key) => key === c.id + '_vc+sd-jwt') as string;
-        payload.selectiveDisclosure = { fields: {} };
-        for (const key in offer.credentialSubject) {
-          if (typeof offer.credentialSubject[key] === 'string') {
-            payload.selectiveDisclosure.fields[key] = {
-              sd: true,
-            };
-          }
-        }
-      } else {
-        payload.mapping = await await fetch(
-          `${NEXT_PUBLIC_VC_REPO}/api/mapping/${c.id}`
-        )
-          .then((data) => {
-            return data.json();
-          })
-          .catch((err) => {
-            return null;
-          });
-
-        if (c.selectedFormat === 'SD-JWT + W3C VC') {
-          payload.selectiveDisclosure = {
-            fields: {
-              credentialSubject: {
-                sd: false,
-                children: {
-                  fields: {},
-                },
-              },
-            },
-          };
-          for (const key in offer.credentialSubject) {
-            if (typeof offer.credentialSubject[key] === 'string' || typeof offer.credentialSubject[key] === 'boolean') {
-              payload.selectiveDisclosure.fields.credentialSubject.children.fields[
-                key
-              ] = {
-                sd: true,
-              };
-            }
-          }
-        }
-      }
-
-      if (authenticationMethod) {
-        payload.authenticationMethod = authenticationMethod;
-      }
-      if (vpRequestValue) {
-        payload.vpRequestValue = vpRequestValue;
-      }
-      if (vpProfile) {
-        payload.vpProfile = vpProfile;
+      const issuancePayload = await builder.build(c, offer, context);
+      // mDocs have no portal status list and are issued without status
+      const statusClaim = withStatusList ? await allocateStatusClaim(builder, c) : undefined;
+      if (statusClaim) {
+        issuancePayload.credentialData = { ...issuancePayload.credentialData, ...statusClaim };
       }
 
-      if (c.selectedFormat === 'SD-JWT + IETF SD-JWT VC' || c.selectedFormat === 'DC+SD-JWT (EUDI)') {
-        const { credentialSubject, ...restOfCredentialData } =
-          payload.credentialData; // Destructure credentialSubject and the rest
-        return {
-          ...payload, // Keep the rest of the payload unchanged
-          credentialData: {
-            ...restOfCredentialData, // Spread other fields from credentialData (e.g., id, issuer)
-            ...credentialSubject, // Spread fields from credentialSubject to the top level of credentialData
-          },
-        };
-      } else if (c.selectedFormat === 'mDoc (ISO 18013-5)') {
-        // mDoc payload already has mdocData instead of credentialData
-        return payload;
-      } else {
-        return payload;
-      }
+      return {
+        // Only reference a portal signing profile when NOT using the issuer's server keys.
+        // The portal API resolves it to issuerDid/issuerKey, an empty id selects the default profile.
+        ...(useServerKeys && builder.supportsServerKeys ? {} : {
+          signingProfile: c.selectedDID?.toString() ?? '',
+        }),
+        ...issuancePayload,
+        ...(authenticationMethod && { authenticationMethod }),
+        ...(vpRequestValue && { vpRequestValue }),
+        ...(vpProfile && { vpProfile }),
+        ...txCode,
+        ...(requireApproval && APPROVAL_ISSUANCE_REQUEST),
+      };
     })
   );
 
-  // Determine the issue endpoint based on format
-  const selectedFormat = credentials[0].selectedFormat;
-  let issueEndpoint: string;
-
-  if (selectedFormat === 'mDoc (ISO 18013-5)') {
-    issueEndpoint = 'mdoc';
-  } else if (selectedFormat === 'SD-JWT + W3C VC' || selectedFormat === 'SD-JWT + IETF SD-JWT VC' || selectedFormat === 'DC+SD-JWT (EUDI)') {
-    issueEndpoint = 'sdjwt';
-  } else {
-    issueEndpoint = 'jwt';
-  }
+  // Issued through the portal API, which holds the signing keys
+  const response = await axios.post('/api/issue', {
+    endpoint: getIssueEndpoint(credentials),
+    payload: payload.length > 1 ? payload : payload[0],
+    // Leave the operator time to approve before the held credentials expire with the session
+    ...(requireApproval && { sessionTtl: APPROVAL_SESSION_TTL }),
+  });
 
-  const issueUrl =
-    NEXT_PUBLIC_ISSUER +
-    `/openid4vc/${issueEndpoint}/${payload.length > 1 ? 'issueBatch' : 'issue'}`;
-  return axios.post(issueUrl, payload.length > 1 ? payload : payload[0]);
+  await recordIssuanceOffer(buildIssuanceRecord(credentials, NEXT_PUBLIC_ISSUER, response.data, {
+    authenticationMethod,
+    txCode: !!txCode,
+    statusList: !!withStatusList,
+    requireApproval: !!requireApproval,
+  }));
+  return response;
 };
 
 export { getOfferUrl };
@@ -0,0 +1,45 @@
+import axios from "axios";
+import {AvailableCredential} from "@/types/credentials";
+import {IssuanceRecord, NewIssuanceRecord} from "@/types/issuanceHistory";
+import {getIssuanceSessionIdFromOffer, IssuanceSessionInfo} from "@/utils/checkIssuanceSession";
+
+const ISSUANCE_HISTORY_API = '/api/issuance-history';
+
+export function buildIssuanceRecord(
+  credentials: Array<AvailableCredential>,
+  issuerUrl: string,
+  offerUrl: string,
+  options: Pick<NewIssuanceRecord, 'authenticationMethod' | 'txCode' | 'statusList' | 'requireApproval'> = {}
+): NewIssuanceRecord {
+  const sessionId = getIssuanceSessionIdFromOffer(offerUrl);
+  return {
+    ...(sessionId && { sessionId }),
+    issuerUrl,
+    offerUrl,
+    credentials: credentials.map((c) => ({
+      id: c.id,
+      title: c.title,
+      format: c.selectedFormat?.toString(),
+    })),
+    ...options,
+  };
+}
+
+// The log is informational - a failure to record an offer never fails the issuance
+export async function recordIssuanceOffer(record: NewIssuanceRecord): Promise<IssuanceRecord | null> {
+  try {
+    return (await axios.post(ISSUANCE_HISTORY_API, record)).data;
+  } catch (e) {
+    console.error('Error recording credential offer:', e);
+    return null;
+  }
+}
+
+export async function updateIssuanceRecord(id: string, session: IssuanceSessionInfo): Promise<IssuanceRecord | null> {
+  try {
+    return (await axios.put(`${ISSUANCE_HISTORY_API}/${encodeURIComponent(id)}`, session)).data;
+  } catch (e) {
+    console.error('Error updating issuance record:', e);
+    return null;
+  }
+}
@@ -0,0 +1,190 @@
+import {AvailableCredential, IssueEndpoint, TxCode} from "@/types/credentials";
+import {buildSelectiveDisclosure, SDMap} from "@/utils/selectiveDisclosure";
+import {StatusListId} from "@/types/statusLists";
+
+/**
+ * Issuer API issuance requests, one builder per portal credential format.
+ * A new format registers its builder in ISSUANCE_PAYLOAD_BUILDERS.
+ */
+
+// Single entry of an Issuer API issue/issueBatch request
+export interface IssuancePayload {
+  signingProfile?: string;
+  credentialConfigurationId: string;
+  credentialData?: { [key: string]: any };
+  mdocData?: { [namespace: string]: { [element: string]: any } };
+  mapping?: any;
+  selectiveDisclosure?: SDMap;
+  authenticationMethod?: string;
+  vpRequestValue?: string;
+  vpProfile?: string;
+  txCode?: TxCode;
+  txCodeValue?: string;
+}
+
+export interface IssuancePayloadContext {
+  // credential_configurations_supported of the issuer metadata
+  configurations: { [configurationId: string]: any };
+  // Data mapping of the VC repository for a credential type, or null
+  fetchMapping: (credentialId: string) => Promise<any>;
+}
+
+export interface IssuancePayloadBuilder {
+  endpoint: Exclude<IssueEndpoint, 'mixed'>;
+  // Whether the issuer's own signing keys can be used instead of a portal signing profile
+  supportsServerKeys?: boolean;
+  // SD-JWT formats: value types of top-level claims that are selectively disclosable by default
+  disclosableTypes?: string[];
+  // Portal status list the credentials of the format can be revoked through
+  statusListId?: StatusListId;
+  // Format specific part of the payload for the credential data (offer) of a credential
+  build(
+    credential: AvailableCredential,
+    offer: { [key: string]: any },
+    context: IssuancePayloadContext
+  ): Promise<IssuancePayload>;
+}
+
+// Members of W3C credentials that SD-JWT VCs do not carry
+const W3C_MEMBERS = ['@context', 'type', 'validFrom', 'expirationDate', 'issuanceDate', 'issued', 'issuer'];
+
+// Value types of the claims the SD-JWT formats make selectively disclosable by default
+const STRING_CLAIMS = ['string'];
+const STRING_AND_BOOLEAN_CLAIMS = ['string', 'boolean'];
+
+const MDOC_DEFAULT_DOCTYPE = 'org.iso.18013.5.1.mDL';
+
+function withoutMembers(data: { [key: string]: any }, members: string[]) {
+  return Object.fromEntries(Object.entries(data).filter(([key]) => !members.includes(key)));
+}
+
+// Move the credentialSubject claims to the top level, as SD-JWT VCs have no subject object
+function flattenCredentialSubject(data: { [key: string]: any }) {
+  const { credentialSubject, ...rest } = data;
+  return { ...rest, ...credentialSubject };
+}
+
+// Claims the disclosure settings of SD-JWT formats refer to - the credential subject, or the offer itself
+export function getSubjectClaims(offer: { [key: string]: any }): { [key: string]: any } {
+  return offer.credentialSubject ?? withoutMembers(offer, [...W3C_MEMBERS, 'id']);
+}
+
+// Configuration of the format with the credential id as key, or a key containing it
+export function findConfigurationId(
+  configurations: IssuancePayloadContext['configurations'],
+  format: string,
+  credentialId: string
+): string {
+  const keys = Object.keys(configurations).filter((key) => configurations[key].format === format);
+  return (keys.find((key) => key === credentialId) ??
+    keys.find((key) => key.toLowerCase().includes(credentialId.toLowerCase().replace(/\s+/g, '_')))) as string;
+}
+
+const jwtVcJsonBuilder: IssuancePayloadBuilder = {
+  endpoint: 'jwt',
+  statusListId: 'revocation',
+  async build(credential, offer, { configurations, fetchMapping }) {
+    return {
+      credentialConfigurationId: Object.keys(configurations).find((key) => key === credential.id + '_jwt_vc_json') as string,
+      credentialData: offer,
+      mapping: await fetchMapping(credential.id),
+    };
+  },
+};
+
+// W3C JWT with selectively disclosable credentialSubject claims
+const w3cSdJwtBuilder: IssuancePayloadBuilder = {
+  endpoint: 'sdjwt',
+  disclosableTypes: STRING_AND_BOOLEAN_CLAIMS,
+  statusListId: 'revocation',
+  async build(credential, offer, context) {
+    return {
+      ...(await jwtVcJsonBuilder.build(credential, offer, context)),
+      selectiveDisclosure: {
+        fields: {
+          credentialSubject: {
+            sd: false,
+            children: buildSelectiveDisclosure(getSubjectClaims(offer), credential.disclosures, STRING_AND_BOOLEAN_CLAIMS),
+          },
+        },
+      },
+    };
+  },
+};
+
+const ietfSdJwtVcBuilder: IssuancePayloadBuilder = {
+  endpoint: 'sdjwt',
+  disclosableTypes: STRING_CLAIMS,
+  statusListId: 'token',
+  async build(credential, offer, { configurations }) {
+    return {
+      credentialConfigurationId: Object.keys(configurations).find((key) => key === credential.id + '_vc+sd-jwt') as string,
+      credentialData: flattenCredentialSubject(withoutMembers(offer, W3C_MEMBERS)),
+      mapping: {
+        id: '<uuid>',
+        iat: '<timestamp-seconds>',
+        nbf: '<timestamp-seconds>',
+        exp: '<timestamp-in-seconds:365d>',
+      },
+      selectiveDisclosure: buildSelectiveDisclosure(getSubjectClaims(offer), credential.disclosures, STRING_CLAIMS),
+    };
+  },
+};
+
+// DC+SD-JWT for EUDI wallets
+const dcSdJwtBuilder: IssuancePayloadBuilder = {
+  endpoint: 'sdjwt',
+  disclosableTypes: STRING_AND_BOOLEAN_CLAIMS,
+  statusListId: 'token',
+  async build(credential, offer, { configurations }) {
+    const data = withoutMembers(offer, [...W3C_MEMBERS, 'id']);
+    return {
+      credentialConfigurationId: findConfigurationId(configurations, 'dc+sd-jwt', credential.id),
+      credentialData: flattenCredentialSubject(data),
+      mapping: {
+        iat: '<timestamp-seconds>',
+        nbf: '<timestamp-seconds>',
+        exp: '<timestamp-in-seconds:365d>',
+      },
+      selectiveDisclosure: buildSelectiveDisclosure(getSubjectClaims(offer), credential.disclosures, STRING_AND_BOOLEAN_CLAIMS),
+    };
+  },
+};
+
+// ISO 18013-5 mDoc - claims are issued as mdocData by namespace
+const mdocBuilder: IssuancePayloadBuilder = {
+  endpoint: 'mdoc',
+  supportsServerKeys: true,
+  async build(credential, offer, { configurations }) {
+    const credentialConfigurationId = findConfigurationId(configurations, 'mso_mdoc', credential.id);
+    const docType = configurations[credentialConfigurationId]?.docType || MDOC_DEFAULT_DOCTYPE;
+
+    // The namespace may differ from the docType, e.g. mDL uses 'org.iso.18013.5.1' for 'org.iso.18013.5.1.mDL'
+    const namespaces = Object.keys(offer).filter((key) => key !== 'id' && typeof offer[key] === 'object');
+    let mdocData: IssuancePayload['mdocData'];
+    if (namespaces.length > 0) {
+      mdocData = Object.fromEntries(namespaces.map((namespace) => [namespace, { ...offer[namespace] }]));
+    } else if (offer.credentialSubject) {
+      // W3C-style offer data goes into the docType namespace
+      mdocData = { [docType]: { ...offer.credentialSubject } };
+    } else {
+      const { id, ...offerData } = offer;
+      mdocData = { [docType]: offerData };
+    }
+
+    return { credentialConfigurationId, mdocData };
+  },
+};
+
+export const ISSUANCE_PAYLOAD_BUILDERS: { [formatLabel: string]: IssuancePayloadBuilder } = {
+  'JWT + W3C VC': jwtVcJsonBuilder,
+  'SD-JWT + W3C VC': w3cSdJwtBuilder,
+  'SD-JWT + IETF SD-JWT VC': ietfSdJwtVcBuilder,
+  'DC+SD-JWT (EUDI)': dcSdJwtBuilder,
+  'mDoc (ISO 18013-5)': mdocBuilder,
+};
+
+// Formats without a builder of their own are issued as W3C JWT
+export function getIssuancePayloadBuilder(formatLabel?: string): IssuancePayloadBuilder {
+  return (formatLabel && ISSUANCE_PAYLOAD_BUILDERS[formatLabel]) || jwtVcJsonBuilder;
+}
@@ -0,0 +1,307 @@
+import {base64ToBytes, bytesToBase64Url} from "@/utils/base64";
+import {CborMap, CborTag, CborValue, decodeCbor, decodeEmbeddedCbor} from "@/utils/cbor";
+import {CertificateSummary, parseCertificate} from "@/utils/x509";
+
+/**
+ * ISO/IEC 18013-5 DeviceResponse, as presented for mso_mdoc credentials in an OpenID4VP vp_token.
+ * The structures are decoded for display: the issuer signature and the device authentication are not verified.
+ */
+
+export interface IssuerSignedItem {
+  digestID: number;
+  random: Uint8Array;
+  elementIdentifier: string;
+  elementValue: CborValue;
+  // IssuerSignedItemBytes (#6.24), the input of the value digest
+  encoded: Uint8Array;
+}
+
+export interface ValidityInfo {
+  signed: string;
+  validFrom: string;
+  validUntil: string;
+  expectedUpdate?: string;
+}
+
+export interface MobileSecurityObject {
+  version: string;
+  digestAlgorithm: string;
+  // Digest per namespace and digest id
+  valueDigests: Record<string, Record<string, Uint8Array>>;
+  // COSE_Key of the holder device
+  deviceKey: CborMap;
+  docType: string;
+  validityInfo: ValidityInfo;
+}
+
+export interface IssuerAuth {
+  // COSE algorithm name, e.g. ES256
+  algorithm: string;
+  // DER certificates, the document signer certificate first
+  x5chain: Uint8Array[];
+  mso: MobileSecurityObject;
+  signature: Uint8Array;
+}
+
+export interface MdocDocument {
+  docType: string;
+  nameSpaces: Record<string, IssuerSignedItem[]>;
+  issuerAuth: IssuerAuth;
+  // Device authentication method of the deviceSigned part
+  deviceAuth?: 'deviceSignature' | 'deviceMac';
+  // Error codes of data elements that were requested but not returned
+  errors?: Record<string, Record<string, number>>;
+}
+
+export interface DeviceResponse {
+  version: string;
+  documents: MdocDocument[];
+  documentErrors?: Record<string, number>[];
+  status: number;
+}
+
+export interface ValueDigestCheck {
+  namespace: string;
+  elementIdentifier: string;
+  valid: boolean;
+}
+
+// COSE algorithms (RFC 9053) used for mDoc issuer and device signatures
+const COSE_ALGORITHMS: Record<string, string> = {
+  '-7': 'ES256',
+  '-35': 'ES384',
+  '-36': 'ES512',
+  '-8': 'EdDSA',
+  '-37': 'PS256',
+  '-38': 'PS384',
+  '-39': 'PS512',
+};
+
+// COSE_Key curves (RFC 9053 table 18)
+const COSE_CURVES: Record<string, string> = {
+  '1': 'P-256',
+  '2': 'P-384',
+  '3': 'P-521',
+  '4': 'X25519',
+  '5': 'X448',
+  '6': 'Ed25519',
+  '7': 'Ed448',
+};
+
+const DIGEST_ALGORITHMS: Record<string, string> = {
+  'SHA-256': 'SHA-256',
+  'SHA-384': 'SHA-384',
+  'SHA-512': 'SHA-512',
+};
+
+const COSE_HEADER_ALG = '1';
+const COSE_HEADER_X5CHAIN = '33';
+// Tags of tdate and full-date (RFC 8943) values
+const DATE_TIME_TAG = 0;
+const EPOCH_TIME_TAG = 1;
+const FULL_DATE_TAG = 1004;
+// COSE_Sign1 may be sent tagged
+const COSE_SIGN1_TAG = 18;
+
+function expectMap(value: CborValue, name: string): CborMap {
+  if (value === null || typeof value !== 'object' || Array.isArray(value) || value instanceof Uint8Array || value instanceof CborTag) {
+    throw new Error(`${name} must be a map`);
+  }
+  return value;
+}
+
+function expectArray(value: CborValue, name: string): CborValue[] {
+  if (!Array.isArray(value)) {
+    throw new Error(`${name} must be an array`);
+  }
+  return value;
+}
+
+function expectString(value: CborValue, name: string): string {
+  if (typeof value !== 'string') {
+    throw new Error(`${name} must be a text string`);
+  }
+  return value;
+}
+
+function expectBytes(value: CborValue, name: string): Uint8Array {
+  if (!(value instanceof Uint8Array)) {
+    throw new Error(`${name} must be a byte string`);
+  }
+  return value;
+}
+
+function decodeDate(value: CborValue, name: string): string {
+  if (value instanceof CborTag) {
+    if (value.tag === EPOCH_TIME_TAG && typeof value.value === 'number') {
+      return new Date(value.value * 1000).toISOString();
+    }
+    return expectString(value.value, name);
+  }
+  return expectString(value, name);
+}
+
+/**
+ * JSON form of a CBOR value for display:
+ * dates become their text, byte strings base64url, other tags their content.
+ */
+export function cborToJson(value: CborValue): any {
+  if (value instanceof CborTag) {
+    return value.tag === DATE_TIME_TAG || value.tag === EPOCH_TIME_TAG || value.tag === FULL_DATE_TAG
+      ? decodeDate(value, 'date')
+      : cborToJson(value.value);
+  }
+  if (value instanceof Uint8Array) {
+    return bytesToBase64Url(value);
+  }
+  if (Array.isArray(value)) {
+    return value.map(cborToJson);
+  }
+  if (value !== null && typeof value === 'object') {
+    return Object.fromEntries(Object.keys(value).map((key) => [key, cborToJson(value[key])]));
+  }
+  return value ?? null;
+}
+
+function decodeIssuerSignedItem(value: CborValue): IssuerSignedItem {
+  if (!(value instanceof CborTag)) {
+    throw new Error('IssuerSignedItemBytes must be tagged as encoded CBOR');
+  }
+  const item = expectMap(decodeEmbeddedCbor(value), 'IssuerSignedItem');
+  if (typeof item.digestID !== 'number') {
+    throw new Error('IssuerSignedItem digestID must be an unsigned integer');
+  }
+  return {
+    digestID: item.digestID,
+    random: expectBytes(item.random, 'IssuerSignedItem random'),
+    elementIdentifier: expectString(item.elementIdentifier, 'IssuerSignedItem elementIdentifier'),
+    elementValue: item.elementValue,
+    encoded: value.encoded,
+  };
+}
+
+function decodeMso(value: CborValue): MobileSecurityObject {
+  const mso = expectMap(decodeEmbeddedCbor(value), 'MobileSecurityObject');
+  const valueDigests = expectMap(mso.valueDigests, 'valueDigests');
+  const validityInfo = expectMap(mso.validityInfo, 'validityInfo');
+  const deviceKeyInfo = expectMap(mso.deviceKeyInfo, 'deviceKeyInfo');
+
+  return {
+    version: expectString(mso.version, 'MobileSecurityObject version'),
+    digestAlgorithm: expectString(mso.digestAlgorithm, 'digestAlgorithm'),
+    valueDigests: Object.fromEntries(Object.keys(valueDigests).map((namespace) => {
+      const digests = expectMap(valueDigests[namespace], `valueDigests of ${namespace}`);
+      return [namespace, Object.fromEntries(Object.keys(digests).map((digestID) =>
+        [digestID, expectBytes(digests[digestID], `Digest ${digestID} of ${namespace}`)]))];
+    })),
+    deviceKey: expectMap(deviceKeyInfo.deviceKey, 'deviceKey'),
+    docType: expectString(mso.docType, 'MobileSecurityObject docType'),
+    validityInfo: {
+      signed: decodeDate(validityInfo.signed, 'signed'),
+      validFrom: decodeDate(validityInfo.validFrom, 'validFrom'),
+      validUntil: decodeDate(validityInfo.validUntil, 'validUntil'),
+      ...(validityInfo.expectedUpdate !== undefined && {
+        expectedUpdate: decodeDate(validityInfo.expectedUpdate, 'expectedUpdate'),
+      }),
+    },
+  };
+}
+
+// COSE_Sign1 = [protected, unprotected, payload, signature]
+function decodeIssuerAuth(value: CborValue): IssuerAuth {
+  const sign1 = expectArray(value instanceof CborTag && value.tag === COSE_SIGN1_TAG ? value.value : value, 'issuerAuth');
+  if (sign1.length !== 4) {
+    throw new Error('issuerAuth must be a COSE_Sign1 structure');
+  }
+  const [protectedHeader, unprotectedHeader, payload, signature] = sign1;
+  const protectedBytes = expectBytes(protectedHeader, 'Protected header');
+  const headers = {
+    ...expectMap(unprotectedHeader, 'Unprotected header'),
+    ...(protectedBytes.length > 0 ? expectMap(decodeCbor(protectedBytes), 'Protected header') : {}),
+  };
+  const algorithm = headers[COSE_HEADER_ALG];
+  const x5chain = headers[COSE_HEADER_X5CHAIN];
+
+  return {
+    algorithm: COSE_ALGORITHMS[String(algorithm)] ?? String(algorithm),
+    x5chain: x5chain === undefined
+      ? []
+      : Array.isArray(x5chain)
+        ? x5chain.map((certificate) => expectBytes(certificate, 'x5chain certificate'))
+        : [expectBytes(x5chain, 'x5chain certificate')],
+    mso: decodeMso(decodeCbor(expectBytes(payload, 'issuerAuth payload'))),
+    signature: expectBytes(signature, 'issuerAuth signature'),
+  };
+}
+
+function decodeDocument(value: CborValue): MdocDocument {
+  const document = expectMap(value, 'Document');
+  const issuerSigned = expectMap(document.issuerSigned, 'issuerSigned');
+  const nameSpaces = issuerSigned.nameSpaces === undefined ? {} : expectMap(issuerSigned.nameSpaces, 'nameSpaces');
+  const deviceAuth = document.deviceSigned === undefined
+    ? undefined
+    : expectMap(expectMap(document.deviceSigned, 'deviceSigned').deviceAuth, 'deviceAuth');
+
+  return {
+    docType: expectString(document.docType, 'docType'),
+    nameSpaces: Object.fromEntries(Object.keys(nameSpaces).map((namespace) =>
+      [namespace, expectArray(nameSpaces[namespace], `Namespace ${namespace}`).map(decodeIssuerSignedItem)])),
+    issuerAuth: decodeIssuerAuth(issuerSigned.issuerAuth),
+    ...(deviceAuth && { deviceAuth: deviceAuth.deviceSignature !== undefined ? 'deviceSignature' : 'deviceMac' }),
+    ...(document.errors !== undefined && { errors: cborToJson(document.errors) }),
+  };
+}
+
+// Decode a DeviceResponse from its base64url (vp_token) or binary encoding
+export function decodeDeviceResponse(encoded: string | Uint8Array): DeviceResponse {
+  const response = expectMap(decodeCbor(typeof encoded === 'string' ? base64ToBytes(encoded) : encoded), 'DeviceResponse');
+  return {
+    version: expectString(response.version, 'DeviceResponse version'),
+    documents: response.documents === undefined ? [] : expectArray(response.documents, 'documents').map(decodeDocument),
+    ...(response.documentErrors !== undefined && { documentErrors: cborToJson(response.documentErrors) }),
+    status: typeof response.status === 'number' ? response.status : 0,
+  };
+}
+
+// Data elements of a document per namespace, in the JSON form of cborToJson
+export function getNamespacesJson(document: MdocDocument): Record<string, Record<string, any>> {
+  return Object.fromEntries(Object.keys(document.nameSpaces).map((namespace) => [
+    namespace,
+    Object.fromEntries(document.nameSpaces[namespace].map((item) => [item.elementIdentifier, cborToJson(item.elementValue)])),
+  ]));
+}
+
+export function getIssuerCertificates(document: MdocDocument): CertificateSummary[] {
+  return document.issuerAuth.x5chain.map(parseCertificate);
+}
+
+// Key type and curve of the device key, e.g. 'EC P-256'
+export function describeDeviceKey(deviceKey: CborMap): string {
+  const keyType = { '1': 'OKP', '2': 'EC' }[String(deviceKey['1'])] ?? `Key type ${deviceKey['1']}`;
+  const curve = COSE_CURVES[String(deviceKey['-1'])];
+  return curve ? `${keyType} ${curve}` : keyType;
+}
+
+/**
+ * Compare the digest of every IssuerSignedItem with the value digest of the MSO.
+ * A match shows the element is the one the issuer signed, given a valid issuer signature.
+ */
+export async function checkValueDigests(document: MdocDocument): Promise<ValueDigestCheck[]> {
+  const { digestAlgorithm, valueDigests } = document.issuerAuth.mso;
+  const algorithm = DIGEST_ALGORITHMS[digestAlgorithm];
+  if (!algorithm) {
+    throw new Error(`Unsupported digest algorithm ${digestAlgorithm}`);
+  }
+
+  const checks = Object.keys(document.nameSpaces).flatMap((namespace) =>
+    document.nameSpaces[namespace].map(async (item) => {
+      const expected = valueDigests[namespace]?.[String(item.digestID)];
+      const digest = new Uint8Array(await crypto.subtle.digest(algorithm, item.encoded));
+      return {
+        namespace,
+        elementIdentifier: item.elementIdentifier,
+        valid: !!expected && bytesToBase64Url(expected) === bytesToBase64Url(digest),
+      };
+    }));
+  return Promise.all(checks);
+}
@@ -0,0 +1,128 @@
+/**
+ * Data element types of the mDoc namespaces the portal issues, as JSON Schema for the JSON form of the elements.
+ * mDL: ISO/IEC 18013-5 table 5. PID: EUDI PID rulebook, mDoc encoding.
+ * Byte strings (portrait, signature_usual_mark) are passed through to the issuer unchecked.
+ */
+
+export const MDL_NAMESPACE = 'org.iso.18013.5.1';
+export const PID_NAMESPACE = 'eu.europa.ec.eudi.pid.1';
+
+// tstr with the maximum length of 18013-5 names and free text
+const TEXT = { type: 'string', maxLength: 150 };
+const FULL_DATE = { type: 'string', format: 'date' };
+const TDATE = { type: 'string', format: 'date-time' };
+// Dates the issuer accepts as full-date or tdate
+const DATE = { type: 'string', anyOf: [{ format: 'date' }, { format: 'date-time' }] };
+const UINT = { type: 'integer', minimum: 0 };
+const BOOL = { type: 'boolean' };
+// ISO 3166-1 alpha-2
+const COUNTRY = { type: 'string', pattern: '^[A-Z]{2}$' };
+// ISO/IEC 5218
+const SEX = { type: 'integer', enum: [0, 1, 2, 9] };
+
+// age_over_NN elements, any two digit age
+const AGE_OVER = { '^age_over_[0-9]{2}$': BOOL };
+
+const DRIVING_PRIVILEGES = {
+  type: 'array',
+  items: {
+    type: 'object',
+    required: ['vehicle_category_code'],
+    properties: {
+      vehicle_category_code: { type: 'string', minLength: 1 },
+      issue_date: DATE,
+      expiry_date: DATE,
+      codes: {
+        type: 'array',
+        items: {
+          type: 'object',
+          required: ['code'],
+          properties: { code: { type: 'string' }, sign: { type: 'string' }, value: { type: 'string' } },
+        },
+      },
+    },
+  },
+};
+
+const MDL_ELEMENTS: Record<string, object> = {
+  family_name: TEXT,
+  given_name: TEXT,
+  birth_date: FULL_DATE,
+  issue_date: DATE,
+  expiry_date: DATE,
+  issuing_country: COUNTRY,
+  issuing_authority: TEXT,
+  document_number: TEXT,
+  driving_privileges: DRIVING_PRIVILEGES,
+  un_distinguishing_sign: { type: 'string' },
+  administrative_number: TEXT,
+  sex: SEX,
+  height: UINT,
+  weight: UINT,
+  eye_colour: { type: 'string', enum: ['black', 'blue', 'brown', 'dichromatic', 'grey', 'green', 'hazel', 'maroon', 'pink', 'unknown'] },
+  hair_colour: { type: 'string', enum: ['bald', 'black', 'blond', 'brown', 'grey', 'red', 'auburn', 'sandy', 'white', 'unknown'] },
+  birth_place: TEXT,
+  resident_address: TEXT,
+  portrait_capture_date: TDATE,
+  age_in_years: UINT,
+  age_birth_year: UINT,
+  issuing_jurisdiction: { type: 'string' },
+  nationality: COUNTRY,
+  resident_city: TEXT,
+  resident_state: TEXT,
+  resident_postal_code: TEXT,
+  resident_country: COUNTRY,
+  family_name_national_character: TEXT,
+  given_name_national_character: TEXT,
+};
+
+const PID_ELEMENTS: Record<string, object> = {
+  family_name: TEXT,
+  given_name: TEXT,
+  birth_date: FULL_DATE,
+  age_in_years: UINT,
+  age_birth_year: UINT,
+  family_name_birth: TEXT,
+  given_name_birth: TEXT,
+  birth_place: TEXT,
+  birth_country: COUNTRY,
+  birth_state: TEXT,
+  birth_city: TEXT,
+  resident_address: TEXT,
+  resident_country: COUNTRY,
+  resident_state: TEXT,
+  resident_city: TEXT,
+  resident_postal_code: TEXT,
+  resident_street: TEXT,
+  resident_house_number: TEXT,
+  gender: SEX,
+  nationality: { anyOf: [COUNTRY, { type: 'array', items: COUNTRY }] },
+  issuance_date: DATE,
+  expiry_date: DATE,
+  issuing_authority: TEXT,
+  document_number: TEXT,
+  administrative_number: TEXT,
+  issuing_country: COUNTRY,
+  issuing_jurisdiction: { type: 'string' },
+};
+
+const NAMESPACE_ELEMENTS: Record<string, Record<string, object>> = {
+  [MDL_NAMESPACE]: MDL_ELEMENTS,
+  [PID_NAMESPACE]: PID_ELEMENTS,
+};
+
+// Schema of the namespaced mDoc data, null if none of the namespaces is known
+export function getMdocSchema(namespaces: string[]): object | null {
+  const known = namespaces.filter((namespace) => NAMESPACE_ELEMENTS[namespace]);
+  if (known.length === 0) {
+    return null;
+  }
+  return {
+    type: 'object',
+    properties: Object.fromEntries(known.map((namespace) => [namespace, {
+      type: 'object',
+      properties: NAMESPACE_ELEMENTS[namespace],
+      patternProperties: AGE_OVER,
+    }])),
+  };
+}
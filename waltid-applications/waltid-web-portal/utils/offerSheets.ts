@@ -0,0 +1,155 @@
+import {bytesToBase64} from "@/utils/base64";
+import {BulkOfferResult} from "@/utils/bulkIssuance";
+
+/**
+ * Downloadable results of a bulk issuance: a CSV sheet of offer URLs, a printable HTML sheet with QR codes
+ * and one email per recipient. QR codes are passed in as SVG markup, keyed by row.
+ */
+
+export interface OfferEmail {
+  to: string;
+  subject: string;
+  credentialTitles: string[];
+  offerUrl: string;
+  qrSvg: string;
+}
+
+function escapeCsvCell(value: string): string {
+  return /[",;\r\n\t]/.test(value) || value.trim() !== value ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+export function toCsv(rows: string[][]): string {
+  return rows.map((row) => row.map(escapeCsvCell).join(',')).join('\r\n') + '\r\n';
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+// Uploaded columns followed by the offer of each row
+export function buildOfferSheetCsv(results: BulkOfferResult[], columns: string[]): string {
+  const withPins = results.some((result) => result.pin);
+  return toCsv([
+    ['row', ...columns, 'recipient', ...(withPins ? ['pin'] : []), 'offer_url', 'error'],
+    ...results.map((result) => [
+      String(result.row),
+      ...columns.map((column) => result.data[column] ?? ''),
+      result.recipient ?? '',
+      ...(withPins ? [result.pin ?? ''] : []),
+      result.offerUrl ?? '',
+      result.error ?? '',
+    ]),
+  ]);
+}
+
+// Printable page with one QR code per issued row, the first columns identify the holder
+export function buildOfferSheetHtml(
+  title: string,
+  results: BulkOfferResult[],
+  columns: string[],
+  qrCodes: Record<number, string>
+): string {
+  const summaryColumns = columns.slice(0, 3);
+  const entries = results.map((result) => {
+    const summary = summaryColumns
+      .map((column) => `<p><strong>${escapeHtml(column)}:</strong> ${escapeHtml(result.data[column] ?? '')}</p>`)
+      .join('');
+    if (!result.offerUrl) {
+      return `<section class="entry failed"><h2>Row ${result.row}</h2>${summary}<p class="error">${escapeHtml(result.error ?? 'Not issued')}</p></section>`;
+    }
+    return `<section class="entry"><div class="qr">${qrCodes[result.row] ?? ''}</div><div><h2>Row ${result.row}</h2>${summary}` +
+      (result.pin ? `<p><strong>PIN:</strong> <code>${escapeHtml(result.pin)}</code></p>` : '') +
+      `<p class="url">${escapeHtml(result.offerUrl)}</p></div></section>`;
+  });
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(title)}</title>
+<style>
+body { font-family: sans-serif; color: #111827; margin: 2rem; }
+.entry { display: flex; gap: 1.5rem; padding: 1rem 0; border-bottom: 1px solid #e5e7eb; page-break-inside: avoid; }
+.qr svg { width: 180px; height: 180px; }
+h2 { font-size: 1rem; margin: 0 0 0.5rem; }
+p { margin: 0.25rem 0; font-size: 0.875rem; }
+.url { color: #6b7280; font-size: 0.75rem; word-break: break-all; }
+.error { color: #dc2626; }
+</style>
+</head>
+<body>
+<h1>${escapeHtml(title)}</h1>
+${entries.join('\n')}
+</body>
+</html>
+`;
+}
+
+function encodeBase64Lines(value: string): string {
+  return bytesToBase64(new TextEncoder().encode(value)).replace(/(.{76})/g, '$1\r\n');
+}
+
+// RFC 2047 encoded-word for non-ASCII subjects
+function encodeHeader(value: string): string {
+  return /^[\x20-\x7e]*$/.test(value) ? value : `=?utf-8?B?${bytesToBase64(new TextEncoder().encode(value))}?=`;
+}
+
+/**
+ * Unsent email (.eml) with the offer link and its QR code as attachment.
+ * The PIN of an offer is left out - it should reach the holder on another channel.
+ */
+export function buildOfferEmail(email: OfferEmail): string {
+  const mixedBoundary = 'offer-mixed';
+  const alternativeBoundary = 'offer-alternative';
+  const credentials = email.credentialTitles.join(', ');
+
+  const text = `Hello,\r\n\r\nyour ${credentials} is ready to be added to your wallet.\r\n` +
+    `Open the following link on the device with your wallet, or scan the attached QR code with it:\r\n\r\n` +
+    `${email.offerUrl}\r\n`;
+  const html = `<p>Hello,</p><p>your ${escapeHtml(credentials)} is ready to be added to your wallet.</p>` +
+    `<p>Open the following link on the device with your wallet, or scan the attached QR code with it:</p>` +
+    `<p><a href="${escapeHtml(email.offerUrl)}">Add to wallet</a></p>`;
+
+  return [
+    `To: ${email.to}`,
+    `Subject: ${encodeHeader(email.subject)}`,
+    // Opened as draft by mail clients, ready to be sent
+    'X-Unsent: 1',
+    'MIME-Version: 1.0',
+    `Content-Type: multipart/mixed; boundary="${mixedBoundary}"`,
+    '',
+    `--${mixedBoundary}`,
+    `Content-Type: multipart/alternative; boundary="${alternativeBoundary}"`,
+    '',
+    `--${alternativeBoundary}`,
+    'Content-Type: text/plain; charset=utf-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    encodeBase64Lines(text),
+    `--${alternativeBoundary}`,
+    'Content-Type: text/html; charset=utf-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    encodeBase64Lines(html),
+    `--${alternativeBoundary}--`,
+    `--${mixedBoundary}`,
+    'Content-Type: image/svg+xml; name="credential-offer.svg"',
+    'Content-Disposition: attachment; filename="credential-offer.svg"',
+    'Content-Transfer-Encoding: base64',
+    '',
+    encodeBase64Lines(email.qrSvg),
+    `--${mixedBoundary}--`,
+    '',
+  ].join('\r\n');
+}
+
+// All emails in one mbox file, which mail clients import as a folder
+export function buildMbox(emails: string[], date = new Date()): string {
+  return emails
+    .map((email) => `From bulk-issuance ${date.toUTCString()}\n${email.replace(/\r\n/g, '\n').replace(/^From /gm, '>From ')}\n`)
+    .join('');
+}
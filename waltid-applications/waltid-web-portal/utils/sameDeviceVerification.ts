@@ -0,0 +1,36 @@
+/**
+ * Helpers for the same-device verification flow with Verifier API2.
+ * The wallet returns the user to /verify/callback, which resumes the session.
+ */
+
+import {VerificationRedirects} from "@/types/credentials";
+
+const PENDING_VERIFICATION_KEY = 'pendingVerification';
+
+export const SAME_DEVICE_CALLBACK_PATH = '/verify/callback';
+
+export function createVerificationSessionId(): string {
+  return crypto.randomUUID();
+}
+
+export function buildSameDeviceRedirects(origin: string, sessionId: string): VerificationRedirects {
+  const callback = `${origin}${SAME_DEVICE_CALLBACK_PATH}?session=${encodeURIComponent(sessionId)}`;
+  return {
+    successRedirectUri: callback,
+    errorRedirectUri: `${callback}&error=true`,
+  };
+}
+
+/**
+ * Remember the session before leaving for the wallet - some wallets drop
+ * query parameters of the redirect URI and only append the response_code
+ */
+export function storePendingVerification(sessionId: string) {
+  localStorage.setItem(PENDING_VERIFICATION_KEY, sessionId);
+}
+
+export function takePendingVerification(): string | null {
+  const sessionId = localStorage.getItem(PENDING_VERIFICATION_KEY);
+  localStorage.removeItem(PENDING_VERIFICATION_KEY);
+  return sessionId;
+}
@@ -0,0 +1,273 @@
+import {base64UrlDecodeJson, bytesToBase64Url} from "@/utils/base64";
+
+/**
+ * SD-JWT presentations (issuer JWT~disclosure~...~KB-JWT) as received by the verifier.
+ * The payload is rebuilt from the disclosures the holder revealed: every disclosure must match a digest
+ * of an _sd array or an array element ({"...": digest}) under the declared _sd_alg.
+ * Signatures are not verified, the verifier's policies do that.
+ */
+
+export interface SdJwtDisclosure {
+  encoded: string;
+  digest: string;
+  salt: string;
+  // Object property disclosures have a name, array element disclosures do not
+  name?: string;
+  value: any;
+}
+
+export interface DisclosedClaim {
+  // Claim path in the rebuilt payload, array elements by index
+  path: string[];
+  digest: string;
+}
+
+export interface WithheldDigests {
+  // Object or array holding digests without a disclosure
+  path: string[];
+  // Withheld claims and decoy digests, which cannot be told apart
+  count: number;
+}
+
+export interface KeyBinding {
+  header: any;
+  payload: any;
+  // sd_hash over the issuer JWT and the disclosures
+  sdHashValid: boolean;
+}
+
+export interface SdJwtPresentation {
+  header: any;
+  // Issuer JWT payload as signed, with digests
+  payload: any;
+  // Payload with the disclosures applied, without _sd and _sd_alg
+  claims: any;
+  disclosures: SdJwtDisclosure[];
+  disclosed: DisclosedClaim[];
+  withheld: WithheldDigests[];
+  keyBinding?: KeyBinding;
+  // Disclosures and digests that do not fit the payload
+  errors: string[];
+}
+
+const HASH_ALGORITHMS: Record<string, string> = {
+  'sha-256': 'SHA-256',
+  'sha-384': 'SHA-384',
+  'sha-512': 'SHA-512',
+};
+
+const ARRAY_ELEMENT_DIGEST = '...';
+
+// Claims of an SD-JWT VC that describe the credential rather than its subject
+const CREDENTIAL_CLAIMS = ['iss', 'sub', 'iat', 'nbf', 'exp', 'vct', 'vct#integrity', 'cnf', 'status', '_sd', '_sd_alg'];
+
+function decodeJwt(jwt: string): { header: any; payload: any } {
+  const [header, payload] = jwt.split('.');
+  if (!payload) {
+    throw new Error('Invalid JWT in SD-JWT');
+  }
+  return { header: base64UrlDecodeJson(header), payload: base64UrlDecodeJson(payload) };
+}
+
+// base64url digest of a disclosure or, for sd_hash, of the presentation without its key binding JWT
+export async function sdJwtDigest(value: string, sdAlg: string): Promise<string> {
+  const algorithm = HASH_ALGORITHMS[sdAlg];
+  if (!algorithm) {
+    throw new Error(`Unsupported _sd_alg ${sdAlg}`);
+  }
+  const digest = await crypto.subtle.digest(algorithm, new TextEncoder().encode(value));
+  return bytesToBase64Url(new Uint8Array(digest));
+}
+
+// Issuer JWT, encoded disclosures and the key binding JWT of a presentation
+export function splitSdJwt(presentation: string): { issuerJwt: string; disclosures: string[]; keyBindingJwt?: string } {
+  const parts = presentation.split('~');
+  const last = parts.length > 1 ? parts[parts.length - 1] : '';
+  return {
+    issuerJwt: parts[0],
+    disclosures: parts.slice(1, parts.length - 1).filter((part) => part !== ''),
+    ...(last !== '' && { keyBindingJwt: last }),
+  };
+}
+
+async function decodeDisclosure(encoded: string, sdAlg: string): Promise<SdJwtDisclosure> {
+  let decoded: any;
+  try {
+    decoded = base64UrlDecodeJson(encoded);
+  } catch (e) {
+    throw new Error(`Disclosure ${encoded} is not base64url encoded JSON`);
+  }
+  if (!Array.isArray(decoded) || (decoded.length !== 2 && decoded.length !== 3) || typeof decoded[0] !== 'string') {
+    throw new Error(`Disclosure ${encoded} is not a [salt, name, value] or [salt, value] array`);
+  }
+  if (decoded.length === 3 && typeof decoded[1] !== 'string') {
+    throw new Error(`Disclosure ${encoded} has no claim name`);
+  }
+  const digest = await sdJwtDigest(encoded, sdAlg);
+  return decoded.length === 3
+    ? { encoded, digest, salt: decoded[0], name: decoded[1], value: decoded[2] }
+    : { encoded, digest, salt: decoded[0], value: decoded[1] };
+}
+
+class PayloadBuilder {
+  readonly disclosed: DisclosedClaim[] = [];
+  readonly withheld: WithheldDigests[] = [];
+  readonly errors: string[] = [];
+  private readonly used = new Set<string>();
+
+  constructor(private readonly disclosures: Record<string, SdJwtDisclosure>) {
+  }
+
+  // Disclosure of a digest, each digest may only be used once
+  private take(digest: any, path: string[]): SdJwtDisclosure | undefined {
+    if (typeof digest !== 'string') {
+      this.errors.push(`Invalid digest at ${path.join('.') || 'the top level'}`);
+      return undefined;
+    }
+    if (this.used.has(digest)) {
+      this.errors.push(`Digest ${digest} is used more than once`);
+      return undefined;
+    }
+    this.used.add(digest);
+    return this.disclosures[digest];
+  }
+
+  private addWithheld(path: string[], count: number) {
+    if (count > 0) {
+      this.withheld.push({ path, count });
+    }
+  }
+
+  build(value: any, path: string[]): any {
+    if (Array.isArray(value)) {
+      return this.buildArray(value, path);
+    }
+    if (value !== null && typeof value === 'object') {
+      return this.buildObject(value, path);
+    }
+    return value;
+  }
+
+  private buildArray(array: any[], path: string[]): any[] {
+    const result: any[] = [];
+    let withheld = 0;
+    for (const element of array) {
+      const isDigest = element !== null && typeof element === 'object' && !Array.isArray(element) &&
+        Object.keys(element).length === 1 && ARRAY_ELEMENT_DIGEST in element;
+      if (!isDigest) {
+        result.push(this.build(element, [...path, String(result.length)]));
+        continue;
+      }
+      const disclosure = this.take(element[ARRAY_ELEMENT_DIGEST], path);
+      if (!disclosure) {
+        withheld++;
+      } else if (disclosure.name !== undefined) {
+        this.errors.push(`Disclosure of ${disclosure.name} is referenced as an array element`);
+      } else {
+        const elementPath = [...path, String(result.length)];
+        this.disclosed.push({ path: elementPath, digest: disclosure.digest });
+        result.push(this.build(disclosure.value, elementPath));
+      }
+    }
+    this.addWithheld(path, withheld);
+    return result;
+  }
+
+  private buildObject(object: Record<string, any>, path: string[]): Record<string, any> {
+    const result: Record<string, any> = {};
+    for (const key of Object.keys(object)) {
+      if (key === '_sd' || (key === '_sd_alg' && path.length === 0)) continue;
+      result[key] = this.build(object[key], [...path, key]);
+    }
+
+    const digests = object._sd ?? [];
+    if (!Array.isArray(digests)) {
+      this.errors.push(`_sd at ${path.join('.') || 'the top level'} is not an array`);
+      return result;
+    }
+    let withheld = 0;
+    for (const digest of digests) {
+      const disclosure = this.take(digest, path);
+      if (!disclosure) {
+        withheld++;
+      } else if (disclosure.name === undefined) {
+        this.errors.push(`Array element disclosure ${disclosure.digest} is referenced as a claim`);
+      } else if (disclosure.name === '_sd' || disclosure.name === ARRAY_ELEMENT_DIGEST) {
+        this.errors.push(`Disclosure ${disclosure.digest} has the reserved claim name ${disclosure.name}`);
+      } else if (disclosure.name in result) {
+        this.errors.push(`Disclosure of ${disclosure.name} overwrites a claim`);
+      } else {
+        const claimPath = [...path, disclosure.name];
+        this.disclosed.push({ path: claimPath, digest: disclosure.digest });
+        result[disclosure.name] = this.build(disclosure.value, claimPath);
+      }
+    }
+    this.addWithheld(path, withheld);
+    return result;
+  }
+
+  unusedDisclosures(): SdJwtDisclosure[] {
+    return Object.keys(this.disclosures)
+      .filter((digest) => !this.used.has(digest))
+      .map((digest) => this.disclosures[digest]);
+  }
+}
+
+/**
+ * Decode an SD-JWT presentation and rebuild its payload from the disclosures.
+ * Throws for presentations that cannot be decoded at all, problems with single disclosures end up in errors.
+ */
+export async function decodeSdJwt(presentation: string): Promise<SdJwtPresentation> {
+  const { issuerJwt, disclosures: encodedDisclosures, keyBindingJwt } = splitSdJwt(presentation);
+  const { header, payload } = decodeJwt(issuerJwt);
+  const sdAlg = payload._sd_alg ?? 'sha-256';
+  if (!HASH_ALGORITHMS[sdAlg]) {
+    throw new Error(`Unsupported _sd_alg ${sdAlg}`);
+  }
+
+  // A malformed disclosure is reported and left out, its digest then counts as withheld
+  const decodeErrors: string[] = [];
+  const decoded = await Promise.all(encodedDisclosures.map((encoded) =>
+    decodeDisclosure(encoded, sdAlg).catch((e) => {
+      decodeErrors.push((e as Error).message);
+      return null;
+    })
+  ));
+  const disclosures = decoded.filter((disclosure): disclosure is SdJwtDisclosure => disclosure !== null);
+  const byDigest: Record<string, SdJwtDisclosure> = {};
+  for (const disclosure of disclosures) {
+    byDigest[disclosure.digest] = disclosure;
+  }
+
+  const builder = new PayloadBuilder(byDigest);
+  const claims = builder.build(payload, []);
+  const errors = [
+    ...decodeErrors,
+    ...builder.errors,
+    ...builder.unusedDisclosures().map((disclosure) =>
+      `Disclosure ${disclosure.name ?? disclosure.digest} does not match any digest of the credential`),
+  ];
+
+  let keyBinding: KeyBinding | undefined;
+  if (keyBindingJwt) {
+    const { header: kbHeader, payload: kbPayload } = decodeJwt(keyBindingJwt);
+    const sdHash = await sdJwtDigest(presentation.slice(0, presentation.length - keyBindingJwt.length), sdAlg);
+    keyBinding = { header: kbHeader, payload: kbPayload, sdHashValid: kbPayload.sd_hash === sdHash };
+  }
+
+  return {
+    header,
+    payload,
+    claims,
+    disclosures,
+    disclosed: builder.disclosed,
+    withheld: builder.withheld,
+    ...(keyBinding && { keyBinding }),
+    errors,
+  };
+}
+
+// Subject claims of an SD-JWT VC payload
+export function getSdJwtSubjectClaims(claims: Record<string, any>): Record<string, any> {
+  return Object.fromEntries(Object.entries(claims).filter(([name]) => !CREDENTIAL_CLAIMS.includes(name)));
+}
@@ -0,0 +1,134 @@
+/**
+ * Selective disclosure maps (SDMap of the waltid-sdjwt library) for SD-JWT issuance,
+ * built from a disclosure mode per claim path.
+ */
+
+export const DisclosureModes = ['always', 'selective', 'decoy'] as const;
+// always: plain claim, selective: selectively disclosable, decoy: selectively disclosable with decoy digests next to it
+export type DisclosureMode = typeof DisclosureModes[number];
+
+export const DISCLOSURE_MODE_LABELS: Record<DisclosureMode, string> = {
+  always: 'Always disclosed',
+  selective: 'Selectively disclosable',
+  decoy: 'Selective + decoys',
+};
+
+// Disclosure mode by claim path, e.g. 'address.street_address'
+export type ClaimDisclosures = { [claimPath: string]: DisclosureMode };
+
+// Decoy digests added to a claim's level for every decoy-padded claim on it
+export const DECOY_DIGESTS_PER_CLAIM = 2;
+
+export interface SDField {
+  sd: boolean;
+  children?: SDMap;
+  // One entry per array element, for arrays with selectively disclosable elements
+  elements?: SDField[];
+}
+
+export interface SDMap {
+  fields: { [key: string]: SDField };
+  decoyMode?: 'NONE' | 'FIXED' | 'RANDOM';
+  decoys?: number;
+}
+
+export interface DisclosureClaim {
+  path: string;
+  key: string;
+  depth: number;
+  value: any;
+  // Objects and arrays can be disclosed as a whole and per nested claim or element
+  nested: boolean;
+  // Array elements have their index as key and no decoy digests
+  element: boolean;
+}
+
+function isObject(value: any): boolean {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+function joinPath(parent: string, key: string) {
+  return parent ? `${parent}.${key}` : key;
+}
+
+function toDisclosureClaims(key: string, value: any, path: string, depth: number, element: boolean): DisclosureClaim[] {
+  const claim = { path, key, depth, value, nested: isObject(value) || Array.isArray(value), element };
+  if (Array.isArray(value)) {
+    return [claim, ...value.flatMap((item, index) =>
+      toDisclosureClaims(String(index), item, joinPath(path, String(index)), depth + 1, true))];
+  }
+  return claim.nested ? [claim, ...getDisclosureClaims(value, path, depth + 1)] : [claim];
+}
+
+// Claims of the disclosure editor, depth first. Array elements follow their array, with paths like 'nationalities.0'
+export function getDisclosureClaims(claims: { [key: string]: any } | undefined, parent = '', depth = 0): DisclosureClaim[] {
+  return Object.entries(claims ?? {}).flatMap(([key, value]) =>
+    toDisclosureClaims(key, value, joinPath(parent, key), depth, false));
+}
+
+// Top-level claims of the given value types are selectively disclosable unless configured otherwise
+export function getDisclosureMode(
+  disclosures: ClaimDisclosures | undefined,
+  path: string,
+  value: any,
+  disclosableTypes: string[]
+): DisclosureMode {
+  const mode = disclosures?.[path];
+  if (mode) {
+    return mode;
+  }
+  return !path.includes('.') && !isObject(value) && disclosableTypes.includes(typeof value) ? 'selective' : 'always';
+}
+
+function buildNestedDisclosure(
+  value: any,
+  disclosures: ClaimDisclosures | undefined,
+  disclosableTypes: string[],
+  path: string
+): Pick<SDField, 'children' | 'elements'> {
+  if (isObject(value)) {
+    const children = buildSelectiveDisclosure(value, disclosures, disclosableTypes, path);
+    return Object.keys(children.fields).length > 0 ? { children } : {};
+  }
+  if (Array.isArray(value)) {
+    // The SDMap has no decoys for arrays, decoy-padded elements are selectively disclosable
+    const elements: SDField[] = value.map((item, index) => {
+      const elementPath = joinPath(path, String(index));
+      const mode = getDisclosureMode(disclosures, elementPath, item, disclosableTypes);
+      return { sd: mode !== 'always', ...buildNestedDisclosure(item, disclosures, disclosableTypes, elementPath) };
+    });
+    return elements.some((element) => element.sd || element.children || element.elements) ? { elements } : {};
+  }
+  return {};
+}
+
+/**
+ * Selective disclosure map for the claims, recursing into nested objects and array elements.
+ * Claims without a disclosure mode fall back to getDisclosureMode.
+ */
+export function buildSelectiveDisclosure(
+  claims: { [key: string]: any } | undefined,
+  disclosures: ClaimDisclosures | undefined,
+  disclosableTypes: string[],
+  parent = ''
+): SDMap {
+  const fields: SDMap['fields'] = {};
+  let decoyClaims = 0;
+
+  for (const [key, value] of Object.entries(claims ?? {})) {
+    const path = joinPath(parent, key);
+    const mode = getDisclosureMode(disclosures, path, value, disclosableTypes);
+    const nested = buildNestedDisclosure(value, disclosures, disclosableTypes, path);
+
+    if (mode === 'decoy') {
+      decoyClaims++;
+    }
+    if (mode !== 'always' || nested.children || nested.elements) {
+      fields[key] = { sd: mode !== 'always', ...nested };
+    }
+  }
+
+  return decoyClaims > 0
+    ? { fields, decoyMode: 'FIXED', decoys: decoyClaims * DECOY_DIGESTS_PER_CLAIM }
+    : { fields };
+}
@@ -0,0 +1,68 @@
+import {base64UrlDecodeJson, bytesToBase64Url} from "@/utils/base64";
+import {splitSdJwt} from "@/utils/sdJwt";
+import {PAYMENT_TRANSACTION_DATA_TYPE, QES_TRANSACTION_DATA_TYPE, TransactionDataItem} from "@/types/credentials";
+
+export interface TransactionDataConfirmation {
+  item: TransactionDataItem;
+  // base64url SHA-256 over the transaction_data string as sent in the request
+  hash: string;
+  // Credential query ids whose presentation carries the hash
+  confirmedBy: string[];
+}
+
+export async function hashTransactionData(encoded: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(encoded));
+  return bytesToBase64Url(new Uint8Array(digest));
+}
+
+// transaction_data_hashes of the key binding JWT, the last part of an SD-JWT presentation
+export function getPresentedTransactionDataHashes(presentation: string): string[] {
+  const { keyBindingJwt } = splitSdJwt(presentation);
+  if (!keyBindingJwt || keyBindingJwt.split('.').length !== 3) {
+    return [];
+  }
+  try {
+    const hashes = base64UrlDecodeJson(keyBindingJwt.split('.')[1]).transaction_data_hashes;
+    return Array.isArray(hashes) ? hashes : [];
+  } catch (e) {
+    return [];
+  }
+}
+
+/**
+ * Match the requested transaction data against the hashes returned with the
+ * presentations (vp_token of the session, keyed by credential query id)
+ */
+export async function confirmTransactionData(
+  transactionData: string[],
+  vpToken: Record<string, string[]>
+): Promise<TransactionDataConfirmation[]> {
+  const presentedHashes = Object.entries(vpToken).map(([queryId, presentations]) => ({
+    queryId,
+    hashes: presentations.flatMap(getPresentedTransactionDataHashes),
+  }));
+
+  return Promise.all(
+    transactionData.map(async (encoded) => {
+      const hash = await hashTransactionData(encoded);
+      return {
+        item: base64UrlDecodeJson<TransactionDataItem>(encoded),
+        hash,
+        confirmedBy: presentedHashes
+          .filter((presented) => presented.hashes.includes(hash))
+          .map((presented) => presented.queryId),
+      };
+    })
+  );
+}
+
+export function describeTransactionData(item: TransactionDataItem): string {
+  switch (item.type) {
+    case PAYMENT_TRANSACTION_DATA_TYPE:
+      return `Payment of ${item.currency_amount?.value} ${item.currency_amount?.currency} to ${item.payee?.name}`;
+    case QES_TRANSACTION_DATA_TYPE:
+      return `Qualified signature of ${item.documentDigests?.map((digest: { label: string }) => digest.label).join(', ')}`;
+    default:
+      return item.type;
+  }
+}
@@ -0,0 +1,194 @@
+import {AvailableCredential, DcqlQuery, TransactionDataItem} from '@/types/credentials';
+import {getPresentedCredentials, VerificationSessionInfo} from '@/utils/verificationSession';
+
+/**
+ * Why a verification failed: the policies that did not pass, the error response of the wallet and the
+ * DCQL credential queries the presentation did not answer. Verification requests are remembered per
+ * session, so a failed verification can be started again with the same request.
+ */
+
+export interface FailedPolicy {
+  // Credential query id for Verifier API2 sessions, the credential for Verifier API sessions
+  credential?: string;
+  name: string;
+  errors: string[];
+}
+
+export interface WalletErrorResponse {
+  error: string;
+  errorDescription?: string;
+}
+
+export interface VerificationFailure {
+  reason?: string;
+  walletError?: WalletErrorResponse;
+  failedPolicies: FailedPolicy[];
+  dcqlProblems: string[];
+}
+
+// Verifier API /openid4vc/session/{id}
+export interface LegacyPolicyResult {
+  policy: string;
+  is_success: boolean;
+  error?: any;
+}
+
+export interface LegacySessionInfo {
+  tokenResponse?: { error?: string; error_description?: string };
+  policyResults?: { results?: { credential: string; policyResults: LegacyPolicyResult[] }[] };
+}
+
+export type VerificationRequestQuery = Record<string, string | string[] | undefined>;
+
+// What the verify page built a session from: its query, and the edited credentials and transaction data it was handed
+export interface VerificationRequest {
+  query: VerificationRequestQuery;
+  credentials?: AvailableCredential[];
+  transactionData?: TransactionDataItem[];
+}
+
+const VERIFICATION_REQUESTS_KEY = 'verificationRequests';
+// Only the latest requests are kept
+const MAX_VERIFICATION_REQUESTS = 20;
+
+/**
+ * Credential queries and credential sets of the request that the presented credential query ids do not fulfil.
+ * Without credential sets, every credential query is required.
+ */
+export function getDcqlProblems(query: DcqlQuery, presentedIds: string[]): string[] {
+  const requestedIds = query.credentials.map((credential) => credential.id);
+  const problems = presentedIds
+    .filter((id) => !requestedIds.includes(id))
+    .map((id) => `The wallet presented ${id}, which was not requested`);
+
+  if (!query.credential_sets?.length) {
+    return problems.concat(
+      requestedIds.filter((id) => !presentedIds.includes(id)).map((id) => `Credential ${id} was requested but not presented`)
+    );
+  }
+  query.credential_sets.forEach((set, index) => {
+    if (set.required === false || set.options.some((option) => option.every((id) => presentedIds.includes(id)))) {
+      return;
+    }
+    const options = set.options.map((option) => option.join(' and ')).join(' or ');
+    problems.push(`Credential set ${index + 1} is not fulfilled, it requires ${options}`);
+  });
+  return problems;
+}
+
+// Failed policies of the presented credentials, and of presentations rejected before their credentials were read
+function getFailedPolicies(session: VerificationSessionInfo): FailedPolicy[] {
+  const failed: FailedPolicy[] = [];
+  const seen = new Set<string>();
+  const add = (policy: FailedPolicy) => {
+    // Presentation policies are listed with every credential of their query
+    const key = JSON.stringify(policy);
+    if (!seen.has(key)) {
+      seen.add(key);
+      failed.push(policy);
+    }
+  };
+
+  for (const view of getPresentedCredentials(session)) {
+    view.policies
+      .filter((policy) => !policy.success)
+      .forEach((policy) => add({ credential: view.queryId, name: policy.name, errors: policy.errors }));
+  }
+  const presentedIds = Object.keys(session.presentedCredentials ?? {});
+  const vpPolicies = session.policyResults?.vp_policies ?? {};
+  for (const queryId of Object.keys(vpPolicies).filter((id) => !presentedIds.includes(id))) {
+    for (const name of Object.keys(vpPolicies[queryId])) {
+      const result = vpPolicies[queryId][name];
+      if (!result.success) {
+        add({ credential: queryId, name, errors: (result.errors ?? []).map((error) => error.message ?? error.error) });
+      }
+    }
+  }
+  return failed;
+}
+
+export function getVerificationFailure(session: VerificationSessionInfo): VerificationFailure {
+  const dcqlQuery = session.authorizationRequest?.dcql_query;
+  // DCQL can only be checked once the wallet has presented
+  const presentedIds = session.presentedRawData ? Object.keys(session.presentedRawData.vpToken ?? {}) : null;
+
+  return {
+    reason: session.statusReason,
+    ...(session.walletError && {
+      walletError: { error: session.walletError.error, errorDescription: session.walletError.error_description },
+    }),
+    failedPolicies: getFailedPolicies(session),
+    dcqlProblems: dcqlQuery && presentedIds ? getDcqlProblems(dcqlQuery, presentedIds) : [],
+  };
+}
+
+// Policy errors are serialized exceptions or stack traces
+function formatLegacyError(error: any): string {
+  if (typeof error === 'string') {
+    return error.split('\n')[0];
+  }
+  return error?.message ?? JSON.stringify(error);
+}
+
+export function getLegacyVerificationFailure(session: LegacySessionInfo): VerificationFailure {
+  const failedPolicies = (session.policyResults?.results ?? []).flatMap((entry) =>
+    entry.policyResults
+      .filter((result) => !result.is_success)
+      .map((result) => ({
+        credential: entry.credential,
+        name: result.policy,
+        errors: result.error !== undefined ? [formatLegacyError(result.error)] : [],
+      }))
+  );
+  const { error, error_description } = session.tokenResponse ?? {};
+
+  return {
+    ...(error && { walletError: { error, errorDescription: error_description } }),
+    failedPolicies,
+    dcqlProblems: [],
+  };
+}
+
+function readVerificationRequests(): Record<string, VerificationRequest> {
+  try {
+    return JSON.parse(localStorage.getItem(VERIFICATION_REQUESTS_KEY) ?? '{}');
+  } catch (e) {
+    return {};
+  }
+}
+
+// Remember the request that created a session, it survives the redirect through a same-device wallet
+export function storeVerificationRequest(sessionId: string, request: VerificationRequest) {
+  const requests = readVerificationRequests();
+  delete requests[sessionId];
+  requests[sessionId] = request;
+  const sessionIds = Object.keys(requests);
+  for (const expired of sessionIds.slice(0, Math.max(0, sessionIds.length - MAX_VERIFICATION_REQUESTS))) {
+    delete requests[expired];
+  }
+  localStorage.setItem(VERIFICATION_REQUESTS_KEY, JSON.stringify(requests));
+}
+
+export function getVerificationRequest(sessionId: string): VerificationRequest | null {
+  const request = readVerificationRequests()[sessionId];
+  // Requests remembered before the credentials were kept only hold the query
+  return request?.query ? request : null;
+}
+
+/**
+ * Hand the credentials and transaction data of a request to the verify page again, as the verification
+ * section does, and return the query to open it with.
+ */
+export function restoreVerificationRequest(request: VerificationRequest): VerificationRequestQuery {
+  if (request.credentials) {
+    localStorage.setItem('verification', JSON.stringify(request.credentials));
+  } else {
+    localStorage.removeItem('verification');
+  }
+  if (request.transactionData?.length) {
+    localStorage.setItem('transactionData', JSON.stringify(request.transactionData));
+  } else {
+    localStorage.removeItem('transactionData');
+  }
+  return request.query;
+}
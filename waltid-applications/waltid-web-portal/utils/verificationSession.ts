@@ -0,0 +1,215 @@
+import axios from 'axios';
+import {decodeDeviceResponse, getNamespacesJson, MdocDocument} from '@/utils/mdoc';
+import {getSdJwtSubjectClaims} from '@/utils/sdJwt';
+import {DcqlQuery} from '@/types/credentials';
+
+/**
+ * Verifier API2 sessions (/verification-session/{id}/info) as shown on the success page:
+ * the credentials presented per DCQL credential query id, with the results of the policies run on them.
+ */
+
+export type VerificationSessionStatus =
+  'UNKNOWN' | 'ACTIVE' | 'UNUSED' | 'IN_USE' | 'VALIDATING_RECEIVED_REQUEST' | 'PROCESSING_FLOW' |
+  'EXPIRED' | 'SUCCESSFUL' | 'FAILED' | 'UNSUCCESSFUL';
+
+// Disclosure as listed by the verifier, see SdJwtDisclosure of utils/sdJwt for one decoded here
+export interface VerifierSdJwtDisclosure {
+  salt: string;
+  name: string;
+  value: any;
+  location?: string;
+  encoded: string;
+}
+
+// DigitalCredential of the verifier, 'type' tells the credential kind: vc-sd_jwt, vc-mdocs, vc-w3c_1_1, ...
+export interface PresentedCredential {
+  type: string;
+  format: string;
+  credentialData: Record<string, any>;
+  signed?: string;
+  issuer?: string;
+  subject?: string;
+  // SD-JWT VCs
+  disclosures?: VerifierSdJwtDisclosure[];
+  // mDocs
+  docType?: string;
+}
+
+export interface VPPolicyRunResult {
+  success: boolean;
+  errors?: { error: string; message?: string }[];
+}
+
+export interface CredentialPolicyResult {
+  policy: { policy: string; id?: string };
+  success: boolean;
+  error?: string;
+}
+
+export interface VerificationSessionPolicyResults {
+  // Per credential query id and policy name
+  vp_policies?: Record<string, Record<string, VPPolicyRunResult>>;
+  // Every policy on every credential, in the order of the presented credentials
+  vc_policies?: CredentialPolicyResult[];
+  // Per credential query id, every policy on every credential of the query
+  specific_vc_policies?: Record<string, CredentialPolicyResult[]>;
+}
+
+export interface VerificationSessionInfo {
+  id: string;
+  status: VerificationSessionStatus;
+  statusReason?: string;
+  expirationDate?: string;
+  // Whether the wallet posted a presentation, sessions only expire before that
+  attempted?: boolean;
+  // Error response of the wallet instead of a presentation
+  walletError?: { error: string; error_description?: string };
+  authorizationRequest?: { dcql_query?: DcqlQuery; transaction_data?: string[] };
+  policyResults?: VerificationSessionPolicyResults;
+  presentedRawData?: { vpToken: Record<string, string[]>; state?: string };
+  presentedCredentials?: Record<string, PresentedCredential[]>;
+}
+
+export interface PolicyOutcome {
+  name: string;
+  success: boolean;
+  errors: string[];
+}
+
+export interface PresentedCredentialView {
+  queryId: string;
+  format: string;
+  // vct of SD-JWT VCs, docType of mDocs, most specific type of W3C credentials
+  credentialType?: string;
+  issuer?: string;
+  // SD-JWT VC claims, mDoc data elements by namespace or the W3C credential subject
+  claims: Record<string, any>;
+  // Names of the selectively disclosed SD-JWT claims
+  disclosed: string[];
+  policies: PolicyOutcome[];
+  credential: PresentedCredential;
+  // mDoc as decoded from the DeviceResponse of the vp_token
+  mdoc?: MdocDocument;
+  // SD-JWT presentation of the vp_token
+  sdJwt?: string;
+}
+
+export async function fetchVerificationSession(
+  verifierURL: string,
+  sessionId: string,
+  options: { responseCode?: string; signal?: AbortSignal } = {}
+): Promise<VerificationSessionInfo> {
+  const response = await axios.get(`${verifierURL}/verification-session/${encodeURIComponent(sessionId)}/info`, {
+    headers: { 'accept': 'application/json' },
+    // Same-device sessions are only handed out with the response_code of the wallet redirect
+    params: options.responseCode ? { response_code: options.responseCode } : undefined,
+    signal: options.signal,
+  });
+  return response.data;
+}
+
+function getCredentialType(credential: PresentedCredential): string | undefined {
+  if (credential.docType) {
+    return credential.docType;
+  }
+  const { vct, type, vc } = credential.credentialData;
+  if (vct) {
+    return vct;
+  }
+  const types = type ?? vc?.type;
+  return Array.isArray(types) ? types[types.length - 1] : types;
+}
+
+function isSdJwtFormat(format: string): boolean {
+  return format === 'dc+sd-jwt' || format === 'vc+sd-jwt';
+}
+
+function getClaims(credential: PresentedCredential): Record<string, any> {
+  const data = credential.credentialData;
+  switch (credential.format) {
+    case 'mso_mdoc':
+      return data;
+    case 'dc+sd-jwt':
+    case 'vc+sd-jwt':
+      return getSdJwtSubjectClaims(data);
+    default:
+      return data.credentialSubject ?? data.vc?.credentialSubject ?? data;
+  }
+}
+
+// Documents of the DeviceResponses presented for a credential query, undecodable responses are skipped
+function decodeMdocPresentations(presentations: string[]): MdocDocument[] {
+  return presentations.flatMap((presentation) => {
+    try {
+      return decodeDeviceResponse(presentation).documents;
+    } catch (e) {
+      console.warn('Could not decode mDoc DeviceResponse:', e);
+      return [];
+    }
+  });
+}
+
+function findMdoc(documents: MdocDocument[], credential: PresentedCredential, index: number): MdocDocument | undefined {
+  return documents[index]?.docType === credential.docType
+    ? documents[index]
+    : documents.find((document) => document.docType === credential.docType);
+}
+
+function toOutcome(result: CredentialPolicyResult): PolicyOutcome {
+  return { name: result.policy.policy, success: result.success, errors: result.error ? [result.error] : [] };
+}
+
+// Results of a list that holds the same policies for each of credentialCount credentials
+function getCredentialResults(results: CredentialPolicyResult[], credentialCount: number, index: number): PolicyOutcome[] {
+  const perCredential = credentialCount > 0 ? results.length / credentialCount : 0;
+  if (!Number.isInteger(perCredential)) {
+    return [];
+  }
+  return results.slice(index * perCredential, (index + 1) * perCredential).map(toOutcome);
+}
+
+/**
+ * Presented credentials of a session, in the order of the credential queries.
+ * Presentation (vp) policies apply to all credentials of their query.
+ */
+export function getPresentedCredentials(session: VerificationSessionInfo): PresentedCredentialView[] {
+  const presented = Object.entries(session.presentedCredentials ?? {});
+  const results = session.policyResults;
+  const credentialCount = presented.reduce((count, [, credentials]) => count + credentials.length, 0);
+
+  const views: PresentedCredentialView[] = [];
+  for (const [queryId, credentials] of presented) {
+    const vpPolicies = Object.entries(results?.vp_policies?.[queryId] ?? {}).map(([name, result]) => ({
+      name,
+      success: result.success,
+      errors: (result.errors ?? []).map((error) => error.message ?? error.error),
+    }));
+
+    const mdocs = credentials.some((credential) => credential.format === 'mso_mdoc')
+      ? decodeMdocPresentations(session.presentedRawData?.vpToken?.[queryId] ?? [])
+      : [];
+
+    for (let i = 0; i < credentials.length; i++) {
+      const credential = credentials[i];
+      const mdoc = credential.format === 'mso_mdoc' ? findMdoc(mdocs, credential, i) : undefined;
+      const sdJwt = isSdJwtFormat(credential.format) ? session.presentedRawData?.vpToken?.[queryId]?.[i] : undefined;
+      views.push({
+        queryId,
+        format: credential.format,
+        credentialType: getCredentialType(credential),
+        issuer: credential.issuer,
+        claims: mdoc ? getNamespacesJson(mdoc) : getClaims(credential),
+        disclosed: (credential.disclosures ?? []).map((disclosure) => disclosure.name),
+        policies: [
+          ...vpPolicies,
+          ...getCredentialResults(results?.vc_policies ?? [], credentialCount, views.length),
+          ...getCredentialResults(results?.specific_vc_policies?.[queryId] ?? [], credentials.length, i),
+        ],
+        credential,
+        ...(mdoc && { mdoc }),
+        ...(sdJwt && { sdJwt }),
+      });
+    }
+  }
+  return views;
+}
@@ -0,0 +1,243 @@
+import axios from 'axios';
+import {fetchVerificationSession, VerificationSessionInfo} from '@/utils/verificationSession';
+
+/**
+ * Status of a verification session while the wallet works on it.
+ * Verifier API2 pushes session updates as Server-Sent Events, the legacy verifier and API2 deployments
+ * whose events cannot be subscribed to are polled with exponential backoff instead.
+ */
+
+export type VerificationStatus = 'pending' | 'wallet-fetched-request' | 'responded' | 'success' | 'failed' | 'expired';
+
+export const VERIFICATION_STATUS_LABELS: Record<VerificationStatus, string> = {
+  'pending': 'Waiting for the wallet',
+  'wallet-fetched-request': 'The wallet fetched the request',
+  'responded': 'The wallet responded, verifying the presentation',
+  'success': 'Verification successful',
+  'failed': 'Verification failed',
+  'expired': 'The verification request expired',
+};
+
+// A session only moves forward, the final statuses share the last place
+const STATUS_ORDER: VerificationStatus[][] = [
+  ['pending'],
+  ['wallet-fetched-request'],
+  ['responded'],
+  ['success', 'failed', 'expired'],
+];
+
+// Verifier API2 sessions expire after 10 minutes by default
+const DEFAULT_TIMEOUT_MS = 10 * 60 * 1000;
+
+// Legacy verifier /openid4vc/session/{id}
+export interface LegacyVerificationSessionInfo {
+  verificationResult?: boolean | null;
+  tokenResponse?: any;
+}
+
+export interface VerificationStep {
+  label: string;
+  done: boolean;
+}
+
+export interface WatchVerificationOptions {
+  verifierUrl: string;
+  sessionId: string;
+  api2: boolean;
+  // Verifier API2 only hands out same-device sessions with the response_code of the wallet redirect
+  responseCode?: string;
+  // Called with every change of the status
+  onStatus?: (status: VerificationStatus) => void;
+  signal?: AbortSignal;
+  // The session counts as expired when it has not finished by then
+  timeoutMs?: number;
+  pollIntervalMs?: number;
+  maxPollIntervalMs?: number;
+  // Failed requests in a row before giving up
+  maxErrors?: number;
+}
+
+function getStatusRank(status: VerificationStatus): number {
+  return STATUS_ORDER.findIndex((statuses) => statuses.includes(status));
+}
+
+export function isFinalStatus(status: VerificationStatus): boolean {
+  return getStatusRank(status) === STATUS_ORDER.length - 1;
+}
+
+export function getApi2Status(session: VerificationSessionInfo, now: number = Date.now()): VerificationStatus {
+  switch (session.status) {
+    case 'SUCCESSFUL':
+      return 'success';
+    case 'FAILED':
+    case 'UNSUCCESSFUL':
+      return 'failed';
+    case 'EXPIRED':
+      return 'expired';
+    case 'VALIDATING_RECEIVED_REQUEST':
+    case 'PROCESSING_FLOW':
+      return 'responded';
+  }
+  // The verifier does not update the status of sessions that ran out of time
+  if (!session.attempted && session.expirationDate && Date.parse(session.expirationDate) <= now) {
+    return 'expired';
+  }
+  return session.status === 'IN_USE' ? 'wallet-fetched-request' : 'pending';
+}
+
+// The legacy verifier does not tell when the wallet fetched the request
+export function getLegacyStatus(session: LegacyVerificationSessionInfo): VerificationStatus {
+  if (session.verificationResult === true) {
+    return 'success';
+  }
+  if (session.verificationResult === false) {
+    return 'failed';
+  }
+  return session.tokenResponse ? 'responded' : 'pending';
+}
+
+export function getVerificationSteps(status: VerificationStatus): VerificationStep[] {
+  const rank = getStatusRank(status);
+  return [
+    { label: 'Request fetched by the wallet', done: rank >= 1 },
+    { label: 'Presentation received', done: rank >= 2 },
+    { label: 'Presentation verified', done: status === 'success' },
+  ];
+}
+
+export function getVerificationEventsUrl(verifierUrl: string, sessionId: string, responseCode?: string): string {
+  const url = `${verifierUrl}/verification-session/${encodeURIComponent(sessionId)}/verification-session/events`;
+  return responseCode ? `${url}?response_code=${encodeURIComponent(responseCode)}` : url;
+}
+
+/**
+ * Follow a verification session until it succeeded, failed or expired.
+ * Calls onStatus on every change and resolves with the final status, or null when the signal aborts.
+ * Rejects when the verifier could not be reached maxErrors times in a row.
+ */
+export function watchVerificationStatus(options: WatchVerificationOptions): Promise<VerificationStatus | null> {
+  const {
+    verifierUrl,
+    sessionId,
+    api2,
+    responseCode,
+    onStatus,
+    signal,
+    timeoutMs = DEFAULT_TIMEOUT_MS,
+    pollIntervalMs = 1000,
+    maxPollIntervalMs = 5000,
+    maxErrors = 5,
+  } = options;
+
+  return new Promise((resolve, reject) => {
+    // Cancels the requests in flight once the watch has ended
+    const controller = new AbortController();
+    let current: VerificationStatus | undefined;
+    let finished = false;
+    let events: EventSource | undefined;
+    let pollTimer: ReturnType<typeof setTimeout> | undefined;
+    let timeoutTimer: ReturnType<typeof setTimeout> | undefined;
+    let delay = pollIntervalMs;
+    let errors = 0;
+
+    const finish = (settle: () => void) => {
+      if (finished) return;
+      finished = true;
+      clearTimeout(pollTimer);
+      clearTimeout(timeoutTimer);
+      events?.close();
+      controller.abort();
+      signal?.removeEventListener('abort', onAbort);
+      settle();
+    };
+
+    const onAbort = () => finish(() => resolve(null));
+
+    // Returns whether the status moved forward
+    const update = (status: VerificationStatus): boolean => {
+      if (finished || (current && getStatusRank(status) <= getStatusRank(current))) {
+        return false;
+      }
+      current = status;
+      onStatus?.(status);
+      if (isFinalStatus(status)) {
+        finish(() => resolve(status));
+      }
+      return true;
+    };
+
+    const fetchStatus = async (): Promise<VerificationStatus> => {
+      if (api2) {
+        return getApi2Status(await fetchVerificationSession(verifierUrl, sessionId, { responseCode, signal: controller.signal }));
+      }
+      const response = await axios.get(`${verifierUrl}/openid4vc/session/${encodeURIComponent(sessionId)}`, {
+        headers: { 'accept': 'application/json' },
+        signal: controller.signal,
+      });
+      return getLegacyStatus(response.data);
+    };
+
+    const poll = async () => {
+      try {
+        const changed = update(await fetchStatus());
+        errors = 0;
+        // Back off while nothing happens, look again soon after a change
+        delay = changed ? pollIntervalMs : Math.min(delay * 2, maxPollIntervalMs);
+      } catch (error) {
+        if (finished) return;
+        errors++;
+        console.error('Error fetching verification session:', error);
+        if (errors >= maxErrors) {
+          finish(() => reject(new Error(`The verification session status could not be read: ${(error as Error).message}`)));
+          return;
+        }
+        delay = Math.min(delay * 2, maxPollIntervalMs);
+      }
+      if (!finished) {
+        pollTimer = setTimeout(poll, delay);
+      }
+    };
+
+    const subscribe = (source: EventSource) => {
+      let connected = false;
+      events = source;
+      source.onmessage = (message) => {
+        let data: any;
+        try {
+          data = JSON.parse(message.data);
+        } catch (e) {
+          return;
+        }
+        if (!connected) {
+          connected = true;
+          // Updates sent before the subscription are not replayed, start from the current session
+          fetchStatus().then(update, (error) => console.warn('Could not read the verification session:', error));
+        }
+        // The first event only confirms the subscription
+        if (data?.session) {
+          update(getApi2Status(data.session));
+        }
+      };
+      source.onerror = () => {
+        // The verifier has no events for this session or the connection dropped
+        source.close();
+        events = undefined;
+        if (!finished) {
+          poll();
+        }
+      };
+    };
+
+    if (signal?.aborted) {
+      return resolve(null);
+    }
+    signal?.addEventListener('abort', onAbort);
+    timeoutTimer = setTimeout(() => update('expired'), timeoutMs);
+
+    if (api2 && typeof EventSource !== 'undefined') {
+      subscribe(new EventSource(getVerificationEventsUrl(verifierUrl, sessionId, responseCode)));
+    } else {
+      poll();
+    }
+  });
+}
@@ -0,0 +1,27 @@
+import nextConfig from "@/next.config";
+import {VerifierClientSettings} from "@/types/credentials";
+
+// Read the verifier request signing credentials from the portal environment
+export function getVerifierClientSettings(env: { [key: string]: string }): VerifierClientSettings {
+  const runtimeConfig = nextConfig.publicRuntimeConfig;
+  const clientId = env.NEXT_PUBLIC_VERIFIER2_CLIENT_ID || runtimeConfig?.NEXT_PUBLIC_VERIFIER2_CLIENT_ID;
+  const signingKeyJson = env.NEXT_PUBLIC_VERIFIER2_SIGNING_KEY || runtimeConfig?.NEXT_PUBLIC_VERIFIER2_SIGNING_KEY;
+  const x5c = env.NEXT_PUBLIC_VERIFIER2_X5C || runtimeConfig?.NEXT_PUBLIC_VERIFIER2_X5C;
+  const attestation = env.NEXT_PUBLIC_VERIFIER2_ATTESTATION || runtimeConfig?.NEXT_PUBLIC_VERIFIER2_ATTESTATION;
+
+  let key: VerifierClientSettings['key'];
+  if (signingKeyJson) {
+    try {
+      key = JSON.parse(signingKeyJson);
+    } catch (e) {
+      console.warn('Failed to parse verifier signing key:', e);
+    }
+  }
+
+  return {
+    x509SanDnsClientId: clientId || undefined,
+    key,
+    x5c: x5c ? [x5c] : undefined,
+    verifierAttestation: attestation || undefined,
+  };
+}
@@ -0,0 +1,119 @@
+import {bytesToHex} from "@/utils/cbor";
+
+/**
+ * Summary of a DER encoded X.509 certificate, such as the issuer certificates of an mDoc's x5chain.
+ * Only the fields shown to users are read. The certificate is neither validated nor trusted.
+ */
+
+export interface CertificateSummary {
+  subject: string;
+  issuer: string;
+  serialNumber: string;
+  notBefore: string;
+  notAfter: string;
+}
+
+interface DerElement {
+  tag: number;
+  content: Uint8Array;
+}
+
+const NAME_ATTRIBUTES: Record<string, string> = {
+  '2.5.4.3': 'CN',
+  '2.5.4.5': 'SERIALNUMBER',
+  '2.5.4.6': 'C',
+  '2.5.4.7': 'L',
+  '2.5.4.8': 'ST',
+  '2.5.4.10': 'O',
+  '2.5.4.11': 'OU',
+  '1.2.840.113549.1.9.1': 'E',
+};
+
+const SEQUENCE = 0x30;
+const SET = 0x31;
+const OBJECT_IDENTIFIER = 0x06;
+const UTC_TIME = 0x17;
+const EXPLICIT_VERSION = 0xa0;
+
+// Elements of a DER encoded sequence or set
+function readElements(bytes: Uint8Array): DerElement[] {
+  const elements: DerElement[] = [];
+  let offset = 0;
+  while (offset < bytes.length) {
+    const tag = bytes[offset++];
+    let length = bytes[offset++];
+    if (length & 0x80) {
+      const lengthBytes = length & 0x7f;
+      length = 0;
+      for (let i = 0; i < lengthBytes; i++) {
+        length = length * 256 + bytes[offset++];
+      }
+    }
+    if (offset + length > bytes.length) {
+      throw new Error('Invalid DER encoding');
+    }
+    elements.push({ tag, content: bytes.subarray(offset, offset + length) });
+    offset += length;
+  }
+  return elements;
+}
+
+function readSequence(element: DerElement | undefined): DerElement[] {
+  if (element?.tag !== SEQUENCE && element?.tag !== SET) {
+    throw new Error('Expected a DER sequence');
+  }
+  return readElements(element.content);
+}
+
+function decodeObjectIdentifier(bytes: Uint8Array): string {
+  const arcs = [Math.floor(bytes[0] / 40), bytes[0] % 40];
+  let arc = 0;
+  for (let i = 1; i < bytes.length; i++) {
+    arc = arc * 128 + (bytes[i] & 0x7f);
+    if (!(bytes[i] & 0x80)) {
+      arcs.push(arc);
+      arc = 0;
+    }
+  }
+  return arcs.join('.');
+}
+
+// RFC 4514 style, in the order of the certificate: CN=utopia ds, C=US
+function decodeName(element: DerElement): string {
+  return readSequence(element)
+    .flatMap((relativeName) => readSequence(relativeName))
+    .map((attribute) => {
+      const [type, value] = readSequence(attribute);
+      const oid = type.tag === OBJECT_IDENTIFIER ? decodeObjectIdentifier(type.content) : '';
+      return `${NAME_ATTRIBUTES[oid] ?? oid}=${new TextDecoder().decode(value.content)}`;
+    })
+    .join(', ');
+}
+
+function decodeTime(element: DerElement): string {
+  const text = new TextDecoder().decode(element.content);
+  // UTCTime has a two digit year: 50-99 are 19xx, 00-49 are 20xx
+  const time = element.tag === UTC_TIME ? `${parseInt(text.slice(0, 2), 10) >= 50 ? '19' : '20'}${text}` : text;
+  const [, year, month, day, hour, minute, second] = time.match(/^(\d{4})(\d{2})(\d{2})(\d{2})(\d{2})(\d{2})/) ?? [];
+  if (!year) {
+    throw new Error(`Invalid certificate time ${text}`);
+  }
+  return `${year}-${month}-${day}T${hour}:${minute}:${second}Z`;
+}
+
+export function parseCertificate(der: Uint8Array): CertificateSummary {
+  const [certificate] = readElements(der);
+  const [tbsCertificate] = readSequence(certificate);
+  const fields = readSequence(tbsCertificate);
+  // The version is optional and defaults to v1
+  const [serialNumber, , issuer, validity, subject] = fields[0].tag === EXPLICIT_VERSION ? fields.slice(1) : fields;
+  const [notBefore, notAfter] = readSequence(validity);
+
+  return {
+    subject: decodeName(subject),
+    issuer: decodeName(issuer),
+    serialNumber: bytesToHex(serialNumber.content),
+    notBefore: decodeTime(notBefore),
+    notAfter: decodeTime(notAfter),
+  };
+}
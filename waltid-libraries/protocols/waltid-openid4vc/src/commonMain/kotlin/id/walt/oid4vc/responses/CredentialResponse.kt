@@ -103,7 +103,10 @@ enum class CredentialErrorCode {
     unsupported_credential_type,
     unsupported_credential_format,
     invalid_or_missing_proof,
-    server_error
+    server_error,
+    // Deferred credential endpoint: the credential is not ready yet, the wallet retries later
+    issuance_pending,
+    credential_request_denied
 }
 
 internal object CredentialResponseListSerializer : KSerializer<List<CredentialResponse>> {
@@ -92,6 +92,12 @@ data class Verification2Session(
 
     val redirects: VerificationSessionRedirects? = null,
 
+    /**
+     * (Optional) Response code that same-device flows append to the redirect of the wallet (OpenID4VP 1.0, section 8.2).
+     * Once set, the session data is only handed out together with this code.
+     */
+    val responseCode: String? = null,
+
     /**
      * Presented data
      */
@@ -99,8 +105,20 @@ data class Verification2Session(
     var presentedPresentations: Map<String, VerifiablePresentation>? = null,
     var presentedCredentials: Map<String, List<DigitalCredential>>? = null,
     var statusReason: String? = null,
+
+    /**
+     * Error response of the wallet instead of a presentation
+     */
+    var walletError: WalletError? = null,
 ) {
 
+    @Serializable
+    data class WalletError(
+        val error: String,
+        @SerialName("error_description")
+        val errorDescription: String? = null
+    )
+
     @Serializable
     data class VerificationSessionNotifications(
         val webhook: VerificationSessionWebhookNotification? = null
@@ -176,6 +194,15 @@ data class Verification2Session(
         UNSUCCESSFUL(false),
     }
 
+    /**
+     * Ensure that the caller presents the [responseCode] of this session (if it has one)
+     */
+    fun checkResponseCode(providedResponseCode: String?) {
+        if (responseCode != null && providedResponseCode != responseCode) {
+            Verifier2Response.Verifier2Error.INVALID_RESPONSE_CODE.throwAsError()
+        }
+    }
+
     fun toSessionCreationResponse(): VerificationSessionCreationResponse {
         return VerificationSessionCreationResponse(
             sessionId = id,
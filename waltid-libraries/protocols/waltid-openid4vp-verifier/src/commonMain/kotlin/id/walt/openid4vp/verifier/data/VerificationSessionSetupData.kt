@@ -37,6 +37,10 @@ data class GeneralFlowConfig(
 
     val policies: DefinedVerificationPolicies = DefinedVerificationPolicies(),
 
+    /** base64url encoded transaction data objects (payment confirmation, QES, ...) bound to credential query ids */
+    @SerialName("transaction_data")
+    val transactionData: List<String>? = null,
+
     @SerialName("client_metadata")
     val clientMetadata: ClientMetadata? = null,
     val clientId: String? = null,
@@ -47,7 +51,10 @@ data class GeneralFlowConfig(
     /** request signing key */
     val key: DirectSerializedKey? = null,
     /** certificate chain for signed request */
-    val x5c: List<String>? = null
+    val x5c: List<String>? = null,
+    /** verifier attestation JWT for signed requests using the verifier_attestation client identifier prefix */
+    @SerialName("verifier_attestation")
+    val verifierAttestation: String? = null
 ) {
     init {
         // Verify if DCQL Query is correct
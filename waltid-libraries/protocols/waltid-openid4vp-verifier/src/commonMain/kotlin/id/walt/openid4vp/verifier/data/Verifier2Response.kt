@@ -23,6 +23,8 @@ sealed class Verifier2Response {
             val MISSING_STATE_PARAMETER = Verifier2Error(errorDescription = "State parameter is missing.")
             val INVALID_STATE_PARAMETER = Verifier2Error(errorDescription = "Invalid or expired state.")
 
+            val INVALID_RESPONSE_CODE = Verifier2Error(errorDescription = "Missing or invalid response_code.")
+
             val UNKNOWN_VERIFICATION_SESSION =
                 Verifier2Error(errorDescription = "Cannot find VerificationSession for received direct_post response")
 
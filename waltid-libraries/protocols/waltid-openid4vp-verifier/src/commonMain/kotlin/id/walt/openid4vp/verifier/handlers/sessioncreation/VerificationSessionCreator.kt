@@ -64,6 +64,9 @@ object VerificationSessionCreator {
         val isSignedRequest = setup.core.signedRequest
         val isEncryptedResponse = setup.core.encryptedResponse
         val isCrossDevice = setup is CrossDeviceFlowSetup
+        val isSameDevice = setup is SameDeviceFlowSetup
+        // Cross- and same-device wallets both post the response to the verifier
+        val isDirectPost = isCrossDevice || isSameDevice
         val isDcApi = setup is DcApiFlowSetup
         val isDcApiHaip = isDcApi && setup.haip
 
@@ -130,7 +133,7 @@ object VerificationSessionCreator {
 
 
 
-        require(isCrossDevice || isDcApi) { "No flow is selected" } // list all flows here
+        require(isDirectPost || isDcApi) { "No flow is selected" } // list all flows here
         val nonce = Uuid.random().toString()
         val state = if (!isDcApi) Uuid.random().toString() else null
 
@@ -175,7 +178,7 @@ object VerificationSessionCreator {
             // TODO: url building (handle host alias)
             responseUri = when {
                 isDcApi -> null
-                isCrossDevice -> "$urlPrefix/$sessionId/response" // For Cross-Device flow (direct_post, direct_post.jwt)
+                isDirectPost -> "$urlPrefix/$sessionId/response" // For Cross-/Same-Device flow (direct_post, direct_post.jwt)
                 else -> throw IllegalStateException("No flow is selected")
             },
             scope = null,//OPTIONAL. OAuth 2.0 Scope value. Can be used for pre-defined DCQL queries or OpenID Connect scopes (e.g., "openid").
@@ -184,8 +187,8 @@ object VerificationSessionCreator {
             responseMode = when {
                 isDcApi && isEncryptedResponse -> OpenID4VPResponseMode.DC_API_JWT // HAIP requires dc_api.jwt (encrypted)
                 isDcApi -> OpenID4VPResponseMode.DC_API
-                isCrossDevice && isEncryptedResponse -> OpenID4VPResponseMode.DIRECT_POST_JWT
-                isCrossDevice -> OpenID4VPResponseMode.DIRECT_POST
+                isDirectPost && isEncryptedResponse -> OpenID4VPResponseMode.DIRECT_POST_JWT
+                isDirectPost -> OpenID4VPResponseMode.DIRECT_POST
                 else -> throw IllegalStateException("No flow is selected")
             },
             // JAR (RFC 9101) Parameters (Section 5)
@@ -205,7 +208,7 @@ object VerificationSessionCreator {
              * containing details about the transaction the Verifier is requesting the End-User to authorize.
              * The decoded JSON object structure is represented by [TransactionDataItem].
              */
-            //val transactionData : List < String >? = null, // List of base64url encoded JSON strings
+            transactionData = setup.core.transactionData, // List of base64url encoded JSON strings
 
             /*
              * OPTIONAL. An array of attestations about the Verifier relevant to the Credential Request.
@@ -242,6 +245,7 @@ object VerificationSessionCreator {
 
             val headers = hashMapOf<String, JsonElement>("typ" to JsonPrimitive("oauth-authz-req+jwt"))
             if (x5c != null) headers["x5c"] = JsonArray(x5c.map { JsonPrimitive(it) })
+            setup.core.verifierAttestation?.let { headers["jwt"] = JsonPrimitive(it) }
             if (expiration != null) headers["exp"] = JsonPrimitive(expiration.epochSeconds)
             headers["iat"] = JsonPrimitive(now.epochSeconds)
 
@@ -287,7 +291,9 @@ object VerificationSessionCreator {
                 is SameDeviceFlowSetup -> setup.redirects
                 is CrossDeviceFlowSetup -> setup.redirects
                 else -> null
-            }
+            },
+            // The wallet redirects back to the same browser, which proves itself with this code
+            responseCode = if (isSameDevice) Uuid.random().toString() else null
         )
         log.trace { "New Verification2Session: $newSession" }
 
@@ -87,6 +87,8 @@ object Verifier2VPDirectPostHandler {
 
             responseData.vpToken to responseData.state
         }
+
+        is WalletErrorDirectPostResponse -> throw IllegalArgumentException("Wallet error response does not contain presentation data")
     }
 
     suspend fun RoutingCall.parseHttpRequestToDirectPostResponse(): DirectPostResponse {
@@ -107,6 +109,7 @@ object Verifier2VPDirectPostHandler {
                 val responseString = urlParameters["response"]
                 val vpTokenString = urlParameters["vp_token"]
                 val receivedState = urlParameters["state"]
+                val errorCode = urlParameters["error"]
 
                 log.trace { "Verification session data: state = $receivedState, vp_token = $vpTokenString, response = $responseString" }
 
@@ -120,6 +123,12 @@ object Verifier2VPDirectPostHandler {
                         state = receivedState ?: Verifier2Response.Verifier2Error.MISSING_STATE_PARAMETER.throwAsError()
                     )
 
+                    errorCode != null -> WalletErrorDirectPostResponse(
+                        error = errorCode,
+                        errorDescription = urlParameters["error_description"],
+                        state = receivedState
+                    )
+
                     else -> throw IllegalArgumentException("No presentation data was included in request")
                 }
             }
@@ -164,6 +173,9 @@ object Verifier2VPDirectPostHandler {
     /** Cleartext response (Data is directly passed as strings in URL parameter 'vp_token' and 'state') */
     data class CleartextDirectPostResponse(val vpToken: String, val state: String) : DirectPostResponse
 
+    /** Wallet error response (Error is passed in URL parameters 'error', 'error_description' and 'state') */
+    data class WalletErrorDirectPostResponse(val error: String, val errorDescription: String?, val state: String?) : DirectPostResponse
+
     /**
      * Here the receiving of credentials through the Verifiers endpoints
      * (e.g. direct_post endpoint) is handled
@@ -185,6 +197,29 @@ object Verifier2VPDirectPostHandler {
         val session = verificationSession
         val responseMode = session.authorizationRequest.responseMode
 
+        if (responseData is WalletErrorDirectPostResponse) {
+            if (responseData.state != session.authorizationRequest.state) {
+                Verifier2Response.Verifier2Error.INVALID_STATE_PARAMETER.throwAsError()
+            }
+            log.info { "Wallet responded with error for session ${session.id}: ${responseData.error} ${responseData.errorDescription ?: ""}" }
+
+            session.updateSession(SessionEvent.wallet_error_received) {
+                walletError = Verification2Session.WalletError(responseData.error, responseData.errorDescription)
+                statusReason = "Wallet responded with error: ${responseData.error}"
+            }
+            session.failSession(SessionEvent.wallet_error_received)
+
+            val optionalErrorRedirectUrl = session.redirects?.errorRedirectUri
+            return if (optionalErrorRedirectUrl != null) {
+                mapOf("redirect_uri" to session.buildRedirectUri(optionalErrorRedirectUrl))
+            } else {
+                mapOf(
+                    "status" to "error_received",
+                    "message" to "Wallet error response received."
+                )
+            }
+        }
+
         val (vpTokenString, receivedState) = parseResponseBody(
             responseMode = responseMode,
             responseData = responseData,
@@ -211,25 +246,34 @@ object Verifier2VPDirectPostHandler {
         // presented credential/presentation
 
 
-        PresentationVerificationEngine.executeAllVerification(vpTokenContents, session, updateSessionCallback, failSessionCallback)
-
-
-        val optionalSuccessRedirectUrl = session.redirects?.successRedirectUri
-        val willRedirect = optionalSuccessRedirectUrl != null
-
-        return if (willRedirect) {
-            mapOf("redirect_uri" to optionalSuccessRedirectUrl)
+        val verificationError = try {
+            PresentationVerificationEngine.executeAllVerification(vpTokenContents, session, updateSessionCallback, failSessionCallback)
+            null
+        } catch (e: Exception) {
+            e
+        }
 
-            // TODO: error redirect url !!!
+        val successful = verificationError == null && session.status.successful == true
+        val optionalRedirectUrl = if (successful) session.redirects?.successRedirectUri else session.redirects?.errorRedirectUri
 
-        } else {
-            mapOf(
+        return when {
+            // The wallet sends the user to the redirect, also when the presentation failed
+            optionalRedirectUrl != null -> mapOf("redirect_uri" to session.buildRedirectUri(optionalRedirectUrl))
+            verificationError != null -> throw verificationError
+            else -> mapOf(
                 "status" to "received",
                 "message" to "Presentation received and is being processed."
             )
         }
     }
 
+    /**
+     * Append the response code of same-device sessions to the redirect URI
+     */
+    fun Verification2Session.buildRedirectUri(redirectUri: String): String =
+        if (responseCode == null) redirectUri
+        else URLBuilder(redirectUri).apply { parameters.append("response_code", responseCode) }.buildString()
+
     fun parseVpToken(vpTokenString: String): ParsedVpToken = try {
         Json.Default.decodeFromString(vpTokenString)
     } catch (e: Exception) {
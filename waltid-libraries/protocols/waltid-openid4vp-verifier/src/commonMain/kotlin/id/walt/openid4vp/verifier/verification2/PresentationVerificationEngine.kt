@@ -306,6 +306,13 @@ object PresentationVerificationEngine {
             val firstError = presentationValidationResult.firstNotNullOfOrNull { it.value.firstNotNullOfOrNull { it.value.errors.firstOrNull() } }
             log.warn { "First error: $firstError" }
 
+            // Keep the presentation policy results for looking into the failure
+            session.policyResults = Verifier2PolicyResults(
+                vpPolicies = presentationValidationResult,
+                vcPolicies = emptyList(),
+                specificVcPolicies = emptyMap()
+            )
+            session.statusReason = "One or more presentations in vp_token failed validation"
             session.failSession(SessionEvent.presentation_validation_failed)
 
             throw IllegalArgumentException( // TODO: custom Exception class
@@ -346,6 +353,7 @@ object PresentationVerificationEngine {
         if (dcqlFulfilled?.isSuccess == false) {
             log.error { "The set of validated presentations does not fulfill all DCQL requirements for session ${session.id}, reported error is: ${dcqlFulfilled.exceptionOrNull()}" }
 
+            session.statusReason = "The presented credentials do not fulfill the DCQL query: ${dcqlFulfilled.exceptionOrNull()?.message}"
             session.failSession(SessionEvent.dcql_fulfillment_check_failed)
 
             throw IllegalArgumentException(
@@ -0,0 +1,173 @@
+package id.walt.openid4vp.verifier
+
+import id.walt.dcql.models.DcqlQuery
+import id.walt.openid4vp.verifier.data.*
+import id.walt.openid4vp.verifier.handlers.sessioncreation.VerificationSessionCreator
+import id.walt.openid4vp.verifier.handlers.vpresponse.Verifier2VPDirectPostHandler
+import id.walt.openid4vp.verifier.handlers.vpresponse.Verifier2VPDirectPostHandler.CleartextDirectPostResponse
+import id.walt.openid4vp.verifier.handlers.vpresponse.Verifier2VPDirectPostHandler.WalletErrorDirectPostResponse
+import io.ktor.http.*
+import kotlinx.coroutines.test.runTest
+import kotlin.test.*
+
+class Verifier2VPDirectPostHandlerTest {
+
+    private val redirects = Verification2Session.VerificationSessionRedirects(
+        successRedirectUri = "https://portal.example.com/verify/callback?session=abc",
+        errorRedirectUri = "https://portal.example.com/verify/callback?session=abc&error=true"
+    )
+
+    private val core = GeneralFlowConfig(dcqlQuery = DcqlQuery.DcqlQueryExamples.EXAMPLE_SDJWT_PID)
+
+    private val events = ArrayList<SessionEvent>()
+
+    /** Sessions as persisted by the update callback */
+    private val storedSessions = HashMap<String, Verification2Session>()
+
+    private val updateSession: suspend (Verification2Session, SessionEvent, Verification2Session.() -> Unit) -> Unit =
+        { session, event, block ->
+            events.add(event)
+            storedSessions[session.id] = session.apply(block).copy()
+        }
+
+    private val failSession: suspend (
+        Verification2Session,
+        SessionEvent,
+        suspend (Verification2Session, SessionEvent, Verification2Session.() -> Unit) -> Unit
+    ) -> Unit = { session, event, update ->
+        update(session, event) { status = Verification2Session.VerificationSessionStatus.UNSUCCESSFUL }
+    }
+
+    private suspend fun createSession(setup: VerificationSessionSetup) = VerificationSessionCreator.createVerificationSession(
+        setup = setup,
+        clientId = "verifier.example.com",
+        urlPrefix = "https://verifier.example.com/verification-session",
+        urlHost = "openid4vp://authorize"
+    )
+
+    private suspend fun createSameDeviceSession() =
+        createSession(SameDeviceFlowSetup(core = core, urlConfig = UrlConfig(), redirects = redirects))
+
+    /** vp_token without a presentation for the requested credential, fails the DCQL fulfillment check */
+    private fun unfulfilledResponse(session: Verification2Session) = CleartextDirectPostResponse(
+        vpToken = """{"unknown_query": ["abc"]}""",
+        state = session.authorizationRequest.state!!
+    )
+
+    @Test
+    fun `same-device session requires its response code`() = runTest {
+        val session = createSameDeviceSession()
+        val responseCode = assertNotNull(session.responseCode)
+
+        assertFailsWith<IllegalArgumentException> { session.checkResponseCode(null) }
+        assertFailsWith<IllegalArgumentException> { session.checkResponseCode("wrong") }
+        session.checkResponseCode(responseCode)
+    }
+
+    @Test
+    fun `cross-device session has no response code`() = runTest {
+        val session = createSession(CrossDeviceFlowSetup(core = core, redirects = redirects))
+
+        assertNull(session.responseCode)
+        session.checkResponseCode(null)
+    }
+
+    @Test
+    fun `failed presentation redirects to the error redirect uri`() = runTest {
+        val session = createSameDeviceSession()
+
+        val result = Verifier2VPDirectPostHandler.handleDirectPost(
+            verificationSession = session,
+            responseData = unfulfilledResponse(session),
+            updateSessionCallback = updateSession,
+            failSessionCallback = failSession
+        )
+
+        val redirectUri = Url(assertNotNull(result["redirect_uri"]))
+        assertEquals("true", redirectUri.parameters["error"])
+        assertEquals("abc", redirectUri.parameters["session"])
+        assertEquals(session.responseCode, redirectUri.parameters["response_code"])
+        assertEquals(Verification2Session.VerificationSessionStatus.UNSUCCESSFUL, session.status)
+        assertContains(events, SessionEvent.dcql_fulfillment_check_failed)
+    }
+
+    @Test
+    fun `failed presentation without redirects is rejected`() = runTest {
+        val session = createSession(CrossDeviceFlowSetup(core = core))
+
+        assertFailsWith<IllegalArgumentException> {
+            Verifier2VPDirectPostHandler.handleDirectPost(
+                verificationSession = session,
+                responseData = unfulfilledResponse(session),
+                updateSessionCallback = updateSession,
+                failSessionCallback = failSession
+            )
+        }
+        assertEquals(Verification2Session.VerificationSessionStatus.UNSUCCESSFUL, session.status)
+    }
+
+    @Test
+    fun `redirect uri keeps its parameters`() = runTest {
+        val session = createSameDeviceSession()
+
+        with(Verifier2VPDirectPostHandler) {
+            val redirectUri = Url(session.buildRedirectUri(redirects.successRedirectUri!!))
+            assertEquals("abc", redirectUri.parameters["session"])
+            assertEquals(session.responseCode, redirectUri.parameters["response_code"])
+        }
+    }
+
+    @Test
+    fun `wallet error with a wrong state is rejected`() = runTest {
+        val session = createSameDeviceSession()
+
+        assertFailsWith<IllegalArgumentException> {
+            Verifier2VPDirectPostHandler.handleDirectPost(
+                verificationSession = session,
+                responseData = WalletErrorDirectPostResponse("access_denied", null, "wrong-state"),
+                updateSessionCallback = updateSession,
+                failSessionCallback = failSession
+            )
+        }
+        assertNull(session.walletError)
+        assertTrue(events.isEmpty())
+    }
+
+    @Test
+    fun `wallet error is stored and redirects to the error redirect uri`() = runTest {
+        val session = createSameDeviceSession()
+
+        val result = Verifier2VPDirectPostHandler.handleDirectPost(
+            verificationSession = session,
+            responseData = WalletErrorDirectPostResponse("access_denied", "User declined", session.authorizationRequest.state),
+            updateSessionCallback = updateSession,
+            failSessionCallback = failSession
+        )
+
+        val storedSession = assertNotNull(storedSessions[session.id])
+        assertEquals(Verification2Session.WalletError("access_denied", "User declined"), storedSession.walletError)
+        assertEquals("Wallet responded with error: access_denied", storedSession.statusReason)
+        assertEquals(Verification2Session.VerificationSessionStatus.UNSUCCESSFUL, storedSession.status)
+        assertEquals(listOf(SessionEvent.wallet_error_received), events.distinct())
+
+        val redirectUri = Url(assertNotNull(result["redirect_uri"]))
+        assertEquals("true", redirectUri.parameters["error"])
+        assertEquals(session.responseCode, redirectUri.parameters["response_code"])
+    }
+
+    @Test
+    fun `wallet error without redirects is acknowledged`() = runTest {
+        val session = createSession(CrossDeviceFlowSetup(core = core))
+
+        val result = Verifier2VPDirectPostHandler.handleDirectPost(
+            verificationSession = session,
+            responseData = WalletErrorDirectPostResponse("access_denied", null, session.authorizationRequest.state),
+            updateSessionCallback = updateSession,
+            failSessionCallback = failSession
+        )
+
+        assertEquals("error_received", result["status"])
+        assertNull(result["redirect_uri"])
+        assertEquals(Verification2Session.WalletError("access_denied"), storedSessions[session.id]?.walletError)
+    }
+}
@@ -12,6 +12,8 @@ private val log = KotlinLogging.logger { }
  * Selective disclosure information for a given payload field
  * @param sd          **Issuance:** field is made selectively disclosable if *true*, **Presentation:** field should be _disclosed_ if *true*, or _undisclosed_ if *false*
  * @param children    Not null, if field is an object. Contains SDMap for the properties of the object
+ * @param elements    Not null, if field is an array with selectively disclosable elements. Contains an SDField per array element,
+ *                    **Issuance:** element is made selectively disclosable if *sd* is true, **Presentation:** element should be disclosed
  * @see SDMap
  */
 @Suppress("NON_EXPORTABLE_TYPE")
@@ -21,6 +23,7 @@ private val log = KotlinLogging.logger { }
 data class SDField(
     val sd: Boolean,
     val children: SDMap? = null,
+    val elements: List<SDField>? = null,
 ) {
 
     @JsExport.Ignore
@@ -30,6 +33,9 @@ data class SDField(
             children?.also {
                 put("children", it.toJSON())
             }
+            elements?.also {
+                put("elements", buildJsonArray { it.forEach { element -> add(element.toJSON()) } })
+            }
         }
     }
 
@@ -47,6 +53,13 @@ data class SDField(
                         is JsonNull -> null
                         else -> error("Error parsing SDField.children from JSON element")
                     }
+                },
+                elements = json.jsonObject["elements"]?.let { elements ->
+                    when (elements) {
+                        is JsonArray -> elements.map { fromJSON(it) }
+                        is JsonNull -> null
+                        else -> error("Error parsing SDField.elements from JSON element")
+                    }
                 }
             )
         }
@@ -223,6 +223,7 @@ open class SDJwt internal constructor(
 
     companion object {
         const val DIGESTS_KEY = "_sd"
+        const val ARRAY_ELEMENT_DIGEST_KEY = "..."
         const val SEPARATOR = '~'
         const val SEPARATOR_STR = SEPARATOR.toString()
         const val SD_JWT_PATTERN =
@@ -40,7 +40,10 @@ class SDMap(
         return "$indentation + with decoys: $decoyMode (${decoys})\n" + keys.flatMap { key ->
             listOfNotNull(
                 "${indentation}- $key: ${fields[key]?.sd == true}",
-                fields[key]?.children?.prettyPrint(indentBy + 2)
+                fields[key]?.children?.prettyPrint(indentBy + 2),
+                fields[key]?.elements?.let { elements ->
+                    "${indentation}  [${elements.joinToString(", ") { it.sd.toString() }}]"
+                }
             )
         }.joinToString("\n")
     }
@@ -128,10 +131,34 @@ class SDMap(
             return SDField(
                 sd, if (value is JsonObject) {
                     regenerateSDMap(value.jsonObject, digestedDisclosure)
+                } else null,
+                if (value is JsonArray) {
+                    regenerateSDElements(value, digestedDisclosure)
                 } else null
             )
         }
 
+        private fun SDField.hasSelectiveDisclosures(): Boolean =
+            sd || children?.values?.any { it.hasSelectiveDisclosures() } == true || elements?.any { it.hasSelectiveDisclosures() } == true
+
+        /**
+         * Regenerate the SDFields of the array elements, null if the array has no selectively disclosable elements.
+         * Elements whose disclosure is not appended are kept as selectively disclosable, so indices match the undisclosed array.
+         */
+        private fun regenerateSDElements(
+            undisclosedArray: JsonArray,
+            digestedDisclosures: Map<String, SDisclosure>
+        ): List<SDField>? {
+            return undisclosedArray.map { element ->
+                when (val digest = element.getArrayElementDigest()) {
+                    null -> regenerateSDField(false, element, digestedDisclosures)
+                    else -> digestedDisclosures[digest]?.takeIf { it.isArrayElement }
+                        ?.let { regenerateSDField(true, it.value, digestedDisclosures) }
+                        ?: SDField(true)
+                }
+            }.takeIf { elements -> elements.any { it.hasSelectiveDisclosures() } }
+        }
+
         /**
          * Regenerate SDMap recursively, from undisclosed payload and digested disclosures map. Used for parsing SD-JWTs.
          * @param undisclosedPayload  Undisclosed payload as contained in the JWT body of the SD-JWT token.
@@ -144,7 +171,8 @@ class SDMap(
             return (undisclosedPayload[SDJwt.DIGESTS_KEY]?.jsonArray?.filter { digestedDisclosures.containsKey(it.jsonPrimitive.content) }
                 ?.map { sdEntry ->
                     digestedDisclosures[sdEntry.jsonPrimitive.content]!!
-                }?.associateBy({ it.key }, { regenerateSDField(true, it.value, digestedDisclosures) }) ?: mapOf())
+                }?.filterNot { it.isArrayElement }
+                ?.associateBy({ it.key!! }, { regenerateSDField(true, it.value, digestedDisclosures) }) ?: mapOf())
                 .plus(
                     undisclosedPayload.filterNot { it.key == SDJwt.DIGESTS_KEY }.mapValues {
                         regenerateSDField(false, it.value, digestedDisclosures)
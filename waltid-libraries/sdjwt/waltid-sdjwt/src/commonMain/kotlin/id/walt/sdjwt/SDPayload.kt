@@ -10,6 +10,12 @@ import kotlin.io.encoding.ExperimentalEncodingApi
 import kotlin.js.ExperimentalJsExport
 import kotlin.js.JsExport
 
+/**
+ * Digest of a {"...": digest} array element, null for other array elements
+ */
+internal fun JsonElement.getArrayElementDigest(): String? =
+    (this as? JsonObject)?.takeIf { it.size == 1 }?.get(SDJwt.ARRAY_ELEMENT_DIGEST_KEY)?.jsonPrimitive?.content
+
 /**
  * Payload object of the SD-JWT, representing the undisclosed payload from the JWT body and the selective disclosures, appended to the JWT token
  * @param undisclosedPayload  Undisclosed payload JSON object, as contained in the JWT body
@@ -56,60 +62,99 @@ data class SDPayload internal constructor(
                             verificationDisclosureMap = verificationDisclosureMap
                         )
                     }
-                } else if (entry.value is JsonObject) {
-                    put(
-                        entry.key, disclosePayloadRecursively(
-                            payload = entry.value.jsonObject,
-                            verificationDisclosureMap = verificationDisclosureMap
-                        )
-                    )
                 } else {
-                    put(entry.key, entry.value)
+                    put(entry.key, discloseValueRecursively(entry.value, verificationDisclosureMap))
                 }
             }
         }
     }
 
+    private fun discloseValueRecursively(
+        value: JsonElement,
+        verificationDisclosureMap: MutableMap<String, SDisclosure>?
+    ): JsonElement = when (value) {
+        is JsonObject -> disclosePayloadRecursively(value, verificationDisclosureMap)
+        is JsonArray -> discloseArrayRecursively(value, verificationDisclosureMap)
+        else -> value
+    }
+
+    private fun discloseArrayRecursively(
+        array: JsonArray,
+        verificationDisclosureMap: MutableMap<String, SDisclosure>?
+    ): JsonArray {
+        return buildJsonArray {
+            array.forEach { element ->
+                when (val digest = element.getArrayElementDigest()) {
+                    null -> add(discloseValueRecursively(element, verificationDisclosureMap))
+                    // undisclosed array elements are left out
+                    else -> findDisclosure(digest, arrayElement = true, verificationDisclosureMap)?.let {
+                        add(discloseValueRecursively(it.value, verificationDisclosureMap))
+                    }
+                }
+            }
+        }
+    }
+
+    /**
+     * Disclosure for the digest, if it is appended and of the expected kind (array element or object property)
+     */
+    private fun findDisclosure(
+        digest: String,
+        arrayElement: Boolean,
+        verificationDisclosureMap: MutableMap<String, SDisclosure>?
+    ): SDisclosure? {
+        return (verificationDisclosureMap?.get(digest) ?: digestedDisclosures[digest])
+            ?.takeIf { it.isArrayElement == arrayElement }
+            ?.also { verificationDisclosureMap?.remove(digest) }
+    }
+
     private fun unveilDisclosureIfPresent(
         digest: String,
         objectBuilder: JsonObjectBuilder,
         verificationDisclosureMap: MutableMap<String, SDisclosure>?
     ) {
-        val sDisclosure = verificationDisclosureMap?.remove(digest) ?: digestedDisclosures[digest]
+        val sDisclosure = findDisclosure(digest, arrayElement = false, verificationDisclosureMap)
         if (sDisclosure != null) {
-            objectBuilder.put(
-                sDisclosure.key,
-                if (sDisclosure.value is JsonObject) {
-                    disclosePayloadRecursively(
-                        payload = sDisclosure.value.jsonObject,
-                        verificationDisclosureMap = verificationDisclosureMap
-                    )
-                } else sDisclosure.value
-            )
+            objectBuilder.put(sDisclosure.key!!, discloseValueRecursively(sDisclosure.value, verificationDisclosureMap))
         }
     }
 
+    private fun filterNestedDisclosures(value: JsonElement, sdField: SDField): Set<String> = when {
+        value is JsonObject && !sdField.children.isNullOrEmpty() -> filterDisclosures(value, sdField.children)
+        value is JsonArray && !sdField.elements.isNullOrEmpty() -> filterArrayDisclosures(value, sdField.elements)
+        else -> setOf()
+    }
+
+    private fun filterArrayDisclosures(currPayloadArray: JsonArray, sdElements: List<SDField>): Set<String> {
+        return currPayloadArray.withIndex().flatMap { (index, element) ->
+            val sdField = sdElements.getOrNull(index) ?: return@flatMap setOf<String>()
+            when (val digest = element.getArrayElementDigest()) {
+                null -> filterNestedDisclosures(element, sdField)
+                else -> digestedDisclosures[digest]
+                    ?.takeIf { sd -> sd.isArrayElement && sdField.sd }
+                    ?.let { sd -> setOf(sd.disclosure).plus(filterNestedDisclosures(sd.value, sdField)) }
+                    ?: setOf()
+            }
+        }.toSet()
+    }
+
     private fun filterDisclosures(currPayloadObject: JsonObject, sdMap: Map<String, SDField>): Set<String> {
         if (currPayloadObject.containsKey(SDJwt.DIGESTS_KEY) && currPayloadObject[SDJwt.DIGESTS_KEY] !is JsonArray) {
             throw Exception("Invalid ${SDJwt.DIGESTS_KEY} format found")
         }
 
-        return currPayloadObject.filter { entry -> entry.value is JsonObject && !sdMap[entry.key]?.children.isNullOrEmpty() }
+        return currPayloadObject.filterKeys { it != SDJwt.DIGESTS_KEY }
             .flatMap { entry ->
-                filterDisclosures(entry.value.jsonObject, sdMap[entry.key]!!.children!!)
+                sdMap[entry.key]?.let { filterNestedDisclosures(entry.value, it) } ?: setOf()
             }.plus(
                 currPayloadObject[SDJwt.DIGESTS_KEY]?.jsonArray
                     ?.asSequence()
                     ?.map { it.jsonPrimitive.content }
-                    ?.filter { digest -> digestedDisclosures.containsKey(digest) }
-                    ?.map { digest -> digestedDisclosures[digest]!! }
-                    ?.filter { sd -> sdMap[sd.key]?.sd == true }
+                    ?.mapNotNull { digest -> digestedDisclosures[digest] }
+                    ?.filterNot { sd -> sd.isArrayElement }
+                    ?.filter { sd -> sdMap[sd.key!!]?.sd == true }
                     ?.flatMap { sd ->
-                        listOf(sd.disclosure).plus(
-                            if (sd.value is JsonObject && !sdMap[sd.key]?.children.isNullOrEmpty()) {
-                                filterDisclosures(sd.value, sdMap[sd.key]!!.children!!)
-                            } else listOf()
-                        )
+                        listOf(sd.disclosure).plus(filterNestedDisclosures(sd.value, sdMap[sd.key!!]!!))
                     }
                     ?.toList() ?: listOf()
             ).toSet()
@@ -157,11 +202,12 @@ data class SDPayload internal constructor(
             return base64Url.encode(randomness)
         }
 
-        private fun generateDisclosure(key: String, value: JsonElement): SDisclosure {
+        // Disclosures of array elements have no key: [salt, value]
+        private fun generateDisclosure(key: String?, value: JsonElement): SDisclosure {
             val salt = generateSalt()
             return base64Url.encode(buildJsonArray {
                 add(salt)
-                add(key)
+                key?.let { add(it) }
                 add(value)
             }.toString().encodeToByteArray()).let { disclosure ->
                 SDisclosure(
@@ -174,7 +220,7 @@ data class SDPayload internal constructor(
         }
 
         private fun digestSDClaim(
-            key: String,
+            key: String?,
             value: JsonElement,
             digests2disclosures: MutableMap<String, SDisclosure>
         ): String {
@@ -201,10 +247,18 @@ data class SDPayload internal constructor(
         ): JsonObject {
             val sdPayload = removeSDFields(payload, sdMap).toMutableMap()
             val digests = payload.filterKeys { key ->
-                // iterate over all fields that are selectively disclosable AND/OR have nested fields that might be:
-                sdMap[key]?.sd == true || !sdMap[key]?.children.isNullOrEmpty()
+                // iterate over all fields that are selectively disclosable AND/OR have nested fields or array elements that might be:
+                sdMap[key]?.sd == true || !sdMap[key]?.children.isNullOrEmpty() || !sdMap[key]?.elements.isNullOrEmpty()
             }.map { entry ->
-                if (entry.value !is JsonObject || sdMap[entry.key]?.children.isNullOrEmpty()) {
+                // the nested properties or array elements could be selectively disclosable individually
+                // recursively generate SD payload for nested object or array:
+                val nestedSDPayload = generateNestedSDValue(
+                    value = entry.value,
+                    sdField = sdMap[entry.key]!!,
+                    digests2disclosures = digests2disclosures
+                )
+
+                if (nestedSDPayload == null) {
                     // this field has no nested elements and/or is selectively disclosable only as a whole:
                     digestSDClaim(
                         key = entry.key,
@@ -212,14 +266,6 @@ data class SDPayload internal constructor(
                         digests2disclosures = digests2disclosures
                     )
                 } else {
-                    // the nested properties could be selectively disclosable individually
-                    // recursively generate SD payload for nested object:
-                    val nestedSDPayload = generateSDPayload(
-                        payload = entry.value.jsonObject,
-                        sdMap = sdMap[entry.key]!!.children!!,
-                        digests2disclosures = digests2disclosures
-                    )
-
                     if (sdMap[entry.key]?.sd == true) {
                         // this nested object is also selectively disclosable as a whole
                         // so let's compute the digest and disclosure for the nested SD payload:
@@ -255,6 +301,42 @@ data class SDPayload internal constructor(
             return JsonObject(sdPayload)
         }
 
+        /**
+         * SD payload of a nested object or array, null if it has no selectively disclosable properties or elements
+         */
+        private fun generateNestedSDValue(
+            value: JsonElement,
+            sdField: SDField,
+            digests2disclosures: MutableMap<String, SDisclosure>
+        ): JsonElement? = when {
+            value is JsonObject && !sdField.children.isNullOrEmpty() -> generateSDPayload(value, sdField.children, digests2disclosures)
+            value is JsonArray && !sdField.elements.isNullOrEmpty() -> generateSDArray(value, sdField.elements, digests2disclosures)
+            else -> null
+        }
+
+        /**
+         * Replace the selectively disclosable array elements by {"...": digest} elements
+         */
+        private fun generateSDArray(
+            array: JsonArray,
+            sdElements: List<SDField>,
+            digests2disclosures: MutableMap<String, SDisclosure>
+        ): JsonArray {
+            return buildJsonArray {
+                array.forEachIndexed { index, element ->
+                    val sdField = sdElements.getOrNull(index)
+                    val value = sdField?.let { generateNestedSDValue(element, it, digests2disclosures) } ?: element
+                    if (sdField?.sd == true) {
+                        add(buildJsonObject {
+                            put(SDJwt.ARRAY_ELEMENT_DIGEST_KEY, digestSDClaim(null, value, digests2disclosures))
+                        })
+                    } else {
+                        add(value)
+                    }
+                }
+            }
+        }
+
         /**
          * Create SD payload object, based on full payload and disclosure map.
          * **Not supported on JavaScript**, use _SDPayloadBuilder_ instead.
@@ -10,10 +10,10 @@ import kotlin.js.ExperimentalJsExport
 import kotlin.js.JsExport
 
 /**
- * Selective Disclosure for a given payload field. Contains salt, field key and field value.
+ * Selective Disclosure for a given payload field or array element. Contains salt, field key and field value.
  * @param disclosure  The encoded disclosure, as given in the SD-JWT token.
  * @param salt  Salt value
- * @param key Field key
+ * @param key Field key, null for array element disclosures
  * @param value Field value
  */
 @ConsistentCopyVisibility
@@ -22,9 +22,15 @@ import kotlin.js.JsExport
 data class SDisclosure internal constructor(
     val disclosure: String,
     val salt: String,
-    val key: String,
+    val key: String?,
     val value: JsonElement
 ) {
+    /**
+     * Disclosure of an array element, referenced by a {"...": digest} element instead of an _sd digest
+     */
+    val isArrayElement
+        get() = key == null
+
     companion object {
         /**
          * Parse an encoded disclosure string
@@ -32,15 +38,24 @@ data class SDisclosure internal constructor(
         @OptIn(ExperimentalEncodingApi::class)
         fun parse(disclosure: String) =
             Json.parseToJsonElement(disclosure.decodeFromBase64Url().decodeToString()).jsonArray.let {
-                if (it.size != 3) {
-                    throw Exception("Invalid selective disclosure")
+                when (it.size) {
+                    // array element: [salt, value]
+                    2 -> SDisclosure(
+                        disclosure = disclosure,
+                        salt = it[0].jsonPrimitive.content,
+                        key = null,
+                        value = it[1]
+                    )
+
+                    3 -> SDisclosure(
+                        disclosure = disclosure,
+                        salt = it[0].jsonPrimitive.content,
+                        key = it[1].jsonPrimitive.content,
+                        value = it[2]
+                    )
+
+                    else -> throw Exception("Invalid selective disclosure")
                 }
-                SDisclosure(
-                    disclosure = disclosure,
-                    salt = it[0].jsonPrimitive.content,
-                    key = it[1].jsonPrimitive.content,
-                    value = it[2]
-                )
             }
     }
 }
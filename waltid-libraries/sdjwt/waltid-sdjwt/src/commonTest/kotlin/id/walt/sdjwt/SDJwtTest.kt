@@ -4,6 +4,8 @@ package id.walt.sdjwt
 import korlibs.crypto.SHA256
 import korlibs.crypto.encoding.ASCII
 import kotlinx.serialization.json.*
+import kotlin.io.encoding.Base64
+import kotlin.io.encoding.ExperimentalEncodingApi
 import kotlin.test.*
 
 class SDJwtTest {
@@ -116,6 +118,120 @@ class SDJwtTest {
         assertEquals(expected = numSdFieldsLevel2 + 5, actual = nestedDisclosure.value.jsonObject[SDJwt.DIGESTS_KEY]!!.jsonArray.size)
     }
 
+    @Test
+    fun testSDPayloadGenerationWithArrayElements() {
+        val fullPayload = buildJsonObject {
+            put("nationalities", buildJsonArray {
+                add("DE")
+                add("FR")
+            })
+            put("driving_privileges", buildJsonArray {
+                add(buildJsonObject {
+                    put("vehicle_category_code", "A")
+                    put("issue_date", "2018-08-09")
+                })
+            })
+        }
+
+        val sdPayload = SDPayload.createSDPayload(
+            fullPayload, mapOf(
+                "nationalities" to SDField(false, elements = listOf(SDField(false), SDField(true))),
+                "driving_privileges" to SDField(
+                    true, elements = listOf(
+                        SDField(true, mapOf("issue_date" to SDField(true)).toSDMap())
+                    )
+                )
+            ).toSDMap()
+        )
+
+        val nationalities = sdPayload.undisclosedPayload["nationalities"]!!.jsonArray
+        assertEquals(expected = JsonPrimitive("DE"), actual = nationalities[0])
+        val elementDigest = nationalities[1].jsonObject[SDJwt.ARRAY_ELEMENT_DIGEST_KEY]!!.jsonPrimitive.content
+        val elementDisclosure = sdPayload.digestedDisclosures[elementDigest]
+        assertNotNull(actual = elementDisclosure)
+        assertTrue(actual = elementDisclosure.isArrayElement)
+        assertEquals(expected = JsonPrimitive("FR"), actual = elementDisclosure.value)
+        assertEquals(expected = elementDisclosure, actual = SDisclosure.parse(elementDisclosure.disclosure))
+
+        // the array as a whole, its element and the element's property are disclosable
+        assertFalse(actual = sdPayload.undisclosedPayload.containsKey("driving_privileges"))
+        assertEquals(expected = 4, actual = sdPayload.digestedDisclosures.size)
+        assertEquals(expected = fullPayload, actual = sdPayload.fullPayload)
+        assertTrue(actual = sdPayload.verifyDisclosures())
+
+        val sdMap = sdPayload.sdMap
+        assertEquals(expected = listOf(false, true), actual = sdMap["nationalities"]!!.elements!!.map { it.sd })
+        assertTrue(actual = sdMap["driving_privileges"]!!.sd)
+        assertTrue(actual = sdMap["driving_privileges"]!!.elements!!.single().children!!["issue_date"]!!.sd)
+    }
+
+    @Test
+    fun testPresentationWithArrayElements() {
+        val fullPayload = buildJsonObject {
+            put("nationalities", buildJsonArray {
+                add("DE")
+                add("FR")
+                add("US")
+            })
+        }
+        val sdPayload = SDPayload.createSDPayload(
+            fullPayload, mapOf(
+                "nationalities" to SDField(false, elements = listOf(SDField(true), SDField(true), SDField(false)))
+            ).toSDMap()
+        )
+
+        val presented = sdPayload.withSelectiveDisclosures(
+            mapOf("nationalities" to SDField(false, elements = listOf(SDField(false), SDField(true), SDField(false))))
+        )
+
+        assertEquals(expected = 1, actual = presented.digestedDisclosures.size)
+        assertEquals(
+            expected = buildJsonArray {
+                add("FR")
+                add("US")
+            }, actual = presented.fullPayload["nationalities"]
+        )
+        assertTrue(actual = presented.verifyDisclosures())
+        assertEquals(expected = listOf(true, true, false), actual = presented.sdMap["nationalities"]!!.elements!!.map { it.sd })
+    }
+
+    @OptIn(ExperimentalEncodingApi::class)
+    @Test
+    fun testArrayElementDisclosureOnlyForArrayElements() {
+        // Array element disclosure from RFC 9901: ["lklxF5jMYlGTPUovMNIvCA", "FR"]
+        val disclosure = SDisclosure.parse("WyJsa2x4RjVqTVlsR1RQVW92TU5JdkNBIiwgIkZSIl0")
+        assertNull(actual = disclosure.key)
+        assertEquals(expected = JsonPrimitive("FR"), actual = disclosure.value)
+
+        val sdPayload = SDPayload.createSDPayload(
+            buildJsonObject { put("nationalities", buildJsonArray { add("FR") }) },
+            mapOf("nationalities" to SDField(false, elements = listOf(SDField(true)))).toSDMap()
+        )
+        val elementDigest = sdPayload.undisclosedPayload["nationalities"]!!.jsonArray[0].jsonObject[SDJwt.ARRAY_ELEMENT_DIGEST_KEY]!!
+
+        // the array element digest is referenced from _sd instead of the array
+        val misplaced = SDPayload.parse(
+            jwtBody = Base64.UrlSafe.encode(buildJsonObject {
+                put(SDJwt.DIGESTS_KEY, buildJsonArray { add(elementDigest) })
+            }.toString().encodeToByteArray()).trimEnd('='),
+            disclosures = sdPayload.digestedDisclosures.values.map { it.disclosure }.toSet()
+        )
+        assertEquals(expected = buildJsonObject { }, actual = misplaced.fullPayload)
+        assertFalse(actual = misplaced.verifyDisclosures())
+    }
+
+    @Test
+    fun testSdMapWithArrayElementsJson() {
+        val sdMap = mapOf(
+            "nationalities" to SDField(false, elements = listOf(SDField(false), SDField(true, mapOf("code" to SDField(true)).toSDMap())))
+        ).toSDMap()
+
+        val parsed = SDMap.fromJSON(sdMap.toJSON().toString())
+        assertEquals(expected = sdMap.toJSON(), actual = parsed.toJSON())
+        assertTrue(actual = parsed["nationalities"]!!.elements!![1].children!!["code"]!!.sd)
+        assertNull(actual = SDMap.fromJSON("""{"fields": {"sub": {"sd": true}}}""")["sub"]!!.elements)
+    }
+
     @Test
     fun testSdMapFromJsonPaths() {
         val sdmap1 = SDMap.generateSDMap(listOf("credentialSubject", "credentialSubject.firstName"))
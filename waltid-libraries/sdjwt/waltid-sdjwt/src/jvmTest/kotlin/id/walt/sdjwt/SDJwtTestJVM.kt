@@ -126,7 +126,7 @@ class SDJwtTestJVM {
     fun forgeDislosure(disclosure: SDisclosure): String {
         return Base64.UrlSafe.encode(buildJsonArray {
             add(disclosure.salt)
-            add(disclosure.key)
+            disclosure.key?.let { add(it) }
             add(JsonPrimitive("<forged>"))
         }.toString().encodeToByteArray()).trimEnd('=')
     }
@@ -690,7 +690,7 @@ class ExchangeExternalSignatures(private val e2e: E2ETest) {
             .joinToString("~") { disclosure ->
                 Base64.UrlSafe.encode(buildJsonArray {
                     add(disclosure.salt)
-                    add(disclosure.key)
+                    disclosure.key?.let { add(it) }
                     add(JsonPrimitive("<forged>"))
                 }.toString().encodeToByteArray()).trimEnd('=')
             }
@@ -9,4 +9,6 @@ import kotlinx.coroutines.runBlocking
 data class OIDCIssuerServiceConfig(
     val baseUrl: String,
     val ciTokenKey: String = runBlocking { KeySerialization.serializeKey(JWKKey.generate(KeyType.secp256r1)) },
+    /** Bearer token for the operator endpoints (deferred issuance approvals), these are disabled without it */
+    val operatorApiKey: String? = null,
 ) : WaltConfig()
@@ -111,6 +111,8 @@ open class CIProvider(
     companion object {
         private val log = KotlinLogging.logger { }
 
+        private val DEFERRED_REQUEST_EXPIRATION = 5.minutes
+
         // EUDI mDoc config - loaded lazily with null fallback if not configured
         private val eudiMdocConfig: EudiMdocConfig? by lazy {
             try {
@@ -203,11 +205,44 @@ open class CIProvider(
 
 
     private val deferredCredentialRequests = ConfiguredPersistence<CredentialRequest>(
-        "deferred_credential_requests", defaultExpiration = 5.minutes,
+        "deferred_credential_requests", defaultExpiration = DEFERRED_REQUEST_EXPIRATION,
         encoding = { Json.encodeToString(it) },
         decoding = { Json.decodeFromString(it) },
     )
 
+    private val deferredIssuances = ConfiguredPersistence<DeferredIssuance>(
+        "deferred_issuances", defaultExpiration = 5.minutes,
+        encoding = { Json.encodeToString(it) },
+        decoding = { Json.decodeFromString(it) },
+    )
+
+    // Held deferred credentials live as long as their issuance session, but not shorter than other deferred requests
+    private fun getApprovalTtl(session: IssuanceSession): Duration =
+        maxOf(session.expirationTimestamp - Clock.System.now(), DEFERRED_REQUEST_EXPIRATION)
+
+    fun listDeferredIssuances(): List<DeferredIssuance> =
+        deferredIssuances.getAll().sortedBy { it.requestedAt }.toList()
+
+    /**
+     * Approve or reject a held deferred credential.
+     * Returns null if there is no such credential (or its session expired).
+     */
+    fun decideDeferredIssuance(credentialId: String, approve: Boolean, reason: String? = null): DeferredIssuance? {
+        val deferredIssuance = deferredIssuances[credentialId] ?: return null
+        require(deferredIssuance.status == DeferredIssuanceStatus.PENDING) {
+            "Deferred issuance $credentialId was already ${deferredIssuance.status.name.lowercase()}"
+        }
+        val session = getVerifiedSession(deferredIssuance.sessionId) ?: return null
+
+        return deferredIssuance.copy(
+            status = if (approve) DeferredIssuanceStatus.APPROVED else DeferredIssuanceStatus.REJECTED,
+            statusReason = reason,
+            decidedAt = Clock.System.now()
+        ).also {
+            deferredIssuances.set(credentialId, it, getApprovalTtl(session))
+        }
+    }
+
     fun getSession(id: String): IssuanceSession? {
         log.debug { "RETRIEVING CI AUTH SESSION: $id" }
         return authSessions[id]
@@ -308,7 +343,23 @@ open class CIProvider(
                 credential = null,
                 credentialId = randomUUIDString()
             ).also {
-                deferredCredentialRequests[it.credentialId!!] = credentialRequest
+                val credentialId = it.credentialId!!
+                val issuanceRequest = findMatchingIssuanceRequest(credentialRequest, session.issuanceRequests)
+                if (issuanceRequest?.requireApproval == true) {
+                    val ttl = getApprovalTtl(session)
+                    deferredCredentialRequests.set(credentialId, credentialRequest, ttl)
+                    deferredIssuances.set(
+                        credentialId, DeferredIssuance(
+                            credentialId = credentialId,
+                            sessionId = session.id,
+                            credentialConfigurationId = issuanceRequest.credentialConfigurationId,
+                            format = it.format,
+                            requestedAt = Clock.System.now()
+                        ), ttl
+                    )
+                } else {
+                    deferredCredentialRequests[credentialId] = credentialRequest
+                }
             }
         }
 
@@ -322,6 +373,21 @@ open class CIProvider(
         credentialID: String,
         session: IssuanceSession
     ): CredentialResult {
+        deferredIssuances[credentialID]?.let {
+            when (it.status) {
+                DeferredIssuanceStatus.PENDING -> throw DeferredCredentialError(
+                    errorCode = CredentialErrorCode.issuance_pending,
+                    message = "Credential issuance is awaiting approval"
+                )
+
+                DeferredIssuanceStatus.REJECTED -> throw DeferredCredentialError(
+                    errorCode = CredentialErrorCode.credential_request_denied,
+                    message = it.statusReason ?: "Credential issuance was rejected"
+                )
+
+                DeferredIssuanceStatus.APPROVED -> Unit
+            }
+        }
         return deferredCredentialRequests[credentialID]?.let {
             when (it.format) {
                 CredentialFormat.mso_mdoc -> runBlocking { doGenerateMDoc(it, session) }
@@ -659,7 +725,7 @@ open class CIProvider(
         metadata.credentialConfigurationsSupported?.get(id)?.docType
 
     // Use format, type, vct and docType checks to filter matching entries
-    private fun findMatchingIssuanceRequest(
+    internal fun findMatchingIssuanceRequest(
         credentialRequest: CredentialRequest,
         issuanceRequests: List<IssuanceRequest>
     ): IssuanceRequest? {
@@ -671,7 +737,8 @@ open class CIProvider(
                         "Session format: $credentialFormat"
             }
 
-            require(credentialFormat == credentialRequest.format) { "Format does not match" }
+            // Sessions may hold credentials of several formats
+            if (credentialFormat != credentialRequest.format) return@find false
             // Depending on the format, perform specific checks
             val additionalMatches =
                 when (credentialRequest.format) {
@@ -773,7 +840,8 @@ open class CIProvider(
                 credentialOffer = it.credentialOffer,
                 cNonce = it.cNonce,
                 callbackUrl = it.callbackUrl,
-                customParameters = it.customParameters
+                customParameters = it.customParameters,
+                authorizedAt = Clock.System.now()
             )
             putSession(it.id, updatedSession, expiresIn)
         }
@@ -979,6 +1047,12 @@ open class CIProvider(
             session = updatedSession
         }
 
+        // Record the code redemption for the session status endpoint
+        session = session.copy(tokenIssuedAt = Clock.System.now()).also {
+            val remaining = (it.expirationTimestamp - Clock.System.now()).let { d -> if (d.isNegative()) 0.minutes else d }
+            putSession(sessionId, it, remaining)
+        }
+
         // Expiration time required by EBSI
         val currentTime = Clock.System.now().epochSeconds
         val expirationTime = (currentTime + 864000L) // ten days in milliseconds
@@ -0,0 +1,34 @@
+@file:OptIn(ExperimentalTime::class)
+
+package id.walt.issuer.issuance
+
+import id.walt.oid4vc.data.CredentialFormat
+import kotlinx.serialization.Serializable
+import kotlin.time.ExperimentalTime
+import kotlin.time.Instant
+
+@Serializable
+enum class DeferredIssuanceStatus {
+    PENDING, APPROVED, REJECTED
+}
+
+/**
+ * Deferred credential held back until an operator approves it (IssuanceRequest.requireApproval).
+ * The wallet gets issuance_pending from the deferred credential endpoint until then.
+ */
+@Serializable
+data class DeferredIssuance(
+    val credentialId: String,
+    val sessionId: String,
+    val credentialConfigurationId: String,
+    val format: CredentialFormat,
+    val status: DeferredIssuanceStatus = DeferredIssuanceStatus.PENDING,
+    val statusReason: String? = null,
+    val requestedAt: Instant,
+    val decidedAt: Instant? = null,
+)
+
+@Serializable
+data class DeferredIssuanceDecision(
+    val reason: String? = null,
+)
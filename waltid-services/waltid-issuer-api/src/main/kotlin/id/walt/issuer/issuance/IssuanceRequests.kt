@@ -96,6 +96,9 @@ data class IssuanceRequest(
     val display: List<DisplayProperties>? = null,
     val draft11EncodeOfferedCredentialsByReference: Boolean? = true, //if set to false and only for standard version DRAFT11, offered credentials will be encoded by value, not by reference - required by EBSI Vector
     val issuanceType: String? = null, // IN_TIME, DEFERRED
+    val requireApproval: Boolean? = null, // DEFERRED only: the credential is released after an operator approved it
+    val txCode: TxCode? = null, // pre-authorized code flow only: tx_code advertised in the credential offer
+    val txCodeValue: String? = null, // the PIN the wallet has to send with the token request
 ) {
 
     init {
@@ -109,6 +112,27 @@ data class IssuanceRequest(
             throw BadRequestException("Credential configuration ID in the request body cannot be empty")
         }
 
+        txCode?.let { code ->
+            require(authenticationMethod == AuthenticationMethod.PRE_AUTHORIZED) {
+                throw BadRequestException("A tx_code can only be used for the pre-authorized code flow")
+            }
+            require(!txCodeValue.isNullOrEmpty()) {
+                throw BadRequestException("A tx_code requires the txCodeValue the wallet has to provide")
+            }
+            require(code.length == null || code.length == txCodeValue.length) {
+                throw BadRequestException("The tx_code length does not match the length of txCodeValue")
+            }
+            require(code.inputMode != TxInputMode.numeric || txCodeValue.all { it in '0'..'9' }) {
+                throw BadRequestException("A numeric tx_code requires a txCodeValue consisting of digits")
+            }
+        }
+
+        if (requireApproval == true) {
+            require(issuanceType == "DEFERRED") {
+                throw BadRequestException("requireApproval can only be used with the DEFERRED issuance type")
+            }
+        }
+
         // Note: issuerKey validation moved to endpoint level - allows fallback to config defaults for mDoc
         issuerKey?.let {
             require(it.isNotEmpty()) {
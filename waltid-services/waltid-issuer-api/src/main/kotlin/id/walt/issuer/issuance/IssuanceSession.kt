@@ -3,7 +3,9 @@
 package id.walt.issuer.issuance
 
 import id.walt.issuer.psp.FundingSource
+import id.walt.oid4vc.data.AuthenticationMethod
 import id.walt.oid4vc.data.CredentialOffer
+import id.walt.oid4vc.data.GrantType
 import id.walt.oid4vc.data.TxCode
 import id.walt.oid4vc.providers.AuthorizationSession
 import id.walt.oid4vc.requests.AuthorizationRequest
@@ -34,9 +36,42 @@ data class IssuanceSession(
     val statusReason: String? = null,
     val isClosed: Boolean = false,
     val dpopThumbprint: String? = null, // DPoP JWK thumbprint for token binding
+    val authorizedAt: Instant? = null, // wallet sent an authorization request for this session's issuer_state
+    val tokenIssuedAt: Instant? = null, // wallet redeemed the pre-authorized or authorization code
     // PWA (Payment Wallet Attestation) fields - only populated when PWA feature enabled
     /** Resolved funding sources from PSP adapter (null when PWA disabled) */
     val resolvedFundingSources: List<FundingSource>? = null,
     /** Mapping from credential_identifier to funding source for credential issuance (null when PWA disabled) */
     val credentialIdentifierMapping: Map<String, FundingSource>? = null,
 ) : AuthorizationSession()
+
+/**
+ * Public progress of an issuance session, without issuance requests or tx_code values
+ */
+@Serializable
+data class IssuanceSessionInfo(
+    val id: String,
+    val grantType: String,
+    val status: IssuanceSessionStatus,
+    val statusReason: String? = null,
+    val closed: Boolean,
+    val credentialConfigurationIds: List<String>,
+    val authorizedAt: Instant? = null,
+    val tokenIssuedAt: Instant? = null,
+    val expiresAt: Instant,
+) {
+    companion object {
+        fun fromSession(session: IssuanceSession) = IssuanceSessionInfo(
+            id = session.id,
+            grantType = if (session.issuanceRequests.firstOrNull()?.authenticationMethod == AuthenticationMethod.PRE_AUTHORIZED)
+                GrantType.pre_authorized_code.value else GrantType.authorization_code.value,
+            status = session.status,
+            statusReason = session.statusReason,
+            closed = session.isClosed,
+            credentialConfigurationIds = session.issuanceRequests.map { it.credentialConfigurationId },
+            authorizedAt = session.authorizedAt,
+            tokenIssuedAt = session.tokenIssuedAt,
+            expiresAt = session.expirationTimestamp,
+        )
+    }
+}
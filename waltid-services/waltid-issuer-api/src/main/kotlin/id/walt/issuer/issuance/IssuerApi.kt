@@ -4,11 +4,18 @@ import id.walt.crypto.keys.KeyManager
 import id.walt.did.dids.DidService
 import id.walt.issuer.issuance.OidcApi.buildCredentialOfferUri
 import id.walt.issuer.issuance.OidcApi.buildOfferUri
+import id.walt.issuer.issuance.OidcApi.decideDeferredIssuance
 import id.walt.issuer.issuance.OidcApi.getFormatByCredentialConfigurationId
+import id.walt.issuer.issuance.OidcApi.getSession
+import id.walt.issuer.issuance.OidcApi.listDeferredIssuances
+import id.walt.issuer.issuance.openapi.issuerapi.DeferredIssuanceDocs.getDeferredIssuanceDecisionDocs
+import id.walt.issuer.issuance.openapi.issuerapi.DeferredIssuanceDocs.getDeferredIssuancesDocs
 import id.walt.issuer.issuance.openapi.issuerapi.IssuanceRequestErrors
+import id.walt.issuer.issuance.openapi.issuerapi.IssuerSessionDocs.getIssuanceSessionDocs
 import id.walt.issuer.issuance.openapi.issuerapi.JwtDocs.getJwtBatchDocs
 import id.walt.issuer.issuance.openapi.issuerapi.JwtDocs.getJwtDocs
 import id.walt.issuer.issuance.openapi.issuerapi.MdocDocs.getMdocsDocs
+import id.walt.issuer.issuance.openapi.issuerapi.MixedBatchDocs.getMixedBatchDocs
 import id.walt.issuer.issuance.openapi.issuerapi.RawJwtDocs
 import id.walt.issuer.issuance.openapi.issuerapi.SdJwtDocs.getSdJwtBatchDocs
 import id.walt.issuer.issuance.openapi.issuerapi.SdJwtDocs.getSdJwtDocs
@@ -16,10 +23,12 @@ import id.walt.oid4vc.data.CredentialFormat
 import id.walt.oid4vc.requests.CredentialOfferRequest
 import id.walt.w3c.vc.vcs.W3CVC
 import io.github.oshai.kotlinlogging.KotlinLogging
+import io.github.smiley4.ktoropenapi.get
 import io.github.smiley4.ktoropenapi.post
 import io.github.smiley4.ktoropenapi.route
 import io.ktor.http.*
 import io.ktor.server.application.*
+import io.ktor.server.auth.*
 import io.ktor.server.plugins.*
 import io.ktor.server.request.*
 import io.ktor.server.response.*
@@ -69,17 +78,35 @@ suspend fun validateIssuanceRequestKeys(requests: List<IssuanceRequest>) {
     }
 }
 
+/**
+ * An issuance session has a single tx_code, so all requests of a batch have to agree on it.
+ */
+fun validateIssuanceRequestTxCodes(requests: List<IssuanceRequest>) {
+    val first = requests.first()
+    requests.forEachIndexed { index, request ->
+        if (request.txCode != first.txCode || request.txCodeValue != first.txCodeValue) {
+            throw BadRequestException("The request at index $index uses a different txCode or txCodeValue than the first request of the batch")
+        }
+    }
+}
+
+/**
+ * Creates one issuance session for all requests.
+ * Without a [credentialFormat], each request keeps the format of its credential configuration (mixed-format batches).
+ */
 fun createCredentialOfferUri(
     issuanceRequests: List<IssuanceRequest>,
-    credentialFormat: CredentialFormat,
+    credentialFormat: CredentialFormat?,
     callbackUrl: String? = null,
     expiresIn: Duration = 5.minutes,
     sessionTtl: Duration? = null,
 ): String {
     val overwrittenIssuanceRequests = issuanceRequests.map {
+        val format = credentialFormat ?: getFormatByCredentialConfigurationId(it.credentialConfigurationId)
+            ?: throw IllegalArgumentException(INVALID_CREDENTIAL_CONFIGURATION_ID)
         it.copy(
-            credentialFormat = credentialFormat,
-            vct = if (credentialFormat == CredentialFormat.sd_jwt_vc || credentialFormat == CredentialFormat.sd_jwt_dc)
+            credentialFormat = format,
+            vct = if (format == CredentialFormat.sd_jwt_vc || format == CredentialFormat.sd_jwt_dc)
                 OidcApi.metadata.getVctByCredentialConfigurationId(
                     it.credentialConfigurationId
                 ) ?: throw IllegalArgumentException("VCT not found") else null
@@ -88,11 +115,14 @@ fun createCredentialOfferUri(
 
     overwrittenIssuanceRequests.first().standardVersion
         ?: throw IllegalArgumentException("Attribute [standardVersion] is null")
+    validateIssuanceRequestTxCodes(overwrittenIssuanceRequests)
 
     val issuanceSession = OidcApi.initializeCredentialOffer(
         issuanceRequests = overwrittenIssuanceRequests,
         expiresIn = sessionTtl ?: expiresIn,
         callbackUrl = callbackUrl,
+        txCode = overwrittenIssuanceRequests.first().txCode,
+        txCodeValue = overwrittenIssuanceRequests.first().txCodeValue,
         standardVersion = overwrittenIssuanceRequests.first().standardVersion!!
     )
 
@@ -147,6 +177,51 @@ fun Application.issuerApi() {
             }
 
             route("openid4vc") {
+                get("session/{id}", getIssuanceSessionDocs()) {
+                    val id = call.parameters["id"] ?: throw BadRequestException("Missing parameter \"id\"")
+                    val session = getSession(id)
+                        ?: throw NotFoundException("Invalid id provided (expired?): $id")
+
+                    call.respond(IssuanceSessionInfo.fromSession(session))
+                }
+
+                authenticate("auth-operator") {
+                    route("deferred") {
+                        get(getDeferredIssuancesDocs()) {
+                            call.respond(listDeferredIssuances())
+                        }
+
+                        for ((action, approve) in listOf("approve" to true, "reject" to false)) {
+                            post("{credentialId}/$action", getDeferredIssuanceDecisionDocs(approve)) {
+                                val credentialId = call.parameters["credentialId"]
+                                    ?: throw BadRequestException("Missing parameter \"credentialId\"")
+                                val decision = runCatching { call.receiveNullable<DeferredIssuanceDecision>() }.getOrNull()
+                                val deferredIssuance = decideDeferredIssuance(credentialId, approve, decision?.reason)
+                                    ?: throw NotFoundException("Invalid credential id provided (expired?): $credentialId")
+
+                                call.respond(deferredIssuance)
+                            }
+                        }
+                    }
+                }
+
+                post("issueBatch", getMixedBatchDocs()) {
+                    val issuanceRequests = call.receive<List<IssuanceRequest>>()
+                    require(issuanceRequests.isNotEmpty()) { "At least one issuance request is required" }
+                    validateIssuanceRequestKeys(issuanceRequests)
+                    val offerUri = createCredentialOfferUri(
+                        issuanceRequests = issuanceRequests,
+                        credentialFormat = null,
+                        callbackUrl = getCallbackUriHeader(),
+                        sessionTtl = getSessionTtl()
+                    )
+                    logger.debug { "Offer URI: $offerUri" }
+                    call.respond(
+                        status = HttpStatusCode.OK,
+                        message = offerUri
+                    )
+                }
+
                 route("jwt") {
                     post("issue", getJwtDocs()) {
                         val jwtIssuanceRequest = call.receive<IssuanceRequest>()
@@ -53,6 +53,31 @@ object OidcApi : CIProvider(), Klogging {
         }
     }
 
+    /**
+     * Update the session of a failed deferred credential request to UNSUCCESSFUL and emit the callback,
+     * unless the credential is awaiting approval.
+     */
+    suspend fun failDeferredIssuanceSession(acceptanceToken: String, error: DeferredCredentialError) {
+        if (error.errorCode == CredentialErrorCode.issuance_pending) return
+        runCatching {
+            val accessInfo = OpenID4VC.verifyAndParseToken(
+                token = acceptanceToken,
+                issuer = metadata.issuer!!,
+                target = TokenTarget.DEFERRED_CREDENTIAL,
+                tokenKey = CI_TOKEN_KEY
+            )
+            val sid = accessInfo[JWTClaims.Payload.subject]?.jsonPrimitive?.content
+            if (sid != null) getSession(sid)?.let {
+                updateSessionStatus(
+                    it,
+                    IssuanceSessionStatus.UNSUCCESSFUL,
+                    error.message,
+                    close = true
+                )
+            }
+        }
+    }
+
     fun Application.oidcApi() = oidcRoute {
         route("", {
             tags = listOf("oidc")
@@ -775,24 +800,7 @@ object OidcApi : CIProvider(), Klogging {
                         call.respond(generateDeferredCredentialResponse(accessToken).toJSON())
                     } catch (exc: DeferredCredentialError) {
                         logger.error(exc) { "DeferredCredentialError: " }
-                        // Update session status to UNSUCCESSFUL and emit callback
-                        runCatching {
-                            val accessInfo = OpenID4VC.verifyAndParseToken(
-                                token = accessToken,
-                                issuer = metadata.issuer!!,
-                                target = TokenTarget.DEFERRED_CREDENTIAL,
-                                tokenKey = CI_TOKEN_KEY
-                            )
-                            val sid = accessInfo[JWTClaims.Payload.subject]?.jsonPrimitive?.content
-                            if (sid != null) getSession(sid)?.let {
-                                updateSessionStatus(
-                                    it,
-                                    IssuanceSessionStatus.UNSUCCESSFUL,
-                                    exc.message,
-                                    close = true
-                                )
-                            }
-                        }
+                        failDeferredIssuanceSession(accessToken, exc)
                         call.respond(
                             status = HttpStatusCode.BadRequest,
                             message = exc.toCredentialErrorResponse().toJSON()
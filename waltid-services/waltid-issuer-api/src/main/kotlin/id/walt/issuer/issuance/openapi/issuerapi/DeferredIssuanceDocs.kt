@@ -0,0 +1,81 @@
+package id.walt.issuer.issuance.openapi.issuerapi
+
+import id.walt.issuer.issuance.DeferredIssuanceDecision
+import id.walt.issuer.issuance.DeferredIssuanceStatus
+import id.walt.oid4vc.data.CredentialFormat
+import io.github.smiley4.ktoropenapi.config.ResponsesConfig
+import io.github.smiley4.ktoropenapi.config.RouteConfig
+import io.ktor.http.*
+import kotlinx.serialization.Serializable
+
+object DeferredIssuanceDocs {
+    // Mirrors DeferredIssuance, with timestamps as ISO-8601 strings
+    @Serializable
+    data class SwaggerDeferredIssuance(
+        val credentialId: String,
+        val sessionId: String,
+        val credentialConfigurationId: String,
+        val format: CredentialFormat,
+        val status: DeferredIssuanceStatus,
+        val statusReason: String? = null,
+        val requestedAt: String,
+        val decidedAt: String? = null,
+    )
+
+    private const val OPERATOR_AUTHENTICATION =
+        "Requires the operator API key (issuer-service operatorApiKey) as \"Authorization: Bearer <key>\"."
+
+    private val unauthorizedResponse: ResponsesConfig.() -> Unit = {
+        HttpStatusCode.Unauthorized to {
+            description = "Missing or invalid operator API key, or no operatorApiKey configured"
+        }
+    }
+
+    fun getDeferredIssuancesDocs(): RouteConfig.() -> Unit = {
+        tags = listOf("Credential Issuance")
+        summary = "List deferred credentials that require approval"
+        description = "Credentials requested by wallets for issuance requests with requireApproval, " +
+                "pending as well as approved and rejected ones of sessions that have not expired yet. $OPERATOR_AUTHENTICATION"
+        response {
+            unauthorizedResponse()
+            HttpStatusCode.OK to {
+                description = "Deferred credentials, oldest request first"
+                body<List<SwaggerDeferredIssuance>>()
+            }
+        }
+    }
+
+    fun getDeferredIssuanceDecisionDocs(approve: Boolean): RouteConfig.() -> Unit = {
+        tags = listOf("Credential Issuance")
+        summary = if (approve) "Approve a pending deferred credential" else "Reject a pending deferred credential"
+        description = if (approve)
+            "The wallet receives the credential from the deferred credential endpoint with its next request. $OPERATOR_AUTHENTICATION"
+        else
+            "The wallet receives a credential_request_denied error from the deferred credential endpoint. $OPERATOR_AUTHENTICATION"
+        request {
+            pathParameter<String>("credentialId") {
+                description = "Credential ID of the deferred credential"
+                required = true
+            }
+            body<DeferredIssuanceDecision> {
+                required = false
+                description = "Optional reason, passed on to the wallet for rejections"
+            }
+        }
+        response {
+            unauthorizedResponse()
+            HttpStatusCode.OK to {
+                description = "Updated deferred credential"
+                body<SwaggerDeferredIssuance>()
+            }
+            HttpStatusCode.BadRequest to {
+                description = "The deferred credential was already approved or rejected"
+                body<String> {}
+            }
+            HttpStatusCode.NotFound to {
+                description = "Deferred credential not found, or its issuance session expired"
+                body<String> {}
+            }
+        }
+    }
+}
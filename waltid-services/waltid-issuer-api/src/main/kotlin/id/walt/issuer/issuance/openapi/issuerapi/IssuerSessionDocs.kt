@@ -1,17 +1,23 @@
 package id.walt.issuer.issuance.openapi.issuerapi
 
+import id.walt.issuer.issuance.IssuanceSessionStatus
 import io.github.smiley4.ktoropenapi.config.RouteConfig
 import io.ktor.http.*
 import kotlinx.serialization.Serializable
-import kotlinx.serialization.json.JsonElement
-import kotlinx.serialization.json.JsonObject
 
 object IssuerSessionDocs {
+    // Mirrors IssuanceSessionInfo, with timestamps as ISO-8601 strings
     @Serializable
     data class SwaggerIssuanceSessionInfo(
         val id: String,
-        val enterpriseStatusState: JsonObject? = null,
-        val customParameters: Map<String, JsonElement> = mapOf(),
+        val grantType: String,
+        val status: IssuanceSessionStatus,
+        val statusReason: String? = null,
+        val closed: Boolean,
+        val credentialConfigurationIds: List<String>,
+        val authorizedAt: String? = null,
+        val tokenIssuedAt: String? = null,
+        val expiresAt: String,
     )
 
     fun getIssuanceSessionDocs(): RouteConfig.() -> Unit = {
@@ -21,7 +27,7 @@ object IssuerSessionDocs {
             "Session info, containing current state and result information about an ongoing OIDC issuance session"
         request {
             pathParameter<String>("id") {
-                description = "Issuance Session ID"
+                description = "Issuance Session ID (the issuer_state of authorization code offers)"
                 required = true
             }
         }
@@ -0,0 +1,29 @@
+package id.walt.issuer.issuance.openapi.issuerapi
+
+import id.walt.issuer.issuance.IssuanceRequest
+import io.github.smiley4.ktoropenapi.config.RouteConfig
+
+object MixedBatchDocs {
+    fun getMixedBatchDocs(): RouteConfig.() -> Unit = {
+        summary = "Signs a list of credentials of different formats and starts one OIDC credential exchange flow."
+        description = "This endpoint issues W3C JWT, SD-JWT and mDoc credentials together. " +
+                "The format of each credential follows from its credentialConfigurationId. Returns an issuance URL"
+
+        request {
+            statusCallbackUriHeader()
+            sessionTtlHeader()
+            body<List<IssuanceRequest>> {
+                required = true
+                description =
+                    "Pass the unsigned credentials that you intend to issue as the body of the request."
+            }
+        }
+
+        response {
+            "200" to {
+                description = "Credential offer URL for all credentials"
+                body<String>()
+            }
+        }
+    }
+}
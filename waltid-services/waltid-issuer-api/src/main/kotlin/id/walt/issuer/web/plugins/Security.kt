@@ -7,6 +7,7 @@ import id.walt.issuer.config.OIDCIssuerServiceConfig
 import io.ktor.client.*
 import io.ktor.http.*
 import io.ktor.server.auth.*
+import java.security.MessageDigest
 
 val issuerAuthenticationPluginAmendment: suspend () -> Unit = suspend {
     val authenticationServiceConfig = ConfigManager.getConfig<AuthenticationServiceConfig>()
@@ -28,6 +29,15 @@ val issuerAuthenticationPluginAmendment: suspend () -> Unit = suspend {
                 }
                 urlProvider = { "${issuerServiceConfig.baseUrl}/callback" }
             }
+
+            bearer("auth-operator") {
+                authenticate { tokenCredential ->
+                    val operatorApiKey = issuerServiceConfig.operatorApiKey?.takeIf { it.isNotBlank() }
+                    if (operatorApiKey != null &&
+                        MessageDigest.isEqual(tokenCredential.token.toByteArray(), operatorApiKey.toByteArray())
+                    ) UserIdPrincipal("operator") else null
+                }
+            }
         }
     }
 }
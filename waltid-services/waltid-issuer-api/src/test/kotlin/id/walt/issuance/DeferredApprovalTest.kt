@@ -0,0 +1,151 @@
+package id.walt.issuance
+
+import id.walt.IssuerApiTest.Companion.TEST_ISSUER_DID
+import id.walt.IssuerApiTest.Companion.jsonKeyObj
+import id.walt.IssuerApiTest.Companion.jsonMappingObj
+import id.walt.IssuerApiTest.Companion.jsonVCObj
+import id.walt.commons.config.ConfigManager
+import id.walt.crypto.keys.KeyType
+import id.walt.crypto.keys.jwk.JWKKey
+import id.walt.did.dids.DidService
+import id.walt.issuer.issuance.*
+import id.walt.oid4vc.data.CredentialDefinition
+import id.walt.oid4vc.data.CredentialFormat
+import id.walt.oid4vc.data.ProofOfPossession
+import id.walt.oid4vc.errors.DeferredCredentialError
+import id.walt.oid4vc.requests.CredentialRequest
+import id.walt.oid4vc.responses.CredentialErrorCode
+import id.walt.testConfigs
+import kotlinx.coroutines.test.runTest
+import kotlin.test.*
+import kotlin.time.Duration.Companion.minutes
+
+/**
+ * Tests for deferred issuance with manual approval (IssuanceRequest.requireApproval).
+ */
+class DeferredApprovalTest {
+
+    private val nonce = "pop-nonce"
+
+    private fun issuanceRequest(requireApproval: Boolean?) = IssuanceRequest(
+        issuerKey = jsonKeyObj,
+        credentialData = jsonVCObj,
+        credentialConfigurationId = "OpenBadgeCredential_jwt_vc_json",
+        mapping = jsonMappingObj,
+        issuerDid = TEST_ISSUER_DID,
+        issuanceType = "DEFERRED",
+        requireApproval = requireApproval,
+    )
+
+    private class DeferredRequest(val session: IssuanceSession, val acceptanceToken: String)
+
+    /** Creates an offer and sends the wallet's credential request, which the issuer answers with a transaction id */
+    private suspend fun requestDeferredCredential(requireApproval: Boolean? = true): DeferredRequest {
+        ConfigManager.testWithConfigs(testConfigs)
+        DidService.minimalInit()
+
+        val session = OidcApi.initializeCredentialOffer(listOf(issuanceRequest(requireApproval)), expiresIn = 5.minutes)
+            .copy(cNonce = nonce)
+
+        val holderKey = JWKKey.generate(KeyType.Ed25519)
+        val holderDid = DidService.registerByKey("key", holderKey).did
+        val proof = ProofOfPossession.JWTProofBuilder("http://localhost:7002", null, nonce, "$holderDid#${holderKey.getKeyId()}")
+            .build(holderKey)
+
+        val response = OidcApi.generateCredentialResponse(
+            CredentialRequest(
+                format = CredentialFormat.jwt_vc_json,
+                credentialDefinition = CredentialDefinition(type = listOf("VerifiableCredential", "OpenBadgeCredential")),
+                proof = proof
+            ),
+            session
+        )
+        assertNull(response.credential)
+        return DeferredRequest(session, assertNotNull(response.acceptanceToken))
+    }
+
+    private fun DeferredRequest.getDeferredIssuance() =
+        OidcApi.listDeferredIssuances().singleOrNull { it.sessionId == session.id }
+
+    private fun DeferredRequest.getDeferredCredentialError() =
+        assertFailsWith<DeferredCredentialError> { OidcApi.generateDeferredCredentialResponse(acceptanceToken) }
+
+    @Test
+    fun `credential requiring approval is held as pending`() = runTest {
+        val request = requestDeferredCredential()
+
+        val deferredIssuance = assertNotNull(request.getDeferredIssuance())
+        assertEquals(DeferredIssuanceStatus.PENDING, deferredIssuance.status)
+        assertEquals("OpenBadgeCredential_jwt_vc_json", deferredIssuance.credentialConfigurationId)
+        assertEquals(CredentialFormat.jwt_vc_json, deferredIssuance.format)
+        assertNull(deferredIssuance.decidedAt)
+
+        val error = request.getDeferredCredentialError()
+        assertEquals(CredentialErrorCode.issuance_pending, error.errorCode)
+
+        // The wallet keeps polling, the session stays open
+        OidcApi.failDeferredIssuanceSession(request.acceptanceToken, error)
+        val session = assertNotNull(OidcApi.getSession(request.session.id))
+        assertEquals(IssuanceSessionStatus.ACTIVE, session.status)
+        assertFalse(session.isClosed)
+    }
+
+    @Test
+    fun `approved credential is issued with the next deferred credential request`() = runTest {
+        val request = requestDeferredCredential()
+        val credentialId = assertNotNull(request.getDeferredIssuance()).credentialId
+
+        val approved = assertNotNull(OidcApi.decideDeferredIssuance(credentialId, approve = true))
+        assertEquals(DeferredIssuanceStatus.APPROVED, approved.status)
+        assertNotNull(approved.decidedAt)
+        assertEquals(DeferredIssuanceStatus.APPROVED, request.getDeferredIssuance()?.status)
+
+        val response = OidcApi.generateDeferredCredentialResponse(request.acceptanceToken)
+        assertNotNull(response.credential)
+        assertEquals(IssuanceSessionStatus.SUCCESSFUL, OidcApi.getSession(request.session.id)?.status)
+    }
+
+    @Test
+    fun `rejected credential is denied with the reason`() = runTest {
+        val request = requestDeferredCredential()
+        val credentialId = assertNotNull(request.getDeferredIssuance()).credentialId
+
+        val rejected = assertNotNull(OidcApi.decideDeferredIssuance(credentialId, approve = false, reason = "Documents missing"))
+        assertEquals(DeferredIssuanceStatus.REJECTED, rejected.status)
+        assertEquals("Documents missing", rejected.statusReason)
+
+        val error = request.getDeferredCredentialError()
+        assertEquals(CredentialErrorCode.credential_request_denied, error.errorCode)
+        assertEquals("Documents missing", error.message)
+
+        OidcApi.failDeferredIssuanceSession(request.acceptanceToken, error)
+        val session = assertNotNull(OidcApi.getSession(request.session.id))
+        assertEquals(IssuanceSessionStatus.UNSUCCESSFUL, session.status)
+        assertTrue(session.isClosed)
+    }
+
+    @Test
+    fun `decided credential cannot be decided again`() = runTest {
+        val request = requestDeferredCredential()
+        val credentialId = assertNotNull(request.getDeferredIssuance()).credentialId
+
+        OidcApi.decideDeferredIssuance(credentialId, approve = false)
+        assertFailsWith<IllegalArgumentException> { OidcApi.decideDeferredIssuance(credentialId, approve = true) }
+        assertEquals(DeferredIssuanceStatus.REJECTED, request.getDeferredIssuance()?.status)
+    }
+
+    @Test
+    fun `unknown credential cannot be decided`() = runTest {
+        ConfigManager.testWithConfigs(testConfigs)
+
+        assertNull(OidcApi.decideDeferredIssuance("unknown-credential-id", approve = true))
+    }
+
+    @Test
+    fun `deferred credential without approval is not held`() = runTest {
+        val request = requestDeferredCredential(requireApproval = null)
+
+        assertNull(request.getDeferredIssuance())
+        assertNotNull(OidcApi.generateDeferredCredentialResponse(request.acceptanceToken).credential)
+    }
+}
@@ -0,0 +1,107 @@
+package id.walt.issuance
+
+import id.walt.IssuerApiTest.Companion.TEST_ISSUER_DID
+import id.walt.IssuerApiTest.Companion.jsonKeyObj
+import id.walt.IssuerApiTest.Companion.jsonMappingObj
+import id.walt.IssuerApiTest.Companion.jsonVCObj
+import id.walt.commons.config.ConfigManager
+import id.walt.issuer.issuance.IssuanceRequest
+import id.walt.issuer.issuance.OidcApi
+import id.walt.issuer.issuance.createCredentialOfferUri
+import id.walt.mdoc.doc.MDocTypes
+import id.walt.oid4vc.data.CredentialDefinition
+import id.walt.oid4vc.data.CredentialFormat
+import id.walt.oid4vc.requests.CredentialRequest
+import id.walt.testConfigs
+import io.ktor.http.*
+import kotlinx.coroutines.test.runTest
+import kotlinx.serialization.json.JsonPrimitive
+import kotlinx.serialization.json.buildJsonObject
+import kotlin.test.*
+
+/**
+ * Tests for issuance sessions holding credentials of several formats (POST openid4vc/issueBatch).
+ */
+class MixedFormatBatchTest {
+
+    private val jwtRequest = IssuanceRequest(
+        issuerKey = jsonKeyObj,
+        credentialData = jsonVCObj,
+        credentialConfigurationId = "OpenBadgeCredential_jwt_vc_json",
+        mapping = jsonMappingObj,
+        issuerDid = TEST_ISSUER_DID,
+    )
+
+    private val mdocRequest = IssuanceRequest(
+        issuerKey = jsonKeyObj,
+        credentialConfigurationId = MDocTypes.ISO_MDL,
+        mdocData = mapOf("org.iso.18013.5.1" to buildJsonObject { put("family_name", JsonPrimitive("Doe")) }),
+    )
+
+    private val sdJwtRequest = IssuanceRequest(
+        issuerKey = jsonKeyObj,
+        credentialData = buildJsonObject { put("funding_source", buildJsonObject { put("type", JsonPrimitive("card")) }) },
+        credentialConfigurationId = "PaymentWalletAttestation",
+        issuerDid = TEST_ISSUER_DID,
+    )
+
+    private val openBadgeRequest = CredentialRequest(
+        format = CredentialFormat.jwt_vc_json,
+        credentialDefinition = CredentialDefinition(type = listOf("VerifiableCredential", "OpenBadgeCredential")),
+    )
+
+    private fun getSession(offerUri: String) =
+        assertNotNull(OidcApi.getSession(Url(Url(offerUri).parameters["credential_offer_uri"]!!).parameters["id"]!!))
+
+    @Test
+    fun `mixed batch keeps the format of each credential configuration`() = runTest {
+        ConfigManager.testWithConfigs(testConfigs)
+
+        val session = getSession(createCredentialOfferUri(listOf(mdocRequest, sdJwtRequest, jwtRequest), credentialFormat = null))
+
+        assertEquals(
+            listOf(CredentialFormat.mso_mdoc, CredentialFormat.sd_jwt_dc, CredentialFormat.jwt_vc_json),
+            session.issuanceRequests.map { it.credentialFormat }
+        )
+        assertEquals("PaymentWalletAttestation", session.issuanceRequests[1].vct)
+        assertNull(session.issuanceRequests[0].vct)
+    }
+
+    @Test
+    fun `mixed batch matches credential requests of each format`() = runTest {
+        ConfigManager.testWithConfigs(testConfigs)
+        val session = getSession(createCredentialOfferUri(listOf(mdocRequest, sdJwtRequest, jwtRequest), credentialFormat = null))
+
+        fun match(credentialRequest: CredentialRequest) =
+            OidcApi.findMatchingIssuanceRequest(credentialRequest, session.issuanceRequests)?.credentialConfigurationId
+
+        assertEquals(MDocTypes.ISO_MDL, match(CredentialRequest(format = CredentialFormat.mso_mdoc, docType = MDocTypes.ISO_MDL)))
+        assertEquals(
+            "PaymentWalletAttestation",
+            match(CredentialRequest(format = CredentialFormat.sd_jwt_dc, vct = "PaymentWalletAttestation"))
+        )
+        assertEquals("OpenBadgeCredential_jwt_vc_json", match(openBadgeRequest))
+        // The vct is only offered as dc+sd-jwt
+        assertNull(match(CredentialRequest(format = CredentialFormat.sd_jwt_vc, vct = "PaymentWalletAttestation")))
+    }
+
+    @Test
+    fun `single-format session rejects a credential request of another format`() = runTest {
+        ConfigManager.testWithConfigs(testConfigs)
+        val session = getSession(createCredentialOfferUri(listOf(jwtRequest), CredentialFormat.jwt_vc_json))
+
+        assertNotNull(OidcApi.findMatchingIssuanceRequest(openBadgeRequest, session.issuanceRequests))
+        assertNull(
+            OidcApi.findMatchingIssuanceRequest(
+                openBadgeRequest.copy(format = CredentialFormat.sd_jwt_vc),
+                session.issuanceRequests
+            )
+        )
+        assertNull(
+            OidcApi.findMatchingIssuanceRequest(
+                CredentialRequest(format = CredentialFormat.mso_mdoc, docType = MDocTypes.ISO_MDL),
+                session.issuanceRequests
+            )
+        )
+    }
+}
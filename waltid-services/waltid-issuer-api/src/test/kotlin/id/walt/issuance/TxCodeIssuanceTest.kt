@@ -0,0 +1,102 @@
+package id.walt.issuance
+
+import id.walt.IssuerApiTest.Companion.TEST_ISSUER_DID
+import id.walt.IssuerApiTest.Companion.jsonKeyObj
+import id.walt.IssuerApiTest.Companion.jsonMappingObj
+import id.walt.IssuerApiTest.Companion.jsonVCObj
+import id.walt.commons.config.ConfigManager
+import id.walt.issuer.issuance.IssuanceRequest
+import id.walt.issuer.issuance.OidcApi
+import id.walt.issuer.issuance.createCredentialOfferUri
+import id.walt.oid4vc.data.AuthenticationMethod
+import id.walt.oid4vc.data.CredentialFormat
+import id.walt.oid4vc.data.TxCode
+import id.walt.oid4vc.data.TxInputMode
+import id.walt.testConfigs
+import io.ktor.http.*
+import io.ktor.server.plugins.*
+import kotlinx.coroutines.test.runTest
+import kotlin.test.*
+
+/**
+ * Tests for tx_code (PIN) protected pre-authorized offers.
+ */
+class TxCodeIssuanceTest {
+
+    private val pin = TxCode(TxInputMode.numeric, 4, "PIN from the confirmation letter")
+
+    private fun issuanceRequest(
+        credentialConfigurationId: String = "OpenBadgeCredential_jwt_vc_json",
+        txCode: TxCode? = pin,
+        txCodeValue: String? = "1234",
+        authenticationMethod: AuthenticationMethod = AuthenticationMethod.PRE_AUTHORIZED,
+    ) = IssuanceRequest(
+        issuerKey = jsonKeyObj,
+        credentialData = jsonVCObj,
+        credentialConfigurationId = credentialConfigurationId,
+        mapping = jsonMappingObj,
+        issuerDid = TEST_ISSUER_DID,
+        authenticationMethod = authenticationMethod,
+        txCode = txCode,
+        txCodeValue = txCodeValue,
+    )
+
+    private fun getSessionId(offerUri: String) =
+        Url(Url(offerUri).parameters["credential_offer_uri"]!!).parameters["id"]!!
+
+    @Test
+    fun `tx_code is only allowed for the pre-authorized code flow`() {
+        assertFailsWith<BadRequestException> { issuanceRequest(authenticationMethod = AuthenticationMethod.ID_TOKEN) }
+    }
+
+    @Test
+    fun `tx_code requires a txCodeValue`() {
+        assertFailsWith<BadRequestException> { issuanceRequest(txCodeValue = null) }
+        assertFailsWith<BadRequestException> { issuanceRequest(txCodeValue = "") }
+    }
+
+    @Test
+    fun `txCodeValue has to match the tx_code length and input mode`() {
+        assertFailsWith<BadRequestException> { issuanceRequest(txCodeValue = "12345") }
+        assertFailsWith<BadRequestException> { issuanceRequest(txCodeValue = "12a4") }
+        issuanceRequest(txCode = TxCode(TxInputMode.text, 4), txCodeValue = "12a4")
+    }
+
+    @Test
+    fun `batch with one tx_code creates a protected session`() = runTest {
+        ConfigManager.testWithConfigs(testConfigs)
+
+        val offerUri = createCredentialOfferUri(
+            listOf(issuanceRequest(), issuanceRequest(credentialConfigurationId = "BankId_jwt_vc_json")),
+            CredentialFormat.jwt_vc_json
+        )
+
+        val session = assertNotNull(OidcApi.getSession(getSessionId(offerUri)))
+        assertEquals(pin, session.txCode)
+        assertEquals("1234", session.txCodeValue)
+    }
+
+    @Test
+    fun `batch with different tx_code values is rejected`() = runTest {
+        ConfigManager.testWithConfigs(testConfigs)
+
+        assertFailsWith<BadRequestException> {
+            createCredentialOfferUri(
+                listOf(issuanceRequest(), issuanceRequest(credentialConfigurationId = "BankId_jwt_vc_json", txCodeValue = "4321")),
+                CredentialFormat.jwt_vc_json
+            )
+        }
+    }
+
+    @Test
+    fun `batch with different tx_codes is rejected`() = runTest {
+        ConfigManager.testWithConfigs(testConfigs)
+
+        assertFailsWith<BadRequestException> {
+            createCredentialOfferUri(
+                listOf(issuanceRequest(), issuanceRequest(credentialConfigurationId = "BankId_jwt_vc_json", txCode = null, txCodeValue = null)),
+                CredentialFormat.jwt_vc_json
+            )
+        }
+    }
+}
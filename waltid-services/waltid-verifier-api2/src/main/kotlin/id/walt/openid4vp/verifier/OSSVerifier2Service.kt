@@ -36,6 +36,7 @@ import kotlin.uuid.ExperimentalUuidApi
 private val log = logger("Verifier2Service")
 private const val VERIFICATION_SESSION = "verification-session"
 private const val VICAL = "vical"
+private const val RESPONSE_CODE = "response_code"
 
 
 object Verifier2Service {
@@ -90,27 +91,41 @@ object Verifier2Service {
 
                     get("info", {
                         summary = "View data of existing verification session"
-                        request { pathParameter<String>(VERIFICATION_SESSION) }
+                        request {
+                            pathParameter<String>(VERIFICATION_SESSION)
+                            queryParameter<String>(RESPONSE_CODE) {
+                                description = "Response code from the wallet redirect, required for same-device sessions"
+                                required = false
+                            }
+                        }
                         response { HttpStatusCode.OK to { body<Verification2Session>() } }
                     }
                     ) {
                         val verifierSession =
                             sessions[call.parameters.getOrFail(VERIFICATION_SESSION)]
                                 ?: throw IllegalArgumentException("Unknown session id")
+                        verifierSession.checkResponseCode(call.request.queryParameters[RESPONSE_CODE])
                         call.respond(verifierSession)
                     }
 
                     route({
                         summary = "Receive update events via SSE about the verification session"
-                        request { pathParameter<String>(VERIFICATION_SESSION) }
+                        request {
+                            pathParameter<String>(VERIFICATION_SESSION)
+                            queryParameter<String>(RESPONSE_CODE) {
+                                description = "Response code from the wallet redirect, required for same-device sessions"
+                                required = false
+                            }
+                        }
                     }) {
                         sse("$VERIFICATION_SESSION/events", serialize = { typeInfo, it ->
                             val serializer = Json.serializersModule.serializer(typeInfo.kotlinType!!)
                             Json.encodeToString(serializer, it)
                         }) {
                             val verifierSession =
-                                sessions[call.parameters.getOrFail("sessionId")]
+                                sessions[call.parameters.getOrFail(VERIFICATION_SESSION)]
                                     ?: throw IllegalArgumentException("Unknown session id")
+                            verifierSession.checkResponseCode(call.request.queryParameters[RESPONSE_CODE])
 
                             // Get the flow for this specific target.
                             val sseFlow = SseNotifier.getSseFlow(verifierSession.id)